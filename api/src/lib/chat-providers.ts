@@ -0,0 +1,299 @@
+import { chatAnswerOutput, chatCitationOutput } from '../schemas';
+import type { ChatCitation, ChatResult, MarbleBindings } from '../types';
+
+export class ChatProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatProviderError';
+  }
+}
+
+export type ChatProviderName = 'openai' | 'openai-compatible' | 'anthropic' | 'fake';
+
+export interface ChatRequest {
+  // Instructions and retrieved context, in order.
+  system: string[];
+  user: string;
+}
+
+export interface ChatProvider {
+  name: ChatProviderName;
+  model: string;
+  complete(request: ChatRequest): Promise<ChatResult>;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_OPENAI_MODEL = 'gpt-4.1-mini';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-latest';
+const DEFAULT_MAX_TOKENS = 2048;
+
+const ANSWER_NAME = 'marble_answer';
+
+const ANSWER_SCHEMA = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    citations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          folder: { type: 'string' },
+          file: { type: 'string' },
+          lines: {
+            type: 'array',
+            items: { type: 'integer' },
+            minItems: 2,
+            maxItems: 2,
+          },
+        },
+        required: ['folder', 'file', 'lines'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['answer', 'citations'],
+  additionalProperties: false,
+} as const;
+
+const UNPARSED_ANSWER: ChatResult = {
+  answer: 'I had trouble parsing the model response.',
+  citations: [],
+};
+
+/** Validates a model's structured output; citations that do not match the schema are dropped. */
+export function parseChatResult(value: unknown): ChatResult | null {
+  const parsed = chatAnswerOutput.safeParse(value);
+  if (!parsed.success) {
+    return null;
+  }
+  const citations: ChatCitation[] = [];
+  for (const candidate of parsed.data.citations ?? []) {
+    const citation = chatCitationOutput.safeParse(candidate);
+    if (citation.success) {
+      citations.push(citation.data);
+    }
+  }
+  return { answer: parsed.data.answer ?? '', citations };
+}
+
+// Models without structured output often wrap the JSON in a Markdown fence.
+function stripFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  return match ? match[1] : text;
+}
+
+/** Reads a text reply as answer JSON, falling back to the text itself with no citations. */
+export function chatResultFromText(text: string): ChatResult | null {
+  try {
+    const result = parseChatResult(JSON.parse(stripFence(text)));
+    if (result) {
+      return result;
+    }
+  } catch {}
+  return text.trim() ? { answer: text, citations: [] } : null;
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown): Promise<Record<string, unknown>> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.text();
+    throw new ChatProviderError(`Chat request failed: ${response.status} ${error}`);
+  }
+  return (await response.json()) as Record<string, unknown>;
+}
+
+function logUnparsed(provider: ChatProviderName, payload: unknown) {
+  try {
+    console.error('Chat response unparsed', provider, JSON.stringify(payload));
+  } catch {}
+}
+
+const asRecords = (value: unknown): Array<Record<string, unknown>> =>
+  Array.isArray(value) ? value.filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object') : [];
+
+// OpenAI Responses API with a strict JSON schema; the answer arrives as `output_text` content.
+function openAIResponsesProvider(env: MarbleBindings): ChatProvider {
+  const model = env.CHAT_MODEL ?? env.OPENAI_MODEL ?? DEFAULT_OPENAI_MODEL;
+  return {
+    name: 'openai',
+    model,
+    complete: async ({ system, user }) => {
+      if (!env.OPENAI_API_KEY) {
+        throw new ChatProviderError('Missing OPENAI_API_KEY binding');
+      }
+      const payload = await postJson(
+        `${OPENAI_BASE_URL}/responses`,
+        { Authorization: `Bearer ${env.OPENAI_API_KEY}` },
+        {
+          model,
+          input: [...system.map((content) => ({ role: 'system', content })), { role: 'user', content: user }],
+          text: { format: { type: 'json_schema', name: ANSWER_NAME, schema: ANSWER_SCHEMA } },
+        },
+      );
+
+      const texts: string[] = [];
+      for (const item of asRecords(payload.output)) {
+        for (const block of asRecords(item.content)) {
+          if (block.type === 'refusal' && typeof block.refusal === 'string') {
+            return { answer: block.refusal, citations: [] };
+          }
+          if (typeof block.text === 'string') {
+            texts.push(block.text);
+          }
+        }
+      }
+      if (typeof payload.output_text === 'string') {
+        texts.push(payload.output_text);
+      }
+      for (const text of texts) {
+        const result = chatResultFromText(text);
+        if (result) {
+          return result;
+        }
+      }
+      logUnparsed('openai', payload);
+      return UNPARSED_ANSWER;
+    },
+  };
+}
+
+// Chat Completions: OpenAI itself, Azure-style proxies and local servers such as Ollama or vLLM.
+function chatCompletionsProvider(env: MarbleBindings): ChatProvider {
+  const baseUrl = env.CHAT_BASE_URL?.trim().replace(/\/+$/, '');
+  const model = env.CHAT_MODEL ?? env.OPENAI_MODEL;
+  if (!baseUrl || !model) {
+    throw new ChatProviderError('CHAT_PROVIDER=openai-compatible needs CHAT_BASE_URL and CHAT_MODEL');
+  }
+  return {
+    name: 'openai-compatible',
+    model,
+    complete: async ({ system, user }) => {
+      const payload = await postJson(
+        `${baseUrl}/chat/completions`,
+        env.CHAT_API_KEY ? { Authorization: `Bearer ${env.CHAT_API_KEY}` } : {},
+        {
+          model,
+          messages: [...system.map((content) => ({ role: 'system', content })), { role: 'user', content: user }],
+          response_format: { type: 'json_schema', json_schema: { name: ANSWER_NAME, schema: ANSWER_SCHEMA, strict: true } },
+        },
+      );
+      const message = asRecords(payload.choices)[0]?.message as Record<string, unknown> | undefined;
+      if (typeof message?.refusal === 'string' && message.refusal) {
+        return { answer: message.refusal, citations: [] };
+      }
+      const result = typeof message?.content === 'string' ? chatResultFromText(message.content) : null;
+      if (result) {
+        return result;
+      }
+      logUnparsed('openai-compatible', payload);
+      return UNPARSED_ANSWER;
+    },
+  };
+}
+
+// Anthropic Messages API; the answer schema is offered as the only tool and the model must call it.
+function anthropicProvider(env: MarbleBindings): ChatProvider {
+  const model = env.CHAT_MODEL ?? DEFAULT_ANTHROPIC_MODEL;
+  return {
+    name: 'anthropic',
+    model,
+    complete: async ({ system, user }) => {
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new ChatProviderError('Missing ANTHROPIC_API_KEY binding');
+      }
+      const payload = await postJson(
+        `${ANTHROPIC_BASE_URL}/messages`,
+        { 'x-api-key': env.ANTHROPIC_API_KEY, 'anthropic-version': ANTHROPIC_VERSION },
+        {
+          model,
+          max_tokens: DEFAULT_MAX_TOKENS,
+          system: system.join('\n\n'),
+          messages: [{ role: 'user', content: user }],
+          tools: [{ name: ANSWER_NAME, description: 'Return the answer and its citations.', input_schema: ANSWER_SCHEMA }],
+          tool_choice: { type: 'tool', name: ANSWER_NAME },
+        },
+      );
+      const blocks = asRecords(payload.content);
+      const call = blocks.find((block) => block.type === 'tool_use' && block.name === ANSWER_NAME);
+      const result =
+        parseChatResult(call?.input) ??
+        chatResultFromText(
+          blocks
+            .filter((block) => block.type === 'text' && typeof block.text === 'string')
+            .map((block) => block.text as string)
+            .join(''),
+        );
+      if (result) {
+        return result;
+      }
+      logUnparsed('anthropic', payload);
+      return UNPARSED_ANSWER;
+    },
+  };
+}
+
+// Replies already used per environment, so a script advances across requests.
+const scriptTurns = new WeakMap<MarbleBindings, number>();
+
+/**
+ * Replays CHAT_SCRIPT, a JSON array of replies (answer objects, or raw text run through the same
+ * validation as real model output), repeating the last one; with no script it echoes the question.
+ * Lets tests and offline development run chat without a model.
+ */
+function fakeProvider(env: MarbleBindings): ChatProvider {
+  let script: unknown[] = [];
+  if (env.CHAT_SCRIPT) {
+    try {
+      const parsed = JSON.parse(env.CHAT_SCRIPT) as unknown;
+      script = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      throw new ChatProviderError('CHAT_SCRIPT must be a JSON array of replies');
+    }
+  }
+  return {
+    name: 'fake',
+    model: 'fake',
+    complete: async ({ user }) => {
+      if (!script.length) {
+        return { answer: `You asked: ${user}`, citations: [] };
+      }
+      const turn = scriptTurns.get(env) ?? 0;
+      scriptTurns.set(env, turn + 1);
+      const reply = script[Math.min(turn, script.length - 1)];
+      const result = typeof reply === 'string' ? chatResultFromText(reply) : parseChatResult(reply);
+      return result ?? UNPARSED_ANSWER;
+    },
+  };
+}
+
+const PROVIDERS: Record<ChatProviderName, (env: MarbleBindings) => ChatProvider> = {
+  openai: openAIResponsesProvider,
+  'openai-compatible': chatCompletionsProvider,
+  anthropic: anthropicProvider,
+  fake: fakeProvider,
+};
+
+function isProviderName(value: string): value is ChatProviderName {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+/** Picks the chat provider named by CHAT_PROVIDER (default `openai`, the Responses API). */
+export function resolveChatProvider(env: MarbleBindings): ChatProvider {
+  const name = env.CHAT_PROVIDER?.trim().toLowerCase() || 'openai';
+  if (!isProviderName(name)) {
+    throw new ChatProviderError(`Unknown CHAT_PROVIDER "${name}"; use ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+  return PROVIDERS[name](env);
+}
+
+/** The chat model in use, for sizing prompts. */
+export function chatModelName(env: MarbleBindings): string {
+  return resolveChatProvider(env).model;
+}
@@ -1,6 +1,14 @@
-interface ChunkOptions {
+import { splitCodeDeclarations, type CodeLanguage, type CodeSegment } from './code';
+import type { DocumentFormat } from './text-conversion';
+import { countTokens } from './tokens';
+import { formatTimestamp, parseTranscript, type TranscriptFormat } from './transcript';
+
+export interface ChunkOptions {
   chunkSize: number;
   overlap: number;
+  // Upper bound on each chunk's estimated tokens, e.g. the embedding model's input limit.
+  maxTokens?: number;
+  countTokens?: (text: string) => number;
 }
 
 export interface TextChunk {
@@ -8,8 +16,19 @@ export interface TextChunk {
   startLine: number;
   endLine: number;
   index: number;
+  headingPath?: string | null;
+  pageNumber?: number | null;
+  // Data row range (1-based, header excluded) for tabular formats.
+  rows?: [number, number] | null;
+  // Top-level declaration(s) covered by a source-code chunk, e.g. "function foo".
+  symbol?: string | null;
+  // Start/end of the cues in a transcript chunk, in milliseconds.
+  timeRange?: [number, number] | null;
 }
 
+// Paginated formats store their extracted text with a form feed between pages.
+export const PAGE_SEPARATOR = '\f';
+
 function buildLineOffsets(source: string): number[] {
   const offsets: number[] = [0];
   for (let i = 0; i < source.length; i++) {
@@ -38,6 +57,25 @@ function locateLine(offsets: number[], charIndex: number): number {
   return offsets.length;
 }
 
+// Shrinks a window until its estimated token count fits the budget.
+function fitWindow(source: string, position: number, end: number, options: ChunkOptions): number {
+  const { maxTokens } = options;
+  if (!maxTokens) {
+    return end;
+  }
+  const count = options.countTokens ?? countTokens;
+  let tokens = count(source.slice(position, end));
+  while (tokens > maxTokens && end - position > 1) {
+    end = position + Math.max(1, Math.floor(((end - position) * maxTokens * 0.95) / tokens));
+    tokens = count(source.slice(position, end));
+  }
+  return end;
+}
+
+/**
+ * Splits text into windows of at most `chunkSize` characters and, when `maxTokens` is set,
+ * at most `maxTokens` estimated tokens; dense text such as code or CJK gets shorter windows.
+ */
 export function chunkText(source: string, options: ChunkOptions): TextChunk[] {
   const { chunkSize, overlap } = options;
   if (chunkSize <= 0) {
@@ -48,7 +86,7 @@ export function chunkText(source: string, options: ChunkOptions): TextChunk[] {
   const chunks: TextChunk[] = [];
   let index = 0;
   for (let position = 0; position < source.length; ) {
-    const end = Math.min(source.length, position + chunkSize);
+    const end = fitWindow(source, position, Math.min(source.length, position + chunkSize), options);
     const content = source.slice(position, end);
     const startLine = locateLine(offsets, position);
     const lastCharIndex = end > position ? end - 1 : position;
@@ -65,8 +103,619 @@ export function chunkText(source: string, options: ChunkOptions): TextChunk[] {
       break;
     }
 
-    position = Math.max(0, end - overlap);
+    // Token-shrunk windows can be shorter than the overlap; always move forward.
+    position = end - overlap > position ? end - overlap : end;
     index += 1;
   }
   return chunks;
 }
+
+function countNewlines(source: string, from: number, to: number): number {
+  let count = 0;
+  for (let i = from; i < to; i++) {
+    if (source.charCodeAt(i) === 10) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+// Consumed text is dropped from the stream buffer once this much has piled up.
+const STREAM_COMPACT_CHARS = 64 * 1024;
+
+/**
+ * Streaming variant of `chunkText` for text too large to hold in memory. Reads `pieces` as
+ * they arrive and yields exactly the chunks (and line numbers) `chunkText` would produce for
+ * their concatenation, buffering little more than one window.
+ */
+export async function* chunkTextStream(pieces: AsyncIterable<string>, options: ChunkOptions): AsyncGenerator<TextChunk> {
+  const { chunkSize, overlap } = options;
+  if (chunkSize <= 0) {
+    throw new Error('chunkSize must be > 0');
+  }
+
+  const iterator = pieces[Symbol.asyncIterator]();
+  let buffer = '';
+  let position = 0;
+  // 1-based line number of buffer[position].
+  let line = 1;
+  let exhausted = false;
+  let index = 0;
+  while (true) {
+    // A window is only cut once more text than it can hold is buffered, so `end` below
+    // reaches the end of the buffer only at the end of the source.
+    while (!exhausted && buffer.length - position <= chunkSize) {
+      const next = await iterator.next();
+      if (next.done) {
+        exhausted = true;
+      } else {
+        buffer += next.value;
+      }
+    }
+    if (position >= buffer.length) {
+      return;
+    }
+
+    const end = fitWindow(buffer, position, Math.min(buffer.length, position + chunkSize), options);
+    yield {
+      content: buffer.slice(position, end),
+      startLine: line,
+      endLine: line + countNewlines(buffer, position, end - 1),
+      index,
+    };
+    if (exhausted && end === buffer.length) {
+      return;
+    }
+
+    const nextPosition = end - overlap > position ? end - overlap : end;
+    line += countNewlines(buffer, position, nextPosition);
+    position = nextPosition;
+    index += 1;
+    if (position >= STREAM_COMPACT_CHARS) {
+      buffer = buffer.slice(position);
+      position = 0;
+    }
+  }
+}
+
+interface MarkdownSection {
+  start: number;
+  end: number;
+  headingPath: string[];
+  hasBody: boolean;
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+function splitMarkdownSections(source: string): MarkdownSection[] {
+  const lines = source.split('\n');
+  const sections: MarkdownSection[] = [];
+  const stack: Array<{ level: number; title: string }> = [];
+  let current: MarkdownSection = { start: 0, end: source.length, headingPath: [], hasBody: false };
+  let fence: string | null = null;
+  let offset = 0;
+
+  const openSection = (start: number, level: number, title: string) => {
+    current.end = start;
+    sections.push(current);
+    while (stack.length && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    stack.push({ level, title });
+    current = {
+      start,
+      end: source.length,
+      headingPath: stack.map((entry) => entry.title),
+      hasBody: false,
+    };
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+    const lineStart = offset;
+    offset += lines[i].length + 1;
+
+    const fenceMatch = FENCE.exec(line);
+    if (fenceMatch) {
+      const marker = fenceMatch[1][0];
+      if (!fence) {
+        fence = marker;
+      } else if (fence === marker) {
+        fence = null;
+      }
+      current.hasBody = true;
+      continue;
+    }
+    if (fence) {
+      current.hasBody = true;
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      openSection(lineStart, heading[1].length, heading[2].trim() || heading[1]);
+      continue;
+    }
+
+    // Setext headings: a text line underlined with === (h1) or --- (h2).
+    const next = lines[i + 1]?.replace(/\r$/, '');
+    if (line.trim() && next !== undefined && /^ {0,3}(=+|-+)[ \t]*$/.test(next)) {
+      const previous = i > 0 ? lines[i - 1].trim() : '';
+      if (!previous) {
+        openSection(lineStart, next.trim().startsWith('=') ? 1 : 2, line.trim());
+        offset += lines[i + 1].length + 1;
+        i += 1;
+        continue;
+      }
+    }
+
+    if (line.trim()) {
+      current.hasBody = true;
+    }
+  }
+  sections.push(current);
+
+  const nonEmpty = sections.filter((section) => section.end > section.start);
+  const withBody = nonEmpty.filter((section) => section.hasBody);
+  return withBody.length ? withBody : nonEmpty;
+}
+
+/**
+ * Chunks Markdown on heading boundaries so every chunk stays inside one section.
+ * Sections longer than `chunkSize` fall back to windowed chunking within the section.
+ */
+export function chunkMarkdown(source: string, options: ChunkOptions): TextChunk[] {
+  const offsets = buildLineOffsets(source);
+  const chunks: TextChunk[] = [];
+
+  for (const section of splitMarkdownSections(source)) {
+    const body = source.slice(section.start, section.end);
+    if (!body.trim()) {
+      continue;
+    }
+    const lineShift = locateLine(offsets, section.start) - 1;
+    const headingPath = section.headingPath.length ? section.headingPath.join(' > ') : null;
+    for (const piece of chunkText(body.replace(/\n+$/, ''), options)) {
+      chunks.push({
+        content: piece.content,
+        startLine: piece.startLine + lineShift,
+        endLine: piece.endLine + lineShift,
+        index: chunks.length,
+        headingPath,
+      });
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Chunks paginated text page by page. Chunks never span pages and line numbers
+ * restart at 1 on each page, matching what a reader sees in the original document.
+ */
+export function chunkPages(source: string, options: ChunkOptions, chunkPage: TextChunker = chunkText): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  source.split(PAGE_SEPARATOR).forEach((page, pageIndex) => {
+    if (!page.trim()) {
+      return;
+    }
+    for (const piece of chunkPage(page.replace(/\n+$/, ''), options)) {
+      chunks.push({ ...piece, index: chunks.length, pageNumber: pageIndex + 1 });
+    }
+  });
+  return chunks;
+}
+
+interface DelimitedRecord {
+  text: string;
+  startLine: number;
+  endLine: number;
+}
+
+// Splits delimited text into records; quoted fields may contain delimiters and newlines.
+function splitDelimitedRecords(source: string): DelimitedRecord[] {
+  const records: DelimitedRecord[] = [];
+  let start = 0;
+  let line = 1;
+  let startLine = 1;
+  let quoted = false;
+
+  const flush = (end: number) => {
+    const text = source.slice(start, end).replace(/\r$/, '');
+    if (text.trim()) {
+      records.push({ text, startLine, endLine: line });
+    }
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === '\n') {
+      if (!quoted) {
+        flush(i);
+        start = i + 1;
+        startLine = line + 1;
+      }
+      line += 1;
+    }
+  }
+  flush(source.length);
+  return records;
+}
+
+/**
+ * Chunks CSV/TSV by whole rows. Every chunk starts with the header row so each embedding
+ * knows the column names; `rows` holds the data row range, `startLine`/`endLine` the source lines.
+ */
+export function chunkTable(source: string, options: ChunkOptions): TextChunk[] {
+  const records = splitDelimitedRecords(source);
+  if (!records.length) {
+    return [];
+  }
+  const [header, ...rows] = records;
+  if (!rows.length) {
+    return [{ content: header.text, startLine: header.startLine, endLine: header.endLine, index: 0, rows: null }];
+  }
+
+  const chunks: TextChunk[] = [];
+  let group: DelimitedRecord[] = [];
+  let groupStartRow = 1;
+  let size = header.text.length;
+
+  const flush = () => {
+    if (!group.length) return;
+    chunks.push({
+      content: [header.text, ...group.map((row) => row.text)].join('\n'),
+      startLine: group[0].startLine,
+      endLine: group[group.length - 1].endLine,
+      index: chunks.length,
+      rows: [groupStartRow, groupStartRow + group.length - 1],
+    });
+    groupStartRow += group.length;
+    group = [];
+    size = header.text.length;
+  };
+
+  for (const row of rows) {
+    if (group.length && size + row.text.length + 1 > options.chunkSize) {
+      flush();
+    }
+    group.push(row);
+    size += row.text.length + 1;
+  }
+  flush();
+  return chunks;
+}
+
+// Splits a run of whole lines into windows of at most `chunkSize` characters, carrying
+// trailing lines forward as overlap. Lines longer than a window are split mid-line.
+function chunkLines(lines: string[], firstLine: number, options: ChunkOptions): Array<Omit<TextChunk, 'index'>> {
+  const pieces: Array<Omit<TextChunk, 'index'>> = [];
+  let start = 0;
+  while (start < lines.length) {
+    let end = start;
+    let size = 0;
+    while (end < lines.length && (end === start || size + lines[end].length + 1 <= options.chunkSize)) {
+      size += lines[end].length + 1;
+      end += 1;
+    }
+    if (end === start + 1 && lines[start].length > options.chunkSize) {
+      for (const piece of chunkText(lines[start], options)) {
+        pieces.push({ content: piece.content, startLine: firstLine + start, endLine: firstLine + start });
+      }
+    } else {
+      pieces.push({ content: lines.slice(start, end).join('\n'), startLine: firstLine + start, endLine: firstLine + end - 1 });
+    }
+    if (end >= lines.length) {
+      break;
+    }
+    let next = end;
+    let carried = 0;
+    while (next - 1 > start && carried + lines[next - 1].length + 1 <= options.overlap) {
+      next -= 1;
+      carried += lines[next].length + 1;
+    }
+    start = next;
+  }
+  return pieces;
+}
+
+function describeSymbols(symbols: string[]): string | null {
+  if (symbols.length <= 2) {
+    return symbols.join(', ') || null;
+  }
+  return `${symbols.slice(0, 2).join(', ')} +${symbols.length - 2} more`;
+}
+
+/**
+ * Chunks source code on top-level declarations. Small neighbouring declarations share a
+ * chunk; declarations longer than `chunkSize` are split on line boundaries and keep their symbol.
+ */
+export function chunkCode(source: string, language: CodeLanguage, options: ChunkOptions): TextChunk[] {
+  const lines = source.split('\n').map((line) => line.replace(/\r$/, ''));
+  const chunks: TextChunk[] = [];
+  let group: CodeSegment[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (!group.length) return;
+    const startLine = group[0].startLine;
+    const endLine = group[group.length - 1].endLine;
+    chunks.push({
+      content: lines.slice(startLine - 1, endLine).join('\n'),
+      startLine,
+      endLine,
+      index: chunks.length,
+      symbol: describeSymbols(group.flatMap((segment) => (segment.symbol ? [segment.symbol] : []))),
+    });
+    group = [];
+    size = 0;
+  };
+
+  for (const segment of splitCodeDeclarations(source, language)) {
+    const segmentSize = lines
+      .slice(segment.startLine - 1, segment.endLine)
+      .reduce((total, line) => total + line.length + 1, 0);
+    if (segmentSize > options.chunkSize) {
+      flush();
+      for (const piece of chunkLines(lines.slice(segment.startLine - 1, segment.endLine), segment.startLine, options)) {
+        chunks.push({ ...piece, index: chunks.length, symbol: segment.symbol });
+      }
+      continue;
+    }
+    // Gaps between segments are blank lines, so the group's line span is what gets embedded.
+    const spanned = group.length ? segment.startLine - group[group.length - 1].endLine - 1 : 0;
+    if (group.length && size + spanned + segmentSize > options.chunkSize) {
+      flush();
+    }
+    size += (group.length ? spanned : 0) + segmentSize;
+    group.push(segment);
+  }
+  flush();
+  return chunks;
+}
+
+// Transcript chunks cover at most this much playback time.
+const TRANSCRIPT_WINDOW_MS = 2 * 60 * 1000;
+
+/**
+ * Chunks SRT/VTT transcripts into time windows of whole cues, one `[HH:MM:SS] text` line per cue.
+ * A window closes after TRANSCRIPT_WINDOW_MS or when the next cue would exceed `chunkSize`.
+ */
+export function chunkTranscript(source: string, format: TranscriptFormat, options: ChunkOptions): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let group: Array<{ line: string; startMs: number; endMs: number; startLine: number; endLine: number }> = [];
+  let size = 0;
+
+  const flush = () => {
+    if (!group.length) return;
+    chunks.push({
+      content: group.map((cue) => cue.line).join('\n'),
+      startLine: group[0].startLine,
+      endLine: group[group.length - 1].endLine,
+      index: chunks.length,
+      timeRange: [group[0].startMs, Math.max(...group.map((cue) => cue.endMs))],
+    });
+    group = [];
+    size = 0;
+  };
+
+  for (const cue of parseTranscript(source, format)) {
+    const line = `[${formatTimestamp(cue.startMs)}] ${cue.text}`;
+    if (group.length && (cue.startMs - group[0].startMs >= TRANSCRIPT_WINDOW_MS || size + line.length + 1 > options.chunkSize)) {
+      flush();
+    }
+    group.push({ ...cue, line });
+    size += line.length + 1;
+  }
+  flush();
+  return chunks;
+}
+
+interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// Paragraphs are runs of non-blank lines.
+function splitParagraphs(source: string): TextSpan[] {
+  return [...source.matchAll(/[^\n]*\S[^\n]*(?:\n[^\n]*\S[^\n]*)*/g)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+// A sentence ends at terminal punctuation followed by whitespace and a non-lowercase
+// character (so "e.g. this" stays whole), or at a blank line.
+function splitSentences(source: string): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const boundary = /[.!?]+["'”’)\]]*(?=\s+(?![a-z]))|\n[ \t]*\n/g;
+  let start = 0;
+  for (const match of source.matchAll(boundary)) {
+    const end = match.index + match[0].length;
+    if (source.slice(start, end).trim()) {
+      spans.push(trimSpan(source, start, end));
+    }
+    start = end;
+  }
+  if (source.slice(start).trim()) {
+    spans.push(trimSpan(source, start, source.length));
+  }
+  return spans;
+}
+
+function trimSpan(source: string, start: number, end: number): TextSpan {
+  while (start < end && /\s/.test(source[start])) start += 1;
+  while (end > start && /\s/.test(source[end - 1])) end -= 1;
+  return { start, end };
+}
+
+/**
+ * Packs consecutive spans into chunks whose weight (as measured by `weigh(first, last)`)
+ * stays within `chunkSize`, carrying trailing spans forward as overlap. A single span heavier
+ * than `chunkSize` falls back to fixed windows over its characters.
+ */
+function packSpans(
+  source: string,
+  spans: TextSpan[],
+  options: ChunkOptions,
+  weigh: (first: number, last: number) => number,
+): TextChunk[] {
+  const offsets = buildLineOffsets(source);
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  while (start < spans.length) {
+    let end = start + 1;
+    while (end < spans.length && weigh(start, end) <= options.chunkSize) {
+      end += 1;
+    }
+    const first = spans[start];
+    const last = spans[end - 1];
+    if (end === start + 1 && weigh(start, start) > options.chunkSize) {
+      const lineShift = locateLine(offsets, first.start) - 1;
+      for (const piece of chunkText(source.slice(first.start, first.end), options)) {
+        chunks.push({
+          ...piece,
+          startLine: piece.startLine + lineShift,
+          endLine: piece.endLine + lineShift,
+          index: chunks.length,
+        });
+      }
+    } else {
+      chunks.push({
+        content: source.slice(first.start, last.end),
+        startLine: locateLine(offsets, first.start),
+        endLine: locateLine(offsets, last.end - 1),
+        index: chunks.length,
+      });
+    }
+    if (end >= spans.length) {
+      break;
+    }
+    let next = end;
+    while (next - 1 > start && weigh(next - 1, end - 1) <= options.overlap) {
+      next -= 1;
+    }
+    start = next;
+  }
+  return chunks;
+}
+
+function chunkSpansByLength(source: string, spans: TextSpan[], options: ChunkOptions): TextChunk[] {
+  return packSpans(source, spans, options, (first, last) => spans[last].end - spans[first].start);
+}
+
+/** Chunks on paragraph boundaries; paragraphs longer than `chunkSize` are windowed. */
+export function chunkParagraphs(source: string, options: ChunkOptions): TextChunk[] {
+  return chunkSpansByLength(source, splitParagraphs(source), options);
+}
+
+/** Chunks on sentence boundaries; overlap is made of whole sentences. */
+export function chunkSentences(source: string, options: ChunkOptions): TextChunk[] {
+  return chunkSpansByLength(source, splitSentences(source), options);
+}
+
+/**
+ * Chunks on word boundaries with `chunkSize` and `overlap` measured in estimated model
+ * tokens rather than characters.
+ */
+export function chunkTokens(source: string, options: ChunkOptions): TextChunk[] {
+  const count = options.countTokens ?? countTokens;
+  const words = [...source.matchAll(/\S+/g)].map((match) => ({ start: match.index, end: match.index + match[0].length }));
+  const prefix = [0];
+  for (const word of words) {
+    prefix.push(prefix[prefix.length - 1] + count(source.slice(word.start, word.end)));
+  }
+  return packSpans(source, words, options, (first, last) => prefix[last + 1] - prefix[first]);
+}
+
+export type TextChunker = (source: string, options: ChunkOptions) => TextChunk[];
+
+export const CHUNKING_STRATEGIES = ['auto', 'fixed', 'paragraph', 'sentence', 'token', 'heading'] as const;
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+// `auto` picks a chunker from the document format; the others apply one chunker to any prose format.
+const STRATEGY_CHUNKERS: Record<Exclude<ChunkingStrategy, 'auto'>, TextChunker> = {
+  fixed: chunkText,
+  paragraph: chunkParagraphs,
+  sentence: chunkSentences,
+  token: chunkTokens,
+  heading: chunkMarkdown,
+};
+
+export function isChunkingStrategy(value: unknown): value is ChunkingStrategy {
+  return typeof value === 'string' && (CHUNKING_STRATEGIES as readonly string[]).includes(value);
+}
+
+// Row, declaration and cue groups are sized in characters; split any group that is still over
+// the token budget into token-fitted windows that keep the group's metadata.
+function enforceTokenBudget(chunks: TextChunk[], options: ChunkOptions): TextChunk[] {
+  const { maxTokens } = options;
+  if (!maxTokens) {
+    return chunks;
+  }
+  const count = options.countTokens ?? countTokens;
+  if (chunks.every((chunk) => count(chunk.content) <= maxTokens)) {
+    return chunks;
+  }
+  const fitted: TextChunk[] = [];
+  for (const chunk of chunks) {
+    if (count(chunk.content) <= maxTokens) {
+      fitted.push({ ...chunk, index: fitted.length });
+      continue;
+    }
+    for (const piece of chunkText(chunk.content, { ...options, chunkSize: chunk.content.length, overlap: 0 })) {
+      fitted.push({
+        ...chunk,
+        content: piece.content,
+        startLine: Math.min(chunk.endLine, chunk.startLine + piece.startLine - 1),
+        endLine: Math.min(chunk.endLine, chunk.startLine + piece.endLine - 1),
+        index: fitted.length,
+      });
+    }
+  }
+  return fitted;
+}
+
+/**
+ * Chunks a document with the given strategy. Tables, code and transcripts always use their
+ * own chunkers because their row, symbol and timestamp citations depend on them; paginated
+ * documents apply the strategy page by page. No chunk exceeds `maxTokens` when it is set.
+ */
+export function chunkDocument(
+  source: string,
+  format: DocumentFormat,
+  options: ChunkOptions,
+  strategy: ChunkingStrategy = 'auto',
+): TextChunk[] {
+  return enforceTokenBudget(chunkByFormat(source, format, options, strategy), options);
+}
+
+function chunkByFormat(
+  source: string,
+  format: DocumentFormat,
+  options: ChunkOptions,
+  strategy: ChunkingStrategy,
+): TextChunk[] {
+  if (format === 'csv' || format === 'tsv') {
+    return chunkTable(source, options);
+  }
+  if (format === 'typescript' || format === 'python' || format === 'go' || format === 'sql') {
+    return chunkCode(source, format, options);
+  }
+  if (format === 'srt' || format === 'vtt') {
+    return chunkTranscript(source, format, options);
+  }
+  if (strategy !== 'auto') {
+    const chunker = STRATEGY_CHUNKERS[strategy];
+    return format === 'pdf' ? chunkPages(source, options, chunker) : chunker(source, options);
+  }
+  if (format === 'markdown' || format === 'docx') {
+    return chunkMarkdown(source, options);
+  }
+  if (format === 'pdf') {
+    return chunkPages(source, options);
+  }
+  return chunkText(source, options);
+}
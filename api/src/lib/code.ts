@@ -0,0 +1,330 @@
+// Splits source files into top-level declarations using a lightweight lexical scan
+// (brackets, strings and comments) rather than a full parser.
+
+export type CodeLanguage = 'typescript' | 'python' | 'go' | 'sql';
+
+export interface CodeSegment {
+  startLine: number;
+  endLine: number;
+  symbol: string | null;
+}
+
+interface LineInfo {
+  text: string;
+  // True when the line begins outside any bracket, string or block comment.
+  topLevel: boolean;
+}
+
+interface Declaration {
+  pattern: RegExp;
+  describe: (match: RegExpExecArray) => string;
+}
+
+const TS_IDENT = '[A-Za-z_$][\\w$]*';
+
+const DECLARATIONS: Record<Exclude<CodeLanguage, 'sql'>, Declaration[]> = {
+  typescript: [
+    {
+      pattern: new RegExp(`^(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:async\\s+)?function\\s*\\*?\\s*(${TS_IDENT})`),
+      describe: (m) => `function ${m[1]}`,
+    },
+    {
+      pattern: new RegExp(`^(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:abstract\\s+)?class\\s+(${TS_IDENT})`),
+      describe: (m) => `class ${m[1]}`,
+    },
+    {
+      pattern: new RegExp(`^(?:export\\s+)?(?:declare\\s+)?(interface|enum|namespace|module)\\s+(${TS_IDENT})`),
+      describe: (m) => `${m[1]} ${m[2]}`,
+    },
+    {
+      pattern: new RegExp(`^(?:export\\s+)?(?:declare\\s+)?const\\s+enum\\s+(${TS_IDENT})`),
+      describe: (m) => `enum ${m[1]}`,
+    },
+    {
+      pattern: new RegExp(`^(?:export\\s+)?(?:declare\\s+)?type\\s+(${TS_IDENT})`),
+      describe: (m) => `type ${m[1]}`,
+    },
+    {
+      pattern: new RegExp(
+        `^(?:export\\s+)?(?:declare\\s+)?(const|let|var)\\s+(${TS_IDENT})(?:\\s*:[^=]+)?\\s*=\\s*(async\\s+)?(function\\b|\\([^)]*\\)\\s*(?::[^=]+)?=>|${TS_IDENT}\\s*=>)?`,
+      ),
+      describe: (m) => (m[4] ? `function ${m[2]}` : `${m[1]} ${m[2]}`),
+    },
+    {
+      pattern: /^export\s+default\b/,
+      describe: () => 'export default',
+    },
+  ],
+  python: [
+    { pattern: /^(?:async\s+)?def\s+(\w+)/, describe: (m) => `function ${m[1]}` },
+    { pattern: /^class\s+(\w+)/, describe: (m) => `class ${m[1]}` },
+    { pattern: /^([A-Za-z_]\w*)\s*(?::[^=]+)?=(?!=)/, describe: (m) => `variable ${m[1]}` },
+  ],
+  go: [
+    { pattern: /^func\s+\(\s*\w*\s*\*?\s*(\w+)[^)]*\)\s*(\w+)/, describe: (m) => `method ${m[1]}.${m[2]}` },
+    { pattern: /^func\s+(\w+)/, describe: (m) => `function ${m[1]}` },
+    { pattern: /^type\s+(\w+)/, describe: (m) => `type ${m[1]}` },
+    { pattern: /^(var|const)\s+(\w+)/, describe: (m) => `${m[1]} ${m[2]}` },
+  ],
+};
+
+// Lines that belong to the declaration that follows them.
+const LEADING_LINES: Record<Exclude<CodeLanguage, 'sql'>, RegExp> = {
+  typescript: /^(\/\/|\/\*|\*|@)/,
+  python: /^(#|@)/,
+  go: /^(\/\/|\/\*|\*)/,
+};
+
+function scanBracketLanguage(lines: string[], language: 'typescript' | 'go'): LineInfo[] {
+  const info: LineInfo[] = [];
+  let depth = 0;
+  let blockComment = false;
+  let quote: string | null = null;
+
+  for (const text of lines) {
+    info.push({ text, topLevel: depth === 0 && !blockComment && !quote });
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const next = text[i + 1];
+      if (blockComment) {
+        if (char === '*' && next === '/') {
+          blockComment = false;
+          i += 1;
+        }
+      } else if (quote) {
+        // Go raw strings have no escapes.
+        if (char === '\\' && !(language === 'go' && quote === '`')) {
+          i += 1;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '/' && next === '/') {
+        break;
+      } else if (char === '/' && next === '*') {
+        blockComment = true;
+        i += 1;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if (char === '{' || char === '(' || char === '[') {
+        depth += 1;
+      } else if (char === '}' || char === ')' || char === ']') {
+        depth = Math.max(0, depth - 1);
+      }
+    }
+    // Only template literals and Go raw strings may span lines.
+    if (quote && quote !== '`') {
+      quote = null;
+    }
+  }
+  return info;
+}
+
+function scanPython(lines: string[]): LineInfo[] {
+  const info: LineInfo[] = [];
+  let depth = 0;
+  let tripleQuote: string | null = null;
+
+  for (const text of lines) {
+    info.push({ text, topLevel: depth === 0 && !tripleQuote });
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (tripleQuote) {
+        if (text.startsWith(tripleQuote, i)) {
+          tripleQuote = null;
+          i += 2;
+        }
+        continue;
+      }
+      if (char === '#') break;
+      if (text.startsWith('"""', i) || text.startsWith("'''", i)) {
+        tripleQuote = text.slice(i, i + 3);
+        i += 2;
+      } else if (char === '"' || char === "'") {
+        const end = text.indexOf(char, i + 1);
+        i = end < 0 ? text.length : end;
+      } else if (char === '(' || char === '[' || char === '{') {
+        depth += 1;
+      } else if (char === ')' || char === ']' || char === '}') {
+        depth = Math.max(0, depth - 1);
+      }
+    }
+  }
+  return info;
+}
+
+function describeDeclaration(text: string, declarations: Declaration[]): string | null {
+  for (const declaration of declarations) {
+    const match = declaration.pattern.exec(text);
+    if (match) return declaration.describe(match);
+  }
+  return null;
+}
+
+function lastContentLine(lines: string[], start: number, end: number): number {
+  let last = end;
+  while (last > start && !lines[last - 1].trim()) {
+    last -= 1;
+  }
+  return last;
+}
+
+function splitByDeclarations(lines: string[], language: Exclude<CodeLanguage, 'sql'>): CodeSegment[] {
+  const info = language === 'python' ? scanPython(lines) : scanBracketLanguage(lines, language);
+  const starts: Array<{ line: number; symbol: string | null }> = [];
+  let pendingLeading: number | null = null;
+
+  info.forEach(({ text, topLevel }, index) => {
+    const line = index + 1;
+    if (!text.trim()) {
+      pendingLeading = null;
+      return;
+    }
+    // Top-level statements start in column 0; indented or closing lines continue the current one.
+    if (!topLevel || /^[\s)\]}]/.test(text)) {
+      return;
+    }
+    if (LEADING_LINES[language].test(text)) {
+      pendingLeading ??= line;
+      return;
+    }
+    const symbol = describeDeclaration(text, DECLARATIONS[language]);
+    const startLine = pendingLeading ?? line;
+    pendingLeading = null;
+    const previous = starts[starts.length - 1];
+    if (!symbol && previous && previous.symbol === null) {
+      return;
+    }
+    starts.push({ line: startLine, symbol });
+  });
+
+  return toSegments(lines, starts);
+}
+
+function toSegments(lines: string[], starts: Array<{ line: number; symbol: string | null }>): CodeSegment[] {
+  const segments: CodeSegment[] = [];
+  if (!starts.length || starts[0].line > 1) {
+    const firstStart = starts[0]?.line ?? lines.length + 1;
+    if (lines.slice(0, firstStart - 1).some((line) => line.trim())) {
+      starts.unshift({ line: 1, symbol: null });
+    }
+  }
+  starts.forEach((start, index) => {
+    const nextStart = starts[index + 1]?.line ?? lines.length + 1;
+    const endLine = lastContentLine(lines, start.line, nextStart - 1);
+    if (endLine >= start.line) {
+      segments.push({ startLine: start.line, endLine, symbol: start.symbol });
+    }
+  });
+  return segments;
+}
+
+const SQL_OBJECT = /^create\s+(?:or\s+replace\s+)?(?:temp(?:orary)?\s+)?(?:unique\s+)?(?:virtual\s+)?(table|view|index|trigger|function|procedure|type|schema|sequence)\s+(?:if\s+not\s+exists\s+)?([\w."`[\]]+)/i;
+const SQL_TARGET = /^(alter\s+table|insert\s+into|drop\s+(?:table|view|index|trigger))\s+(?:if\s+(?:not\s+)?exists\s+)?([\w."`[\]]+)/i;
+
+function describeSqlStatement(statement: string): string | null {
+  const text = statement
+    .replace(/^(\s*(--[^\n]*\n|\/\*[\s\S]*?\*\/))*\s*/, '')
+    .trimStart();
+  const unquote = (name: string) => name.replace(/["`[\]]/g, '');
+  const created = SQL_OBJECT.exec(text);
+  if (created) return `${created[1].toLowerCase()} ${unquote(created[2])}`;
+  const targeted = SQL_TARGET.exec(text);
+  if (targeted) return `${targeted[1].toLowerCase().replace(/\s+/g, ' ')} ${unquote(targeted[2])}`;
+  return null;
+}
+
+function splitSqlStatements(source: string, lines: string[]): CodeSegment[] {
+  const starts: Array<{ line: number; symbol: string | null }> = [];
+  let line = 1;
+  let statementStart: number | null = null;
+  let statementOffset = 0;
+  let quote: string | null = null;
+  let dollarTag: string | null = null;
+  let blockDepth = 0;
+  let endLine = 0;
+
+  const finish = (end: number) => {
+    // Statements sharing a line with the previous one are folded into it.
+    if (statementStart !== null && starts[starts.length - 1]?.line !== statementStart) {
+      starts.push({ line: statementStart, symbol: describeSqlStatement(source.slice(statementOffset, end)) });
+    }
+    statementStart = null;
+    endLine = line;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\n') {
+      line += 1;
+      continue;
+    }
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (dollarTag) {
+      if (source.startsWith(dollarTag, i)) {
+        i += dollarTag.length - 1;
+        dollarTag = null;
+      }
+      continue;
+    }
+    if (/\s/.test(char)) continue;
+
+    const comment = (char === '-' && source[i + 1] === '-') || (char === '/' && source[i + 1] === '*');
+    // Comments before a statement belong to it; trailing comments stay with the previous one.
+    if (statementStart === null && !(comment && line === endLine)) {
+      statementStart = line;
+      statementOffset = i;
+    }
+    if (comment && char === '-') {
+      const end = source.indexOf('\n', i);
+      i = (end < 0 ? source.length : end) - 1;
+      continue;
+    }
+    if (comment) {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end < 0 ? source.length : end + 2;
+      for (let j = i; j < stop; j++) if (source[j] === '\n') line += 1;
+      i = stop - 1;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '$') {
+      const tag = /^\$\w*\$/.exec(source.slice(i, i + 64));
+      if (tag) {
+        dollarTag = tag[0];
+        i += tag[0].length - 1;
+      }
+    } else if (/[A-Za-z]/.test(char) && !/\w/.test(source[i - 1] ?? '')) {
+      const word = /^[A-Za-z_]+/.exec(source.slice(i, i + 16))?.[0].toUpperCase() ?? '';
+      // Trigger and procedure bodies contain their own semicolons inside BEGIN ... END.
+      if (word === 'BEGIN' && !/^BEGIN\s*(TRANSACTION|DEFERRED|IMMEDIATE|EXCLUSIVE|;)/i.test(source.slice(i, i + 24))) {
+        blockDepth += 1;
+      } else if (word === 'CASE') {
+        blockDepth += 1;
+      } else if (word === 'END' && blockDepth > 0) {
+        blockDepth -= 1;
+      }
+      i += word.length - 1;
+    } else if (char === ';' && blockDepth === 0) {
+      finish(i);
+    }
+  }
+  finish(source.length);
+
+  return toSegments(lines, starts);
+}
+
+/**
+ * Returns contiguous top-level segments covering the file. Declarations carry a symbol
+ * such as "function foo" or "table users"; imports and other statements have none.
+ */
+export function splitCodeDeclarations(source: string, language: CodeLanguage): CodeSegment[] {
+  const lines = source.split('\n').map((line) => line.replace(/\r$/, ''));
+  if (language === 'sql') {
+    return splitSqlStatements(source, lines);
+  }
+  return splitByDeclarations(lines, language);
+}
@@ -0,0 +1,40 @@
+export type DeflateFormat = 'deflate' | 'deflate-raw';
+
+function concatBytes(parts: Uint8Array[], total: number): Uint8Array {
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// Decompresses with the platform DecompressionStream (available in Workers and Node 18+).
+// Reading stops once the output passes `maxBytes`, so callers can reject oversized results cheaply.
+export async function inflate(
+  data: Uint8Array,
+  format: DeflateFormat = 'deflate',
+  maxBytes = Number.POSITIVE_INFINITY,
+): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream(format));
+  const reader = stream.getReader();
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parts.push(value);
+      total += value.length;
+      if (total > maxBytes) {
+        await reader.cancel();
+        break;
+      }
+    }
+  } catch (error) {
+    // Many writers leave trailing bytes after the deflate stream; keep what decoded.
+    if (!parts.length) throw error;
+  }
+  return concatBytes(parts, total);
+}
@@ -2,9 +2,14 @@ import { HTTPException } from 'hono/http-exception';
 import type {
   AuthenticatedUser,
   ChunkRecord,
+  FilePiiFindingRecord,
   FileRecord,
+  FileTagSource,
+  FileVersionRecord,
   FolderRecord,
+  IngestionJobRecord,
   MarbleBindings,
+  ReindexJobRecord,
   Visibility,
 } from '../types';
 
@@ -176,6 +181,8 @@ export interface ListFoldersOptions {
   userId: string;
   teamIds?: string[];
   visibility: 'organization' | 'personal' | 'team' | 'all';
+  // Only folders holding files with this tag, counting just those files.
+  tag?: string;
 }
 
 export interface FolderSummaryRow extends FolderWithOwner {
@@ -213,6 +220,12 @@ export async function listFolders(env: MarbleBindings, options: ListFoldersOptio
     clauses.push(`(${fragments.join(' OR ')})`);
   }
 
+  let tagJoin = '';
+  if (options.tag) {
+    bindings.push(options.tag);
+    tagJoin = `AND fi.id IN (SELECT file_id FROM file_tags WHERE tag = ?${bindings.length})`;
+  }
+
   const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
   const statement = `
     SELECT
@@ -223,6 +236,9 @@ export async function listFolders(env: MarbleBindings, options: ListFoldersOptio
       f.visibility,
       f.owner_id,
       f.team_id,
+      f.chunking_strategy,
+      f.chunk_size,
+      f.chunk_overlap,
       f.created_at,
       f.updated_at,
       f.deleted_at,
@@ -230,10 +246,11 @@ export async function listFolders(env: MarbleBindings, options: ListFoldersOptio
       u.email AS owner_email,
       u.display_name AS owner_display_name
     FROM folders f
-    LEFT JOIN files fi ON fi.folder_id = f.id AND fi.deleted_at IS NULL
+    LEFT JOIN files fi ON fi.folder_id = f.id AND fi.deleted_at IS NULL ${tagJoin}
     LEFT JOIN users u ON u.id = f.owner_id
     ${where}
     GROUP BY f.id
+    ${options.tag ? 'HAVING COUNT(fi.id) > 0' : ''}
     ORDER BY datetime(f.updated_at) DESC
   `;
 
@@ -241,6 +258,22 @@ export async function listFolders(env: MarbleBindings, options: ListFoldersOptio
   return results.results ?? [];
 }
 
+/** Files in a folder that have finished ingesting (ready or failed), so they can be re-ingested. */
+export async function listFolderFileOwners(
+  env: MarbleBindings,
+  folderId: string,
+  organisationId: string,
+): Promise<Array<{ id: string; owner_id: string }>> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, owner_id
+     FROM files
+     WHERE folder_id = ?1 AND organization_id = ?2 AND deleted_at IS NULL AND status IN ('ready', 'failed')`,
+  )
+    .bind(folderId, organisationId)
+    .all<{ id: string; owner_id: string }>();
+  return results.results ?? [];
+}
+
 export async function countFilesInFolder(env: MarbleBindings, folderId: string, organisationId: string): Promise<number> {
   const result = await env.MARBLE_DB.prepare(
     `SELECT COUNT(*) AS count
@@ -306,6 +339,12 @@ export async function createFolder(
     .run();
 }
 
+export interface FolderChunkingInput {
+  strategy: string;
+  chunkSize?: number | null;
+  overlap?: number | null;
+}
+
 export async function updateFolder(
   env: MarbleBindings,
   data: {
@@ -315,11 +354,14 @@ export async function updateFolder(
     name?: string;
     visibility?: Visibility;
     teamId?: string | null;
+    // undefined keeps the current configuration, null resets it to the defaults.
+    chunking?: FolderChunkingInput | null;
   },
-): Promise<{ next: FolderWithOwner }>
+): Promise<{ next: FolderWithOwner; chunkingChanged: boolean }>
 {
   const current = await env.MARBLE_DB.prepare(
-    `SELECT id, tenant, organization_id, name, visibility, owner_id, team_id, created_at, updated_at, deleted_at
+    `SELECT id, tenant, organization_id, name, visibility, owner_id, team_id, chunking_strategy, chunk_size, chunk_overlap,
+            created_at, updated_at, deleted_at
      FROM folders
      WHERE id = ?1 AND organization_id = ?2`,
   )
@@ -341,23 +383,54 @@ export async function updateFolder(
     throw new HTTPException(400, { message: 'Team folders require a team id.' });
   }
 
+  const currentChunking = {
+    strategy: current.chunking_strategy ?? null,
+    chunkSize: current.chunk_size ?? null,
+    overlap: current.chunk_overlap ?? null,
+  };
+  const nextChunking =
+    data.chunking === undefined
+      ? currentChunking
+      : {
+          strategy: data.chunking?.strategy ?? null,
+          chunkSize: data.chunking?.chunkSize ?? null,
+          overlap: data.chunking?.overlap ?? null,
+        };
+  const chunkingChanged =
+    nextChunking.strategy !== currentChunking.strategy ||
+    nextChunking.chunkSize !== currentChunking.chunkSize ||
+    nextChunking.overlap !== currentChunking.overlap;
+
   await env.MARBLE_DB.prepare(
     `UPDATE folders
      SET name = ?2,
          visibility = ?3,
          owner_id = ?4,
          team_id = ?5,
+         chunking_strategy = ?7,
+         chunk_size = ?8,
+         chunk_overlap = ?9,
          updated_at = CURRENT_TIMESTAMP
      WHERE id = ?1 AND organization_id = ?6`,
   )
-    .bind(data.id, nextName, nextVisibility, nextOwner, nextTeam, data.organisationId)
+    .bind(
+      data.id,
+      nextName,
+      nextVisibility,
+      nextOwner,
+      nextTeam,
+      data.organisationId,
+      nextChunking.strategy,
+      nextChunking.chunkSize,
+      nextChunking.overlap,
+    )
     .run();
 
   const next = await getFolderById(env, data.id, data.organisationId);
   if (!next) {
     throw new HTTPException(500, { message: 'Failed to load updated folder' });
   }
-  return { next };
+  return { next, chunkingChanged };
 }
 
 export async function getFolderById(env: MarbleBindings, id: string, organisationId: string): Promise<FolderWithOwner | null> {
@@ -370,6 +443,9 @@ export async function getFolderById(env: MarbleBindings, id: string, organisatio
         f.visibility,
         f.owner_id,
         f.team_id,
+        f.chunking_strategy,
+        f.chunk_size,
+        f.chunk_overlap,
         f.created_at,
         f.updated_at,
         f.deleted_at,
@@ -431,6 +507,7 @@ export interface CreateFileRecordInput {
   size: number;
   status: FileRecord['status'];
   mimeType?: string | null;
+  sourceEncoding?: string | null;
 }
 
 export async function createFileRecord(env: MarbleBindings, data: CreateFileRecordInput): Promise<void> {
@@ -438,8 +515,8 @@ export async function createFileRecord(env: MarbleBindings, data: CreateFileReco
     throw new HTTPException(400, { message: 'Team visibility requires a team id.' });
   }
   await env.MARBLE_DB.prepare(
-    `INSERT INTO files (id, tenant, organization_id, folder_id, owner_id, team_id, visibility, file_name, r2_key, size, mime_type, status)
-     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12)`
+    `INSERT INTO files (id, tenant, organization_id, folder_id, owner_id, team_id, visibility, file_name, r2_key, size, mime_type, status, source_encoding)
+     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13)`
   )
     .bind(
       data.id,
@@ -454,6 +531,7 @@ export async function createFileRecord(env: MarbleBindings, data: CreateFileReco
       data.size,
       data.mimeType ?? null,
       data.status,
+      data.sourceEncoding ?? null,
     )
     .run();
 }
@@ -469,6 +547,353 @@ export async function updateFileStatus(env: MarbleBindings, fileId: string, stat
     .run();
 }
 
+/**
+ * Marks a file queued for ingestion. A file still `uploading` is only moved on when `uploaded` says
+ * its object has just been written; otherwise it is left alone. Returns whether the file was queued.
+ */
+export async function markFileQueued(env: MarbleBindings, fileId: string, uploaded: boolean): Promise<boolean> {
+  const result = await env.MARBLE_DB.prepare(
+    `UPDATE files
+     SET status = 'queued',
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1 AND (status != 'uploading' OR ?2 = 1)`,
+  )
+    .bind(fileId, uploaded ? 1 : 0)
+    .run();
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+export async function updateFileSourceEncoding(env: MarbleBindings, fileId: string, encoding: string | null): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE files
+     SET source_encoding = ?2,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(fileId, encoding)
+    .run();
+}
+
+export async function updateFileMultipartUpload(env: MarbleBindings, fileId: string, uploadId: string | null): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE files
+     SET multipart_upload_id = ?2,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(fileId, uploadId)
+    .run();
+}
+
+// Presigned uploads that were never confirmed with POST /api/files/:id/complete.
+export async function listAbandonedUploads(
+  env: MarbleBindings,
+  createdBefore: string,
+  limit: number,
+): Promise<Array<Pick<FileRecord, 'id' | 'r2_key' | 'text_r2_key' | 'multipart_upload_id'>>> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, r2_key, text_r2_key, multipart_upload_id
+     FROM files
+     WHERE status = 'uploading'
+       AND datetime(created_at) < datetime(?1)
+     ORDER BY datetime(created_at)
+     LIMIT ?2`,
+  )
+    .bind(createdBefore, limit)
+    .all<Pick<FileRecord, 'id' | 'r2_key' | 'text_r2_key' | 'multipart_upload_id'>>();
+  return results.results ?? [];
+}
+
+export async function createIngestionJob(
+  env: MarbleBindings,
+  data: { id: string; fileId: string; organisationId: string; requestedBy: string; maxAttempts: number },
+): Promise<void> {
+  const now = isoNow();
+  await env.MARBLE_DB.prepare(
+    `INSERT INTO ingestion_jobs (id, file_id, organization_id, requested_by, status, max_attempts, created_at, updated_at)
+     VALUES (?1, ?2, ?3, ?4, 'queued', ?5, ?6, ?6)`,
+  )
+    .bind(data.id, data.fileId, data.organisationId, data.requestedBy, data.maxAttempts, now)
+    .run();
+}
+
+const INGESTION_JOB_COLUMNS = `id, file_id, organization_id, requested_by, status, attempts, max_attempts, chunks_total,
+  chunks_done, last_error, next_attempt_at, started_at, completed_at, created_at, updated_at`;
+
+export async function getIngestionJob(env: MarbleBindings, jobId: string): Promise<IngestionJobRecord | null> {
+  return env.MARBLE_DB.prepare(`SELECT ${INGESTION_JOB_COLUMNS} FROM ingestion_jobs WHERE id = ?1`)
+    .bind(jobId)
+    .first<IngestionJobRecord>();
+}
+
+export async function getLatestIngestionJob(env: MarbleBindings, fileId: string): Promise<IngestionJobRecord | null> {
+  return env.MARBLE_DB.prepare(
+    `SELECT ${INGESTION_JOB_COLUMNS} FROM ingestion_jobs WHERE file_id = ?1 ORDER BY created_at DESC LIMIT 1`,
+  )
+    .bind(fileId)
+    .first<IngestionJobRecord>();
+}
+
+export async function startIngestionJobAttempt(env: MarbleBindings, jobId: string, attempt: number): Promise<void> {
+  const now = isoNow();
+  await env.MARBLE_DB.prepare(
+    `UPDATE ingestion_jobs
+     SET status = 'processing',
+         attempts = ?2,
+         chunks_done = 0,
+         next_attempt_at = NULL,
+         started_at = COALESCE(started_at, ?3),
+         updated_at = ?3
+     WHERE id = ?1`,
+  )
+    .bind(jobId, attempt, now)
+    .run();
+}
+
+export async function updateIngestionJobProgress(
+  env: MarbleBindings,
+  jobId: string,
+  chunksDone: number,
+  chunksTotal: number,
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE ingestion_jobs
+     SET chunks_done = ?2,
+         chunks_total = ?3,
+         updated_at = ?4
+     WHERE id = ?1`,
+  )
+    .bind(jobId, chunksDone, chunksTotal, isoNow())
+    .run();
+}
+
+// Records the outcome of an attempt: back to queued with a retry time, or finished.
+export async function settleIngestionJob(
+  env: MarbleBindings,
+  jobId: string,
+  data: { status: Exclude<IngestionJobRecord['status'], 'processing'>; lastError?: string | null; nextAttemptAt?: string | null },
+): Promise<void> {
+  const now = isoNow();
+  await env.MARBLE_DB.prepare(
+    `UPDATE ingestion_jobs
+     SET status = ?2,
+         last_error = ?3,
+         next_attempt_at = ?4,
+         completed_at = ?5,
+         updated_at = ?6
+     WHERE id = ?1`,
+  )
+    .bind(
+      jobId,
+      data.status,
+      data.lastError ?? null,
+      data.nextAttemptAt ?? null,
+      data.status === 'queued' ? null : now,
+      now,
+    )
+    .run();
+}
+
+/**
+ * Records the derived text extracted from the object at `sourceKey`. It is stored on the version
+ * holding that object, so a restore reuses it and deleting the file removes it, and on the files row
+ * only while that object is still current: an ingestion that finishes after a newer version was
+ * uploaded or restored does not attach its text to the wrong revision.
+ */
+export async function updateFileTextKey(
+  env: MarbleBindings,
+  fileId: string,
+  sourceKey: string,
+  textKey: string | null,
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE files
+     SET text_r2_key = ?3,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1 AND r2_key = ?2`,
+  )
+    .bind(fileId, sourceKey, textKey)
+    .run();
+  await env.MARBLE_DB.prepare(
+    `UPDATE file_versions
+     SET text_r2_key = ?3
+     WHERE file_id = ?1 AND r2_key = ?2`,
+  )
+    .bind(fileId, sourceKey, textKey)
+    .run();
+}
+
+export async function updateFilePiiSummary(env: MarbleBindings, fileId: string, summary: string | null): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE files
+     SET pii_summary = ?2,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(fileId, summary)
+    .run();
+}
+
+export type PiiFindingInput = Pick<FilePiiFindingRecord, 'kind' | 'preview' | 'start_line' | 'end_line' | 'page_number'>;
+
+/** Findings describe the version last ingested, so each scan replaces the previous one's. */
+export async function replaceFilePiiFindings(
+  env: MarbleBindings,
+  file: Pick<FileRecord, 'id' | 'organization_id'>,
+  findings: PiiFindingInput[],
+): Promise<void> {
+  await env.MARBLE_DB.prepare('DELETE FROM file_pii_findings WHERE file_id = ?1').bind(file.id).run();
+  const now = isoNow();
+  for (const finding of findings) {
+    await env.MARBLE_DB.prepare(
+      `INSERT INTO file_pii_findings (id, file_id, organization_id, kind, preview, start_line, end_line, page_number, created_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)`,
+    )
+      .bind(
+        crypto.randomUUID(),
+        file.id,
+        file.organization_id,
+        finding.kind,
+        finding.preview,
+        finding.start_line,
+        finding.end_line,
+        finding.page_number,
+        now,
+      )
+      .run();
+  }
+}
+
+export async function listFilePiiFindings(env: MarbleBindings, fileId: string): Promise<FilePiiFindingRecord[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, file_id, organization_id, kind, preview, start_line, end_line, page_number, created_at
+     FROM file_pii_findings
+     WHERE file_id = ?1
+     ORDER BY page_number, start_line, kind`,
+  )
+    .bind(fileId)
+    .all<FilePiiFindingRecord>();
+  return results.results ?? [];
+}
+
+export interface FileSummaryUpdate {
+  abstract: string;
+  keyPoints: string[];
+  model: string;
+  sourceHash: string;
+}
+
+/** Stores a generated summary; null clears it (e.g. when the file may no longer be indexed). */
+export async function updateFileSummary(env: MarbleBindings, fileId: string, summary: FileSummaryUpdate | null): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE files
+     SET summary_abstract = ?2,
+         summary_key_points = ?3,
+         summary_model = ?4,
+         summary_source_hash = ?5,
+         summarized_at = ?6
+     WHERE id = ?1`,
+  )
+    .bind(
+      fileId,
+      summary?.abstract ?? null,
+      summary ? JSON.stringify(summary.keyPoints) : null,
+      summary?.model ?? null,
+      summary?.sourceHash ?? null,
+      summary ? isoNow() : null,
+    )
+    .run();
+}
+
+export interface FileTermCount {
+  term: string;
+  frequency: number;
+}
+
+/** Replaces the term counts a file contributes to its organisation's document frequencies. */
+export async function replaceFileTerms(
+  env: MarbleBindings,
+  file: Pick<FileRecord, 'id' | 'organization_id'>,
+  terms: FileTermCount[],
+): Promise<void> {
+  await env.MARBLE_DB.prepare('DELETE FROM file_terms WHERE file_id = ?1').bind(file.id).run();
+  for (const { term, frequency } of terms) {
+    await env.MARBLE_DB.prepare(
+      `INSERT INTO file_terms (file_id, organization_id, term, frequency)
+       VALUES (?1, ?2, ?3, ?4)`,
+    )
+      .bind(file.id, file.organization_id, term, frequency)
+      .run();
+  }
+}
+
+// D1 binds at most 100 parameters per statement.
+const TERM_LOOKUP_BATCH = 90;
+
+/** How many of the organisation's files contain each term, plus how many files have terms at all. */
+export async function countTermDocuments(
+  env: MarbleBindings,
+  organisationId: string,
+  terms: string[],
+): Promise<{ files: number; documents: Map<string, number> }> {
+  const total = await env.MARBLE_DB.prepare(
+    `SELECT COUNT(DISTINCT file_id) AS files
+     FROM file_terms
+     WHERE organization_id = ?1`,
+  )
+    .bind(organisationId)
+    .first<{ files: number }>();
+
+  const documents = new Map<string, number>();
+  for (let start = 0; start < terms.length; start += TERM_LOOKUP_BATCH) {
+    const batch = terms.slice(start, start + TERM_LOOKUP_BATCH);
+    const placeholders = batch.map((_, index) => `?${index + 2}`).join(',');
+    const results = await env.MARBLE_DB.prepare(
+      `SELECT term, COUNT(*) AS document_count
+       FROM file_terms
+       WHERE organization_id = ?1 AND term IN (${placeholders})
+       GROUP BY term`,
+    )
+      .bind(organisationId, ...batch)
+      .all<{ term: string; document_count: number }>();
+    for (const row of results.results ?? []) {
+      documents.set(row.term, row.document_count);
+    }
+  }
+  return { files: total?.files ?? 0, documents };
+}
+
+export interface FileTagInput {
+  tag: string;
+  score: number;
+  source: FileTagSource;
+}
+
+/** Replaces a file's tags, best first; an empty list clears them. */
+export async function replaceFileTags(
+  env: MarbleBindings,
+  file: Pick<FileRecord, 'id' | 'organization_id'>,
+  tags: FileTagInput[],
+): Promise<void> {
+  await env.MARBLE_DB.prepare('DELETE FROM file_tags WHERE file_id = ?1').bind(file.id).run();
+  const now = isoNow();
+  for (const { tag, score, source } of tags) {
+    await env.MARBLE_DB.prepare(
+      `INSERT INTO file_tags (file_id, organization_id, tag, score, source, created_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6)`,
+    )
+      .bind(file.id, file.organization_id, tag, score, source, now)
+      .run();
+  }
+  await env.MARBLE_DB.prepare(
+    `UPDATE files
+     SET tags = ?2
+     WHERE id = ?1`,
+  )
+    .bind(file.id, tags.length ? JSON.stringify(tags.map((entry) => entry.tag)) : null)
+    .run();
+}
+
 export async function updateFileAfterConversion(
   env: MarbleBindings,
   data: { id: string; fileName: string; r2Key: string; size: number; mimeType: string },
@@ -486,10 +911,92 @@ export async function updateFileAfterConversion(
     .run();
 }
 
+const FILE_VERSION_COLUMNS =
+  'id, file_id, version, file_name, r2_key, text_r2_key, size, mime_type, source_encoding, uploaded_by, created_at';
+
+export async function listFileVersions(env: MarbleBindings, fileId: string): Promise<FileVersionRecord[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT ${FILE_VERSION_COLUMNS}
+     FROM file_versions
+     WHERE file_id = ?1
+     ORDER BY version DESC`,
+  )
+    .bind(fileId)
+    .all<FileVersionRecord>();
+  return results.results ?? [];
+}
+
+export async function getFileVersion(env: MarbleBindings, fileId: string, version: number): Promise<FileVersionRecord | null> {
+  return env.MARBLE_DB.prepare(
+    `SELECT ${FILE_VERSION_COLUMNS}
+     FROM file_versions
+     WHERE file_id = ?1 AND version = ?2`,
+  )
+    .bind(fileId, version)
+    .first<FileVersionRecord>();
+}
+
+export async function createFileVersion(
+  env: MarbleBindings,
+  data: Omit<FileVersionRecord, 'created_at'> & { created_at?: string },
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `INSERT INTO file_versions (id, file_id, version, file_name, r2_key, text_r2_key, size, mime_type, source_encoding, uploaded_by, created_at)
+     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, COALESCE(?11, CURRENT_TIMESTAMP))`,
+  )
+    .bind(
+      data.id,
+      data.file_id,
+      data.version,
+      data.file_name,
+      data.r2_key,
+      data.text_r2_key ?? null,
+      data.size,
+      data.mime_type ?? null,
+      data.source_encoding ?? null,
+      data.uploaded_by,
+      data.created_at ?? null,
+    )
+    .run();
+}
+
+/**
+ * Points the files row at a version, including its name so the file matches the object it now
+ * reads from; the next ingestion run re-indexes the file from it.
+ */
+export async function setCurrentFileVersion(env: MarbleBindings, fileId: string, version: FileVersionRecord): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE files
+     SET current_version = ?2,
+         r2_key = ?3,
+         text_r2_key = ?4,
+         size = ?5,
+         mime_type = ?6,
+         source_encoding = ?7,
+         file_name = ?8,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(
+      fileId,
+      version.version,
+      version.r2_key,
+      version.text_r2_key ?? null,
+      version.size,
+      version.mime_type ?? null,
+      version.source_encoding ?? null,
+      version.file_name,
+    )
+    .run();
+}
+
 export interface FileWithFolder extends FileRecord {
   folder_name: string;
   folder_visibility: Visibility;
   folder_team_id: string | null;
+  folder_chunking_strategy?: string | null;
+  folder_chunk_size?: number | null;
+  folder_chunk_overlap?: number | null;
   owner_email: string;
   owner_display_name: string | null;
   has_direct_access?: number;
@@ -515,6 +1022,17 @@ export async function getFile(env: MarbleBindings, fileId: string, organisationI
       fi.visibility,
       fi.file_name,
       fi.r2_key,
+      fi.text_r2_key,
+      fi.source_encoding,
+      fi.multipart_upload_id,
+      fi.current_version,
+      fi.pii_summary,
+      fi.summary_abstract,
+      fi.summary_key_points,
+      fi.summary_model,
+      fi.summary_source_hash,
+      fi.summarized_at,
+      fi.tags,
       fi.size,
       fi.mime_type,
       fi.status,
@@ -524,6 +1042,9 @@ export async function getFile(env: MarbleBindings, fileId: string, organisationI
       fo.name AS folder_name,
       fo.visibility AS folder_visibility,
       fo.team_id AS folder_team_id,
+      fo.chunking_strategy AS folder_chunking_strategy,
+      fo.chunk_size AS folder_chunk_size,
+      fo.chunk_overlap AS folder_chunk_overlap,
       u.email AS owner_email,
       u.display_name AS owner_display_name
     FROM files fi
@@ -549,6 +1070,7 @@ export interface ListFilesFilters {
   teamIds?: string[];
   folderId?: string;
   visibility?: 'organization' | 'personal' | 'team' | 'all';
+  tag?: string;
 }
 
 export async function listFiles(env: MarbleBindings, filters: ListFilesFilters): Promise<FileWithFolder[]> {
@@ -587,6 +1109,11 @@ export async function listFiles(env: MarbleBindings, filters: ListFilesFilters):
 
   clauses.push(`(${fragments.join(' OR ')})`);
 
+  if (filters.tag) {
+    bindings.push(filters.tag);
+    clauses.push(`fi.id IN (SELECT file_id FROM file_tags WHERE tag = ?${bindings.length})`);
+  }
+
   const statement = `
     SELECT DISTINCT
       fi.id,
@@ -598,6 +1125,16 @@ export async function listFiles(env: MarbleBindings, filters: ListFilesFilters):
       fi.visibility,
       fi.file_name,
       fi.r2_key,
+      fi.text_r2_key,
+      fi.source_encoding,
+      fi.current_version,
+      fi.pii_summary,
+      fi.summary_abstract,
+      fi.summary_key_points,
+      fi.summary_model,
+      fi.summary_source_hash,
+      fi.summarized_at,
+      fi.tags,
       fi.size,
       fi.mime_type,
       fi.status,
@@ -646,11 +1183,22 @@ export async function insertChunk(
     | 'start_line'
     | 'end_line'
     | 'content'
-  >,
+    | 'heading_path'
+    | 'page_number'
+    | 'start_row'
+    | 'end_row'
+    | 'symbol'
+    | 'start_ms'
+    | 'end_ms'
+    | 'content_hash'
+    | 'embedding_model'
+    | 'embedding_dimensions'
+  > &
+    Pick<ChunkRecord, 'kind'>,
 ): Promise<void> {
   await env.MARBLE_DB.prepare(
-    `INSERT INTO chunks (id, file_id, folder_id, organization_id, owner_id, team_id, visibility, chunk_index, start_line, end_line, content)
-     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11)`
+    `INSERT INTO chunks (id, file_id, folder_id, organization_id, owner_id, team_id, visibility, chunk_index, start_line, end_line, content, heading_path, page_number, start_row, end_row, symbol, start_ms, end_ms, content_hash, embedding_model, embedding_dimensions, kind)
+     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17, ?18, ?19, ?20, ?21, ?22)`
   )
     .bind(
       record.id,
@@ -664,8 +1212,20 @@ export async function insertChunk(
       record.start_line,
       record.end_line,
       record.content,
+      record.heading_path ?? null,
+      record.page_number ?? null,
+      record.start_row ?? null,
+      record.end_row ?? null,
+      record.symbol ?? null,
+      record.start_ms ?? null,
+      record.end_ms ?? null,
+      record.content_hash ?? null,
+      record.embedding_model ?? null,
+      record.embedding_dimensions ?? null,
+      record.kind ?? 'content',
     )
     .run();
+  await env.MARBLE_DB.prepare('INSERT INTO chunks_fts (content, chunk_id) VALUES (?1, ?2)').bind(record.content, record.id).run();
 }
 
 export async function deleteChunksForFile(env: MarbleBindings, fileId: string): Promise<string[]> {
@@ -673,10 +1233,225 @@ export async function deleteChunksForFile(env: MarbleBindings, fileId: string):
     .bind(fileId)
     .all<{ id: string }>();
 
+  await env.MARBLE_DB.prepare('DELETE FROM chunks_fts WHERE chunk_id IN (SELECT id FROM chunks WHERE file_id = ?1)').bind(fileId).run();
   await env.MARBLE_DB.prepare('DELETE FROM chunks WHERE file_id = ?1').bind(fileId).run();
   return (chunkIds.results ?? []).map((row) => row.id);
 }
 
+// Where a chunk sits in its file; everything but the content that re-ingestion may need to update.
+export type ChunkPosition = Pick<
+  ChunkRecord,
+  'chunk_index' | 'start_line' | 'end_line' | 'heading_path' | 'page_number' | 'start_row' | 'end_row' | 'symbol' | 'start_ms' | 'end_ms'
+>;
+
+export type ChunkFingerprint = ChunkPosition &
+  Pick<ChunkRecord, 'id' | 'content_hash' | 'embedding_model' | 'embedding_dimensions'>;
+
+export async function listChunkFingerprints(env: MarbleBindings, fileId: string): Promise<ChunkFingerprint[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, chunk_index, content_hash, start_line, end_line, heading_path, page_number, start_row, end_row, symbol, start_ms, end_ms,
+            embedding_model, embedding_dimensions
+     FROM chunks
+     WHERE file_id = ?1 AND kind = 'content'
+     ORDER BY chunk_index`,
+  )
+    .bind(fileId)
+    .all<ChunkFingerprint>();
+  return results.results ?? [];
+}
+
+export type SummarySourceChunk = Pick<ChunkRecord, 'id' | 'chunk_index' | 'content' | 'content_hash' | 'start_line' | 'end_line'>;
+
+export async function listSummarySourceChunks(env: MarbleBindings, fileId: string): Promise<SummarySourceChunk[]> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, chunk_index, content, content_hash, start_line, end_line
+     FROM chunks
+     WHERE file_id = ?1 AND kind = 'content'
+     ORDER BY chunk_index`,
+  )
+    .bind(fileId)
+    .all<SummarySourceChunk>();
+  return results.results ?? [];
+}
+
+export async function getSummaryChunk(
+  env: MarbleBindings,
+  fileId: string,
+): Promise<Pick<ChunkRecord, 'id' | 'embedding_model' | 'embedding_dimensions'> | null> {
+  return env.MARBLE_DB.prepare(
+    `SELECT id, embedding_model, embedding_dimensions
+     FROM chunks
+     WHERE file_id = ?1 AND kind = 'summary'`,
+  )
+    .bind(fileId)
+    .first<Pick<ChunkRecord, 'id' | 'embedding_model' | 'embedding_dimensions'>>();
+}
+
+export async function updateChunkPosition(env: MarbleBindings, chunkId: string, position: ChunkPosition): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE chunks
+     SET chunk_index = ?2,
+         start_line = ?3,
+         end_line = ?4,
+         heading_path = ?5,
+         page_number = ?6,
+         start_row = ?7,
+         end_row = ?8,
+         symbol = ?9,
+         start_ms = ?10,
+         end_ms = ?11
+     WHERE id = ?1`,
+  )
+    .bind(
+      chunkId,
+      position.chunk_index,
+      position.start_line,
+      position.end_line,
+      position.heading_path ?? null,
+      position.page_number ?? null,
+      position.start_row ?? null,
+      position.end_row ?? null,
+      position.symbol ?? null,
+      position.start_ms ?? null,
+      position.end_ms ?? null,
+    )
+    .run();
+}
+
+export async function updateChunkEmbeddingModel(
+  env: MarbleBindings,
+  chunkId: string,
+  model: string,
+  dimensions: number,
+): Promise<void> {
+  await env.MARBLE_DB.prepare('UPDATE chunks SET embedding_model = ?2, embedding_dimensions = ?3 WHERE id = ?1')
+    .bind(chunkId, model, dimensions)
+    .run();
+}
+
+/** Counts an organisation's chunks, and how many of them were embedded with `model`. */
+export async function countChunksByEmbeddingModel(
+  env: MarbleBindings,
+  organisationId: string,
+  model: string,
+): Promise<{ total: number; current: number }> {
+  const row = await env.MARBLE_DB.prepare(
+    `SELECT COUNT(*) AS total, SUM(CASE WHEN embedding_model = ?2 THEN 1 ELSE 0 END) AS current
+     FROM chunks
+     WHERE organization_id = ?1`,
+  )
+    .bind(organisationId, model)
+    .first<{ total: number; current: number | null }>();
+  return { total: row?.total ?? 0, current: row?.current ?? 0 };
+}
+
+// D1 caps bound parameters per statement at 100.
+const MAX_BOUND_IDS = 90;
+
+export async function deleteChunksByIds(env: MarbleBindings, chunkIds: string[]): Promise<void> {
+  for (let offset = 0; offset < chunkIds.length; offset += MAX_BOUND_IDS) {
+    const slice = chunkIds.slice(offset, offset + MAX_BOUND_IDS);
+    const placeholders = slice.map((_, idx) => `?${idx + 1}`).join(',');
+    await env.MARBLE_DB.prepare(`DELETE FROM chunks_fts WHERE chunk_id IN (${placeholders})`)
+      .bind(...slice)
+      .run();
+    await env.MARBLE_DB.prepare(`DELETE FROM chunks WHERE id IN (${placeholders})`)
+      .bind(...slice)
+      .run();
+  }
+}
+
+export interface KeywordSearchScope {
+  organisationId: string;
+  includeOrganization: boolean;
+  // Personal chunks owned by this user.
+  userId?: string;
+  teamIds?: string[];
+}
+
+export interface KeywordMatch {
+  chunk_id: string;
+  // FTS5 bm25(): lower is better.
+  rank: number;
+}
+
+/**
+ * BM25 search over chunk content, limited to the chunks the caller may see: the same organization,
+ * personal and team partitions the vector namespaces cover.
+ */
+export async function searchChunksByKeyword(
+  env: MarbleBindings,
+  matchQuery: string,
+  scope: KeywordSearchScope,
+  limit: number,
+): Promise<KeywordMatch[]> {
+  const bindings: unknown[] = [matchQuery, scope.organisationId, limit];
+  const fragments: string[] = [];
+  if (scope.includeOrganization) {
+    fragments.push("c.visibility = 'organization'");
+  }
+  if (scope.userId) {
+    bindings.push(scope.userId);
+    fragments.push(`(c.visibility = 'personal' AND c.owner_id = ?${bindings.length})`);
+  }
+  const teamIds = scope.teamIds ?? [];
+  if (teamIds.length) {
+    const placeholders = teamIds.map((_, index) => `?${bindings.length + index + 1}`).join(',');
+    bindings.push(...teamIds);
+    fragments.push(`(c.visibility = 'team' AND c.team_id IN (${placeholders}))`);
+  }
+  if (!fragments.length) {
+    return [];
+  }
+
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT c.id AS chunk_id, bm25(chunks_fts) AS rank
+     FROM chunks_fts
+     JOIN chunks c ON c.id = chunks_fts.chunk_id
+     WHERE chunks_fts MATCH ?1 AND c.organization_id = ?2 AND (${fragments.join(' OR ')})
+     ORDER BY rank
+     LIMIT ?3`,
+  )
+    .bind(...bindings)
+    .all<KeywordMatch>();
+  return results.results ?? [];
+}
+
+export async function getCachedEmbeddings(
+  env: MarbleBindings,
+  model: string,
+  contentHashes: string[],
+): Promise<Map<string, number[]>> {
+  const cached = new Map<string, number[]>();
+  const unique = Array.from(new Set(contentHashes));
+  for (let offset = 0; offset < unique.length; offset += MAX_BOUND_IDS) {
+    const slice = unique.slice(offset, offset + MAX_BOUND_IDS);
+    const placeholders = slice.map((_, idx) => `?${idx + 2}`).join(',');
+    const results = await env.MARBLE_DB.prepare(
+      `SELECT content_hash, embedding FROM embedding_cache WHERE model = ?1 AND content_hash IN (${placeholders})`,
+    )
+      .bind(model, ...slice)
+      .all<{ content_hash: string; embedding: string }>();
+    for (const row of results.results ?? []) {
+      try {
+        cached.set(row.content_hash, JSON.parse(row.embedding) as number[]);
+      } catch (error) {
+        console.warn('Ignoring unreadable cached embedding', { model, contentHash: row.content_hash, error });
+      }
+    }
+  }
+  return cached;
+}
+
+export async function cacheEmbedding(env: MarbleBindings, model: string, contentHash: string, embedding: number[]): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `INSERT OR IGNORE INTO embedding_cache (model, content_hash, dimensions, embedding, created_at)
+     VALUES (?1, ?2, ?3, ?4, ?5)`,
+  )
+    .bind(model, contentHash, embedding.length, JSON.stringify(embedding), isoNow())
+    .run();
+}
+
 export async function getChunksByIds(env: MarbleBindings, chunkIds: string[]): Promise<ChunkWithContext[]> {
   if (!chunkIds.length) {
     return [];
@@ -695,6 +1470,14 @@ export async function getChunksByIds(env: MarbleBindings, chunkIds: string[]): P
       c.start_line,
       c.end_line,
       c.content,
+      c.heading_path,
+      c.page_number,
+      c.start_row,
+      c.end_row,
+      c.symbol,
+      c.start_ms,
+      c.end_ms,
+      c.kind,
       c.created_at,
       f.file_name,
       d.name AS folder_name
@@ -718,3 +1501,90 @@ export async function recordChat(
     .bind(data.id, data.user_id, data.question, data.answer, data.citations)
     .run();
 }
+
+const REINDEX_JOB_COLUMNS = `id, organization_id, requested_by, embedding_model, status, files_total, files_done, files_failed,
+  cursor, last_error, completed_at, created_at, updated_at`;
+
+export async function createReindexJob(
+  env: MarbleBindings,
+  data: { id: string; organisationId: string; requestedBy: string; model: string; filesTotal: number },
+): Promise<void> {
+  const now = isoNow();
+  await env.MARBLE_DB.prepare(
+    `INSERT INTO reindex_jobs (id, organization_id, requested_by, embedding_model, status, files_total, created_at, updated_at)
+     VALUES (?1, ?2, ?3, ?4, 'running', ?5, ?6, ?6)`,
+  )
+    .bind(data.id, data.organisationId, data.requestedBy, data.model, data.filesTotal, now)
+    .run();
+}
+
+export async function getReindexJob(env: MarbleBindings, jobId: string): Promise<ReindexJobRecord | null> {
+  return env.MARBLE_DB.prepare(`SELECT ${REINDEX_JOB_COLUMNS} FROM reindex_jobs WHERE id = ?1`)
+    .bind(jobId)
+    .first<ReindexJobRecord>();
+}
+
+export async function getLatestReindexJob(env: MarbleBindings, organisationId: string): Promise<ReindexJobRecord | null> {
+  return env.MARBLE_DB.prepare(
+    `SELECT ${REINDEX_JOB_COLUMNS} FROM reindex_jobs WHERE organization_id = ?1 ORDER BY created_at DESC LIMIT 1`,
+  )
+    .bind(organisationId)
+    .first<ReindexJobRecord>();
+}
+
+export async function updateReindexJob(
+  env: MarbleBindings,
+  jobId: string,
+  data: Pick<ReindexJobRecord, 'status' | 'files_done' | 'files_failed' | 'cursor' | 'last_error'>,
+): Promise<void> {
+  const now = isoNow();
+  await env.MARBLE_DB.prepare(
+    `UPDATE reindex_jobs
+     SET status = ?2,
+         files_done = ?3,
+         files_failed = ?4,
+         cursor = ?5,
+         last_error = ?6,
+         completed_at = ?7,
+         updated_at = ?8
+     WHERE id = ?1`,
+  )
+    .bind(
+      jobId,
+      data.status,
+      data.files_done,
+      data.files_failed,
+      data.cursor,
+      data.last_error,
+      data.status === 'running' ? null : now,
+      now,
+    )
+    .run();
+}
+
+// Only indexed files are re-embedded; anything queued or processing is ingested with the active model anyway.
+export async function countReindexableFiles(env: MarbleBindings, organisationId: string): Promise<number> {
+  const row = await env.MARBLE_DB.prepare(
+    `SELECT COUNT(*) AS files_total FROM files WHERE organization_id = ?1 AND status = 'ready' AND deleted_at IS NULL`,
+  )
+    .bind(organisationId)
+    .first<{ files_total: number }>();
+  return row?.files_total ?? 0;
+}
+
+export async function listReindexableFiles(
+  env: MarbleBindings,
+  organisationId: string,
+  afterId: string | null,
+  limit: number,
+): Promise<Array<Pick<FileRecord, 'id' | 'file_name' | 'owner_id'>>> {
+  const results = await env.MARBLE_DB.prepare(
+    `SELECT id, file_name, owner_id FROM files
+     WHERE organization_id = ?1 AND status = 'ready' AND deleted_at IS NULL AND id > ?2
+     ORDER BY id
+     LIMIT ?3`,
+  )
+    .bind(organisationId, afterId ?? '', limit)
+    .all<Pick<FileRecord, 'id' | 'file_name' | 'owner_id'>>();
+  return results.results ?? [];
+}
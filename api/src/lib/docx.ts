@@ -0,0 +1,299 @@
+// Converts Word (.docx) documents to Markdown-flavoured text by walking word/document.xml.
+// Headings become `#` lines, list items keep their bullets/numbers and indentation, and
+// tables become pipe rows, so the result can go through the Markdown chunker.
+
+import { findZipEntry, listZipEntries, readZipEntry, ZipError, type ZipEntry } from './zip';
+
+export class DocxError extends Error {}
+
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(Number.parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(Number.parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+// Namespace prefixes are dropped: OOXML part names are unambiguous by local name.
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon >= 0 ? name.slice(colon + 1) : name;
+}
+
+function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < source.length) {
+    const open = source.indexOf('<', position);
+    const textEnd = open < 0 ? source.length : open;
+    if (textEnd > position) {
+      stack[stack.length - 1].children.push(decodeEntities(source.slice(position, textEnd)));
+    }
+    if (open < 0) break;
+
+    if (source.startsWith('<!--', open)) {
+      const end = source.indexOf('-->', open);
+      position = end < 0 ? source.length : end + 3;
+    } else if (source.startsWith('<![CDATA[', open)) {
+      const end = source.indexOf(']]>', open);
+      stack[stack.length - 1].children.push(source.slice(open + 9, end < 0 ? source.length : end));
+      position = end < 0 ? source.length : end + 3;
+    } else if (source.startsWith('<?', open) || source.startsWith('<!', open)) {
+      const end = source.indexOf('>', open);
+      position = end < 0 ? source.length : end + 1;
+    } else if (source.startsWith('</', open)) {
+      const end = source.indexOf('>', open);
+      if (stack.length > 1) stack.pop();
+      position = end < 0 ? source.length : end + 1;
+    } else {
+      const end = source.indexOf('>', open);
+      if (end < 0) break;
+      const selfClosing = source[end - 1] === '/';
+      const body = source.slice(open + 1, selfClosing ? end - 1 : end);
+      const nameMatch = /^[^\s/>]+/.exec(body);
+      const element: XmlElement = { name: localName(nameMatch?.[0] ?? ''), attrs: {}, children: [] };
+      for (const attr of body.slice(nameMatch?.[0].length ?? 0).matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        element.attrs[localName(attr[1])] = decodeEntities(attr[2] ?? attr[3] ?? '');
+      }
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+      position = end + 1;
+    }
+  }
+  return root;
+}
+
+function elements(node: XmlElement, name?: string): XmlElement[] {
+  return node.children.filter((child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name));
+}
+
+function child(node: XmlElement | undefined, name: string): XmlElement | undefined {
+  return node ? elements(node, name)[0] : undefined;
+}
+
+function descendant(node: XmlElement, name: string): XmlElement | undefined {
+  for (const entry of elements(node)) {
+    if (entry.name === name) return entry;
+    const found = descendant(entry, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function parseHeadingLevel(name: string | undefined, outline: string | undefined): number | null {
+  if (outline !== undefined && /^\d$/.test(outline) && Number(outline) < 9) {
+    return Number(outline) + 1;
+  }
+  if (!name) return null;
+  if (/^title$/i.test(name)) return 1;
+  const match = /^heading\s*(\d)$/i.exec(name);
+  return match ? Number(match[1]) : null;
+}
+
+function readStyles(xml: XmlElement | null): Map<string, number> {
+  const headingLevels = new Map<string, number>();
+  const styles = xml ? child(xml, 'styles') : undefined;
+  for (const style of styles ? elements(styles, 'style') : []) {
+    if (style.attrs.type !== 'paragraph' || !style.attrs.styleId) continue;
+    const level = parseHeadingLevel(
+      child(style, 'name')?.attrs.val,
+      child(child(style, 'pPr'), 'outlineLvl')?.attrs.val,
+    );
+    if (level) headingLevels.set(style.attrs.styleId, level);
+  }
+  return headingLevels;
+}
+
+function readNumbering(xml: XmlElement | null): Map<string, Map<string, string>> {
+  const formats = new Map<string, Map<string, string>>();
+  const numbering = xml ? child(xml, 'numbering') : undefined;
+  if (!numbering) return formats;
+
+  const abstractFormats = new Map<string, Map<string, string>>();
+  for (const abstract of elements(numbering, 'abstractNum')) {
+    const levels = new Map<string, string>();
+    for (const level of elements(abstract, 'lvl')) {
+      levels.set(level.attrs.ilvl ?? '0', child(level, 'numFmt')?.attrs.val ?? 'decimal');
+    }
+    abstractFormats.set(abstract.attrs.abstractNumId ?? '', levels);
+  }
+  for (const num of elements(numbering, 'num')) {
+    const abstractId = child(num, 'abstractNumId')?.attrs.val ?? '';
+    formats.set(num.attrs.numId ?? '', abstractFormats.get(abstractId) ?? new Map());
+  }
+  return formats;
+}
+
+const SKIPPED_ELEMENTS = new Set(['pPr', 'rPr', 'del', 'delText', 'instrText', 'Fallback', 'footnoteReference', 'endnoteReference']);
+
+function collectText(node: XmlElement): string {
+  let out = '';
+  for (const entry of node.children) {
+    if (typeof entry === 'string') continue;
+    if (SKIPPED_ELEMENTS.has(entry.name)) continue;
+    switch (entry.name) {
+      case 't':
+        out += entry.children.filter((text): text is string => typeof text === 'string').join('');
+        break;
+      case 'tab':
+        out += '\t';
+        break;
+      case 'br':
+      case 'cr':
+        out += '\n';
+        break;
+      case 'noBreakHyphen':
+        out += '-';
+        break;
+      default:
+        out += collectText(entry);
+    }
+  }
+  return out;
+}
+
+interface Block {
+  kind: 'paragraph' | 'heading' | 'list' | 'table';
+  text: string;
+}
+
+class DocxWalker {
+  private counters = new Map<string, number[]>();
+
+  constructor(
+    private readonly headingStyles: Map<string, number>,
+    private readonly numbering: Map<string, Map<string, string>>,
+  ) {}
+
+  walk(container: XmlElement, blocks: Block[]): void {
+    for (const node of elements(container)) {
+      if (node.name === 'p') {
+        const block = this.paragraph(node);
+        if (block) blocks.push(block);
+      } else if (node.name === 'tbl') {
+        const table = this.table(node);
+        if (table) blocks.push({ kind: 'table', text: table });
+      } else if (node.name === 'sdt') {
+        const content = child(node, 'sdtContent');
+        if (content) this.walk(content, blocks);
+      }
+    }
+  }
+
+  private paragraph(node: XmlElement): Block | null {
+    const text = collectText(node).replace(/[ \t]+\n/g, '\n').trim();
+    if (!text) return null;
+
+    const properties = child(node, 'pPr');
+    const styleId = child(properties, 'pStyle')?.attrs.val;
+    const level =
+      parseHeadingLevel(undefined, child(properties, 'outlineLvl')?.attrs.val) ??
+      (styleId ? this.headingStyles.get(styleId) ?? null : null);
+    if (level) {
+      return { kind: 'heading', text: `${'#'.repeat(Math.min(level, 6))} ${text.replace(/\s+/g, ' ')}` };
+    }
+
+    const numPr = child(properties, 'numPr');
+    const numId = child(numPr, 'numId')?.attrs.val;
+    if (numId && numId !== '0') {
+      const depth = Number(child(numPr, 'ilvl')?.attrs.val ?? '0') || 0;
+      const format = this.numbering.get(numId)?.get(String(depth)) ?? 'bullet';
+      const marker = format === 'bullet' || format === 'none' ? '-' : `${this.nextNumber(numId, depth)}.`;
+      return { kind: 'list', text: `${'  '.repeat(depth)}${marker} ${text.replace(/\n/g, ' ')}` };
+    }
+
+    return { kind: 'paragraph', text };
+  }
+
+  private nextNumber(numId: string, depth: number): number {
+    const counters = this.counters.get(numId) ?? [];
+    counters[depth] = (counters[depth] ?? 0) + 1;
+    counters.length = depth + 1;
+    this.counters.set(numId, counters);
+    return counters[depth];
+  }
+
+  private table(node: XmlElement): string | null {
+    const rows = elements(node, 'tr').map((row) =>
+      elements(row, 'tc').map((cell) => {
+        const nested: Block[] = [];
+        this.walk(cell, nested);
+        return nested
+          .map((block) => block.text.replace(/^#+\s+/, ''))
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .replace(/\|/g, '\\|')
+          .trim();
+      }),
+    );
+    const populated = rows.filter((cells) => cells.some(Boolean));
+    if (!populated.length) return null;
+
+    const width = Math.max(...populated.map((cells) => cells.length));
+    const lines = populated.map((cells) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`);
+    lines.splice(1, 0, `| ${Array(width).fill('---').join(' | ')} |`);
+    return lines.join('\n');
+  }
+}
+
+async function readPart(bytes: Uint8Array, entries: ZipEntry[], name: string): Promise<XmlElement | null> {
+  const entry = findZipEntry(entries, name);
+  if (!entry) {
+    return null;
+  }
+  try {
+    return parseXml(new TextDecoder().decode(await readZipEntry(bytes, entry)));
+  } catch (error) {
+    if (error instanceof ZipError) throw new DocxError(error.message);
+    throw error;
+  }
+}
+
+/**
+ * Converts a .docx file to Markdown-flavoured plain text.
+ * Throws DocxError when the archive or its main document part is missing or unreadable.
+ */
+export async function convertDocxToText(input: ArrayBuffer | Uint8Array): Promise<string> {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  let entries: ZipEntry[];
+  try {
+    entries = listZipEntries(bytes);
+  } catch (error) {
+    if (error instanceof ZipError) throw new DocxError('File is not a valid .docx document.');
+    throw error;
+  }
+
+  const document = await readPart(bytes, entries, 'word/document.xml');
+  const body = document ? descendant(document, 'body') : undefined;
+  if (!body) {
+    throw new DocxError('File is not a valid .docx document.');
+  }
+
+  const walker = new DocxWalker(
+    readStyles(await readPart(bytes, entries, 'word/styles.xml')),
+    readNumbering(await readPart(bytes, entries, 'word/numbering.xml')),
+  );
+  const blocks: Block[] = [];
+  walker.walk(body, blocks);
+
+  let text = '';
+  blocks.forEach((block, index) => {
+    if (index > 0) {
+      text += block.kind === 'list' && blocks[index - 1].kind === 'list' ? '\n' : '\n\n';
+    }
+    text += block.text;
+  });
+  return text;
+}
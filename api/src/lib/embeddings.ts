@@ -0,0 +1,323 @@
+import { retryAfterMs } from './openai';
+import { tokenizerForModel } from './tokens';
+import type { MarbleBindings } from '../types';
+
+export class EmbeddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'workers-ai' | 'hash';
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  // Cached embeddings are only valid for the model that produced them.
+  model: string;
+  // Vector length when the provider fixes it; otherwise whatever the model returns.
+  dimensions: number | null;
+  // Embeds one batch, returning one vector per input in input order.
+  embed(input: string[]): Promise<number[][]>;
+}
+
+interface EmbeddingResponse {
+  data: Array<{ embedding: number[]; index?: number }>;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const DEFAULT_WORKERS_AI_MODEL = '@cf/baai/bge-base-en-v1.5';
+const DEFAULT_HASH_DIMENSIONS = 256;
+
+// OpenAI accepts up to 2048 inputs and 300k tokens per request; staying well below both keeps
+// a single request from eating a whole tokens-per-minute window. Workers AI takes 100 inputs.
+const DEFAULT_BATCH_ITEMS = 96;
+const DEFAULT_BATCH_TOKENS = 60_000;
+const DEFAULT_CONCURRENCY = 2;
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_MS = 500;
+const MAX_RETRY_MS = 60_000;
+
+export interface EmbeddingBatch {
+  // Index of the batch's first input in the original `input` array.
+  start: number;
+  embeddings: number[][];
+}
+
+export interface EmbeddingOptions {
+  // Called as each batch finishes, one call at a time, so callers can persist partial progress.
+  onBatch?: (batch: EmbeddingBatch) => Promise<void> | void;
+}
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status === 408 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// POSTs to an OpenAI-style `/embeddings` endpoint, retrying 429 and 5xx responses.
+async function requestEmbeddings(
+  endpoint: string,
+  apiKey: string | undefined,
+  model: string,
+  input: string[],
+): Promise<number[][]> {
+  for (let attempt = 1; ; attempt += 1) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        input,
+      }),
+    });
+
+    if (response.ok) {
+      const payload = (await response.json()) as EmbeddingResponse;
+      const data = [...payload.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      if (data.length !== input.length) {
+        throw new EmbeddingError(`Embedding count mismatch: got ${data.length}, expected ${input.length}`);
+      }
+      return data.map((item) => item.embedding);
+    }
+
+    const error = await response.text();
+    if (!isRetryableStatus(response.status) || attempt >= MAX_ATTEMPTS) {
+      throw new EmbeddingError(`Embedding request failed: ${response.status} ${error}`);
+    }
+    const backoff = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempt - 1));
+    const wait = retryAfterMs(response.headers) ?? backoff * (0.5 + Math.random() / 2);
+    if (wait > MAX_RETRY_MS) {
+      // Longer waits are better left to the ingestion queue's own backoff.
+      throw new EmbeddingError(`Embedding request failed: ${response.status} retry after ${Math.ceil(wait / 1000)}s`);
+    }
+    console.warn('Embedding request throttled, retrying', { status: response.status, attempt, waitMs: Math.round(wait) });
+    await sleep(wait);
+  }
+}
+
+function openAIProvider(env: MarbleBindings): EmbeddingProvider {
+  const model = env.EMBEDDING_MODEL ?? env.OPENAI_EMBEDDING_MODEL ?? DEFAULT_OPENAI_MODEL;
+  return {
+    name: 'openai',
+    model,
+    dimensions: null,
+    embed: async (input) => {
+      if (!env.OPENAI_API_KEY) {
+        throw new EmbeddingError('Missing OPENAI_API_KEY binding');
+      }
+      return requestEmbeddings(`${OPENAI_BASE_URL}/embeddings`, env.OPENAI_API_KEY, model, input);
+    },
+  };
+}
+
+// Any server speaking the OpenAI embeddings API: Ollama, vLLM, LM Studio, Azure-style proxies.
+function openAICompatibleProvider(env: MarbleBindings): EmbeddingProvider {
+  const baseUrl = env.EMBEDDING_BASE_URL?.trim().replace(/\/+$/, '');
+  const model = env.EMBEDDING_MODEL ?? env.OPENAI_EMBEDDING_MODEL;
+  if (!baseUrl || !model) {
+    throw new EmbeddingError('EMBEDDING_PROVIDER=openai-compatible needs EMBEDDING_BASE_URL and EMBEDDING_MODEL');
+  }
+  return {
+    name: 'openai-compatible',
+    model,
+    dimensions: null,
+    embed: (input) => requestEmbeddings(`${baseUrl}/embeddings`, env.EMBEDDING_API_KEY, model, input),
+  };
+}
+
+function workersAIProvider(env: MarbleBindings): EmbeddingProvider {
+  const model = env.EMBEDDING_MODEL ?? DEFAULT_WORKERS_AI_MODEL;
+  return {
+    name: 'workers-ai',
+    model,
+    dimensions: null,
+    embed: async (input) => {
+      if (!env.AI) {
+        throw new EmbeddingError('Missing AI binding for EMBEDDING_PROVIDER=workers-ai');
+      }
+      let output: { data?: unknown };
+      try {
+        output = (await env.AI.run(model, { text: input })) as { data?: unknown };
+      } catch (error) {
+        throw new EmbeddingError(`Embedding request failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const data = Array.isArray(output?.data) ? (output.data as number[][]) : [];
+      if (data.length !== input.length) {
+        throw new EmbeddingError(`Embedding count mismatch: got ${data.length}, expected ${input.length}`);
+      }
+      return data;
+    },
+  };
+}
+
+// 32-bit FNV-1a over UTF-16 code units.
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Feature-hashes words and their character trigrams into a unit vector. Texts sharing words land
+ * close together, which is enough to exercise retrieval end to end without any network access.
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+  for (const [word] of text.toLowerCase().matchAll(/[\p{L}\p{N}_]+/gu)) {
+    add(word, 1);
+    const padded = `#${word}#`;
+    for (let index = 0; index + 3 <= padded.length; index += 1) {
+      add(padded.slice(index, index + 3), 0.5);
+    }
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (!norm) {
+    // Cosine similarity is undefined for the zero vector, so blank text gets a fixed direction.
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
+
+function hashProvider(env: MarbleBindings): EmbeddingProvider {
+  const dimensions = parsePositive(env.EMBEDDING_DIMENSIONS, DEFAULT_HASH_DIMENSIONS);
+  return {
+    name: 'hash',
+    model: `hash-v1-${dimensions}`,
+    dimensions,
+    embed: async (input) => input.map((text) => hashEmbedding(text, dimensions)),
+  };
+}
+
+const PROVIDERS: Record<EmbeddingProviderName, (env: MarbleBindings) => EmbeddingProvider> = {
+  openai: openAIProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'workers-ai': workersAIProvider,
+  hash: hashProvider,
+};
+
+function isProviderName(value: string): value is EmbeddingProviderName {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+/** Picks the embedding provider named by EMBEDDING_PROVIDER (default `openai`). */
+export function resolveEmbeddingProvider(env: MarbleBindings): EmbeddingProvider {
+  const name = env.EMBEDDING_PROVIDER?.trim().toLowerCase() || 'openai';
+  if (!isProviderName(name)) {
+    throw new EmbeddingError(`Unknown EMBEDDING_PROVIDER "${name}"; use ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+  return PROVIDERS[name](env);
+}
+
+/**
+ * The model that vectors without an `embeddingModel` tag were made with: before models were
+ * recorded, every vector came from the OpenAI embeddings model configured for the Worker.
+ */
+export function legacyEmbeddingModelName(env: MarbleBindings): string {
+  return env.OPENAI_EMBEDDING_MODEL ?? DEFAULT_OPENAI_MODEL;
+}
+
+/** The embedding model in use; cached embeddings are only valid for the model that produced them. */
+export function embeddingModelName(env: MarbleBindings): string {
+  return resolveEmbeddingProvider(env).model;
+}
+
+/**
+ * Splits inputs into consecutive [start, end) ranges holding at most `maxItems` inputs and
+ * `maxTokens` estimated tokens. An input that alone exceeds the token budget gets its own batch.
+ */
+export function planEmbeddingBatches(
+  input: string[],
+  limits: { maxItems: number; maxTokens: number; count: (text: string) => number },
+): Array<[number, number]> {
+  const batches: Array<[number, number]> = [];
+  let start = 0;
+  let tokens = 0;
+  for (let index = 0; index < input.length; index += 1) {
+    const cost = limits.count(input[index]);
+    if (index > start && (index - start >= limits.maxItems || tokens + cost > limits.maxTokens)) {
+      batches.push([start, index]);
+      start = index;
+      tokens = 0;
+    }
+    tokens += cost;
+  }
+  if (start < input.length) {
+    batches.push([start, input.length]);
+  }
+  return batches;
+}
+
+/**
+ * Embeds `input` with the configured provider in batches bounded by EMBEDDING_BATCH_SIZE inputs and
+ * EMBEDDING_BATCH_TOKENS estimated tokens, running at most EMBEDDING_CONCURRENCY requests at once.
+ * HTTP providers retry 429 and 5xx responses after `Retry-After` (or an exponential backoff).
+ * Returns the vectors in input order; if a batch fails, batches already passed to `onBatch` stay
+ * delivered.
+ */
+export async function createEmbeddings(
+  env: MarbleBindings,
+  input: string[],
+  options: EmbeddingOptions = {},
+): Promise<number[][]> {
+  const provider = resolveEmbeddingProvider(env);
+  const tokenizer = tokenizerForModel(provider.model);
+  const batches = planEmbeddingBatches(input, {
+    maxItems: parsePositive(env.EMBEDDING_BATCH_SIZE, DEFAULT_BATCH_ITEMS),
+    maxTokens: parsePositive(env.EMBEDDING_BATCH_TOKENS, DEFAULT_BATCH_TOKENS),
+    count: tokenizer.count,
+  });
+  const concurrency = Math.min(parsePositive(env.EMBEDDING_CONCURRENCY, DEFAULT_CONCURRENCY), batches.length);
+
+  const results: number[][] = new Array(input.length);
+  let next = 0;
+  let failed = false;
+  // Serialises onBatch so callers never persist two batches at once.
+  let delivered: Promise<void> = Promise.resolve();
+
+  const worker = async () => {
+    while (!failed && next < batches.length) {
+      const [start, end] = batches[next];
+      next += 1;
+      try {
+        const embeddings = await provider.embed(input.slice(start, end));
+        embeddings.forEach((embedding, offset) => {
+          results[start + offset] = embedding;
+        });
+        if (options.onBatch) {
+          delivered = delivered.then(() => options.onBatch?.({ start, embeddings }));
+          await delivered;
+        }
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  // Let in-flight batches settle before reporting a failure, so nothing is persisted afterwards.
+  const outcomes = await Promise.allSettled(Array.from({ length: concurrency }, worker));
+  const rejected = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+  if (rejected) {
+    throw rejected.reason;
+  }
+  return results;
+}
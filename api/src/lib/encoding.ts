@@ -0,0 +1,207 @@
+// Detects the character encoding of text uploads and decodes them to NFC-normalised strings.
+// Workers only guarantee a UTF-8 TextDecoder, so UTF-16 and Windows-1252 are decoded by hand.
+
+export type SourceEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface DecodedText {
+  text: string;
+  encoding: SourceEncoding;
+}
+
+// Windows-1252 differs from Latin-1 only in 0x80–0x9F; undefined bytes map to their C1 control.
+const WINDOWS_1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+  0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178,
+];
+
+const SNIFF_BYTES = 4096;
+// Share of NUL bytes in one byte position that marks BOM-less UTF-16 text.
+const UTF16_NUL_RATIO = 0.3;
+
+function sniffBom(bytes: Uint8Array): { encoding: SourceEncoding; length: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', length: 3 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', length: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', length: 2 };
+  return null;
+}
+
+// ASCII-heavy UTF-16 has a NUL in every other byte: odd positions for LE, even for BE.
+function sniffUtf16(bytes: Uint8Array): SourceEncoding | null {
+  const length = Math.min(bytes.length, SNIFF_BYTES) & ~1;
+  if (length < 4) return null;
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenNuls += 1;
+    if (bytes[i + 1] === 0) oddNuls += 1;
+  }
+  const pairs = length / 2;
+  if (oddNuls / pairs > UTF16_NUL_RATIO && evenNuls / pairs < UTF16_NUL_RATIO / 3) return 'utf-16le';
+  if (evenNuls / pairs > UTF16_NUL_RATIO && oddNuls / pairs < UTF16_NUL_RATIO / 3) return 'utf-16be';
+  return null;
+}
+
+// `partial` tolerates a multi-byte sequence cut off at the end, as in a prefix of a larger object.
+function isValidUtf8(bytes: Uint8Array, partial = false): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: partial });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function decodeUtf16(bytes: Uint8Array, littleEndian: boolean): string {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const units: number[] = [];
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    units.push(view.getUint16(i, littleEndian));
+    if (units.length === 8192) {
+      out += String.fromCharCode(...units);
+      units.length = 0;
+    }
+  }
+  return out + String.fromCharCode(...units);
+}
+
+function decodeWindows1252(bytes: Uint8Array): string {
+  let out = '';
+  for (const byte of bytes) {
+    out += String.fromCharCode(byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : byte);
+  }
+  return out;
+}
+
+function detectEncoding(bytes: Uint8Array, partial: boolean): SourceEncoding {
+  return sniffBom(bytes)?.encoding ?? sniffUtf16(bytes) ?? (isValidUtf8(bytes, partial) ? 'utf-8' : 'windows-1252');
+}
+
+/** Detects the encoding from the first bytes of a larger object, e.g. a ranged R2 read. */
+export function detectEncodingFromPrefix(prefix: Uint8Array): SourceEncoding {
+  return detectEncoding(prefix.subarray(0, SNIFF_BYTES), true);
+}
+
+/**
+ * Detects the encoding of a text upload (BOM first, then UTF-16 and UTF-8 heuristics, falling
+ * back to Windows-1252) and returns the text without a BOM, normalised to NFC.
+ */
+export function decodeText(input: ArrayBuffer | Uint8Array): DecodedText {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const bom = sniffBom(bytes);
+  const body = bom ? bytes.subarray(bom.length) : bytes;
+  const encoding = detectEncoding(bytes, false);
+
+  let text: string;
+  switch (encoding) {
+    case 'utf-16le':
+    case 'utf-16be':
+      text = decodeUtf16(body, encoding === 'utf-16le');
+      break;
+    case 'windows-1252':
+      text = decodeWindows1252(body);
+      break;
+    default:
+      text = new TextDecoder('utf-8').decode(body);
+  }
+  return { text: text.normalize('NFC'), encoding };
+}
+
+/** Size of an upload as stored in R2: decoded text is written back as UTF-8, binaries as-is. */
+export function storedByteLength(body: string | ArrayBuffer | Uint8Array): number {
+  return typeof body === 'string' ? new TextEncoder().encode(body).byteLength : body.byteLength;
+}
+
+// Decoded text is held back until a newline (NFC never composes across one) unless a line runs longer.
+const MAX_PENDING_CHARS = 64 * 1024;
+
+function createIncrementalDecoder(encoding: SourceEncoding): (bytes: Uint8Array | null) => string {
+  if (encoding === 'utf-8') {
+    const decoder = new TextDecoder('utf-8');
+    return (bytes) => (bytes ? decoder.decode(bytes, { stream: true }) : decoder.decode());
+  }
+  if (encoding === 'windows-1252') {
+    return (bytes) => (bytes ? decodeWindows1252(bytes) : '');
+  }
+  // UTF-16 code units can straddle reads; carry a trailing odd byte into the next one.
+  let carry: Uint8Array | null = null;
+  return (bytes) => {
+    if (!bytes) {
+      return '';
+    }
+    let input = bytes;
+    if (carry) {
+      input = new Uint8Array(carry.length + bytes.length);
+      input.set(carry);
+      input.set(bytes, carry.length);
+      carry = null;
+    }
+    if (input.length % 2) {
+      carry = input.slice(input.length - 1);
+      input = input.subarray(0, input.length - 1);
+    }
+    return decodeUtf16(input, encoding === 'utf-16le');
+  };
+}
+
+/**
+ * Streaming counterpart of `decodeText` for objects too large to buffer. The encoding is
+ * detected from the first SNIFF_BYTES; text is yielded in NFC-normalised runs of whole lines.
+ */
+export async function* decodeTextStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  let head = new Uint8Array(0);
+  let finished = false;
+  while (head.length < SNIFF_BYTES && !finished) {
+    const { done, value } = await reader.read();
+    if (done) {
+      finished = true;
+    } else if (value?.length) {
+      const merged = new Uint8Array(head.length + value.length);
+      merged.set(head);
+      merged.set(value, head.length);
+      head = merged;
+    }
+  }
+
+  const encoding = detectEncoding(head.subarray(0, SNIFF_BYTES), !finished);
+  const decode = createIncrementalDecoder(encoding);
+  let pending = decode(head.subarray(sniffBom(head)?.length ?? 0));
+
+  const flush = function* (final: boolean): Generator<string> {
+    const cut = final || pending.length > MAX_PENDING_CHARS ? pending.length : pending.lastIndexOf('\n') + 1;
+    if (cut > 0) {
+      yield pending.slice(0, cut).normalize('NFC');
+      pending = pending.slice(cut);
+    }
+  };
+
+  yield* flush(false);
+  while (!finished) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    if (value?.length) {
+      pending += decode(value);
+      yield* flush(false);
+    }
+  }
+  pending += decode(null);
+  yield* flush(true);
+}
+
+// Control characters other than tab, newline, form feed (the PDF page separator) and carriage return.
+const CONTROL_CHARACTER = /[\u0000-\u0008\u000b\u000e-\u001f\u007f]/g;
+// Tolerated share of control characters in the sniffed prefix; real text has almost none.
+const MAX_CONTROL_RATIO = 0.01;
+
+/** True unless the decoded text contains NULs or more than a trace of other control characters. */
+export function looksLikeText(text: string): boolean {
+  const sample = text.slice(0, SNIFF_BYTES * 2);
+  if (sample.includes('\u0000')) {
+    return false;
+  }
+  const controls = sample.match(CONTROL_CHARACTER)?.length ?? 0;
+  return controls <= sample.length * MAX_CONTROL_RATIO;
+}
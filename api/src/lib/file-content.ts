@@ -0,0 +1,129 @@
+import { HTTPException } from 'hono/http-exception';
+import { PAGE_SEPARATOR } from './chunk';
+import { decodeTextStream } from './encoding';
+import { isBinaryFormat, type DocumentFormat } from './text-conversion';
+import type { FileRecord, MarbleBindings } from '../types';
+
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Parses a single-range `Range: bytes=...` header against the object size. Returns null when the
+ * header is absent or not a byte range (the whole object is served); multi-range requests are
+ * answered with the whole object too, which RFC 9110 allows.
+ */
+export function parseByteRange(header: string | undefined, size: number): ByteRange | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/i);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes.
+    start = Math.max(0, size - Number.parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = Number.parseInt(match[1], 10);
+    end = match[2] ? Math.min(Number.parseInt(match[2], 10), size - 1) : size - 1;
+  }
+  if (start >= size || end < start) {
+    throw new HTTPException(416, { message: `Range not satisfiable for a ${size} byte object.` });
+  }
+  return { offset: start, length: end - start + 1 };
+}
+
+/**
+ * Streams the text that was chunked for a file: the upload itself for text formats, or the
+ * derived `.extracted.txt` object for PDFs and Word documents (null until ingestion created it).
+ */
+export async function openDocumentText(
+  env: MarbleBindings,
+  file: Pick<FileRecord, 'r2_key' | 'text_r2_key'>,
+  format: DocumentFormat,
+): Promise<AsyncGenerator<string> | null> {
+  const key = isBinaryFormat(format) ? file.text_r2_key : file.r2_key;
+  if (!key) {
+    return null;
+  }
+  const object = await env.MARBLE_FILES.get(key);
+  return object ? decodeTextStream(object.body) : null;
+}
+
+export interface LineWindow {
+  start: number;
+  end: number;
+  // 1-based page for paginated text; line numbers restart on every page, like PDF chunks.
+  page: number | null;
+}
+
+export interface LineWindowResult {
+  lines: Array<{ number: number; text: string }>;
+  // Lines on the requested page (or in the file); null when reading stopped before it ended.
+  totalLines: number | null;
+  // Pages seen; the page count once `reachedEnd` is true.
+  pages: number;
+  reachedEnd: boolean;
+}
+
+/**
+ * Collects lines `start..end` (1-based, inclusive) using the same numbering as the chunkers, reading
+ * only as far as the window needs. Trailing blank lines are not counted.
+ */
+export async function readLineWindow(pieces: AsyncIterable<string>, window: LineWindow): Promise<LineWindowResult> {
+  const targetPage = window.page ?? 1;
+  const lines: LineWindowResult['lines'] = [];
+  let page = 1;
+  let line = 0;
+  let lastNonBlank = 0;
+  let totalLines: number | null = null;
+  let carry = '';
+
+  const take = (text: string): boolean => {
+    const segments = window.page === null ? [text] : text.split(PAGE_SEPARATOR);
+    segments.forEach((segment, index) => {
+      if (index > 0) {
+        if (page === targetPage) {
+          totalLines = lastNonBlank;
+        }
+        page += 1;
+        line = 0;
+        lastNonBlank = 0;
+      }
+      line += 1;
+      if (segment.trim()) {
+        lastNonBlank = line;
+      }
+      if (page === targetPage && line >= window.start && line <= window.end) {
+        lines.push({ number: line, text: segment.replace(/\r$/, '') });
+      }
+    });
+    return page > targetPage || (page === targetPage && line > window.end);
+  };
+
+  let reachedEnd = true;
+  for await (const piece of pieces) {
+    const parts = (carry + piece).split('\n');
+    carry = parts.pop() ?? '';
+    if (parts.some(take)) {
+      reachedEnd = false;
+      break;
+    }
+  }
+  if (reachedEnd) {
+    take(carry);
+    if (page === targetPage) {
+      totalLines = lastNonBlank;
+    }
+  }
+
+  const known = totalLines;
+  return {
+    lines: known === null ? lines : lines.filter((entry) => entry.number <= known),
+    totalLines,
+    pages: page,
+    reachedEnd,
+  };
+}
@@ -0,0 +1,185 @@
+import { HTTPException } from 'hono/http-exception';
+import {
+  createIngestionJob,
+  getIngestionJob,
+  markFileQueued,
+  settleIngestionJob,
+  startIngestionJobAttempt,
+  updateFileStatus,
+  updateIngestionJobProgress,
+} from './db';
+import { ingestFileById } from './ingestion';
+import { summarizeFile } from './summaries';
+import { tagFile } from './tags';
+import type { IngestionQueueMessage, MarbleBindings } from '../types';
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_SECONDS = 30;
+const MAX_RETRY_SECONDS = 60 * 60;
+// Progress is written at most this many times per attempt (plus the final count).
+const PROGRESS_WRITES = 10;
+
+/** Delay before retrying after the given (1-based) failed attempt: 30s, 60s, 120s, … capped at an hour. */
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(MAX_RETRY_SECONDS, BASE_RETRY_SECONDS * 2 ** (attempt - 1));
+}
+
+// 4xx errors (unsupported or empty file, missing object, wrong owner) fail the same way on every attempt.
+function isPermanentFailure(error: unknown): boolean {
+  return error instanceof HTTPException && error.status < 500;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs one attempt of an ingestion job and records the outcome on the job and its file.
+ * Returns the delay before the next attempt, or null when the job is finished.
+ */
+export async function runIngestionJob(
+  env: MarbleBindings,
+  jobId: string,
+  options: { canRetry: boolean; ctx?: ExecutionContext },
+): Promise<{ retryInSeconds: number | null }> {
+  const job = await getIngestionJob(env, jobId);
+  if (!job || job.status === 'succeeded' || job.status === 'failed') {
+    return { retryInSeconds: null };
+  }
+
+  const attempt = job.attempts + 1;
+  await startIngestionJobAttempt(env, job.id, attempt);
+  await updateFileStatus(env, job.file_id, 'processing');
+
+  let written = 0;
+  const onProgress = async (done: number, total: number) => {
+    const step = Math.max(1, Math.ceil(total / PROGRESS_WRITES));
+    if (done === 0 || done === total || done - written >= step) {
+      written = done;
+      await updateIngestionJobProgress(env, job.id, done, total);
+    }
+  };
+
+  try {
+    await ingestFileById(env, job.file_id, job.requested_by, { onProgress, ctx: options.ctx });
+    await settleIngestionJob(env, job.id, { status: 'succeeded' });
+    return { retryInSeconds: null };
+  } catch (error) {
+    const lastError = describeError(error);
+    if (options.canRetry && !isPermanentFailure(error) && attempt < job.max_attempts) {
+      const retryInSeconds = retryDelaySeconds(attempt);
+      const nextAttemptAt = new Date(Date.now() + retryInSeconds * 1000).toISOString();
+      console.warn('Ingestion attempt failed, retrying', { jobId: job.id, fileId: job.file_id, attempt, retryInSeconds, lastError });
+      await settleIngestionJob(env, job.id, { status: 'queued', lastError, nextAttemptAt });
+      await updateFileStatus(env, job.file_id, 'queued');
+      return { retryInSeconds };
+    }
+    console.error('Ingestion failed', { jobId: job.id, fileId: job.file_id, attempt, lastError });
+    await settleIngestionJob(env, job.id, { status: 'failed', lastError });
+    await updateFileStatus(env, job.file_id, 'failed');
+    return { retryInSeconds: null };
+  }
+}
+
+interface EnqueueIngestionInput {
+  fileId: string;
+  organisationId: string;
+  requestedBy: string;
+  // Set by the routes that have just written the file's object; only they may queue an `uploading` file.
+  uploaded?: boolean;
+}
+
+/**
+ * Records an ingestion job for a file and hands it to INGESTION_QUEUE. Without a queue binding
+ * (e.g. plain `wrangler dev`) the job runs once inside `waitUntil` and is not retried. Without
+ * `uploaded`, a file still `uploading` is skipped and null returned, since its object may not be
+ * in R2 yet.
+ */
+export function enqueueIngestion(
+  env: MarbleBindings,
+  ctx: ExecutionContext | undefined,
+  data: EnqueueIngestionInput & { uploaded: true },
+): Promise<string>;
+export function enqueueIngestion(
+  env: MarbleBindings,
+  ctx: ExecutionContext | undefined,
+  data: EnqueueIngestionInput,
+): Promise<string | null>;
+export async function enqueueIngestion(
+  env: MarbleBindings,
+  ctx: ExecutionContext | undefined,
+  data: EnqueueIngestionInput,
+): Promise<string | null> {
+  const { uploaded = false, ...job } = data;
+  const queued = await markFileQueued(env, data.fileId, uploaded);
+  if (!queued && !uploaded) {
+    return null;
+  }
+  const jobId = crypto.randomUUID();
+  await createIngestionJob(env, { id: jobId, ...job, maxAttempts: MAX_ATTEMPTS });
+
+  if (env.INGESTION_QUEUE) {
+    await env.INGESTION_QUEUE.send({ jobId });
+    return jobId;
+  }
+
+  const run = runIngestionJob(env, jobId, { canRetry: false, ctx }).catch((error) => {
+    console.error('Ingestion job error (no queue)', { jobId, error });
+  });
+  ctx?.waitUntil(run);
+  return jobId;
+}
+
+// Summaries and tags are a nicety: a few retries for provider hiccups, then the file simply has none.
+const FILE_TASK_MAX_ATTEMPTS = 3;
+
+const FILE_TASKS = {
+  summary: { label: 'File summary', run: summarizeFile },
+  tags: { label: 'File tags', run: tagFile },
+};
+
+async function runFileTaskMessage(
+  message: Message<IngestionQueueMessage>,
+  env: MarbleBindings,
+  task: keyof typeof FILE_TASKS,
+  fileId: string,
+): Promise<void> {
+  const { label, run } = FILE_TASKS[task];
+  try {
+    const outcome = await run(env, fileId);
+    console.log(label, { fileId, outcome });
+    message.ack();
+  } catch (error) {
+    const lastError = describeError(error);
+    if (!isPermanentFailure(error) && message.attempts < FILE_TASK_MAX_ATTEMPTS) {
+      console.warn(`${label} failed, retrying`, { fileId, attempt: message.attempts, lastError });
+      message.retry({ delaySeconds: retryDelaySeconds(message.attempts) });
+      return;
+    }
+    console.error(`${label} failed`, { fileId, attempt: message.attempts, lastError });
+    message.ack();
+  }
+}
+
+/** Queue consumer: one attempt per message; failed attempts come back after their backoff delay. */
+export async function handleIngestionQueue(batch: MessageBatch<IngestionQueueMessage>, env: MarbleBindings): Promise<void> {
+  for (const message of batch.messages) {
+    const body = message.body;
+    if (body.type === 'summary' || body.type === 'tags') {
+      await runFileTaskMessage(message, env, body.type, body.fileId);
+      continue;
+    }
+    try {
+      const { retryInSeconds } = await runIngestionJob(env, body.jobId, { canRetry: true });
+      if (retryInSeconds === null) {
+        message.ack();
+      } else {
+        message.retry({ delaySeconds: retryInSeconds });
+      }
+    } catch (error) {
+      // Bookkeeping itself failed (e.g. D1 unavailable); let the queue redeliver.
+      console.error('Ingestion queue message failed', { jobId: body.jobId, error });
+      message.retry({ delaySeconds: BASE_RETRY_SECONDS });
+    }
+  }
+}
@@ -1,16 +1,72 @@
 import { HTTPException } from 'hono/http-exception';
-import { chunkText } from './chunk';
-import { createEmbeddings, OpenAIError } from './openai';
-import { deleteChunksForFile, getFileById, insertChunk, updateFileStatus } from './db';
-import { deleteChunkVectors, upsertChunkVector } from './vectorize';
+import {
+  chunkDocument,
+  chunkTextStream,
+  isChunkingStrategy,
+  PAGE_SEPARATOR,
+  type TextChunk,
+  type ChunkingStrategy,
+  type ChunkOptions,
+} from './chunk';
+import { createEmbeddings, embeddingModelName, EmbeddingError, type EmbeddingBatch } from './embeddings';
+import { sha256Hex } from './hash';
+import {
+  cacheEmbedding,
+  deleteChunksByIds,
+  getCachedEmbeddings,
+  deleteChunksForFile,
+  getFileById,
+  insertChunk,
+  listChunkFingerprints,
+  replaceFilePiiFindings,
+  updateChunkEmbeddingModel,
+  replaceFileTags,
+  replaceFileTerms,
+  updateChunkPosition,
+  updateFilePiiSummary,
+  updateFileStatus,
+  updateFileSummary,
+  updateFileTextKey,
+  type ChunkFingerprint,
+  type ChunkPosition,
+  type FileWithFolder,
+} from './db';
+import { deleteChunkVectors, upsertChunkVectors } from './vectorize';
+import { describePiiCounts, PiiScan, resolvePiiPolicy } from './pii';
+import { scheduleFileSummary } from './summaries';
+import { scheduleFileTags } from './tags';
 import type { MarbleBindings } from '../types';
-import { assertTxtFile } from './text-conversion';
+import { assertSupportedFile, convertToText, isBinaryFormat, type DocumentFormat } from './text-conversion';
+import { decodeText, decodeTextStream } from './encoding';
+import { buildTextObjectKey } from './storage';
+import { CHARS_PER_TOKEN, tokenizerForModel } from './tokens';
 
 function parseNumber(value: string | undefined, fallback: number): number {
   const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
   return Number.isFinite(parsed) ? parsed : fallback;
 }
 
+// Folder settings override the CHUNK_SIZE/CHUNK_OVERLAP vars. The token strategy measures in
+// tokens, so the character defaults are scaled down when the folder sets no sizes of its own.
+// Every chunk is also capped at CHUNK_MAX_TOKENS, never more than the embedding model accepts.
+function resolveChunking(env: MarbleBindings, file: FileWithFolder): { strategy: ChunkingStrategy; options: ChunkOptions } {
+  const strategy = isChunkingStrategy(file.folder_chunking_strategy) ? file.folder_chunking_strategy : 'auto';
+  const scale = strategy === 'token' ? CHARS_PER_TOKEN : 1;
+  const chunkSize = file.folder_chunk_size ?? Math.round(parseNumber(env.CHUNK_SIZE, 1500) / scale);
+  const overlap = file.folder_chunk_overlap ?? Math.round(parseNumber(env.CHUNK_OVERLAP, 200) / scale);
+  const tokenizer = tokenizerForModel(embeddingModelName(env));
+  // A folder may override only one of the two, so keep the windows moving forward.
+  return {
+    strategy,
+    options: {
+      chunkSize,
+      overlap: Math.min(overlap, chunkSize - 1),
+      maxTokens: Math.min(parseNumber(env.CHUNK_MAX_TOKENS, 800), tokenizer.maxInputTokens),
+      countTokens: tokenizer.count,
+    },
+  };
+}
+
 // Normalize whatever the embeddings provider returns to number[][]
 function normalizeEmbeddings(maybe: any): number[][] {
   if (maybe && Array.isArray(maybe.data)) {
@@ -28,7 +84,154 @@ function normalizeEmbeddings(maybe: any): number[][] {
   throw new Error('Embedding response not in a known format');
 }
 
-export async function ingestFileById(env: MarbleBindings, fileId: string, actingUserId: string): Promise<{ chunks: number }>
+// Binary uploads are parsed once; the derived text object is reused on re-ingestion.
+async function loadDocumentText(
+  env: MarbleBindings,
+  file: FileWithFolder,
+  format: DocumentFormat,
+  object: R2ObjectBody,
+): Promise<string> {
+  if (!isBinaryFormat(format)) {
+    // Presigned uploads reach R2 without passing through the Worker, so decode defensively.
+    return decodeText(await object.arrayBuffer()).text;
+  }
+
+  if (file.text_r2_key) {
+    const derived = await env.MARBLE_FILES.get(file.text_r2_key);
+    if (derived) {
+      return derived.text();
+    }
+  }
+
+  const text = await convertToText(format, await object.arrayBuffer());
+  if (!text.split(PAGE_SEPARATOR).join('').trim()) {
+    throw new HTTPException(400, {
+      message: 'No extractable text found. Scanned or image-only documents are not supported.',
+    });
+  }
+
+  const textKey = buildTextObjectKey(file.r2_key);
+  await env.MARBLE_FILES.put(textKey, text, {
+    httpMetadata: { contentType: 'text/plain; charset=utf-8' },
+  });
+  await updateFileTextKey(env, file.id, file.r2_key, textKey);
+  return text;
+}
+
+interface PlannedChunk {
+  index: number;
+  chunk: TextChunk;
+  hash: string;
+  // Existing row with the same content, reused instead of inserting a new one.
+  previous: ChunkFingerprint | null;
+}
+
+// Chunks taken from the embedding cache are stored (and upserted) this many at a time.
+const CACHED_STORE_BATCH = 100;
+// Chunks are hashed, embedded and stored this many at a time.
+const INGEST_SEGMENT_CHUNKS = 500;
+// Plain text larger than this is chunked from the R2 stream instead of being read into memory.
+const STREAMING_INGEST_BYTES = 4 * 1024 * 1024;
+
+async function* inSegments(chunks: AsyncIterable<TextChunk> | Iterable<TextChunk>, size: number): AsyncGenerator<TextChunk[]> {
+  let segment: TextChunk[] = [];
+  for await (const chunk of chunks) {
+    segment.push(chunk);
+    if (segment.length === size) {
+      yield segment;
+      segment = [];
+    }
+  }
+  if (segment.length) {
+    yield segment;
+  }
+}
+
+function chunkPosition(index: number, chunk: TextChunk): ChunkPosition {
+  return {
+    chunk_index: index,
+    start_line: chunk.startLine,
+    end_line: chunk.endLine,
+    heading_path: chunk.headingPath ?? null,
+    page_number: chunk.pageNumber ?? null,
+    start_row: chunk.rows?.[0] ?? null,
+    end_row: chunk.rows?.[1] ?? null,
+    symbol: chunk.symbol ?? null,
+    start_ms: chunk.timeRange?.[0] ?? null,
+    end_ms: chunk.timeRange?.[1] ?? null,
+  };
+}
+
+function samePosition(previous: ChunkPosition, next: ChunkPosition): boolean {
+  return (Object.keys(next) as Array<keyof ChunkPosition>).every((key) => (previous[key] ?? null) === next[key]);
+}
+
+// The subset of the position that is copied into VectorMetadata.
+function sameVectorMetadata(previous: ChunkPosition, next: ChunkPosition): boolean {
+  return (
+    previous.start_line === next.start_line &&
+    previous.end_line === next.end_line &&
+    (previous.heading_path ?? null) === next.heading_path &&
+    (previous.page_number ?? null) === next.page_number &&
+    (previous.symbol ?? null) === next.symbol
+  );
+}
+
+// Findings always describe the version just scanned, including one that was blocked.
+async function recordPiiFindings(env: MarbleBindings, file: FileWithFolder, scan: PiiScan): Promise<void> {
+  await replaceFilePiiFindings(
+    env,
+    file,
+    scan.findings.map((finding) => ({
+      kind: finding.kind,
+      preview: finding.preview,
+      start_line: finding.startLine,
+      end_line: finding.endLine,
+      page_number: finding.pageNumber,
+    })),
+  );
+  const summary = scan.summary();
+  await updateFilePiiSummary(env, file.id, summary ? JSON.stringify(summary) : null);
+}
+
+// Nothing from a blocked file stays searchable: chunks stored from earlier segments and from the
+// previous version are removed with their vectors, along with any summary and tags. The file is
+// marked failed here rather than by the caller, so direct ingestion and reindexing never leave a
+// `ready` file with nothing indexed.
+async function blockForPii(env: MarbleBindings, file: FileWithFolder, scan: PiiScan): Promise<never> {
+  await recordPiiFindings(env, file, scan);
+  await updateFileSummary(env, file.id, null);
+  await replaceFileTerms(env, file, []);
+  await replaceFileTags(env, file, []);
+  const chunkIds = await deleteChunksForFile(env, file.id);
+  if (chunkIds.length) {
+    await deleteChunkVectors(env, chunkIds, {
+      visibility: file.visibility,
+      ownerId: file.owner_id,
+      organizationId: file.organization_id,
+      teamId: file.team_id ?? null,
+    });
+  }
+  await updateFileStatus(env, file.id, 'failed');
+  const found = describePiiCounts(scan.summary()?.counts ?? {});
+  throw new HTTPException(422, {
+    message: `${file.file_name} contains personal data (${found}), which this organization does not allow in search.`,
+  });
+}
+
+export interface IngestOptions {
+  // Called once chunking is done and after every stored chunk.
+  onProgress?: (chunksDone: number, chunksTotal: number) => Promise<void> | void;
+  // Without INGESTION_QUEUE, summaries and tags run in its waitUntil rather than holding up the caller.
+  ctx?: ExecutionContext;
+}
+
+export async function ingestFileById(
+  env: MarbleBindings,
+  fileId: string,
+  actingUserId: string,
+  ingestOptions: IngestOptions = {},
+): Promise<{ chunks: number; embedded: number; unchanged: number; removed: number }>
 {
   const file = await getFileById(env, fileId);
   if (!file) {
@@ -43,125 +246,243 @@ export async function ingestFileById(env: MarbleBindings, fileId: string, acting
     throw new HTTPException(404, { message: 'Uploaded object not found in R2' });
   }
 
-  assertTxtFile(file);
+  const format = assertSupportedFile(file);
+  const { strategy, options } = resolveChunking(env, file);
 
-  const text = await object.text();
-
-  if (!text) {
-    throw new HTTPException(400, { message: 'Uploaded file appears to be empty.' });
+  // Large plain text is decoded and chunked as it streams from R2 rather than loaded whole.
+  const streaming =
+    format === 'text' && (strategy === 'auto' || strategy === 'fixed') && object.size > STREAMING_INGEST_BYTES;
+  let source: AsyncIterable<TextChunk> | Iterable<TextChunk>;
+  let expectedChunks: number;
+  if (streaming) {
+    source = chunkTextStream(decodeTextStream(object.body), options);
+    // Progress is measured against an estimate until the stream ends.
+    expectedChunks = Math.ceil(object.size / Math.max(1, options.chunkSize - options.overlap));
+  } else {
+    const text = await loadDocumentText(env, file, format, object);
+    if (!text) {
+      throw new HTTPException(400, { message: 'Uploaded file appears to be empty.' });
+    }
+    const chunks = chunkDocument(text, format, options, strategy);
+    if (!chunks.length) {
+      throw new HTTPException(400, { message: 'No content found to ingest' });
+    }
+    source = chunks;
+    expectedChunks = chunks.length;
   }
+  await ingestOptions.onProgress?.(0, expectedChunks);
 
-  const chunkSize = parseNumber(env.CHUNK_SIZE, 1500);
-  const overlap = parseNumber(env.CHUNK_OVERLAP, 200);
-  const chunks = chunkText(text, { chunkSize, overlap });
-
-  if (!chunks.length) {
-    throw new HTTPException(400, { message: 'No content found to ingest' });
+  // Chunks are matched to the file's existing rows by content hash. A match keeps its id (and so
+  // its vector); only its position is updated. Embeddings come from the (model, hash) cache where
+  // possible, so only new or changed content is sent to the embeddings API.
+  const model = embeddingModelName(env);
+  const existing = await listChunkFingerprints(env, file.id);
+  const candidates = new Map<string, ChunkFingerprint[]>();
+  for (const row of existing) {
+    if (row.content_hash) {
+      candidates.set(row.content_hash, [...(candidates.get(row.content_hash) ?? []), row]);
+    }
   }
+  const kept = new Set<string>();
+  // Chunks are scanned before they are hashed, so masked text is what gets embedded and stored.
+  const pii = new PiiScan(await resolvePiiPolicy(env, file.organization_id));
+
+  let seenChunks = 0;
+  let storedChunks = 0;
+  let unchangedChunks = 0;
+  let embeddedChunks = 0;
 
-  let rawEmbeddings: number[][] | any;
-  try {
-    rawEmbeddings = await createEmbeddings(
-      env,
-      chunks.map((chunk) => chunk.content),
-    );
-  } catch (error) {
-    console.error('Embedding generation failed', error);
-    if (error instanceof OpenAIError) {
-      throw new HTTPException(502, { message: error.message });
+  // Chunks are planned, embedded and stored a segment at a time so a streamed file never has
+  // all of its chunks in memory at once.
+  const ingestSegment = async (segment: TextChunk[]) => {
+    const hashes = await Promise.all(segment.map((chunk) => sha256Hex(chunk.content)));
+    const planned: PlannedChunk[] = segment.map((chunk, offset) => ({
+      index: seenChunks + offset,
+      chunk,
+      hash: hashes[offset],
+      previous: candidates.get(hashes[offset])?.shift() ?? null,
+    }));
+    seenChunks += segment.length;
+    for (const entry of planned) {
+      if (entry.previous) {
+        kept.add(entry.previous.id);
+      }
     }
-    throw new HTTPException(500, { message: (error as Error)?.message || String(error) });
-  }
 
-  let embeddings: number[][];
-  try {
-    embeddings = normalizeEmbeddings(rawEmbeddings);
-  } catch (e: any) {
-    console.error('normalizeEmbeddings failed', e);
-    throw new HTTPException(500, {
-      message: `Failed to parse embeddings: ${e?.message || String(e)}`,
-    });
-  }
+    const cached = await getCachedEmbeddings(env, model, hashes);
+    const missing = Array.from(new Set(hashes.filter((hash) => !cached.has(hash))));
 
-  if (embeddings.length !== chunks.length) {
-    throw new HTTPException(500, {
-      message: `Embedding count mismatch: got ${embeddings.length}, expected ${chunks.length}`,
-    });
-  }
+    // Writes the rows and vectors for chunks whose embedding is now known. `fresh` embeddings were
+    // just produced, so matched chunks re-upsert their vector in case the model changed; so do
+    // matched chunks recorded under another model (or none).
+    const store = async (entries: PlannedChunk[], embeddingFor: (hash: string) => number[], fresh: boolean) => {
+      const vectors: Parameters<typeof upsertChunkVectors>[1] = [];
+      for (const { index, chunk, hash, previous } of entries) {
+        const position = chunkPosition(index, chunk);
+        const chunkId = previous?.id ?? crypto.randomUUID();
+        const values = embeddingFor(hash);
+        const sameModel = previous?.embedding_model === model && previous.embedding_dimensions === values.length;
+        if (!previous) {
+          await insertChunk(env, {
+            id: chunkId,
+            file_id: file.id,
+            folder_id: file.folder_id,
+            organization_id: file.organization_id,
+            owner_id: file.owner_id,
+            team_id: file.team_id ?? null,
+            visibility: file.visibility,
+            content: chunk.content,
+            content_hash: hash,
+            embedding_model: model,
+            embedding_dimensions: values.length,
+            ...position,
+          });
+        } else {
+          if (!samePosition(previous, position)) {
+            await updateChunkPosition(env, chunkId, position);
+          }
+          if (!sameModel) {
+            await updateChunkEmbeddingModel(env, chunkId, model, values.length);
+          }
+        }
 
-  const existing = await deleteChunksForFile(env, file.id);
-  if (existing.length) {
-    try {
-      await deleteChunkVectors(env, existing, {
-        visibility: file.visibility,
-        ownerId: file.owner_id,
-        organizationId: file.organization_id,
-        teamId: file.team_id ?? null,
-      });
-    } catch (error) {
-      console.error('Vector delete failed', { fileId: file.id, error });
-      throw error;
+        if (previous && !fresh && sameModel && sameVectorMetadata(previous, position)) {
+          unchangedChunks += 1;
+          continue;
+        }
+        vectors.push({
+          id: chunkId,
+          values,
+          metadata: {
+            chunkId,
+            fileId: file.id,
+            folderId: file.folder_id,
+            folderName: file.folder_name,
+            fileName: file.file_name,
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+            headingPath: chunk.headingPath ?? null,
+            page: chunk.pageNumber ?? null,
+            symbol: chunk.symbol ?? null,
+            visibility: file.visibility,
+            ownerId: file.owner_id,
+            organizationId: file.organization_id,
+            teamId: file.team_id ?? null,
+            embeddingModel: model,
+            embeddingDimensions: values.length,
+          },
+        });
+      }
+
+      try {
+        await upsertChunkVectors(env, vectors);
+      } catch (error) {
+        console.error('Vector upsert failed for batch', { fileId: file.id, size: vectors.length, error });
+        throw error;
+      }
+
+      storedChunks += entries.length;
+      await ingestOptions.onProgress?.(storedChunks, Math.max(expectedChunks, seenChunks));
+    };
+
+    const ready = planned.filter((entry) => cached.has(entry.hash));
+    for (let offset = 0; offset < ready.length; offset += CACHED_STORE_BATCH) {
+      await store(ready.slice(offset, offset + CACHED_STORE_BATCH), (hash) => cached.get(hash)!, false);
     }
-  }
 
-  let insertedChunks = 0;
-  for (let index = 0; index < chunks.length; index += 1) {
-    const chunk = chunks[index];
-    const chunkId = crypto.randomUUID();
+    // Every embedded batch is cached and stored straight away, so a failure part-way keeps what
+    // was written and a retry finds those chunks unchanged.
+    const storeBatch = async ({ start, embeddings: rawEmbeddings }: EmbeddingBatch) => {
+      let embeddings: number[][];
+      try {
+        embeddings = normalizeEmbeddings(rawEmbeddings);
+      } catch (e: any) {
+        console.error('normalizeEmbeddings failed', e);
+        throw new HTTPException(500, {
+          message: `Failed to parse embeddings: ${e?.message || String(e)}`,
+        });
+      }
+      const embedded = new Map<string, number[]>();
+      for (let offset = 0; offset < embeddings.length; offset += 1) {
+        const hash = missing[start + offset];
+        embedded.set(hash, embeddings[offset]);
+        await cacheEmbedding(env, model, hash, embeddings[offset]);
+      }
+      await store(
+        planned.filter((entry) => embedded.has(entry.hash)),
+        (hash) => embedded.get(hash)!,
+        true,
+      );
+    };
 
-    await insertChunk(env, {
-      id: chunkId,
-      file_id: file.id,
-      folder_id: file.folder_id,
-      organization_id: file.organization_id,
-      owner_id: file.owner_id,
-      team_id: file.team_id ?? null,
-      visibility: file.visibility,
-      chunk_index: index,
-      start_line: chunk.startLine,
-      end_line: chunk.endLine,
-      content: chunk.content,
-    });
+    if (missing.length) {
+      const byHash = new Map(planned.map((entry) => [entry.hash, entry.chunk.content]));
+      try {
+        await createEmbeddings(
+          env,
+          missing.map((hash) => byHash.get(hash)!),
+          { onBatch: storeBatch },
+        );
+      } catch (error) {
+        if (error instanceof HTTPException) {
+          throw error;
+        }
+        if (error instanceof EmbeddingError) {
+          console.error('Embedding generation failed', { fileId: file.id, storedChunks, error });
+          throw new HTTPException(502, { message: error.message });
+        }
+        throw error;
+      }
+      embeddedChunks += missing.length;
+    }
+  };
 
+  for await (const segment of inSegments(source, INGEST_SEGMENT_CHUNKS)) {
+    const scanned = pii.scan(segment);
+    if (pii.blocked) {
+      await blockForPii(env, file, pii);
+    }
+    await ingestSegment(scanned);
+  }
+  if (!seenChunks) {
+    // Only a streamed file gets here; buffered text was checked before chunking.
+    throw new HTTPException(400, { message: 'Uploaded file appears to be empty.' });
+  }
+  if (streaming) {
+    await ingestOptions.onProgress?.(storedChunks, storedChunks);
+  }
+  const stale = existing.filter((row) => !kept.has(row.id)).map((row) => row.id);
+
+  // Only now that the new version is complete are chunks that no longer exist removed.
+  if (stale.length) {
+    await deleteChunksByIds(env, stale);
     try {
-      await upsertChunkVector(env, chunkId, embeddings[index], {
-        chunkId,
-        fileId: file.id,
-        folderId: file.folder_id,
-        folderName: file.folder_name,
-        fileName: file.file_name,
-        startLine: chunk.startLine,
-        endLine: chunk.endLine,
+      await deleteChunkVectors(env, stale, {
         visibility: file.visibility,
         ownerId: file.owner_id,
         organizationId: file.organization_id,
         teamId: file.team_id ?? null,
       });
     } catch (error) {
-      console.error('Vector upsert failed for chunk', chunkId, error);
+      console.error('Vector delete failed', { fileId: file.id, error });
       throw error;
     }
-
-    if (index === 0) {
-      console.log('First chunk upserted', {
-        fileId: file.id,
-        chunkId,
-        startLine: chunk.startLine,
-        endLine: chunk.endLine,
-        visibility: file.visibility,
-      });
-    }
-
-    insertedChunks += 1;
   }
 
+  await recordPiiFindings(env, file, pii);
   await updateFileStatus(env, file.id, 'ready');
+  await scheduleFileSummary(env, file.id, ingestOptions.ctx);
+  await scheduleFileTags(env, file.id, ingestOptions.ctx);
 
   console.log('Ingest completed', {
     fileId: file.id,
-    chunks: insertedChunks,
+    chunks: storedChunks,
+    embedded: embeddedChunks,
+    unchanged: unchangedChunks,
+    removed: stale.length,
+    piiFindings: pii.findings.length,
     visibility: file.visibility,
   });
 
-  return { chunks: insertedChunks };
+  return { chunks: storedChunks, embedded: embeddedChunks, unchanged: unchangedChunks, removed: stale.length };
 }
@@ -0,0 +1,54 @@
+import { searchChunksByKeyword, type KeywordSearchScope } from './db';
+import { STOPWORDS } from './tags';
+import type { MarbleBindings } from '../types';
+
+// Words joined by - _ . : / # stay one term, so "ERR-4012", "v2.3.1" and "SKU_88-B" are searched
+// as phrases and match only where their parts appear together.
+const TERM = /[\p{L}\p{N}]+(?:[-_.:/#][\p{L}\p{N}]+)*/gu;
+const MAX_TERMS = 12;
+// The usual reciprocal rank fusion constant: damps the lead of the very first ranks.
+const RRF_K = 60;
+
+/**
+ * Turns a question into an FTS5 query: each distinct term as a quoted phrase, any of which may
+ * match. Stopwords and one- or two-letter words are dropped unless they are all the question has.
+ * Returns null when no term is left.
+ */
+export function buildMatchQuery(text: string): string | null {
+  const terms = Array.from(new Set((text.toLowerCase().match(TERM) ?? []).filter((term) => term.length > 1 || /\d/.test(term))));
+  const meaningful = terms.filter((term) => !STOPWORDS.has(term) && (term.length > 2 || /\d/.test(term)));
+  const chosen = (meaningful.length ? meaningful : terms).slice(0, MAX_TERMS);
+  if (!chosen.length) {
+    return null;
+  }
+  return chosen.map((term) => `"${term.replace(/"/g, '""')}"`).join(' OR ');
+}
+
+/** Best keyword matches for a question, best first, within the caller's visible chunks. */
+export async function keywordSearch(
+  env: MarbleBindings,
+  question: string,
+  scope: KeywordSearchScope,
+  limit: number,
+): Promise<string[]> {
+  const matchQuery = buildMatchQuery(question);
+  if (!matchQuery) {
+    return [];
+  }
+  const matches = await searchChunksByKeyword(env, matchQuery, scope, limit);
+  return matches.map((match) => match.chunk_id);
+}
+
+/**
+ * Reciprocal rank fusion: each id scores the sum of 1 / (RRF_K + rank) over the rankings it appears
+ * in, so chunks found by both searches rise and neither search's score scale matters.
+ */
+export function reciprocalRankFusion(rankings: string[][]): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + index + 1));
+    });
+  }
+  return Array.from(scores, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+}
@@ -1,5 +1,6 @@
 import { HTTPException } from 'hono/http-exception';
 import type {
+  AuthenticatedUser,
   FileAccessLevel,
   MarbleBindings,
   OrganisationRosterEntry,
@@ -49,6 +50,14 @@ export interface FileSharingSummary {
   permissions: FilePermissionSummary[];
 }
 
+/** Throws a 403 unless the user is an admin or owner of their organization. */
+export function ensureOrgAdmin(user: AuthenticatedUser): void {
+  const role = user.organizationRole ?? 'member';
+  if (role !== 'admin' && role !== 'owner') {
+    throw new HTTPException(403, { message: 'You need organization admin access for this action.' });
+  }
+}
+
 function normalizeEmail(value: string): string {
   return value.trim().toLowerCase();
 }
@@ -0,0 +1,871 @@
+// Minimal in-Worker PDF text extraction. Handles the structures produced by common
+// authoring tools (classic and compressed object streams, Flate/ASCII filters,
+// ToUnicode CMaps, simple font encodings). Scanned documents yield no text.
+
+import { inflate } from './compression';
+
+export class PdfError extends Error {}
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | string | Uint8Array | PdfName | PdfRef | PdfDict | PdfValue[];
+
+interface PdfStream {
+  dict: PdfDict;
+  data: Uint8Array;
+}
+
+type PdfObject = PdfValue | PdfStream;
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'string'; value: Uint8Array }
+  | { type: 'delim'; value: '[' | ']' | '<<' | '>>' | '{' | '}' }
+  | { type: 'keyword'; value: string };
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set([40, 41, 60, 62, 91, 93, 123, 125, 47, 37]);
+
+function isStream(value: PdfObject | undefined): value is PdfStream {
+  return typeof value === 'object' && value !== null && 'data' in value && 'dict' in value && value.data instanceof Uint8Array;
+}
+
+function isDict(value: PdfObject | undefined): value is PdfDict {
+  return value instanceof Map;
+}
+
+function nameOf(value: PdfValue | undefined): string | null {
+  return value instanceof PdfName ? value.name : null;
+}
+
+class Lexer {
+  private pos: number;
+  private peeked: Token[] = [];
+
+  constructor(private readonly bytes: Uint8Array, start = 0) {
+    this.pos = start;
+  }
+
+  skipWhitespace(): void {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos += 1;
+      } else if (byte === 37) {
+        while (this.pos < bytes.length && bytes[this.pos] !== 10 && bytes[this.pos] !== 13) {
+          this.pos += 1;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  peek(offset = 0): Token | null {
+    while (this.peeked.length <= offset) {
+      const token = this.read();
+      if (!token) return null;
+      this.peeked.push(token);
+    }
+    return this.peeked[offset];
+  }
+
+  next(): Token | null {
+    if (this.peeked.length) {
+      return this.peeked.shift() ?? null;
+    }
+    return this.read();
+  }
+
+  // Raw byte position after any buffered tokens; only meaningful when nothing is peeked.
+  get offset(): number {
+    return this.pos;
+  }
+
+  seek(position: number): void {
+    this.pos = position;
+    this.peeked = [];
+  }
+
+  private read(): Token | null {
+    this.skipWhitespace();
+    const { bytes } = this;
+    if (this.pos >= bytes.length) return null;
+    const byte = bytes[this.pos];
+
+    if (byte === 91 || byte === 93 || byte === 123 || byte === 125) {
+      this.pos += 1;
+      return { type: 'delim', value: String.fromCharCode(byte) as '[' | ']' | '{' | '}' };
+    }
+    if (byte === 60) {
+      if (bytes[this.pos + 1] === 60) {
+        this.pos += 2;
+        return { type: 'delim', value: '<<' };
+      }
+      return { type: 'string', value: this.readHexString() };
+    }
+    if (byte === 62) {
+      this.pos += bytes[this.pos + 1] === 62 ? 2 : 1;
+      return { type: 'delim', value: '>>' };
+    }
+    if (byte === 40) {
+      return { type: 'string', value: this.readLiteralString() };
+    }
+    if (byte === 47) {
+      this.pos += 1;
+      return { type: 'name', value: this.readName() };
+    }
+    if (byte === 41) {
+      this.pos += 1;
+      return this.read();
+    }
+
+    const start = this.pos;
+    while (this.pos < bytes.length && !WHITESPACE.has(bytes[this.pos]) && !DELIMITERS.has(bytes[this.pos])) {
+      this.pos += 1;
+    }
+    const word = latin1(bytes.subarray(start, this.pos));
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return { type: 'number', value: Number.parseFloat(word) };
+    }
+    return { type: 'keyword', value: word };
+  }
+
+  private readName(): string {
+    const { bytes } = this;
+    let name = '';
+    while (this.pos < bytes.length && !WHITESPACE.has(bytes[this.pos]) && !DELIMITERS.has(bytes[this.pos])) {
+      const byte = bytes[this.pos];
+      if (byte === 35 && this.pos + 2 < bytes.length) {
+        const code = Number.parseInt(String.fromCharCode(bytes[this.pos + 1], bytes[this.pos + 2]), 16);
+        if (Number.isFinite(code)) {
+          name += String.fromCharCode(code);
+          this.pos += 3;
+          continue;
+        }
+      }
+      name += String.fromCharCode(byte);
+      this.pos += 1;
+    }
+    return name;
+  }
+
+  private readHexString(): Uint8Array {
+    const { bytes } = this;
+    this.pos += 1;
+    let digits = '';
+    while (this.pos < bytes.length && bytes[this.pos] !== 62) {
+      const char = String.fromCharCode(bytes[this.pos]);
+      if (/[0-9a-fA-F]/.test(char)) digits += char;
+      this.pos += 1;
+    }
+    this.pos += 1;
+    if (digits.length % 2) digits += '0';
+    const out = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < out.length; i++) {
+      out[i] = Number.parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    }
+    return out;
+  }
+
+  private readLiteralString(): Uint8Array {
+    const { bytes } = this;
+    const out: number[] = [];
+    let depth = 1;
+    this.pos += 1;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos];
+      this.pos += 1;
+      if (byte === 92) {
+        const escaped = bytes[this.pos];
+        this.pos += 1;
+        switch (escaped) {
+          case 110: out.push(10); break;
+          case 114: out.push(13); break;
+          case 116: out.push(9); break;
+          case 98: out.push(8); break;
+          case 102: out.push(12); break;
+          case 13:
+            if (bytes[this.pos] === 10) this.pos += 1;
+            break;
+          case 10:
+            break;
+          default:
+            if (escaped >= 48 && escaped <= 55) {
+              let octal = escaped - 48;
+              for (let i = 0; i < 2 && bytes[this.pos] >= 48 && bytes[this.pos] <= 55; i++) {
+                octal = octal * 8 + (bytes[this.pos] - 48);
+                this.pos += 1;
+              }
+              out.push(octal & 0xff);
+            } else if (escaped !== undefined) {
+              out.push(escaped);
+            }
+        }
+        continue;
+      }
+      if (byte === 40) depth += 1;
+      if (byte === 41) {
+        depth -= 1;
+        if (depth === 0) break;
+      }
+      out.push(byte);
+    }
+    return Uint8Array.from(out);
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return out;
+}
+
+function parseValue(lexer: Lexer): PdfValue | undefined {
+  const token = lexer.next();
+  if (!token) return undefined;
+  switch (token.type) {
+    case 'number': {
+      const gen = lexer.peek();
+      if (!Number.isInteger(token.value) || gen?.type !== 'number' || !Number.isInteger(gen.value)) {
+        return token.value;
+      }
+      const marker = lexer.peek(1);
+      if (marker?.type === 'keyword' && marker.value === 'R') {
+        lexer.next();
+        lexer.next();
+        return new PdfRef(token.value, gen.value);
+      }
+      return token.value;
+    }
+    case 'name':
+      return new PdfName(token.value);
+    case 'string':
+      return token.value;
+    case 'delim':
+      if (token.value === '[') {
+        const items: PdfValue[] = [];
+        while (lexer.peek() && !(lexer.peek()?.type === 'delim' && lexer.peek()?.value === ']')) {
+          const item = parseValue(lexer);
+          if (item === undefined) break;
+          items.push(item);
+        }
+        lexer.next();
+        return items;
+      }
+      if (token.value === '<<') {
+        const dict: PdfDict = new Map();
+        while (lexer.peek() && !(lexer.peek()?.type === 'delim' && lexer.peek()?.value === '>>')) {
+          const key = lexer.next();
+          if (key?.type !== 'name') continue;
+          const value = parseValue(lexer);
+          if (value === undefined) break;
+          dict.set(key.value, value);
+        }
+        lexer.next();
+        return dict;
+      }
+      return null;
+    case 'keyword':
+      if (token.value === 'true') return true;
+      if (token.value === 'false') return false;
+      return token.value === 'null' ? null : token.value;
+  }
+}
+
+const OBJECT_HEADER = /(\d+)\s+(\d+)\s+obj\b/g;
+
+function indexOfBytes(haystack: Uint8Array, needle: string, from: number): number {
+  const first = needle.charCodeAt(0);
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    if (haystack[i] !== first) continue;
+    for (let j = 1; j < needle.length; j++) {
+      if (haystack[i + j] !== needle.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function readStreamData(bytes: Uint8Array, dict: PdfDict, start: number): Uint8Array {
+  let dataStart = start;
+  if (bytes[dataStart] === 13) dataStart += 1;
+  if (bytes[dataStart] === 10) dataStart += 1;
+
+  const declared = dict.get('Length');
+  if (typeof declared === 'number' && declared >= 0 && dataStart + declared <= bytes.length) {
+    const tail = latin1(bytes.subarray(dataStart + declared, dataStart + declared + 12));
+    if (/^\s*endstream/.test(tail)) {
+      return bytes.subarray(dataStart, dataStart + declared);
+    }
+  }
+
+  let end = indexOfBytes(bytes, 'endstream', dataStart);
+  if (end < 0) end = bytes.length;
+  let dataEnd = end;
+  if (bytes[dataEnd - 1] === 10) dataEnd -= 1;
+  if (bytes[dataEnd - 1] === 13) dataEnd -= 1;
+  return bytes.subarray(dataStart, Math.max(dataStart, dataEnd));
+}
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+  const digits = latin1(data).replace(/[^0-9a-fA-F]/g, '');
+  const padded = digits.length % 2 ? `${digits}0` : digits;
+  const out = new Uint8Array(padded.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = Number.parseInt(padded.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+  const text = latin1(data).replace(/\s+/g, '').replace(/^<~/, '').replace(/~>.*$/, '');
+  const out: number[] = [];
+  let group: number[] = [];
+  for (const char of text) {
+    if (char === 'z' && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      const value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+      out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group = [];
+    }
+  }
+  if (group.length) {
+    const missing = 5 - group.length;
+    const value = [...group, ...Array(missing).fill(84)].reduce((acc, digit) => acc * 85 + digit, 0);
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    out.push(...bytes.slice(0, 4 - missing));
+  }
+  return Uint8Array.from(out);
+}
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfObject>();
+  private readonly decoded = new Map<PdfStream, Promise<Uint8Array | null>>();
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  async load(): Promise<void> {
+    const text = latin1(this.bytes);
+    if (!text.startsWith('%PDF-') && !text.slice(0, 1024).includes('%PDF-')) {
+      throw new PdfError('File is not a valid PDF document.');
+    }
+    if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(text)) {
+      throw new PdfError('Encrypted PDFs are not supported.');
+    }
+
+    for (const match of text.matchAll(OBJECT_HEADER)) {
+      const start = (match.index ?? 0) + match[0].length;
+      const lexer = new Lexer(this.bytes, start);
+      const value = parseValue(lexer);
+      if (value === undefined) continue;
+      const after = lexer.peek();
+      if (isDict(value) && after?.type === 'keyword' && after.value === 'stream') {
+        lexer.next();
+        this.objects.set(Number(match[1]), { dict: value, data: readStreamData(this.bytes, value, lexer.offset) });
+      } else {
+        this.objects.set(Number(match[1]), value);
+      }
+    }
+
+    for (const object of Array.from(this.objects.values())) {
+      if (isStream(object) && nameOf(object.dict.get('Type')) === 'ObjStm') {
+        await this.loadObjectStream(object);
+      }
+    }
+  }
+
+  private async loadObjectStream(stream: PdfStream): Promise<void> {
+    const data = await this.decode(stream);
+    const count = this.resolve(stream.dict.get('N'));
+    const first = this.resolve(stream.dict.get('First'));
+    if (!data || typeof count !== 'number' || typeof first !== 'number') return;
+
+    const header = new Lexer(data);
+    const entries: Array<[number, number]> = [];
+    for (let i = 0; i < count; i++) {
+      const num = header.next();
+      const offset = header.next();
+      if (num?.type !== 'number' || offset?.type !== 'number') break;
+      entries.push([num.value, offset.value]);
+    }
+    for (const [num, offset] of entries) {
+      if (this.objects.has(num)) continue;
+      const value = parseValue(new Lexer(data, first + offset));
+      if (value !== undefined) this.objects.set(num, value);
+    }
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfObject | undefined {
+    if (value instanceof PdfRef) {
+      if (depth > 16) return undefined;
+      const target = this.objects.get(value.num);
+      return target instanceof PdfRef ? this.resolve(target, depth + 1) : target;
+    }
+    return value;
+  }
+
+  resolveDict(value: PdfValue | undefined): PdfDict | null {
+    const resolved = this.resolve(value);
+    if (isStream(resolved)) return resolved.dict;
+    return isDict(resolved) ? resolved : null;
+  }
+
+  decode(stream: PdfStream): Promise<Uint8Array | null> {
+    let pending = this.decoded.get(stream);
+    if (!pending) {
+      pending = this.applyFilters(stream);
+      this.decoded.set(stream, pending);
+    }
+    return pending;
+  }
+
+  private async applyFilters(stream: PdfStream): Promise<Uint8Array | null> {
+    const filter = this.resolve(stream.dict.get('Filter'));
+    const entries: PdfValue[] = Array.isArray(filter) ? filter : filter instanceof PdfName ? [filter] : [];
+    const filters = entries
+      .map((entry) => nameOf(entry))
+      .filter((entry): entry is string => Boolean(entry));
+
+    let data = stream.data;
+    for (const name of filters) {
+      try {
+        if (name === 'FlateDecode' || name === 'Fl') {
+          data = await inflate(data);
+        } else if (name === 'ASCIIHexDecode' || name === 'AHx') {
+          data = decodeAsciiHex(data);
+        } else if (name === 'ASCII85Decode' || name === 'A85') {
+          data = decodeAscii85(data);
+        } else {
+          return null;
+        }
+      } catch (error) {
+        console.warn('PDF stream decode failed', { filter: name, error });
+        return null;
+      }
+    }
+    return data;
+  }
+
+  pages(): PdfDict[] {
+    const catalog = Array.from(this.objects.values()).reverse().find(
+      (object) => isDict(object) && nameOf(object.get('Type')) === 'Catalog',
+    ) as PdfDict | undefined;
+
+    const pages: PdfDict[] = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfDict | null, inherited: PdfDict | null) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+      const resources = this.resolveDict(node.get('Resources')) ?? inherited;
+      const kids = this.resolve(node.get('Kids'));
+      if (nameOf(node.get('Type')) === 'Pages' || Array.isArray(kids)) {
+        for (const kid of Array.isArray(kids) ? kids : []) {
+          walk(this.resolveDict(kid), resources);
+        }
+        return;
+      }
+      if (resources && !node.has('Resources')) {
+        node.set('Resources', resources);
+      }
+      pages.push(node);
+    };
+
+    if (catalog) {
+      walk(this.resolveDict(catalog.get('Pages')), null);
+    }
+    if (pages.length) {
+      return pages;
+    }
+    return Array.from(this.objects.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, object]) => object)
+      .filter((object): object is PdfDict => isDict(object) && nameOf(object.get('Type')) === 'Page');
+  }
+}
+
+interface FontDecoder {
+  decode(bytes: Uint8Array): string;
+}
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F.
+const WIN_ANSI_HIGH: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡', 0x88: 'ˆ',
+  0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘', 0x92: '’', 0x93: '“',
+  0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›',
+  0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-',
+  period: '.', slash: '/', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>', question: '?',
+  at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', underscore: '_', grave: '`',
+  braceleft: '{', bar: '|', braceright: '}', asciitilde: '~', quoteleft: '‘', quoteright: '’',
+  quotedblleft: '“', quotedblright: '”', endash: '–', emdash: '—', bullet: '•', ellipsis: '…',
+  fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', zero: '0', one: '1', two: '2', three: '3',
+  four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9', minus: '−', degree: '°',
+  copyright: '©', registered: '®', trademark: '™', Euro: '€', section: '§', paragraph: '¶',
+};
+
+function glyphToUnicode(name: string): string | null {
+  if (/^[A-Za-z]$/.test(name)) return name;
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  const uni = /^uni([0-9A-Fa-f]{4,6})$/.exec(name) ?? /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  if (uni) return String.fromCodePoint(Number.parseInt(uni[1], 16));
+  return null;
+}
+
+function decodeUtf16Be(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    out += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  }
+  return out;
+}
+
+function bytesToNumber(bytes: Uint8Array): number {
+  let value = 0;
+  for (const byte of bytes) value = value * 256 + byte;
+  return value;
+}
+
+function parseToUnicode(data: Uint8Array): { map: Map<string, string>; widths: number[] } {
+  const lexer = new Lexer(data);
+  const map = new Map<string, string>();
+  const widths = new Set<number>();
+  const key = (bytes: Uint8Array) => `${bytes.length}:${bytesToNumber(bytes)}`;
+  const operands: PdfValue[] = [];
+
+  for (;;) {
+    const token = lexer.peek();
+    if (!token) break;
+    if (token.type === 'keyword') {
+      lexer.next();
+      const op = token.value;
+      if (op === 'endcodespacerange') {
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const lo = operands[i];
+          if (lo instanceof Uint8Array) widths.add(lo.length);
+        }
+      } else if (op === 'endbfchar') {
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const src = operands[i];
+          const dst = operands[i + 1];
+          if (src instanceof Uint8Array && dst instanceof Uint8Array) {
+            map.set(key(src), decodeUtf16Be(dst));
+            widths.add(src.length);
+          }
+        }
+      } else if (op === 'endbfrange') {
+        for (let i = 0; i + 2 < operands.length; i += 3) {
+          const lo = operands[i];
+          const hi = operands[i + 1];
+          const dst = operands[i + 2];
+          if (!(lo instanceof Uint8Array) || !(hi instanceof Uint8Array)) continue;
+          const start = bytesToNumber(lo);
+          const end = Math.min(bytesToNumber(hi), start + 0xffff);
+          widths.add(lo.length);
+          for (let code = start; code <= end; code++) {
+            const codeKey = `${lo.length}:${code}`;
+            if (Array.isArray(dst)) {
+              const entry = dst[code - start];
+              if (entry instanceof Uint8Array) map.set(codeKey, decodeUtf16Be(entry));
+            } else if (dst instanceof Uint8Array && dst.length >= 2) {
+              const base = decodeUtf16Be(dst);
+              const last = base.charCodeAt(base.length - 1) + (code - start);
+              map.set(codeKey, base.slice(0, -1) + String.fromCharCode(last));
+            }
+          }
+        }
+      }
+      operands.length = 0;
+      continue;
+    }
+    const value = parseValue(lexer);
+    if (value === undefined) break;
+    operands.push(value);
+  }
+
+  return { map, widths: Array.from(widths).sort((a, b) => a - b) };
+}
+
+async function buildFontDecoder(doc: PdfDocument, font: PdfDict): Promise<FontDecoder> {
+  const toUnicode = doc.resolve(font.get('ToUnicode'));
+  const isComposite = nameOf(font.get('Subtype')) === 'Type0';
+
+  if (isStream(toUnicode)) {
+    const data = await doc.decode(toUnicode);
+    if (data) {
+      const { map, widths } = parseToUnicode(data);
+      const codeWidths = widths.length ? widths : [isComposite ? 2 : 1];
+      return {
+        decode(bytes) {
+          let out = '';
+          for (let i = 0; i < bytes.length; ) {
+            let matched = false;
+            for (const width of codeWidths) {
+              if (i + width > bytes.length) continue;
+              const mapped = map.get(`${width}:${bytesToNumber(bytes.subarray(i, i + width))}`);
+              if (mapped !== undefined) {
+                out += mapped;
+                i += width;
+                matched = true;
+                break;
+              }
+            }
+            if (!matched) i += codeWidths[0];
+          }
+          return out;
+        },
+      };
+    }
+  }
+
+  if (isComposite) {
+    // Glyph ids without a ToUnicode map cannot be turned back into text.
+    return { decode: () => '' };
+  }
+
+  const differences = new Map<number, string>();
+  const encoding = doc.resolve(font.get('Encoding'));
+  if (isDict(encoding)) {
+    const entries = doc.resolve(encoding.get('Differences'));
+    let code = 0;
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      if (typeof entry === 'number') {
+        code = entry;
+      } else if (entry instanceof PdfName) {
+        const mapped = glyphToUnicode(entry.name);
+        if (mapped !== null) differences.set(code, mapped);
+        code += 1;
+      }
+    }
+  }
+
+  return {
+    decode(bytes) {
+      let out = '';
+      for (const byte of bytes) {
+        out += differences.get(byte) ?? WIN_ANSI_HIGH[byte] ?? String.fromCharCode(byte);
+      }
+      return out;
+    },
+  };
+}
+
+const FALLBACK_DECODER: FontDecoder = {
+  decode(bytes) {
+    return latin1(bytes);
+  },
+};
+
+class TextCollector {
+  private lines: string[] = [''];
+
+  write(text: string): void {
+    this.lines[this.lines.length - 1] += text;
+  }
+
+  space(): void {
+    const current = this.lines[this.lines.length - 1];
+    if (current && !current.endsWith(' ')) {
+      this.lines[this.lines.length - 1] = `${current} `;
+    }
+  }
+
+  newline(): void {
+    if (this.lines[this.lines.length - 1].trim()) {
+      this.lines.push('');
+    }
+  }
+
+  toString(): string {
+    return this.lines
+      .map((line) => line.replace(/[\f\r]/g, ' ').replace(/[ \t]+/g, ' ').trim())
+      .filter((line, index, all) => line || (index > 0 && all[index - 1]))
+      .join('\n')
+      .trim();
+  }
+}
+
+async function interpretContent(
+  doc: PdfDocument,
+  data: Uint8Array,
+  resources: PdfDict | null,
+  out: TextCollector,
+  depth: number,
+): Promise<void> {
+  const fonts = new Map<string, Promise<FontDecoder>>();
+  const fontResources = doc.resolveDict(resources?.get('Font'));
+  const xobjects = doc.resolveDict(resources?.get('XObject'));
+  const lexer = new Lexer(data);
+  const operands: PdfValue[] = [];
+  let decoder: FontDecoder = FALLBACK_DECODER;
+  let lineY: number | null = null;
+  let scaleY = 1;
+
+  const fontFor = (name: string): Promise<FontDecoder> => {
+    let pending = fonts.get(name);
+    if (!pending) {
+      const font = doc.resolveDict(fontResources?.get(name));
+      pending = font ? buildFontDecoder(doc, font) : Promise.resolve(FALLBACK_DECODER);
+      fonts.set(name, pending);
+    }
+    return pending;
+  };
+
+  const show = (value: PdfValue | undefined) => {
+    if (value instanceof Uint8Array) {
+      out.write(decoder.decode(value));
+    } else if (Array.isArray(value)) {
+      for (const part of value) {
+        if (part instanceof Uint8Array) {
+          out.write(decoder.decode(part));
+        } else if (typeof part === 'number' && part < -200) {
+          out.space();
+        }
+      }
+    }
+  };
+
+  for (;;) {
+    const token = lexer.peek();
+    if (!token) break;
+    if (token.type !== 'keyword' || token.value === 'true' || token.value === 'false' || token.value === 'null') {
+      const value = parseValue(lexer);
+      if (value === undefined) break;
+      operands.push(value);
+      continue;
+    }
+    lexer.next();
+    const op = token.value;
+    const args = operands.splice(0, operands.length);
+
+    switch (op) {
+      case 'Tf':
+        if (args[0] instanceof PdfName) decoder = await fontFor(args[0].name);
+        break;
+      case 'Tj':
+        show(args[0]);
+        break;
+      case 'TJ':
+        show(args[0]);
+        break;
+      case "'":
+        out.newline();
+        show(args[0]);
+        break;
+      case '"':
+        out.newline();
+        show(args[2]);
+        break;
+      case 'T*':
+        out.newline();
+        break;
+      case 'Td':
+      case 'TD': {
+        const tx = typeof args[0] === 'number' ? args[0] : 0;
+        const ty = typeof args[1] === 'number' ? args[1] : 0;
+        if (Math.abs(ty) > 0.01) {
+          out.newline();
+          lineY = (lineY ?? 0) + ty * scaleY;
+        } else if (Math.abs(tx) > 0.01) {
+          out.space();
+        }
+        break;
+      }
+      case 'Tm': {
+        const y = typeof args[5] === 'number' ? args[5] : 0;
+        scaleY = typeof args[3] === 'number' && args[3] !== 0 ? args[3] : 1;
+        if (lineY !== null && Math.abs(y - lineY) > 1) {
+          out.newline();
+        } else if (lineY !== null) {
+          out.space();
+        }
+        lineY = y;
+        break;
+      }
+      case 'ET':
+        out.space();
+        break;
+      case 'ID': {
+        // Skip inline image data up to the EI operator.
+        let end = indexOfBytes(data, 'EI', lexer.offset);
+        while (end > 0 && !(WHITESPACE.has(data[end - 1]) && (end + 2 >= data.length || WHITESPACE.has(data[end + 2])))) {
+          end = indexOfBytes(data, 'EI', end + 2);
+        }
+        lexer.seek(end < 0 ? data.length : end + 2);
+        break;
+      }
+      case 'Do': {
+        if (depth >= 3 || !(args[0] instanceof PdfName)) break;
+        const xobject = doc.resolve(xobjects?.get(args[0].name));
+        if (isStream(xobject) && nameOf(xobject.dict.get('Subtype')) === 'Form') {
+          const content = await doc.decode(xobject);
+          if (content) {
+            const formResources = doc.resolveDict(xobject.dict.get('Resources')) ?? resources;
+            await interpretContent(doc, content, formResources, out, depth + 1);
+          }
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+}
+
+/**
+ * Extracts plain text from a PDF, one string per page in document order.
+ * Throws PdfError for encrypted or malformed files.
+ */
+export async function extractPdfText(input: ArrayBuffer | Uint8Array): Promise<string[]> {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const doc = new PdfDocument(bytes);
+  await doc.load();
+
+  const pages = doc.pages();
+  if (!pages.length) {
+    throw new PdfError('PDF does not contain any pages.');
+  }
+
+  const texts: string[] = [];
+  for (const page of pages) {
+    const contents = doc.resolve(page.get('Contents'));
+    const streams = (Array.isArray(contents) ? contents.map((entry) => doc.resolve(entry)) : [contents]).filter(isStream);
+    const parts: Uint8Array[] = [];
+    for (const stream of streams) {
+      const data = await doc.decode(stream);
+      if (data) parts.push(data);
+    }
+
+    const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.length + 1, 0));
+    let offset = 0;
+    for (const part of parts) {
+      joined.set(part, offset);
+      joined[offset + part.length] = 10;
+      offset += part.length + 1;
+    }
+
+    const collector = new TextCollector();
+    await interpretContent(doc, joined, doc.resolveDict(page.get('Resources')), collector, 0);
+    texts.push(collector.toString());
+  }
+  return texts;
+}
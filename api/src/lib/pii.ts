@@ -0,0 +1,276 @@
+import type { TextChunk } from './chunk';
+import type { MarbleBindings } from '../types';
+
+export type PiiKind = 'email' | 'phone' | 'card' | 'iban' | 'ssn';
+
+// flag records findings only; mask also replaces them in chunks before they are embedded, stored
+// or sent to the chat model; block refuses to index the file at all.
+export type PiiPolicy = 'flag' | 'mask' | 'block';
+
+export const PII_POLICIES: PiiPolicy[] = ['flag', 'mask', 'block'];
+export const DEFAULT_PII_POLICY: PiiPolicy = 'flag';
+
+export interface PiiMatch {
+  kind: PiiKind;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PiiFinding {
+  kind: PiiKind;
+  // Never the value itself: enough of it to recognise, e.g. `j•••@example.com` or `•••• 4242`.
+  preview: string;
+  startLine: number;
+  endLine: number;
+  pageNumber: number | null;
+}
+
+export interface PiiSummary {
+  action: 'flagged' | 'masked' | 'blocked';
+  counts: Partial<Record<PiiKind, number>>;
+}
+
+const MASKS: Record<PiiKind, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  card: '[CARD]',
+  iban: '[IBAN]',
+  ssn: '[SSN]',
+};
+
+const LABELS: Record<PiiKind, [string, string]> = {
+  email: ['email address', 'email addresses'],
+  phone: ['phone number', 'phone numbers'],
+  card: ['card number', 'card numbers'],
+  iban: ['IBAN', 'IBANs'],
+  ssn: ['social security number', 'social security numbers'],
+};
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+/** Luhn checksum, used by every major card scheme. */
+export function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/** ISO 13616 mod-97 check: the country and check digits move to the end and letters become 10–35. */
+export function ibanValid(value: string): boolean {
+  const compact = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact)) {
+    return false;
+  }
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const character of rearranged) {
+    const code = character >= 'A' ? String(character.charCodeAt(0) - 55) : character;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// US SSNs never use area 000, 666 or 9xx, group 00 or serial 0000.
+function ssnValid(value: string): boolean {
+  const [area, group, serial] = value.split('-');
+  return area !== '000' && area !== '666' && area[0] !== '9' && group !== '00' && serial !== '0000';
+}
+
+function cardValid(value: string): boolean {
+  const digits = digitsOf(value);
+  // Separators, if any, must be consistent ("4242 4242 4242 4242", not "4242-4242 42424242").
+  const separators = new Set(value.replace(/\d/g, ''));
+  return digits.length >= 13 && digits.length <= 19 && separators.size <= 1 && luhnValid(digits);
+}
+
+// A date, optionally followed by the hour of a time ("2024-01-15 12" out of "2024-01-15 12:30:45").
+const DATE_PREFIX = /^(?:\d{4}-\d{1,2}-\d{1,2}|\d{1,2}-\d{1,2}-\d{4})(?!\d)/;
+
+// Hyphenated identifiers such as ISBNs: more than four groups, or a single-digit check group at the end.
+function hyphenatedId(value: string): boolean {
+  if (!/^\d+(?:-\d+)+$/.test(value)) {
+    return false;
+  }
+  const groups = value.split('-');
+  return groups.length > 4 || groups[groups.length - 1].length === 1;
+}
+
+// Ten or more digits (E.164 allows at most 15) written with a leading + or separators, so plain
+// numeric ids are left alone, and never a date, date-time or hyphenated id. Dots only count in the
+// 555.123.4567 form, which keeps version numbers and IP addresses out.
+function phoneValid(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 10 || digits.length > 15) {
+    return false;
+  }
+  if (value.startsWith('+')) {
+    return true;
+  }
+  if (DATE_PREFIX.test(value.replace(/^\(/, '')) || hyphenatedId(value)) {
+    return false;
+  }
+  return value.includes('.') ? /^\d{3}\.\d{3}\.\d{4}$/.test(value) : /[ ()-]/.test(value);
+}
+
+interface Detector {
+  kind: PiiKind;
+  pattern: RegExp;
+  valid?: (value: string) => boolean;
+}
+
+// Checked in order; a later detector never claims text an earlier one matched, so a card number
+// written in groups is not also reported as a phone number. Patterns stay on one line.
+const DETECTORS: Detector[] = [
+  { kind: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  { kind: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, valid: ibanValid },
+  { kind: 'card', pattern: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g, valid: cardValid },
+  { kind: 'ssn', pattern: /(?<![\d-])\d{3}-\d{2}-\d{4}(?![\d-])/g, valid: ssnValid },
+  { kind: 'phone', pattern: /(?<![\w+])\+?\(?\d[\d ().-]{7,18}\d(?![\w])/g, valid: phoneValid },
+];
+
+/** Finds emails, phone numbers, card numbers (Luhn), IBANs (mod 97) and US SSNs, in text order. */
+export function findPii(text: string): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  for (const { kind, pattern, valid } of DETECTORS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = match[0];
+      const start = match.index ?? 0;
+      const end = start + value.length;
+      if (valid && !valid(value)) continue;
+      if (matches.some((existing) => start < existing.end && end > existing.start)) continue;
+      matches.push({ kind, start, end, value });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/** Replaces every match with a placeholder such as `[EMAIL]`; line breaks are untouched. */
+export function maskPii(text: string, matches: PiiMatch[] = findPii(text)): string {
+  let masked = '';
+  let cursor = 0;
+  for (const match of matches) {
+    masked += text.slice(cursor, match.start) + MASKS[match.kind];
+    cursor = match.end;
+  }
+  return masked + text.slice(cursor);
+}
+
+export function previewPii(kind: PiiKind, value: string): string {
+  if (kind === 'email') {
+    const [local, domain] = value.split('@');
+    return `${local[0]}•••@${domain}`;
+  }
+  const compact = value.replace(/[\s().-]/g, '');
+  if (kind === 'iban') {
+    return `${compact.slice(0, 2)}•• •••• ${compact.slice(-4)}`;
+  }
+  if (kind === 'ssn') {
+    return `•••-••-${compact.slice(-4)}`;
+  }
+  return `•••• ${compact.slice(-4)}`;
+}
+
+// Emails are case-insensitive; everything else is compared on its digits and letters alone.
+function identity(match: PiiMatch): string {
+  const value = match.kind === 'email' ? match.value.toLowerCase() : match.value.replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+  return `${match.kind}:${value}`;
+}
+
+/**
+ * Collects the distinct values found across a file's chunks. Chunks overlap, so a value is
+ * recorded once, at the first chunk it appears in.
+ */
+export class PiiScan {
+  readonly findings: PiiFinding[] = [];
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly policy: PiiPolicy) {}
+
+  /** Records the chunks' findings and returns the chunks to index: masked under the mask policy. */
+  scan(chunks: TextChunk[]): TextChunk[] {
+    return chunks.map((chunk) => {
+      const matches = findPii(chunk.content);
+      for (const match of matches) {
+        const key = identity(match);
+        if (this.seen.has(key)) continue;
+        this.seen.add(key);
+        this.findings.push({
+          kind: match.kind,
+          preview: previewPii(match.kind, match.value),
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          pageNumber: chunk.pageNumber ?? null,
+        });
+      }
+      return this.policy === 'mask' && matches.length ? { ...chunk, content: maskPii(chunk.content, matches) } : chunk;
+    });
+  }
+
+  get blocked(): boolean {
+    return this.policy === 'block' && this.findings.length > 0;
+  }
+
+  summary(): PiiSummary | null {
+    if (!this.findings.length) {
+      return null;
+    }
+    const counts: PiiSummary['counts'] = {};
+    for (const finding of this.findings) {
+      counts[finding.kind] = (counts[finding.kind] ?? 0) + 1;
+    }
+    const action = this.policy === 'block' ? 'blocked' : this.policy === 'mask' ? 'masked' : 'flagged';
+    return { action, counts };
+  }
+}
+
+/** "2 email addresses and 1 card number" */
+export function describePiiCounts(counts: PiiSummary['counts']): string {
+  const parts = (Object.keys(LABELS) as PiiKind[])
+    .filter((kind) => counts[kind])
+    .map((kind) => `${counts[kind]} ${LABELS[kind][counts[kind] === 1 ? 0 : 1]}`);
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0] ?? '';
+}
+
+export function parsePiiSummary(value: string | null | undefined): PiiSummary | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as PiiSummary;
+  } catch {
+    return null;
+  }
+}
+
+export function isPiiPolicy(value: unknown): value is PiiPolicy {
+  return typeof value === 'string' && (PII_POLICIES as string[]).includes(value);
+}
+
+/** The organisation's PII policy; `flag` when it has not chosen one. */
+export async function resolvePiiPolicy(env: MarbleBindings, organisationId: string): Promise<PiiPolicy> {
+  const row = await env.MARBLE_DB.prepare(`SELECT pii_policy FROM organisations WHERE id = ?1`)
+    .bind(organisationId)
+    .first<{ pii_policy: string | null }>();
+  return isPiiPolicy(row?.pii_policy) ? row.pii_policy : DEFAULT_PII_POLICY;
+}
+
+export async function setOrganisationPiiPolicy(env: MarbleBindings, organisationId: string, policy: PiiPolicy): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE organisations
+     SET pii_policy = ?2,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(organisationId, policy)
+    .run();
+}
@@ -0,0 +1,112 @@
+import { HTTPException } from 'hono/http-exception';
+import {
+  countChunksByEmbeddingModel,
+  countReindexableFiles,
+  createReindexJob,
+  getLatestReindexJob,
+  getReindexJob,
+  listReindexableFiles,
+  updateReindexJob,
+} from './db';
+import { embeddingModelName } from './embeddings';
+import { ingestFileById } from './ingestion';
+import type { MarbleBindings, ReindexJobRecord } from '../types';
+
+export interface ReindexedFile {
+  fileId: string;
+  name: string;
+  status: 'reindexed' | 'failed';
+  embedded?: number;
+  error?: string;
+}
+
+export interface ReindexBatchResult {
+  job: ReindexJobRecord;
+  files: ReindexedFile[];
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Same split as the ingestion queue: 4xx errors fail the same way every time, anything else may pass on retry.
+function isPermanentFailure(error: unknown): boolean {
+  return error instanceof HTTPException && error.status < 500;
+}
+
+/**
+ * Returns the organisation's running reindex for the active embedding model, starting one when
+ * there is none. A run started for another model is marked superseded.
+ */
+async function resolveReindexJob(env: MarbleBindings, organisationId: string, requestedBy: string): Promise<ReindexJobRecord> {
+  const model = embeddingModelName(env);
+  const latest = await getLatestReindexJob(env, organisationId);
+  if (latest?.status === 'running') {
+    if (latest.embedding_model === model) {
+      return latest;
+    }
+    await updateReindexJob(env, latest.id, { ...latest, status: 'superseded' });
+  }
+
+  const id = crypto.randomUUID();
+  const filesTotal = await countReindexableFiles(env, organisationId);
+  await createReindexJob(env, { id, organisationId, requestedBy, model, filesTotal });
+  const job = await getReindexJob(env, id);
+  if (!job) {
+    throw new HTTPException(500, { message: 'Failed to start reindex' });
+  }
+  return job;
+}
+
+/**
+ * Re-embeds the next `batchSize` ready files of an organisation with the active embedding model.
+ * Unchanged chunks keep their ids, so vectors are overwritten in place; embeddings already cached
+ * for the model are reused. Progress is saved after every file, so a batch cut short by a transient
+ * failure (rate limits, provider outages) resumes from that file on the next call; files that fail
+ * permanently are counted and skipped. Files uploaded after the run started are ingested with the
+ * active model anyway, so they are not counted.
+ */
+export async function runReindexBatch(
+  env: MarbleBindings,
+  options: { organisationId: string; requestedBy: string; batchSize: number; ctx?: ExecutionContext },
+): Promise<ReindexBatchResult> {
+  const job = await resolveReindexJob(env, options.organisationId, options.requestedBy);
+  const batch = await listReindexableFiles(env, options.organisationId, job.cursor, options.batchSize);
+  const files: ReindexedFile[] = [];
+  let interrupted = false;
+
+  for (const file of batch) {
+    try {
+      const result = await ingestFileById(env, file.id, file.owner_id, { ctx: options.ctx });
+      files.push({ fileId: file.id, name: file.file_name, status: 'reindexed', embedded: result.embedded });
+      job.files_done += 1;
+    } catch (error) {
+      const message = describeError(error);
+      job.last_error = `${file.file_name}: ${message}`;
+      if (!isPermanentFailure(error)) {
+        console.warn('Reindex batch interrupted', { jobId: job.id, fileId: file.id, error: message });
+        interrupted = true;
+        await updateReindexJob(env, job.id, job);
+        break;
+      }
+      console.error('Reindex failed for file', { jobId: job.id, fileId: file.id, error: message });
+      files.push({ fileId: file.id, name: file.file_name, status: 'failed', error: message });
+      job.files_failed += 1;
+    }
+    job.cursor = file.id;
+    await updateReindexJob(env, job.id, job);
+  }
+
+  if (!interrupted && batch.length < options.batchSize) {
+    job.status = 'succeeded';
+    await updateReindexJob(env, job.id, job);
+  }
+  return { job: (await getReindexJob(env, job.id)) ?? job, files };
+}
+
+/** How many of an organisation's chunks were embedded with the active model. */
+export async function embeddingCoverage(env: MarbleBindings, organisationId: string) {
+  const model = embeddingModelName(env);
+  const { total, current } = await countChunksByEmbeddingModel(env, organisationId, model);
+  return { model, chunks: total, current, stale: total - current };
+}
@@ -1,4 +1,5 @@
-import type { MarbleBindings, Visibility } from '../types';
+import type { FileRecord, MarbleBindings, Visibility } from '../types';
+import { listFileVersions } from './db';
 
 export function sanitizeFileName(fileName: string): string {
   const trimmed = fileName.trim();
@@ -20,6 +21,8 @@ interface ObjectKeyArgs {
   fileId: string;
   fileName: string;
   teamId?: string | null;
+  // Revisions after the first get their own object so earlier versions stay restorable.
+  version?: number;
 }
 
 export function buildObjectKey(args: ObjectKeyArgs): string {
@@ -33,7 +36,13 @@ export function buildObjectKey(args: ObjectKeyArgs): string {
   } else {
     prefix = `users/${args.ownerId}`;
   }
-  return `${prefix}/${args.folderId}/${args.fileId}-${baseName}`;
+  const versionSegment = args.version && args.version > 1 ? `-v${args.version}` : '';
+  return `${prefix}/${args.folderId}/${args.fileId}${versionSegment}-${baseName}`;
+}
+
+// Derived plain text (e.g. extracted from a PDF) lives next to the original upload.
+export function buildTextObjectKey(objectKey: string): string {
+  return `${objectKey}.extracted.txt`;
 }
 
 export async function moveObject(env: MarbleBindings, fromKey: string, toKey: string): Promise<void> {
@@ -60,3 +69,20 @@ export async function deleteObject(env: MarbleBindings, key: string): Promise<vo
 export async function streamObject(env: MarbleBindings, key: string): Promise<R2ObjectBody | null> {
   return env.MARBLE_FILES.get(key);
 }
+
+/** Removes every stored object for a file: the current upload, earlier versions and derived text. */
+export async function deleteFileObjects(env: MarbleBindings, file: Pick<FileRecord, 'id' | 'r2_key' | 'text_r2_key'>): Promise<void> {
+  const keys = new Set<string>([file.r2_key]);
+  if (file.text_r2_key) {
+    keys.add(file.text_r2_key);
+  }
+  for (const version of await listFileVersions(env, file.id)) {
+    keys.add(version.r2_key);
+    if (version.text_r2_key) {
+      keys.add(version.text_r2_key);
+    }
+  }
+  for (const key of keys) {
+    await env.MARBLE_FILES.delete(key);
+  }
+}
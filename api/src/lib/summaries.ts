@@ -0,0 +1,273 @@
+import { resolveChatProvider, type ChatProvider } from './chat-providers';
+import {
+  deleteChunksByIds,
+  getFileById,
+  getSummaryChunk,
+  insertChunk,
+  listSummarySourceChunks,
+  updateFileSummary,
+  type FileSummaryUpdate,
+  type FileWithFolder,
+} from './db';
+import { createEmbeddings, embeddingModelName } from './embeddings';
+import { sha256Hex } from './hash';
+import { tokenizerForModel } from './tokens';
+import { deleteChunkVectors, upsertChunkVectors } from './vectorize';
+import type { MarbleBindings } from '../types';
+
+// Text sent per summary request, in the chat model's tokens.
+const SECTION_TOKENS = 6000;
+// Longer files are summarised from this many evenly spaced sections, so cost stays bounded.
+const MAX_SECTIONS = 16;
+const MAX_ABSTRACT_CHARS = 1200;
+const MAX_KEY_POINTS = 8;
+const MAX_KEY_POINT_CHARS = 300;
+// Sorts before every content chunk and never collides with one.
+const SUMMARY_CHUNK_INDEX = -1;
+export const SUMMARY_HEADING = 'Summary';
+
+export interface DocumentSummary {
+  abstract: string;
+  keyPoints: string[];
+}
+
+const FORMAT_INSTRUCTIONS = [
+  'You summarise documents for a file library. Use only the text provided.',
+  'Put the summary in `answer` in exactly this form: one paragraph of at most 80 words saying what the document is and what it covers,',
+  'then a blank line, then 3 to 6 key points, one per line, each starting with "- ". Leave `citations` empty.',
+].join(' ');
+
+const BULLET = /^\s*(?:[-*•]|\d+[.)])\s+(.*\S)\s*$/;
+
+/** Splits a model reply into its abstract paragraph and bullet key points. */
+export function parseSummaryText(text: string): DocumentSummary | null {
+  const abstractLines: string[] = [];
+  const keyPoints: string[] = [];
+  for (const line of text.split('\n')) {
+    const bullet = line.match(BULLET);
+    if (bullet) {
+      keyPoints.push(bullet[1].slice(0, MAX_KEY_POINT_CHARS));
+    } else if (!keyPoints.length && line.trim() && !/^\s*key points:?\s*$/i.test(line)) {
+      abstractLines.push(line.trim());
+    }
+  }
+  const abstract = abstractLines.join(' ').slice(0, MAX_ABSTRACT_CHARS);
+  if (!abstract && !keyPoints.length) {
+    return null;
+  }
+  return { abstract: abstract || keyPoints[0], keyPoints: keyPoints.slice(0, MAX_KEY_POINTS) };
+}
+
+function formatSummary(summary: DocumentSummary): string {
+  return [summary.abstract, '', ...summary.keyPoints.map((point) => `- ${point}`)].join('\n');
+}
+
+/**
+ * Groups chunks into sections of at most `budget` tokens. When there would be more than
+ * MAX_SECTIONS, every n-th section is kept so the summary still spans the whole file.
+ */
+export function planSummarySections(chunks: string[], budget: number, countTokens: (text: string) => number): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+  for (const chunk of chunks) {
+    const size = countTokens(chunk);
+    if (current.length && tokens + size > budget) {
+      sections.push(current.join('\n\n'));
+      current = [];
+      tokens = 0;
+    }
+    current.push(chunk);
+    tokens += size;
+  }
+  if (current.length) {
+    sections.push(current.join('\n\n'));
+  }
+  if (sections.length <= MAX_SECTIONS) {
+    return sections;
+  }
+  return Array.from({ length: MAX_SECTIONS }, (_, index) =>
+    sections[Math.round((index * (sections.length - 1)) / (MAX_SECTIONS - 1))],
+  );
+}
+
+async function requestSummary(provider: ChatProvider, instructions: string, text: string): Promise<DocumentSummary> {
+  const result = await provider.complete({ system: [FORMAT_INSTRUCTIONS, instructions], user: text });
+  const summary = parseSummaryText(result.answer);
+  if (!summary) {
+    throw new Error('The model returned an empty summary');
+  }
+  return summary;
+}
+
+/**
+ * Map-reduce summary: a file that fits one section is summarised directly; otherwise each section
+ * is summarised on its own and the partial summaries are combined in a final request.
+ */
+export async function summarizeChunks(env: MarbleBindings, fileName: string, chunks: string[]): Promise<DocumentSummary> {
+  const provider = resolveChatProvider(env);
+  const tokenizer = tokenizerForModel(provider.model);
+  const budget = Math.min(SECTION_TOKENS, Math.floor(tokenizer.maxInputTokens / 2));
+  const sections = planSummarySections(chunks, budget, tokenizer.count);
+
+  if (sections.length === 1) {
+    return requestSummary(provider, `Summarise the document "${fileName}".`, sections[0]);
+  }
+
+  const partials: DocumentSummary[] = [];
+  for (const [index, section] of sections.entries()) {
+    partials.push(
+      await requestSummary(provider, `This is part ${index + 1} of ${sections.length} of the document "${fileName}". Summarise this part.`, section),
+    );
+  }
+  return requestSummary(
+    provider,
+    `These are summaries of consecutive parts of the document "${fileName}". Combine them into one summary of the whole document.`,
+    partials.map((partial, index) => `Part ${index + 1}:\n${formatSummary(partial)}`).join('\n\n'),
+  );
+}
+
+// The summary is indexed like any other chunk so broad questions about a document can retrieve it.
+// It covers the whole file rather than a passage, so it has no line range (stored as 0–0) or page.
+// The new chunk and vector are written before the previous ones are removed, so a failure part-way
+// leaves the old summary searchable.
+async function indexSummaryChunk(env: MarbleBindings, file: FileWithFolder, summary: DocumentSummary): Promise<void> {
+  const content = `Summary of ${file.file_name}\n\n${formatSummary(summary)}`;
+  const [values] = await createEmbeddings(env, [content]);
+  const model = embeddingModelName(env);
+  const previous = await getSummaryChunk(env, file.id);
+  const chunkId = crypto.randomUUID();
+  const vectorScope = {
+    visibility: file.visibility,
+    ownerId: file.owner_id,
+    organizationId: file.organization_id,
+    teamId: file.team_id ?? null,
+  };
+  await insertChunk(env, {
+    id: chunkId,
+    file_id: file.id,
+    folder_id: file.folder_id,
+    organization_id: file.organization_id,
+    owner_id: file.owner_id,
+    team_id: file.team_id ?? null,
+    visibility: file.visibility,
+    chunk_index: SUMMARY_CHUNK_INDEX,
+    start_line: 0,
+    end_line: 0,
+    content,
+    heading_path: SUMMARY_HEADING,
+    page_number: null,
+    start_row: null,
+    end_row: null,
+    symbol: null,
+    start_ms: null,
+    end_ms: null,
+    content_hash: await sha256Hex(content),
+    embedding_model: model,
+    embedding_dimensions: values.length,
+    kind: 'summary',
+  });
+  try {
+    await upsertChunkVectors(env, [
+      {
+        id: chunkId,
+        values,
+        metadata: {
+          chunkId,
+          fileId: file.id,
+          folderId: file.folder_id,
+          folderName: file.folder_name,
+          fileName: file.file_name,
+          startLine: 0,
+          endLine: 0,
+          headingPath: SUMMARY_HEADING,
+          page: null,
+          symbol: null,
+          visibility: file.visibility,
+          ownerId: file.owner_id,
+          organizationId: file.organization_id,
+          teamId: file.team_id ?? null,
+          embeddingModel: model,
+          embeddingDimensions: values.length,
+        },
+      },
+    ]);
+  } catch (error) {
+    await deleteChunksByIds(env, [chunkId]);
+    throw error;
+  }
+  if (previous) {
+    await deleteChunksByIds(env, [previous.id]);
+    await deleteChunkVectors(env, [previous.id], vectorScope);
+  }
+}
+
+export function readStoredSummary(file: Pick<FileWithFolder, 'summary_abstract' | 'summary_key_points'>): DocumentSummary | null {
+  if (!file.summary_abstract) {
+    return null;
+  }
+  let keyPoints: string[] = [];
+  try {
+    const parsed = JSON.parse(file.summary_key_points ?? '[]') as unknown;
+    keyPoints = Array.isArray(parsed) ? parsed.filter((point): point is string => typeof point === 'string') : [];
+  } catch {}
+  return { abstract: file.summary_abstract, keyPoints };
+}
+
+/**
+ * Summarises a ready file from its stored chunks and indexes the summary. A summary written by the
+ * same chat model from the same chunks is kept; only its vector is rebuilt when the embedding model
+ * has changed since. Returns 'skipped' for files that are gone, not ready or empty.
+ */
+export async function summarizeFile(env: MarbleBindings, fileId: string): Promise<'summarized' | 'reindexed' | 'unchanged' | 'skipped'> {
+  const file = await getFileById(env, fileId);
+  if (!file || file.status !== 'ready') {
+    return 'skipped';
+  }
+  const chunks = await listSummarySourceChunks(env, file.id);
+  if (!chunks.length) {
+    return 'skipped';
+  }
+
+  const chatModel = resolveChatProvider(env).model;
+  const sourceHash = await sha256Hex(chunks.map((chunk) => chunk.content_hash ?? chunk.content).join('\n'));
+  const stored = readStoredSummary(file);
+  if (stored && file.summary_source_hash === sourceHash && file.summary_model === chatModel) {
+    const indexed = await getSummaryChunk(env, file.id);
+    if (indexed?.embedding_model === embeddingModelName(env)) {
+      return 'unchanged';
+    }
+    await indexSummaryChunk(env, file, stored);
+    return 'reindexed';
+  }
+
+  const summary = await summarizeChunks(
+    env,
+    file.file_name,
+    chunks.map((chunk) => chunk.content),
+  );
+  const update: FileSummaryUpdate = { ...summary, model: chatModel, sourceHash };
+  await updateFileSummary(env, file.id, update);
+  await indexSummaryChunk(env, file, summary);
+  return 'summarized';
+}
+
+/**
+ * Queues a summary for a file that has just been ingested. Without a queue binding the summary is
+ * written inside `waitUntil` once the response is sent, or skipped when there is no execution
+ * context either. Either way a failure is logged and never fails the ingestion.
+ */
+export async function scheduleFileSummary(env: MarbleBindings, fileId: string, ctx?: ExecutionContext): Promise<void> {
+  const logFailure = (error: unknown) => console.error('File summary failed', { fileId, error });
+  if (!env.INGESTION_QUEUE) {
+    if (ctx) {
+      ctx.waitUntil(summarizeFile(env, fileId).catch(logFailure));
+    }
+    return;
+  }
+  try {
+    await env.INGESTION_QUEUE.send({ type: 'summary', fileId });
+  } catch (error) {
+    logFailure(error);
+  }
+}
@@ -0,0 +1,210 @@
+import { resolveChatProvider } from './chat-providers';
+import {
+  countTermDocuments,
+  getFileById,
+  listSummarySourceChunks,
+  replaceFileTags,
+  replaceFileTerms,
+  type FileTagInput,
+  type FileTermCount,
+  type FileWithFolder,
+} from './db';
+import { readStoredSummary } from './summaries';
+import type { MarbleBindings } from '../types';
+
+const MAX_TAGS = 8;
+// Terms kept per file for document frequencies; rarer ones cannot become tags anyway.
+const MAX_STORED_TERMS = 200;
+// Candidates offered to the chat model when tags are refined.
+const REFINE_CANDIDATES = 20;
+const MAX_TAG_CHARS = 40;
+// Two-word phrases name topics better than single words, but only count once they repeat.
+const PHRASE_WEIGHT = 1.5;
+const MIN_PHRASE_FREQUENCY = 2;
+
+export const STOPWORDS = new Set(
+  (
+    'about above after again against all also among and any are around because been before being below between both but ' +
+    'can cannot could did does doing done down during each either else etc even ever every few for from further get gets ' +
+    'had has have having her here hers herself him himself his how however into its itself just least less let like made ' +
+    'make many may might more most much must near need new next nor not now off often once one only onto other others ' +
+    'our ours out over own per please rather same see set shall she should since some such than that the their theirs ' +
+    'them then there these they this those though through thus too two under until upon use used uses using very via was ' +
+    'way well were what when where whether which while who whom whose why will with within without would yet you your ' +
+    'yours yourself'
+  ).split(' '),
+);
+
+// Placeholders left by PII masking are not subjects.
+const PII_PLACEHOLDER = /\[(?:EMAIL|PHONE|CARD|IBAN|SSN)\]/g;
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’-]*[\p{L}\p{N}]|\p{L}/gu;
+
+function isTermWord(word: string): boolean {
+  return word.length >= 3 && word.length <= 30 && /\p{L}/u.test(word) && !STOPWORDS.has(word);
+}
+
+/**
+ * Counts the words and two-word phrases in a file's text, ignoring stopwords and numbers, and
+ * keeps the most frequent MAX_STORED_TERMS.
+ */
+export function countTerms(texts: string[]): FileTermCount[] {
+  const counts = new Map<string, number>();
+  const add = (term: string) => counts.set(term, (counts.get(term) ?? 0) + 1);
+  for (const text of texts) {
+    const words = (text.replace(PII_PLACEHOLDER, ' ').toLowerCase().match(WORD) ?? []).map((word) => word.replace(/['’]s$/, ''));
+    for (let index = 0; index < words.length; index += 1) {
+      if (!isTermWord(words[index])) continue;
+      add(words[index]);
+      if (index + 1 < words.length && isTermWord(words[index + 1])) {
+        add(`${words[index]} ${words[index + 1]}`);
+      }
+    }
+  }
+  return Array.from(counts, ([term, frequency]) => ({ term, frequency }))
+    .filter(({ term, frequency }) => !term.includes(' ') || frequency >= MIN_PHRASE_FREQUENCY)
+    .sort((a, b) => b.frequency - a.frequency || a.term.localeCompare(b.term))
+    .slice(0, MAX_STORED_TERMS);
+}
+
+/**
+ * Ranks a file's terms by TF-IDF: log-scaled frequency in the file, times the smoothed inverse of
+ * how many of the organisation's `files` contain the term. A term whose words all belong to a
+ * better one, or that holds all of a better one's words, is skipped, so "travel" and "travel
+ * policy" never both appear.
+ */
+export function rankTags(terms: FileTermCount[], files: number, documents: Map<string, number>, limit = MAX_TAGS): FileTagInput[] {
+  const scored = terms
+    .map(({ term, frequency }) => {
+      const idf = Math.log((1 + files) / (1 + (documents.get(term) ?? 1))) + 1;
+      const weight = term.includes(' ') ? PHRASE_WEIGHT : 1;
+      return { tag: term, score: Number(((1 + Math.log(frequency)) * idf * weight).toFixed(4)), source: 'tfidf' as const };
+    })
+    .sort((a, b) => b.score - a.score || a.tag.localeCompare(b.tag));
+
+  const tags: FileTagInput[] = [];
+  for (const candidate of scored) {
+    if (tags.length >= limit) break;
+    const words = candidate.tag.split(' ');
+    const covered = tags.some((tag) => {
+      const taken = tag.tag.split(' ');
+      return words.every((word) => taken.includes(word)) || taken.every((word) => words.includes(word));
+    });
+    if (!covered) {
+      tags.push(candidate);
+    }
+  }
+  return tags;
+}
+
+/** Lower-cases a tag and trims punctuation; returns null when nothing usable is left. */
+export function normalizeTag(value: string): string | null {
+  const tag = value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}&+#' -]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TAG_CHARS)
+    .trim();
+  return tag.length >= 2 ? tag : null;
+}
+
+// The model picks topics from the TF-IDF candidates; anything it cannot do leaves those in place.
+async function refineTags(env: MarbleBindings, file: FileWithFolder, candidates: FileTagInput[]): Promise<FileTagInput[]> {
+  const summary = readStoredSummary(file);
+  const provider = resolveChatProvider(env);
+  const result = await provider.complete({
+    system: [
+      'You tag documents in a file library by subject. Use only the information provided.',
+      `Put up to ${MAX_TAGS} topic tags in \`answer\`, best first, one per line, each starting with "- ".`,
+      'Each tag is one to three lower-case words. Prefer the candidate terms, merging or renaming them into clear topics. Leave `citations` empty.',
+    ],
+    user: [
+      `Document: ${file.file_name}`,
+      summary ? `Summary: ${summary.abstract}` : '',
+      `Candidate terms: ${candidates.map((candidate) => candidate.tag).join(', ')}`,
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  });
+
+  const tags: FileTagInput[] = [];
+  for (const line of result.answer.split('\n')) {
+    const bullet = line.match(/^\s*(?:[-*•]|\d+[.)])\s+(.*\S)\s*$/);
+    const tag = bullet ? normalizeTag(bullet[1]) : null;
+    if (tag && !tags.some((entry) => entry.tag === tag)) {
+      tags.push({ tag, score: Number((1 - tags.length / MAX_TAGS).toFixed(4)), source: 'model' });
+    }
+  }
+  return tags.slice(0, MAX_TAGS);
+}
+
+/**
+ * Tags a ready file from its stored chunks. Its term counts are recorded first, so the document
+ * frequencies include the file itself; other files' tags are not revisited until they are next
+ * ingested. With REFINE_TAGS=true the chat model turns the TF-IDF candidates into topics.
+ */
+export async function tagFile(env: MarbleBindings, fileId: string): Promise<'tagged' | 'refined' | 'skipped'> {
+  const file = await getFileById(env, fileId);
+  if (!file || file.status !== 'ready') {
+    return 'skipped';
+  }
+  const chunks = await listSummarySourceChunks(env, file.id);
+  const terms = countTerms(chunks.map((chunk) => chunk.content));
+  await replaceFileTerms(env, file, terms);
+  if (!terms.length) {
+    await replaceFileTags(env, file, []);
+    return 'skipped';
+  }
+
+  const { files, documents } = await countTermDocuments(
+    env,
+    file.organization_id,
+    terms.map((entry) => entry.term),
+  );
+  const tags = rankTags(terms, files, documents);
+  if (env.REFINE_TAGS === 'true') {
+    try {
+      const refined = await refineTags(env, file, rankTags(terms, files, documents, REFINE_CANDIDATES));
+      if (refined.length) {
+        await replaceFileTags(env, file, refined);
+        return 'refined';
+      }
+    } catch (error) {
+      console.warn('Tag refinement failed, keeping TF-IDF tags', { fileId, error });
+    }
+  }
+  await replaceFileTags(env, file, tags);
+  return 'tagged';
+}
+
+/**
+ * Queues tagging for a file that has just been ingested. Without a queue binding it is tagged
+ * inside `waitUntil`, or not at all without an execution context. A failure is logged and never
+ * fails the ingestion.
+ */
+export async function scheduleFileTags(env: MarbleBindings, fileId: string, ctx?: ExecutionContext): Promise<void> {
+  const logFailure = (error: unknown) => console.error('File tagging failed', { fileId, error });
+  if (!env.INGESTION_QUEUE) {
+    if (ctx) {
+      ctx.waitUntil(tagFile(env, fileId).catch(logFailure));
+    }
+    return;
+  }
+  try {
+    await env.INGESTION_QUEUE.send({ type: 'tags', fileId });
+  } catch (error) {
+    logFailure(error);
+  }
+}
+
+export function parseFileTags(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((tag): tag is string => typeof tag === 'string') : [];
+  } catch {
+    return [];
+  }
+}
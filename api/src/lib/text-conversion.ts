@@ -1,18 +1,202 @@
 import { HTTPException } from 'hono/http-exception';
 import type { FileRecord } from '../types';
+import { PAGE_SEPARATOR } from './chunk';
+import type { CodeLanguage } from './code';
+import { convertDocxToText, DocxError } from './docx';
+import { extractPdfText, PdfError } from './pdf';
+import type { TranscriptFormat } from './transcript';
 
-type TxtFileLike = Pick<FileRecord, 'file_name' | 'mime_type'> | {
+export type DocumentFormat = 'text' | 'markdown' | 'pdf' | 'docx' | 'csv' | 'tsv' | CodeLanguage | TranscriptFormat;
+
+type DocumentFileLike = Pick<FileRecord, 'file_name' | 'mime_type'> | {
   file_name: string;
   mime_type: string | null;
 };
 
-export function assertTxtFile(file: TxtFileLike): void {
-  const name = file.file_name.toLowerCase();
-  if (!name.endsWith('.txt')) {
-    throw new HTTPException(400, { message: 'Only .txt files are supported.' });
+interface FormatSpec {
+  extensions: string[];
+  mimeType: string;
+  acceptedMimeTypes: string[];
+  // Binary formats keep the original in R2 and ingest a derived text object.
+  binary: boolean;
+}
+
+const FORMAT_SPECS: Record<DocumentFormat, FormatSpec> = {
+  text: {
+    extensions: ['txt'],
+    mimeType: 'text/plain',
+    acceptedMimeTypes: ['text/plain'],
+    binary: false,
+  },
+  markdown: {
+    extensions: ['md', 'markdown'],
+    mimeType: 'text/markdown',
+    // Browsers and OSes disagree on the Markdown mime type; text/plain is common too.
+    acceptedMimeTypes: ['text/markdown', 'text/x-markdown', 'text/plain'],
+    binary: false,
+  },
+  csv: {
+    extensions: ['csv'],
+    mimeType: 'text/csv',
+    // Windows reports CSV as an Excel type.
+    acceptedMimeTypes: ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'],
+    binary: false,
+  },
+  tsv: {
+    extensions: ['tsv', 'tab'],
+    mimeType: 'text/tab-separated-values',
+    acceptedMimeTypes: ['text/tab-separated-values', 'text/plain'],
+    binary: false,
+  },
+  pdf: {
+    extensions: ['pdf'],
+    mimeType: 'application/pdf',
+    acceptedMimeTypes: ['application/pdf', 'application/x-pdf', 'application/octet-stream'],
+    binary: true,
+  },
+  docx: {
+    extensions: ['docx'],
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    acceptedMimeTypes: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/zip',
+      'application/octet-stream',
+    ],
+    binary: true,
+  },
+  typescript: {
+    extensions: ['ts', 'tsx'],
+    mimeType: 'text/x-typescript',
+    // Browsers often guess MPEG transport stream for .ts.
+    acceptedMimeTypes: [
+      'text/x-typescript',
+      'application/typescript',
+      'application/x-typescript',
+      'video/mp2t',
+      'text/plain',
+      'application/octet-stream',
+    ],
+    binary: false,
+  },
+  python: {
+    extensions: ['py'],
+    mimeType: 'text/x-python',
+    acceptedMimeTypes: ['text/x-python', 'text/x-script.python', 'application/x-python-code', 'text/plain', 'application/octet-stream'],
+    binary: false,
+  },
+  go: {
+    extensions: ['go'],
+    mimeType: 'text/x-go',
+    acceptedMimeTypes: ['text/x-go', 'text/plain', 'application/octet-stream'],
+    binary: false,
+  },
+  sql: {
+    extensions: ['sql'],
+    mimeType: 'application/sql',
+    acceptedMimeTypes: ['application/sql', 'application/x-sql', 'text/x-sql', 'text/plain', 'application/octet-stream'],
+    binary: false,
+  },
+  srt: {
+    extensions: ['srt'],
+    mimeType: 'application/x-subrip',
+    acceptedMimeTypes: ['application/x-subrip', 'text/srt', 'text/plain', 'application/octet-stream'],
+    binary: false,
+  },
+  vtt: {
+    extensions: ['vtt'],
+    mimeType: 'text/vtt',
+    acceptedMimeTypes: ['text/vtt', 'text/plain', 'application/octet-stream'],
+    binary: false,
+  },
+};
+
+const CODE_FORMATS: DocumentFormat[] = ['typescript', 'python', 'go', 'sql'];
+
+function extensionOf(fileName: string): string {
+  const match = /\.([^.]+)$/.exec(fileName.trim().toLowerCase());
+  return match ? match[1] : '';
+}
+
+export function detectDocumentFormat(fileName: string): DocumentFormat | null {
+  const extension = extensionOf(fileName);
+  if (!extension) {
+    return null;
+  }
+  const entry = (Object.entries(FORMAT_SPECS) as Array<[DocumentFormat, FormatSpec]>).find(([, spec]) =>
+    spec.extensions.includes(extension),
+  );
+  return entry ? entry[0] : null;
+}
+
+export function mimeTypeForFormat(format: DocumentFormat): string {
+  return FORMAT_SPECS[format].mimeType;
+}
+
+export function isBinaryFormat(format: DocumentFormat): boolean {
+  return FORMAT_SPECS[format].binary;
+}
+
+export function isCodeFormat(format: DocumentFormat): format is CodeLanguage {
+  return CODE_FORMATS.includes(format);
+}
+
+export function assertSupportedFile(file: DocumentFileLike): DocumentFormat {
+  const format = detectDocumentFormat(file.file_name);
+  if (!format) {
+    throw new HTTPException(400, { message: 'Only .txt, .md, .csv, .tsv, .pdf, .docx, .ts, .py, .go, .sql, .srt and .vtt files are supported.' });
+  }
+  if (file.mime_type && !FORMAT_SPECS[format].acceptedMimeTypes.includes(file.mime_type)) {
+    throw new HTTPException(400, { message: 'Unexpected mime type for uploaded file.' });
+  }
+  return format;
+}
+
+export function deriveFileName(originalName: string, format: DocumentFormat): string {
+  const spec = FORMAT_SPECS[format];
+  const trimmed = originalName.trim();
+  if (!trimmed) {
+    return `untitled.${spec.extensions[0]}`;
+  }
+  const extension = extensionOf(trimmed);
+  if (spec.extensions.includes(extension)) {
+    return trimmed;
   }
-  if (file.mime_type && file.mime_type !== 'text/plain') {
-    throw new HTTPException(400, { message: 'Unexpected mime type for stored text file.' });
+  const withoutExt = trimmed.replace(/\.[^.]+$/, '');
+  const base = withoutExt.trim() || 'untitled';
+  return `${base}.${spec.extensions[0]}`;
+}
+
+// Leading bytes of the binary formats: PDFs start with "%PDF-", .docx files are zip archives.
+const SIGNATURES: Partial<Record<DocumentFormat, number[]>> = {
+  pdf: [0x25, 0x50, 0x44, 0x46, 0x2d],
+  docx: [0x50, 0x4b, 0x03, 0x04],
+};
+
+/** Checks a binary upload's leading bytes against its format; text formats always match. */
+export function matchesFormatSignature(format: DocumentFormat, bytes: Uint8Array): boolean {
+  const signature = SIGNATURES[format];
+  return !signature || signature.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Converts a binary upload to the text that gets chunked. PDF pages are separated by
+ * PAGE_SEPARATOR; Word documents come back as Markdown-flavoured text.
+ */
+export async function convertToText(format: DocumentFormat, bytes: ArrayBuffer): Promise<string> {
+  try {
+    switch (format) {
+      case 'pdf':
+        return (await extractPdfText(bytes)).join(PAGE_SEPARATOR);
+      case 'docx':
+        return await convertDocxToText(bytes);
+      default:
+        return new TextDecoder().decode(bytes);
+    }
+  } catch (error) {
+    if (error instanceof PdfError || error instanceof DocxError) {
+      throw new HTTPException(400, { message: error.message });
+    }
+    throw error;
   }
 }
 
@@ -0,0 +1,134 @@
+// Approximates BPE token counts without shipping a tokenizer. The pre-tokenizer mirrors the
+// OpenAI encodings closely enough for sizing: common words are a single token, longer ones split,
+// digits are grouped in threes, CJK characters cost at least a token each, and every other
+// symbol is usually a token of its own.
+
+// Average over mixed text including spaces and punctuation, for converting character sizes.
+export const CHARS_PER_TOKEN = 4;
+
+interface EncodingProfile {
+  lettersPerToken: number;
+  cjkTokensPerChar: number;
+}
+
+const ENCODINGS = {
+  cl100k_base: { lettersPerToken: 6, cjkTokensPerChar: 1.3 },
+  o200k_base: { lettersPerToken: 6.5, cjkTokensPerChar: 1 },
+} satisfies Record<string, EncodingProfile>;
+
+type EncodingName = keyof typeof ENCODINGS;
+
+// Most specific prefix first. Unknown models fall back to cl100k_base and the 8k embedding limit.
+const MODEL_ENCODINGS: Array<{ prefix: string; encoding: EncodingName; maxInputTokens: number }> = [
+  { prefix: 'text-embedding-3', encoding: 'cl100k_base', maxInputTokens: 8191 },
+  { prefix: 'text-embedding-ada-002', encoding: 'cl100k_base', maxInputTokens: 8191 },
+  // Workers AI BGE models and common Ollama embedders; their tokenizers differ but cl100k is close.
+  { prefix: '@cf/baai/bge', encoding: 'cl100k_base', maxInputTokens: 512 },
+  { prefix: 'nomic-embed-text', encoding: 'cl100k_base', maxInputTokens: 8192 },
+  { prefix: 'mxbai-embed-large', encoding: 'cl100k_base', maxInputTokens: 512 },
+  { prefix: 'gpt-3.5', encoding: 'cl100k_base', maxInputTokens: 16_385 },
+  { prefix: 'gpt-4-', encoding: 'cl100k_base', maxInputTokens: 128_000 },
+  { prefix: 'gpt-4o', encoding: 'o200k_base', maxInputTokens: 128_000 },
+  { prefix: 'gpt-4.1', encoding: 'o200k_base', maxInputTokens: 1_000_000 },
+  { prefix: 'gpt-5', encoding: 'o200k_base', maxInputTokens: 272_000 },
+  { prefix: 'o1', encoding: 'o200k_base', maxInputTokens: 200_000 },
+  { prefix: 'o3', encoding: 'o200k_base', maxInputTokens: 200_000 },
+  { prefix: 'o4', encoding: 'o200k_base', maxInputTokens: 200_000 },
+  { prefix: 'claude', encoding: 'cl100k_base', maxInputTokens: 200_000 },
+];
+
+const DEFAULT_MAX_INPUT_TOKENS = 8191;
+
+const TOKEN_PIECE =
+  /(\p{Script=Han}|\p{Script=Hiragana}|\p{Script=Katakana}|\p{Script=Hangul})|(\p{N}+)|([\p{L}\p{M}_]+)|(\s*\n\s*|\s{2,})|(\S)/gu;
+
+function estimate(text: string, profile: EncodingProfile): number {
+  let tokens = 0;
+  let cjk = 0;
+  for (const match of text.matchAll(TOKEN_PIECE)) {
+    if (match[1]) {
+      cjk += 1;
+    } else if (match[2]) {
+      tokens += Math.ceil(match[2].length / 3);
+    } else if (match[3]) {
+      tokens += Math.ceil(match[3].length / profile.lettersPerToken);
+    } else {
+      // Newline and indentation runs, and lone symbols.
+      tokens += 1;
+    }
+  }
+  return tokens + Math.ceil(cjk * profile.cjkTokensPerChar);
+}
+
+export interface Tokenizer {
+  model: string;
+  encoding: EncodingName;
+  maxInputTokens: number;
+  count(text: string): number;
+}
+
+/** Returns the token estimator and input limit for an OpenAI model name. */
+export function tokenizerForModel(model: string | undefined): Tokenizer {
+  const name = model?.trim() || 'text-embedding-3-small';
+  const entry = MODEL_ENCODINGS.find((candidate) => name.startsWith(candidate.prefix));
+  const encoding = entry?.encoding ?? 'cl100k_base';
+  return {
+    model: name,
+    encoding,
+    maxInputTokens: entry?.maxInputTokens ?? DEFAULT_MAX_INPUT_TOKENS,
+    count: (text) => estimate(text, ENCODINGS[encoding]),
+  };
+}
+
+/** Estimates how many tokens `text` encodes to with cl100k_base, the embedding encoding. */
+export function countTokens(text: string): number {
+  return estimate(text, ENCODINGS.cl100k_base);
+}
+
+export interface BudgetedBlock {
+  content: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Packs ranked blocks into a token budget. Blocks are taken in order while they fit; the first
+ * block that does not fit and everything ranked after it are dropped, so a weaker source never
+ * displaces a stronger one. The top block is always kept: if it alone exceeds the budget it is
+ * cut at a line boundary and its `endLine` narrowed to the last line kept. `overhead` is the
+ * per-block cost of the label that precedes it in the prompt.
+ */
+export function fitToTokenBudget<T extends BudgetedBlock>(
+  blocks: T[],
+  budget: number,
+  count: (text: string) => number,
+  overhead = 0,
+): { blocks: T[]; tokens: number; dropped: number; truncated: boolean } {
+  const kept: T[] = [];
+  let tokens = 0;
+  for (const block of blocks) {
+    const cost = count(block.content) + overhead;
+    if (tokens + cost <= budget) {
+      kept.push(block);
+      tokens += cost;
+      continue;
+    }
+    if (kept.length) {
+      break;
+    }
+    const lines = block.content.split('\n');
+    let keep = lines.length;
+    while (keep > 1 && count(lines.slice(0, keep).join('\n')) + overhead > budget) {
+      keep = Math.max(1, Math.floor(keep * 0.8));
+    }
+    let content = lines.slice(0, keep).join('\n');
+    // A single oversized line is cut by characters instead.
+    while (content.length > 1 && count(content) + overhead > budget) {
+      content = content.slice(0, Math.floor(content.length * 0.8));
+    }
+    kept.push({ ...block, content, endLine: Math.min(block.endLine, block.startLine + keep - 1) });
+    tokens = count(content) + overhead;
+    return { blocks: kept, tokens, dropped: blocks.length - 1, truncated: true };
+  }
+  return { blocks: kept, tokens, dropped: blocks.length - kept.length, truncated: kept.length < blocks.length };
+}
@@ -0,0 +1,90 @@
+// Parses SubRip (.srt) and WebVTT (.vtt) subtitle files into timed cues.
+// Cue numbers, identifiers and styling are dropped; speaker labels are kept in the text.
+
+export type TranscriptFormat = 'srt' | 'vtt';
+
+export interface TranscriptCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+  // Source lines of the cue block, from its timing line to its last text line.
+  startLine: number;
+  endLine: number;
+}
+
+const TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const VTT_METADATA_BLOCK = /^(WEBVTT|NOTE|STYLE|REGION)(\s|$)/;
+const VOICE_TAG = /<v(?:\.[^\s>]*)?\s+([^>]+)>/;
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', nbsp: ' ', lrm: '', rlm: '' };
+
+function parseTimestamp(value: string): number {
+  const [clock, fraction] = value.split(/[.,]/);
+  const parts = clock.split(':').map(Number);
+  while (parts.length < 3) parts.unshift(0);
+  const [hours, minutes, seconds] = parts;
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + Number(fraction.padEnd(3, '0'));
+}
+
+function cleanCueText(lines: string[]): string {
+  const joined = lines.join(' ');
+  const voice = VOICE_TAG.exec(joined)?.[1]?.trim();
+  const text = joined
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, (_, entity: string) => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+  return voice && text ? `${voice}: ${text}` : text;
+}
+
+/** Formats milliseconds as HH:MM:SS for citations. */
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}`;
+}
+
+/**
+ * Returns the cues of an SRT or VTT file in file order. Blocks without a timing line
+ * (VTT headers, NOTE/STYLE blocks, stray text) are skipped, as are cues with no text.
+ */
+export function parseTranscript(source: string, format: TranscriptFormat): TranscriptCue[] {
+  const lines = source.replace(/^\uFEFF/, '').split('\n').map((line) => line.replace(/\r$/, ''));
+  const cues: TranscriptCue[] = [];
+  let blockStart = 0;
+
+  const flushBlock = (end: number) => {
+    const block = lines.slice(blockStart, end);
+    blockStart = end + 1;
+    if (!block.length || (format === 'vtt' && VTT_METADATA_BLOCK.test(block[0]))) {
+      return;
+    }
+    // Anything before the timing line is a cue number (SRT) or identifier (VTT).
+    const timingIndex = block.findIndex((line) => TIMING.test(line));
+    if (timingIndex < 0) {
+      return;
+    }
+    const timing = TIMING.exec(block[timingIndex])!;
+    const textLines = block.slice(timingIndex + 1);
+    const text = cleanCueText(textLines);
+    if (!text) {
+      return;
+    }
+    const startLine = blockStart - block.length + timingIndex;
+    cues.push({
+      startMs: parseTimestamp(timing[1]),
+      endMs: parseTimestamp(timing[2]),
+      text,
+      startLine,
+      endLine: startLine + textLines.length,
+    });
+  };
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      flushBlock(index);
+    }
+  });
+  flushBlock(lines.length);
+  return cues;
+}
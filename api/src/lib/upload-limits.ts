@@ -0,0 +1,63 @@
+import { HTTPException } from 'hono/http-exception';
+import type { MarbleBindings } from '../types';
+
+export const DEFAULT_MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+function parseBytes(value: string | undefined): number | null {
+  const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/** The deployment-wide default: MAX_UPLOAD_BYTES, or 5 MB when unset. */
+export function defaultUploadLimit(env: MarbleBindings): number {
+  return parseBytes(env.MAX_UPLOAD_BYTES) ?? DEFAULT_MAX_UPLOAD_BYTES;
+}
+
+/** The per-file upload limit for an organisation: its own setting, else the deployment default. */
+export async function resolveUploadLimit(env: MarbleBindings, organisationId: string): Promise<number> {
+  const row = await env.MARBLE_DB.prepare(`SELECT max_upload_bytes FROM organisations WHERE id = ?1`)
+    .bind(organisationId)
+    .first<{ max_upload_bytes: number | null }>();
+  return row?.max_upload_bytes && row.max_upload_bytes > 0 ? row.max_upload_bytes : defaultUploadLimit(env);
+}
+
+export async function setOrganisationUploadLimit(
+  env: MarbleBindings,
+  organisationId: string,
+  maxUploadBytes: number | null,
+): Promise<void> {
+  await env.MARBLE_DB.prepare(
+    `UPDATE organisations
+     SET max_upload_bytes = ?2,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?1`,
+  )
+    .bind(organisationId, maxUploadBytes)
+    .run();
+}
+
+// Limits are usually whole megabytes or gigabytes; anything else is shown to one decimal place.
+export function formatByteLimit(bytes: number): string {
+  const units: Array<[string, number]> = [
+    ['GB', 1024 ** 3],
+    ['MB', 1024 ** 2],
+    ['KB', 1024],
+  ];
+  for (const [unit, size] of units) {
+    if (bytes >= size) {
+      const value = bytes / size;
+      return `${Number.isInteger(value) ? value : value.toFixed(1)} ${unit}`;
+    }
+  }
+  return `${bytes} bytes`;
+}
+
+export function uploadLimitMessage(limit: number): string {
+  return `File exceeds the ${formatByteLimit(limit)} upload limit.`;
+}
+
+export function assertWithinUploadLimit(size: number, limit: number): void {
+  if (size > limit) {
+    throw new HTTPException(400, { message: uploadLimitMessage(limit) });
+  }
+}
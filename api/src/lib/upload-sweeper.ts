@@ -0,0 +1,45 @@
+import { deleteFile, listAbandonedUploads } from './db';
+import type { MarbleBindings } from '../types';
+
+// Upload URLs expire after 15 minutes, so anything still `uploading` after an hour was abandoned.
+const DEFAULT_EXPIRY_MINUTES = 60;
+const SWEEP_LIMIT = 200;
+
+function parseExpiryMinutes(value: string | undefined): number {
+  const parsed = value ? Number.parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_EXPIRY_MINUTES;
+}
+
+/**
+ * Deletes file records left in `uploading` for longer than UPLOAD_EXPIRY_MINUTES, along with any
+ * object the browser did manage to PUT and any unfinished multipart upload. Runs from the Worker's cron trigger.
+ */
+export async function sweepAbandonedUploads(env: MarbleBindings, now = new Date()): Promise<{ expired: number }> {
+  const cutoff = new Date(now.getTime() - parseExpiryMinutes(env.UPLOAD_EXPIRY_MINUTES) * 60_000).toISOString();
+  const abandoned = await listAbandonedUploads(env, cutoff, SWEEP_LIMIT);
+
+  let expired = 0;
+  for (const file of abandoned) {
+    try {
+      if (file.multipart_upload_id) {
+        // Parts of an unfinished multipart upload are stored (and billed) until it is aborted.
+        await env.MARBLE_FILES.resumeMultipartUpload(file.r2_key, file.multipart_upload_id)
+          .abort()
+          .catch((error) => console.warn('Multipart abort failed', { fileId: file.id, error }));
+      }
+      await env.MARBLE_FILES.delete(file.r2_key);
+      if (file.text_r2_key) {
+        await env.MARBLE_FILES.delete(file.text_r2_key);
+      }
+      await deleteFile(env, file.id);
+      expired += 1;
+    } catch (error) {
+      console.error('Failed to expire abandoned upload', { fileId: file.id, error });
+    }
+  }
+
+  if (expired) {
+    console.log('Expired abandoned uploads', { expired, cutoff });
+  }
+  return { expired };
+}
@@ -1,4 +1,5 @@
 // api/src/lib/vectorize.ts
+import { legacyEmbeddingModelName } from './embeddings';
 import type { MarbleBindings, Visibility } from '../types';
 
 export interface VectorMetadata {
@@ -9,10 +10,16 @@ export interface VectorMetadata {
   fileName: string;
   startLine: number;
   endLine: number;
+  headingPath?: string | null;
+  page?: number | null;
+  symbol?: string | null;
   visibility: Visibility;
   ownerId: string;
   organizationId: string;
   teamId?: string | null;
+  // Absent on vectors written before the embedding model was recorded.
+  embeddingModel?: string | null;
+  embeddingDimensions?: number | null;
 }
 
 export interface VectorMatch extends VectorMetadata {
@@ -82,14 +89,29 @@ export async function upsertChunkVector(
   embedding: number[],
   metadata: VectorMetadata,
 ): Promise<void> {
-  const vectors = [{ id: chunkId, values: embedding, metadata }];
+  await upsertChunkVectors(env, [{ id: chunkId, values: embedding, metadata }]);
+}
+
+/** Upserts several vectors in one call (one per namespace on V1 bindings). */
+export async function upsertChunkVectors(
+  env: MarbleBindings,
+  vectors: Array<{ id: string; values: number[]; metadata: VectorMetadata }>,
+): Promise<void> {
+  if (!vectors.length) return;
   const binding: any = env.MARBLE_VECTORS;
 
   if (isV2(binding)) {
     await binding.upsert(vectors); // V2: single-arg
-  } else {
-    const namespace = partitionForVisibility(metadata);
-    await binding.upsert(namespace, vectors); // V1: namespaced
+    return;
+  }
+
+  const byNamespace = new Map<string, typeof vectors>();
+  for (const vector of vectors) {
+    const namespace = partitionForVisibility(vector.metadata);
+    byNamespace.set(namespace, [...(byNamespace.get(namespace) ?? []), vector]);
+  }
+  for (const [namespace, group] of byNamespace) {
+    await binding.upsert(namespace, group); // V1: namespaced
   }
 }
 
@@ -137,6 +159,10 @@ interface QueryOptions {
   vector: number[];
   topK: number;
   namespace: string;
+  // Only matches embedded with this model. Untagged vectors predate model tracking and count as the
+  // legacy OpenAI model: while that is still active nothing is filtered, otherwise the model is part
+  // of the index query and untagged vectors are left out until a reindex tags them.
+  embeddingModel?: string;
 }
 
 function filterFromNamespace(ns: string): Record<string, unknown> {
@@ -176,16 +202,29 @@ export async function queryNamespace(env: MarbleBindings, options: QueryOptions)
       fileName: metadata?.fileName ?? '',
       startLine: metadata?.startLine ?? 0,
       endLine: metadata?.endLine ?? 0,
+      headingPath: metadata?.headingPath ?? null,
+      page: metadata?.page ?? null,
+      symbol: metadata?.symbol ?? null,
       visibility,
       ownerId,
       organizationId,
       teamId,
+      embeddingModel: metadata?.embeddingModel ?? null,
+      embeddingDimensions: metadata?.embeddingDimensions ?? null,
       score: raw.score ?? 0,
     };
   };
+  const legacyModel = legacyEmbeddingModelName(env);
+  // The index filters by model before taking the top K; this check also covers bindings that ignore it.
+  const compatible = (match: VectorMatch | null): match is VectorMatch => {
+    if (!match) return false;
+    return !options.embeddingModel || (match.embeddingModel ?? legacyModel) === options.embeddingModel;
+  };
+  const modelFilter: Record<string, unknown> =
+    options.embeddingModel && options.embeddingModel !== legacyModel ? { embeddingModel: options.embeddingModel } : {};
 
   if (isV2(binding)) {
-    const filter = filterFromNamespace(options.namespace);
+    const filter = { ...filterFromNamespace(options.namespace), ...modelFilter };
     const baseOptions: any = {
       topK: options.topK,
       returnValues: false,
@@ -196,27 +235,35 @@ export async function queryNamespace(env: MarbleBindings, options: QueryOptions)
     }
 
     let response = await binding.query(options.vector, baseOptions);
-    let matches = (response?.matches ?? []).map(buildMatch).filter(Boolean) as VectorMatch[];
+    let matches = (response?.matches ?? []).map(buildMatch).filter(compatible);
 
-    if (!matches.length && filter && Object.keys(filter).length) {
-      response = await binding.query(options.vector, {
+    if (!matches.length && Object.keys(filter).length > Object.keys(modelFilter).length) {
+      const fallback: any = {
         topK: options.topK,
         returnValues: false,
         returnMetadata: true,
-      });
-      matches = (response?.matches ?? []).map(buildMatch).filter(Boolean) as VectorMatch[];
+      };
+      if (Object.keys(modelFilter).length) {
+        fallback.filter = modelFilter;
+      }
+      response = await binding.query(options.vector, fallback);
+      matches = (response?.matches ?? []).map(buildMatch).filter(compatible);
     }
 
     return matches;
   }
 
-  const rV1 = await binding.query(options.namespace, {
+  const v1Options: any = {
     vector: options.vector,
     topK: options.topK,
     returnValues: false,
     returnMetadata: true,
-  });
-  return (rV1?.matches ?? []).map(buildMatch).filter(Boolean) as VectorMatch[];
+  };
+  if (Object.keys(modelFilter).length) {
+    v1Options.filter = modelFilter;
+  }
+  const rV1 = await binding.query(options.namespace, v1Options);
+  return (rV1?.matches ?? []).map(buildMatch).filter(compatible);
 }
 
 /* Helpers */
@@ -0,0 +1,108 @@
+// Reads standard (non-Zip64, unencrypted) zip archives from memory.
+
+import { inflate } from './compression';
+
+export class ZipError extends Error {}
+
+export interface ZipEntry {
+  name: string;
+  directory: boolean;
+  encrypted: boolean;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const minimum = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minimum; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ZipError('File is not a valid zip archive.');
+}
+
+function decodeName(bytes: Uint8Array, utf8: boolean): string {
+  if (utf8) {
+    return new TextDecoder().decode(bytes);
+  }
+  let name = '';
+  for (const byte of bytes) name += String.fromCharCode(byte);
+  return name;
+}
+
+export function listZipEntries(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 22) {
+    throw new ZipError('File is not a valid zip archive.');
+  }
+  const eocd = findEndOfCentralDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ZipError('Zip64 archives are not supported.');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipError('Zip central directory is corrupt.');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decodeName(bytes.subarray(offset + 46, offset + 46 + nameLength), Boolean(flags & 0x800));
+
+    entries.push({
+      name,
+      directory: name.endsWith('/'),
+      encrypted: Boolean(flags & 0x1),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+export async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  if (entry.encrypted) {
+    throw new ZipError(`Encrypted zip entries are not supported (${entry.name}).`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+  if (header + 30 > view.byteLength || view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+    throw new ZipError(`Zip entry header is corrupt (${entry.name}).`);
+  }
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    return data;
+  }
+  if (entry.method === METHOD_DEFLATE) {
+    // Never inflate past the declared size; a mismatch is reported below.
+    const inflated = await inflate(data, 'deflate-raw', entry.size);
+    if (inflated.length !== entry.size) {
+      throw new ZipError(`Zip entry size mismatch (${entry.name}).`);
+    }
+    return inflated;
+  }
+  throw new ZipError(`Unsupported zip compression method ${entry.method} (${entry.name}).`);
+}
+
+export function findZipEntry(entries: ZipEntry[], name: string): ZipEntry | null {
+  return entries.find((entry) => entry.name === name) ?? null;
+}
@@ -1,8 +1,11 @@
 import { HTTPException } from 'hono/http-exception';
 import type { AppContext } from '../context';
-import { createEmbeddings, generateGeneralAnswer, generateStructuredAnswer } from '../lib/openai';
+import { chatModelName } from '../lib/chat-providers';
+import { createEmbeddings, embeddingModelName } from '../lib/embeddings';
+import { generateGeneralAnswer, generateStructuredAnswer } from '../lib/openai';
 import { chatInput } from '../schemas';
 import { getChunksByIds, recordChat } from '../lib/db';
+import { keywordSearch, reciprocalRankFusion } from '../lib/keyword-search';
 import {
   organizationNamespace,
   personalNamespace,
@@ -11,6 +14,27 @@ import {
   type VectorMatch,
 } from '../lib/vectorize';
 import { listActiveTeamIdsForUser } from '../lib/org';
+import { fitToTokenBudget, tokenizerForModel } from '../lib/tokens';
+import { formatTimestamp } from '../lib/transcript';
+import type { ChatCitation, ChunkKind } from '../types';
+
+interface ChatContext {
+  order: number;
+  chunkId: string;
+  fileId: string;
+  folderName: string;
+  fileName: string;
+  startLine: number;
+  endLine: number;
+  headingPath: string | null;
+  page: number | null;
+  rows: [number, number] | null;
+  symbol: string | null;
+  timestamps: [string, string] | null;
+  // Summaries cover the whole file: their line range is 0–0 and never matched to citations.
+  kind: ChunkKind;
+  content: string;
+}
 
 // Normalize embedding provider output to number[]
 function normalizeQuestionEmbedding(maybe: any): number[] {
@@ -29,11 +53,70 @@ function normalizeQuestionEmbedding(maybe: any): number[] {
   throw new Error('Question embedding not in a known format');
 }
 
+function lineOverlap(a: [number, number], b: [number, number]): number {
+  return Math.max(0, Math.min(a[1], b[1]) - Math.max(a[0], b[0]) + 1);
+}
+
+// Map cited source lines onto the chunk's data rows (one row per line unless fields span lines)
+function narrowRows(lines: [number, number], ctx: ChatContext & { rows: [number, number] }): [number, number] {
+  const offset = ctx.rows[0] - ctx.startLine;
+  const clamp = (value: number, min: number) => Math.min(ctx.rows[1], Math.max(min, value));
+  const start = clamp(lines[0] + offset, ctx.rows[0]);
+  return [start, clamp(lines[1] + offset, start)];
+}
+
+// Attach the file id, section, page, rows, symbol and timestamps of the best-overlapping source so citations read like document locations
+function enrichCitations(citations: ChatCitation[], contexts: ChatContext[]): ChatCitation[] {
+  return citations.map((citation) => {
+    let best: ChatContext | null = null;
+    let bestOverlap = 0;
+    let sameFile: ChatContext | null = null;
+    for (const ctx of contexts) {
+      if (ctx.kind === 'summary') continue;
+      if (ctx.fileName !== citation.file || ctx.folderName !== citation.folder) continue;
+      sameFile ??= ctx;
+      const overlap = lineOverlap(citation.lines, [ctx.startLine, ctx.endLine]);
+      if (overlap > bestOverlap) {
+        best = ctx;
+        bestOverlap = overlap;
+      }
+    }
+    if (!best) {
+      return sameFile ? { ...citation, fileId: sameFile.fileId } : citation;
+    }
+    const enriched = { ...citation, fileId: best.fileId };
+    if (best.headingPath && !enriched.section) {
+      enriched.section = best.headingPath;
+    }
+    if (best.page && !enriched.page) {
+      enriched.page = best.page;
+    }
+    if (best.rows && !enriched.rows) {
+      enriched.rows = narrowRows(citation.lines, { ...best, rows: best.rows });
+    }
+    if (best.symbol && !enriched.symbol) {
+      enriched.symbol = best.symbol;
+    }
+    if (best.timestamps && !enriched.timestamps) {
+      enriched.timestamps = best.timestamps;
+    }
+    return enriched;
+  });
+}
+
 function parseTopK(value: string | undefined): number {
   const parsed = value ? Number.parseInt(value, 10) : NaN;
   return Number.isFinite(parsed) && parsed > 0 ? parsed : 8;
 }
 
+// Tokens reserved per source for its "Source N [folder / file ...]" label in the prompt.
+const SOURCE_LABEL_TOKENS = 32;
+
+function parseContextBudget(value: string | undefined): number {
+  const parsed = value ? Number.parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 6000;
+}
+
 export async function handleChat(c: AppContext) {
   const user = c.get('user');
   const organisationId = user.organizationId ?? user.tenant ?? c.env.DEFAULT_TENANT ?? 'default';
@@ -90,6 +173,8 @@ export async function handleChat(c: AppContext) {
   }
 
   const topK = parseTopK(c.env.VECTOR_TOP_K);
+  // Vectors from another embedding model are not comparable with this query's embedding.
+  const embeddingModel = embeddingModelName(c.env);
 
   const namespaces: string[] = [];
   if (scope === 'all' || scope === 'org') {
@@ -115,18 +200,36 @@ export async function handleChat(c: AppContext) {
     return c.json({ id: chatId, answer: placeholder, citations: [], sources: [] });
   }
 
-  const results = await Promise.all(
-    namespaces.map(async (namespace) => {
-      try {
-        return await queryNamespace(c.env, { namespace, vector: embedding, topK });
-      } catch (err) {
-        console.error('queryNamespace error for', namespace, err);
-        return [] as VectorMatch[];
-      }
+  // 2) Vector search per namespace, and BM25 over the same partitions for exact terms such as
+  // ticket numbers, error codes and SKUs that embeddings blur.
+  const [results, keywordIds] = await Promise.all([
+    Promise.all(
+      namespaces.map(async (namespace) => {
+        try {
+          return await queryNamespace(c.env, { namespace, vector: embedding, topK, embeddingModel });
+        } catch (err) {
+          console.error('queryNamespace error for', namespace, err);
+          return [] as VectorMatch[];
+        }
+      }),
+    ),
+    keywordSearch(
+      c.env,
+      lookupQuery,
+      {
+        organisationId,
+        includeOrganization: scope === 'all' || scope === 'org',
+        userId: scope === 'all' || scope === 'personal' ? user.id : undefined,
+        teamIds: scope === 'all' || scope === 'team' ? teamIds : [],
+      },
+      topK,
+    ).catch((err) => {
+      console.error('keywordSearch error', err);
+      return [] as string[];
     }),
-  );
+  ]);
 
-  // 3) Merge by best score per chunk
+  // 3) Merge vector matches by best score per chunk, then fuse with the keyword ranking
   const merged = new Map<string, { score: number; match: VectorMatch }>();
   results.flat().forEach((match) => {
     const prev = merged.get(match.chunkId);
@@ -135,15 +238,20 @@ export async function handleChat(c: AppContext) {
     }
   });
 
-  const topMatches = Array.from(merged.values())
+  const vectorIds = Array.from(merged.values())
     .sort((a, b) => b.score - a.score)
-    .slice(0, topK);
+    .slice(0, topK)
+    .map((e) => e.match.chunkId);
 
-  const chunkIds = topMatches.map((e) => e.match.chunkId);
+  const chunkIds = reciprocalRankFusion([vectorIds, keywordIds])
+    .slice(0, topK)
+    .map((e) => e.id);
   console.log('Lookup results', {
     query: lookupQuery,
     topK,
-    matches: topMatches.length,
+    matches: chunkIds.length,
+    vectorMatches: vectorIds.length,
+    keywordMatches: keywordIds.length,
     scope,
   });
   if (!chunkIds.length) {
@@ -160,29 +268,31 @@ export async function handleChat(c: AppContext) {
   const chunks = await getChunksByIds(c.env, chunkIds);
   const byId = new Map(chunks.map((ch) => [ch.id, ch]));
 
-  const contexts = topMatches
-    .map((e, index) => {
-      const ch = byId.get(e.match.chunkId);
+  const contexts = chunkIds
+    .map((chunkId, index) => {
+      const ch = byId.get(chunkId);
       if (!ch) return null;
       return {
         order: index,
         chunkId: ch.id,
+        fileId: ch.file_id,
         folderName: ch.folder_name,
         fileName: ch.file_name,
         startLine: ch.start_line,
         endLine: ch.end_line,
+        headingPath: ch.heading_path ?? null,
+        page: ch.page_number ?? null,
+        rows: ch.start_row != null && ch.end_row != null ? ([ch.start_row, ch.end_row] as [number, number]) : null,
+        symbol: ch.symbol ?? null,
+        timestamps:
+          ch.start_ms != null && ch.end_ms != null
+            ? ([formatTimestamp(ch.start_ms), formatTimestamp(ch.end_ms)] as [string, string])
+            : null,
+        kind: ch.kind ?? 'content',
         content: ch.content,
       };
     })
-    .filter(Boolean) as Array<{
-      order: number;
-      chunkId: string;
-      folderName: string;
-      fileName: string;
-      startLine: number;
-      endLine: number;
-      content: string;
-    }>;
+    .filter(Boolean) as ChatContext[];
 
   if (!contexts.length) {
     const chatId = crypto.randomUUID();
@@ -194,16 +304,29 @@ export async function handleChat(c: AppContext) {
     });
   }
 
+  // Keep the prompt within CHAT_CONTEXT_TOKENS: best-ranked sources first, stop at the first
+  // one that does not fit, and trim the top source only if it is over budget on its own.
+  const tokenizer = tokenizerForModel(chatModelName(c.env));
+  const budget = Math.min(parseContextBudget(c.env.CHAT_CONTEXT_TOKENS), tokenizer.maxInputTokens);
+  const packed = fitToTokenBudget(contexts, budget, tokenizer.count, SOURCE_LABEL_TOKENS);
+  if (packed.truncated) {
+    console.log('Lookup contexts truncated to token budget', {
+      budget,
+      kept: packed.blocks.length,
+      dropped: packed.dropped,
+    });
+  }
+  const promptContexts = packed.blocks;
+
   console.log('Lookup contexts selected', {
     query: lookupQuery,
-    contexts: contexts.length,
-    first: contexts[0]?.chunkId,
+    contexts: promptContexts.length,
+    tokens: packed.tokens,
+    first: promptContexts[0]?.chunkId,
   });
 
-  const structured = await generateStructuredAnswer(c.env, {
-    question: lookupQuery,
-    contexts,
-  });
+  const structured = await generateStructuredAnswer(c.env, lookupQuery, promptContexts);
+  const citations = enrichCitations(structured.citations ?? [], promptContexts);
 
   const chatId = crypto.randomUUID();
   await recordChat(c.env, {
@@ -211,13 +334,13 @@ export async function handleChat(c: AppContext) {
     user_id: user.id,
     question: rawMessage,
     answer: structured.answer,
-    citations: JSON.stringify(structured.citations ?? []),
+    citations: JSON.stringify(citations),
   });
 
   return c.json({
     id: chatId,
     answer: structured.answer,
-    citations: structured.citations ?? [],
-    sources: contexts,
+    citations,
+    sources: promptContexts,
   });
 }
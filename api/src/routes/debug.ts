@@ -1,7 +1,7 @@
 // api/src/routes/debug.ts
 import type { AppContext } from '../context';
 import { HTTPException } from 'hono/http-exception';
-import { createEmbeddings } from '../lib/openai';
+import { createEmbeddings } from '../lib/embeddings';
 import { organizationNamespace, personalNamespace, queryNamespace, teamNamespace } from '../lib/vectorize';
 import { listActiveTeamIdsForUser } from '../lib/org';
 
@@ -2,6 +2,7 @@ import { HTTPException } from 'hono/http-exception';
 import type { AppContext } from '../context';
 import { deleteChunkVectors } from '../lib/vectorize';
 import { deleteChunksForFile, deleteFile, getFile } from '../lib/db';
+import { deleteFileObjects } from '../lib/storage';
 
 export async function handleDeleteFile(c: AppContext) {
   const user = c.get('user');
@@ -17,7 +18,7 @@ export async function handleDeleteFile(c: AppContext) {
     throw new HTTPException(403, { message: 'You can only delete your own files' });
   }
 
-  await c.env.MARBLE_FILES.delete(file.r2_key);
+  await deleteFileObjects(c.env, file);
   const chunkIds = await deleteChunksForFile(c.env, fileId);
   await deleteFile(c.env, fileId);
   if (chunkIds.length) {
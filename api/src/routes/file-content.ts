@@ -0,0 +1,134 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import { getFile, listFiles, type FileWithFolder } from '../lib/db';
+import { openDocumentText, parseByteRange, readLineWindow } from '../lib/file-content';
+import { listActiveTeamIdsForUser } from '../lib/org';
+import { assertSupportedFile } from '../lib/text-conversion';
+import { fileContentQuery } from '../schemas';
+
+// Upper bound on lines returned by one request, context included.
+const MAX_WINDOW_LINES = 1000;
+
+function contentDisposition(type: 'inline' | 'attachment', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+function parseLines(value: string): { start: number; end: number } {
+  const [first, last] = value.split('-').map((part) => Number.parseInt(part, 10));
+  const start = first;
+  const end = last ?? first;
+  if (start < 1 || end < start) {
+    throw new HTTPException(400, { message: 'lines must be a range of 1-based line numbers such as 40-88.' });
+  }
+  return { start, end };
+}
+
+/**
+ * Serves a file to anyone who can list it. With `lines`, `context` or `page` it returns JSON lines of
+ * the indexed text (numbered like citations); otherwise it streams the original object, honouring
+ * `Range` and `?download=1`.
+ */
+export async function handleGetFileContent(c: AppContext) {
+  const user = c.get('user');
+  const organisationId = user.organizationId ?? user.tenant ?? c.env.DEFAULT_TENANT ?? 'default';
+  const parsed = fileContentQuery.safeParse(c.req.query());
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+
+  const file = await getFile(c.env, c.req.param('id'), organisationId);
+  if (!file) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+  // Same visibility rules as the file list: organisation, team membership and direct shares.
+  const teamIds = await listActiveTeamIdsForUser(c.env, user.id);
+  const visible = await listFiles(c.env, { organisationId, userId: user.id, teamIds, folderId: file.folder_id });
+  if (!visible.some((candidate) => candidate.id === file.id)) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+  if (file.status === 'uploading') {
+    throw new HTTPException(409, { message: 'The file has not finished uploading.' });
+  }
+
+  const { lines, context, page, download } = parsed.data;
+  if (lines !== undefined || context !== undefined || page !== undefined) {
+    return serveLines(c, file, { lines, context: context ?? 0, page });
+  }
+  return serveObject(c, file, download === '1' || download === 'true');
+}
+
+async function serveLines(
+  c: AppContext,
+  file: FileWithFolder,
+  query: { lines?: string; context: number; page?: number },
+) {
+  const format = assertSupportedFile(file);
+  const paginated = format === 'pdf';
+  if (query.page !== undefined && !paginated) {
+    throw new HTTPException(400, { message: 'page only applies to PDF files.' });
+  }
+  if (query.lines === undefined && query.context > 0) {
+    throw new HTTPException(400, { message: 'context needs a lines range to surround.' });
+  }
+
+  const highlight = query.lines !== undefined ? parseLines(query.lines) : null;
+  const start = highlight ? Math.max(1, highlight.start - query.context) : 1;
+  const requestedEnd = highlight ? highlight.end + query.context : start + MAX_WINDOW_LINES - 1;
+  if (requestedEnd - start + 1 > MAX_WINDOW_LINES) {
+    throw new HTTPException(400, { message: `Request at most ${MAX_WINDOW_LINES} lines at a time.` });
+  }
+  const page = paginated ? query.page ?? 1 : null;
+
+  const text = await openDocumentText(c.env, file, format);
+  if (!text) {
+    throw new HTTPException(409, { message: 'The text of this file is not available until it has been processed.' });
+  }
+  const result = await readLineWindow(text, { start, end: requestedEnd, page });
+
+  if (page !== null && result.reachedEnd && result.pages < page) {
+    throw new HTTPException(416, { message: `The file has only ${result.pages} pages.` });
+  }
+  if (result.totalLines !== null && start > result.totalLines) {
+    const where = page !== null ? `Page ${page}` : 'The file';
+    throw new HTTPException(416, { message: `${where} has only ${result.totalLines} lines.` });
+  }
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    fileId: file.id,
+    name: file.file_name,
+    version: file.current_version ?? 1,
+    page,
+    highlight,
+    start,
+    end: result.lines.length ? result.lines[result.lines.length - 1].number : start - 1,
+    totalLines: result.totalLines,
+    lines: result.lines,
+  });
+}
+
+async function serveObject(c: AppContext, file: FileWithFolder, download: boolean) {
+  const head = await c.env.MARBLE_FILES.head(file.r2_key);
+  if (!head) {
+    throw new HTTPException(404, { message: 'File content not found in storage' });
+  }
+  const range = parseByteRange(c.req.header('Range'), head.size);
+  const object = await c.env.MARBLE_FILES.get(file.r2_key, range ? { range } : undefined);
+  if (!object) {
+    throw new HTTPException(404, { message: 'File content not found in storage' });
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': object.httpMetadata?.contentType ?? file.mime_type ?? 'application/octet-stream',
+    'Content-Disposition': contentDisposition(download ? 'attachment' : 'inline', file.file_name),
+    'Content-Length': String(range ? range.length : head.size),
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, no-store',
+    'X-Content-Type-Options': 'nosniff',
+  };
+  if (range) {
+    headers['Content-Range'] = `bytes ${range.offset}-${range.offset + range.length - 1}/${head.size}`;
+  }
+  return c.body(object.body, range ? 206 : 200, headers);
+}
@@ -0,0 +1,213 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import {
+  createFileVersion,
+  getFile,
+  getFileVersion,
+  listFiles,
+  listFileVersions,
+  setCurrentFileVersion,
+  type FileWithFolder,
+} from '../lib/db';
+import { decodeText, storedByteLength } from '../lib/encoding';
+import { enqueueIngestion } from '../lib/ingestion-queue';
+import { listActiveTeamIdsForUser } from '../lib/org';
+import { buildObjectKey } from '../lib/storage';
+import {
+  assertSupportedFile,
+  deriveFileName,
+  detectDocumentFormat,
+  isBinaryFormat,
+  mimeTypeForFormat,
+} from '../lib/text-conversion';
+import { assertWithinUploadLimit, resolveUploadLimit } from '../lib/upload-limits';
+import type { FileVersionRecord } from '../types';
+
+function resolveOrganisationId(c: AppContext): string {
+  const user = c.get('user');
+  return user.organizationId ?? user.tenant ?? c.env.DEFAULT_TENANT ?? 'default';
+}
+
+function serializeFileVersion(version: FileVersionRecord, currentVersion: number) {
+  return {
+    version: version.version,
+    name: version.file_name,
+    size: version.size,
+    mimeType: version.mime_type,
+    sourceEncoding: version.source_encoding ?? null,
+    uploadedBy: version.uploaded_by,
+    createdAt: version.created_at,
+    current: version.version === currentVersion,
+  };
+}
+
+// Files uploaded before their first revision have no version rows yet; the files row is version 1.
+function initialVersion(file: FileWithFolder): FileVersionRecord {
+  return {
+    id: crypto.randomUUID(),
+    file_id: file.id,
+    version: 1,
+    file_name: file.file_name,
+    r2_key: file.r2_key,
+    text_r2_key: file.text_r2_key ?? null,
+    size: file.size,
+    mime_type: file.mime_type,
+    source_encoding: file.source_encoding ?? null,
+    uploaded_by: file.owner_id,
+    created_at: file.created_at,
+  };
+}
+
+async function loadVersions(c: AppContext, file: FileWithFolder): Promise<FileVersionRecord[]> {
+  const versions = await listFileVersions(c.env, file.id);
+  return versions.length ? versions : [initialVersion(file)];
+}
+
+// New versions and restores replace what everyone with access sees, so they are owner-only like rename and delete.
+async function loadOwnedFile(c: AppContext): Promise<FileWithFolder> {
+  const user = c.get('user');
+  const file = await getFile(c.env, c.req.param('id'), resolveOrganisationId(c));
+  if (!file) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+  if (file.owner_id !== user.id) {
+    throw new HTTPException(403, { message: 'You can only change versions of files you own.' });
+  }
+  if (file.status === 'uploading') {
+    throw new HTTPException(409, { message: 'Finish the upload before adding versions.' });
+  }
+  return file;
+}
+
+export async function handleListFileVersions(c: AppContext) {
+  const user = c.get('user');
+  const organisationId = resolveOrganisationId(c);
+  const file = await getFile(c.env, c.req.param('id'), organisationId);
+  if (!file) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+  // Same visibility rules as the file list.
+  const teamIds = await listActiveTeamIdsForUser(c.env, user.id);
+  const visible = await listFiles(c.env, { organisationId, userId: user.id, teamIds, folderId: file.folder_id });
+  if (!visible.some((candidate) => candidate.id === file.id)) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+
+  const currentVersion = file.current_version ?? 1;
+  const versions = await loadVersions(c, file);
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    fileId: file.id,
+    currentVersion,
+    versions: versions.map((version) => serializeFileVersion(version, currentVersion)),
+  });
+}
+
+/**
+ * Uploads a new revision under the same file id (multipart form with a `file` field). The revision
+ * becomes current and the file is re-ingested; chunks that only existed in the old text are removed.
+ */
+export async function handleUploadFileVersion(c: AppContext) {
+  const user = c.get('user');
+  const organisationId = resolveOrganisationId(c);
+  const file = await loadOwnedFile(c);
+
+  let form: FormData;
+  try {
+    form = await c.req.formData();
+  } catch (err) {
+    console.error('Failed to parse form data', err);
+    throw new HTTPException(400, { message: 'Invalid multipart payload' });
+  }
+  const fileField = form.get('file');
+  if (!(fileField instanceof File)) {
+    throw new HTTPException(400, { message: 'Expected a file upload' });
+  }
+
+  const format = assertSupportedFile({ file_name: fileField.name, mime_type: fileField.type || null });
+  const currentFormat = detectDocumentFormat(file.file_name) ?? 'text';
+  if (format !== currentFormat) {
+    throw new HTTPException(400, {
+      message: `A new version must be the same kind of document as ${file.file_name}.`,
+    });
+  }
+
+  const bytes = await fileField.arrayBuffer();
+  const decoded = isBinaryFormat(format) ? null : decodeText(bytes);
+  const body = decoded ? decoded.text : bytes;
+  if (typeof body === 'string' ? !body.trim() : body.byteLength === 0) {
+    throw new HTTPException(400, { message: 'Uploaded file appears to be empty.' });
+  }
+  const storedSize = storedByteLength(body);
+  assertWithinUploadLimit(storedSize, await resolveUploadLimit(c.env, organisationId));
+
+  const versions = await listFileVersions(c.env, file.id);
+  if (!versions.length) {
+    const initial = initialVersion(file);
+    await createFileVersion(c.env, initial);
+    versions.push(initial);
+  }
+  const nextVersion = Math.max(...versions.map((version) => version.version)) + 1;
+
+  const fileName = deriveFileName(fileField.name, format);
+  const contentType = mimeTypeForFormat(format);
+  const objectKey = buildObjectKey({
+    visibility: file.visibility,
+    organizationId: file.organization_id,
+    ownerId: file.owner_id,
+    folderId: file.folder_id,
+    teamId: file.team_id ?? null,
+    fileId: file.id,
+    fileName,
+    version: nextVersion,
+  });
+
+  try {
+    await c.env.MARBLE_FILES.put(objectKey, body, { httpMetadata: { contentType } });
+  } catch (error) {
+    console.error('Failed to write object to R2', error);
+    throw new HTTPException(500, { message: 'Upload to storage failed' });
+  }
+
+  const version: FileVersionRecord = {
+    id: crypto.randomUUID(),
+    file_id: file.id,
+    version: nextVersion,
+    file_name: fileName,
+    r2_key: objectKey,
+    text_r2_key: null,
+    size: storedSize,
+    mime_type: contentType,
+    source_encoding: decoded?.encoding ?? null,
+    uploaded_by: user.id,
+    created_at: new Date().toISOString(),
+  };
+  await createFileVersion(c.env, version);
+  await setCurrentFileVersion(c.env, file.id, version);
+  const jobId = await enqueueIngestion(c.env, c.executionCtx, { fileId: file.id, organisationId, requestedBy: user.id });
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ fileId: file.id, version: serializeFileVersion(version, nextVersion), jobId }, 201);
+}
+
+/** Makes an earlier version current again and re-ingests the file from it. */
+export async function handleRestoreFileVersion(c: AppContext) {
+  const user = c.get('user');
+  const organisationId = resolveOrganisationId(c);
+  const file = await loadOwnedFile(c);
+
+  const requested = Number.parseInt(c.req.param('version'), 10);
+  const version = Number.isInteger(requested) ? await getFileVersion(c.env, file.id, requested) : null;
+  if (!version) {
+    throw new HTTPException(404, { message: 'Version not found' });
+  }
+  if (version.version === (file.current_version ?? 1)) {
+    throw new HTTPException(409, { message: `Version ${version.version} is already current.` });
+  }
+
+  await setCurrentFileVersion(c.env, file.id, version);
+  const jobId = await enqueueIngestion(c.env, c.executionCtx, { fileId: file.id, organisationId, requestedBy: user.id });
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ fileId: file.id, version: serializeFileVersion(version, version.version), jobId });
+}
@@ -6,14 +6,27 @@ import {
   ensureFolder,
   getFile,
   getFolderById,
+  getLatestIngestionJob,
+  listFilePiiFindings,
   listFiles,
   type FileWithFolder,
 } from '../lib/db';
 import { listFilesQuery, updateFileInput, updateFileSharingInput } from '../schemas';
+import { decodeText, storedByteLength } from '../lib/encoding';
 import { buildObjectKey } from '../lib/storage';
-import type { Visibility } from '../types';
-import { ingestFileById } from '../lib/ingestion';
-import { assertTxtFile, deriveTxtFileName } from '../lib/text-conversion';
+import type { IngestionJobRecord, Visibility } from '../types';
+import { enqueueIngestion } from '../lib/ingestion-queue';
+import { assertWithinUploadLimit, resolveUploadLimit } from '../lib/upload-limits';
+import { parsePiiSummary } from '../lib/pii';
+import { readStoredSummary } from '../lib/summaries';
+import { parseFileTags } from '../lib/tags';
+import {
+  assertSupportedFile,
+  deriveFileName,
+  detectDocumentFormat,
+  isBinaryFormat,
+  mimeTypeForFormat,
+} from '../lib/text-conversion';
 import {
   getFileSharingSummary,
   listActiveTeamIdsForUser,
@@ -21,7 +34,6 @@ import {
 } from '../lib/org';
 
 const ALLOWED_VISIBILITIES: Visibility[] = ['personal', 'organization', 'team'];
-const MAX_UPLOAD_BYTES = 5 * 1024 * 1024; // 5 MB upper bound keeps conversion predictable
 
 function resolveOrganisationId(env: AppContext['env'], tenant: string | undefined, organizationId?: string): string {
   if (organizationId) return organizationId;
@@ -30,6 +42,11 @@ function resolveOrganisationId(env: AppContext['env'], tenant: string | undefine
   return 'default';
 }
 
+function serializeSummary(file: FileWithFolder) {
+  const summary = readStoredSummary(file);
+  return summary ? { ...summary, generatedAt: file.summarized_at ?? null } : null;
+}
+
 function serializeFileRecord(file: FileWithFolder) {
   return {
     id: file.id,
@@ -38,6 +55,11 @@ function serializeFileRecord(file: FileWithFolder) {
     status: file.status,
     size: file.size,
     mimeType: file.mime_type,
+    sourceEncoding: file.source_encoding ?? null,
+    currentVersion: file.current_version ?? 1,
+    pii: parsePiiSummary(file.pii_summary),
+    summary: serializeSummary(file),
+    tags: parseFileTags(file.tags),
     folder: {
       id: file.folder_id,
       name: file.folder_name,
@@ -94,6 +116,7 @@ export async function handleListFiles(c: AppContext) {
     teamIds,
     folderId,
     visibility: requestedVisibility,
+    tag: parsed.data.tag,
   });
 
   const payload = files.map(serializeFileRecord);
@@ -134,7 +157,7 @@ export async function handleUpdateFile(c: AppContext) {
     if (!trimmed) {
       throw new HTTPException(400, { message: 'File name cannot be empty.' });
     }
-    const nextName = deriveTxtFileName(trimmed);
+    const nextName = deriveFileName(trimmed, detectDocumentFormat(file.file_name) ?? 'text');
     await c.env.MARBLE_DB.prepare(
       `UPDATE files SET file_name = ?2, updated_at = CURRENT_TIMESTAMP WHERE id = ?1`,
     )
@@ -225,19 +248,21 @@ export async function handleCreateFile(c: AppContext) {
     });
   }
 
-  if (fileField.size > MAX_UPLOAD_BYTES) {
-    throw new HTTPException(400, { message: 'File exceeds the 5 MB upload limit.' });
-  }
-
-  assertTxtFile({ file_name: fileField.name, mime_type: fileField.type || null });
+  const format = assertSupportedFile({ file_name: fileField.name, mime_type: fileField.type || null });
 
   const requestedName = typeof customNameRaw === 'string' && customNameRaw.trim() ? customNameRaw.trim() : fileField.name;
-  const text = await fileField.text();
-  if (!text.trim()) {
+  const bytes = await fileField.arrayBuffer();
+  const decoded = isBinaryFormat(format) ? null : decodeText(bytes);
+  const body = decoded ? decoded.text : bytes;
+  if (typeof body === 'string' ? !body.trim() : body.byteLength === 0) {
     throw new HTTPException(400, { message: 'Uploaded file appears to be empty.' });
   }
+  // Text is stored re-encoded as UTF-8, so its size can differ from the uploaded file's.
+  const storedSize = storedByteLength(body);
+  assertWithinUploadLimit(storedSize, await resolveUploadLimit(c.env, organisationId));
 
-  const fileName = deriveTxtFileName(requestedName);
+  const fileName = deriveFileName(requestedName, format);
+  const contentType = mimeTypeForFormat(format);
 
   const fileId = crypto.randomUUID();
   const objectKey = buildObjectKey({
@@ -251,8 +276,8 @@ export async function handleCreateFile(c: AppContext) {
   });
 
   try {
-    await c.env.MARBLE_FILES.put(objectKey, text, {
-      httpMetadata: { contentType: 'text/plain' },
+    await c.env.MARBLE_FILES.put(objectKey, body, {
+      httpMetadata: { contentType },
     });
   } catch (error) {
     console.error('Failed to write object to R2', error);
@@ -269,25 +294,13 @@ export async function handleCreateFile(c: AppContext) {
     visibility: folder.visibility,
     fileName,
     r2Key: objectKey,
-    size: fileField.size,
+    size: storedSize,
     status: 'uploading',
-    mimeType: 'text/plain',
+    mimeType: contentType,
+    sourceEncoding: decoded?.encoding ?? null,
   });
 
-  const scheduleIngestion = async () => {
-    try {
-      await ingestFileById(c.env, fileId, user.id);
-    } catch (error) {
-      console.error('Background ingestion failed', { fileId, error });
-    }
-  };
-  if (c.executionCtx) {
-    c.executionCtx.waitUntil(scheduleIngestion());
-  } else {
-    scheduleIngestion().catch((error) => {
-      console.error('Ingestion error (no waitUntil)', { fileId, error });
-    });
-  }
+  await enqueueIngestion(c.env, c.executionCtx, { fileId, organisationId, requestedBy: user.id, uploaded: true });
 
   const detail = await getFile(c.env, fileId, organisationId);
   if (!detail) {
@@ -300,6 +313,83 @@ export async function handleCreateFile(c: AppContext) {
   return c.json({ file: payload }, 201);
 }
 
+function serializeIngestionJob(job: IngestionJobRecord) {
+  const total = job.chunks_total ?? null;
+  return {
+    id: job.id,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    progress: {
+      chunksDone: job.chunks_done,
+      chunksTotal: total,
+      percent: total ? Math.min(100, Math.round((job.chunks_done / total) * 100)) : job.status === 'succeeded' ? 100 : 0,
+    },
+    lastError: job.last_error ?? null,
+    nextAttemptAt: job.next_attempt_at ?? null,
+    startedAt: job.started_at ?? null,
+    completedAt: job.completed_at ?? null,
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+  };
+}
+
+export async function handleGetFileIngestion(c: AppContext) {
+  const user = c.get('user');
+  const organisationId = resolveOrganisationId(c.env, user.tenant, user.organizationId);
+  const fileId = c.req.param('id');
+
+  const file = await getFile(c.env, fileId, organisationId);
+  if (!file) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+  // Same visibility rules as the file list: anyone who can list the file can follow its ingestion.
+  const teamIds = await listActiveTeamIdsForUser(c.env, user.id);
+  const visible = await listFiles(c.env, { organisationId, userId: user.id, teamIds, folderId: file.folder_id });
+  if (!visible.some((candidate) => candidate.id === file.id)) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+
+  const job = await getLatestIngestionJob(c.env, file.id);
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    fileId: file.id,
+    status: file.status,
+    job: job ? serializeIngestionJob(job) : null,
+  });
+}
+
+/** Personal data found when the file was last ingested; values are only ever shown masked. */
+export async function handleGetFilePii(c: AppContext) {
+  const user = c.get('user');
+  const organisationId = resolveOrganisationId(c.env, user.tenant, user.organizationId);
+  const fileId = c.req.param('id');
+
+  const file = await getFile(c.env, fileId, organisationId);
+  if (!file) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+  const teamIds = await listActiveTeamIdsForUser(c.env, user.id);
+  const visible = await listFiles(c.env, { organisationId, userId: user.id, teamIds, folderId: file.folder_id });
+  if (!visible.some((candidate) => candidate.id === file.id)) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+
+  const findings = await listFilePiiFindings(c.env, file.id);
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    fileId: file.id,
+    summary: parsePiiSummary(file.pii_summary),
+    findings: findings.map((finding) => ({
+      kind: finding.kind,
+      preview: finding.preview,
+      startLine: finding.start_line,
+      endLine: finding.end_line,
+      page: finding.page_number,
+    })),
+  });
+}
+
 export async function handleGetFileSharing(c: AppContext) {
   const fileId = c.req.param('id');
   const summary = await getFileSharingSummary(c.env, fileId);
@@ -9,12 +9,15 @@ import {
   deleteChunksForFile,
   getFolderById,
   listFiles,
+  listFolderFileOwners,
   listFolders,
   updateFolder,
   type FolderSummaryRow,
   type FolderWithOwner,
 } from '../lib/db';
+import { enqueueIngestion } from '../lib/ingestion-queue';
 import { deleteChunkVectors } from '../lib/vectorize';
+import { deleteFileObjects } from '../lib/storage';
 import {
   createFolderInput,
   listFoldersQuery,
@@ -29,6 +32,17 @@ function resolveOrganisationId(env: AppContext['env'], tenant: string | undefine
   return 'default';
 }
 
+function serializeChunking(folder: FolderWithOwner) {
+  if (!folder.chunking_strategy) {
+    return null;
+  }
+  return {
+    strategy: folder.chunking_strategy,
+    chunkSize: folder.chunk_size ?? null,
+    overlap: folder.chunk_overlap ?? null,
+  };
+}
+
 function serializeFolder(folder: FolderSummaryRow | (FolderWithOwner & { file_count?: number })) {
   return {
     id: folder.id,
@@ -36,6 +50,7 @@ function serializeFolder(folder: FolderSummaryRow | (FolderWithOwner & { file_co
     visibility: folder.visibility,
     teamId: folder.team_id ?? null,
     fileCount: folder.file_count ?? 0,
+    chunking: serializeChunking(folder),
     owner: folder.owner_email
       ? {
           id: folder.owner_id,
@@ -68,6 +83,7 @@ async function handleList(c: AppContext) {
     userId: user.id,
     teamIds,
     visibility: query.data.visibility ?? 'all',
+    tag: query.data.tag,
   });
 
   c.header('Cache-Control', 'private, no-store');
@@ -139,15 +155,23 @@ async function handleUpdate(c: AppContext) {
     throw new HTTPException(403, { message: 'You are not a member of the selected team.' });
   }
 
-  const { next } = await updateFolder(c.env, {
+  const { next, chunkingChanged } = await updateFolder(c.env, {
     id,
     organisationId,
     ownerId: user.id,
     name: parsed.data.name,
     visibility: parsed.data.visibility,
     teamId: desiredTeamId ?? undefined,
+    chunking: parsed.data.chunking,
   });
 
+  // New chunking settings only apply once existing files are chunked and embedded again.
+  const reingestFiles = chunkingChanged ? await listFolderFileOwners(c.env, id, organisationId) : [];
+  for (const file of reingestFiles) {
+    // The folder owner changed the settings; each file is re-ingested on behalf of its own owner.
+    await enqueueIngestion(c.env, c.executionCtx, { fileId: file.id, organisationId, requestedBy: file.owner_id });
+  }
+
   const [summary] = await listFolders(c.env, {
     organisationId,
     userId: user.id,
@@ -160,6 +184,7 @@ async function handleUpdate(c: AppContext) {
     folder: summary
       ? serializeFolder(summary)
       : serializeFolder({ ...next, file_count: 0 }),
+    reingesting: reingestFiles.length,
   });
 }
 
@@ -179,6 +204,7 @@ async function handleDetail(c: AppContext) {
           name: folder.name,
           visibility: folder.visibility,
           teamId: folder.team_id ?? null,
+          chunking: serializeChunking(folder),
           createdAt: folder.created_at,
           updatedAt: folder.updated_at,
           owner: folder.owner_email
@@ -226,7 +252,7 @@ export function registerFolderRoutes(api: Hono<AppEnv>) {
       }
 
       try {
-        await c.env.MARBLE_FILES.delete(file.r2_key);
+        await deleteFileObjects(c.env, file);
       } catch (error) {
         console.error('Failed to delete file object during folder removal', {
           fileId: file.id,
@@ -21,6 +21,6 @@ export async function handleIngest(c: AppContext) {
     throw new HTTPException(403, { message: 'You can only ingest your own files' });
   }
 
-  const result = await ingestFileById(c.env, file.id, user.id);
+  const result = await ingestFileById(c.env, file.id, user.id, { ctx: c.executionCtx });
   return c.json(result);
 }
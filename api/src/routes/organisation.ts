@@ -1,8 +1,9 @@
 import { HTTPException } from 'hono/http-exception';
 import type { AppContext } from '../context';
-import type { AuthenticatedUser } from '../types';
-import { listOrganisationRoster, parseRosterText, replaceOrganisationRoster } from '../lib/org';
-import { rosterUploadInput } from '../schemas';
+import { ensureOrgAdmin, listOrganisationRoster, parseRosterText, replaceOrganisationRoster } from '../lib/org';
+import { organisationSettingsInput, rosterUploadInput } from '../schemas';
+import { defaultUploadLimit, resolveUploadLimit, setOrganisationUploadLimit } from '../lib/upload-limits';
+import { resolvePiiPolicy, setOrganisationPiiPolicy } from '../lib/pii';
 
 function resolveOrganisationId(env: AppContext['env'], tenant: string | undefined, organizationId?: string): string {
   if (organizationId) return organizationId;
@@ -11,13 +12,6 @@ function resolveOrganisationId(env: AppContext['env'], tenant: string | undefine
   return 'default';
 }
 
-function ensureOrgAdmin(user: AuthenticatedUser) {
-  const role = user.organizationRole ?? 'member';
-  if (role !== 'admin' && role !== 'owner') {
-    throw new HTTPException(403, { message: 'You need organization admin access for this action.' });
-  }
-}
-
 export async function handleGetRoster(c: AppContext) {
   const user = c.get('user');
   const organisationId = resolveOrganisationId(c.env, user.tenant, user.organizationId);
@@ -47,3 +41,39 @@ export async function handleUploadRoster(c: AppContext) {
   c.header('Cache-Control', 'private, no-store');
   return c.json({ roster });
 }
+
+export async function handleGetOrganisationSettings(c: AppContext) {
+  const user = c.get('user');
+  const organisationId = resolveOrganisationId(c.env, user.tenant, user.organizationId);
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    maxUploadBytes: await resolveUploadLimit(c.env, organisationId),
+    defaultMaxUploadBytes: defaultUploadLimit(c.env),
+    piiPolicy: await resolvePiiPolicy(c.env, organisationId),
+  });
+}
+
+export async function handleUpdateOrganisationSettings(c: AppContext) {
+  const user = c.get('user');
+  ensureOrgAdmin(user);
+  const organisationId = resolveOrganisationId(c.env, user.tenant, user.organizationId);
+
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = organisationSettingsInput.safeParse(body);
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+
+  if (parsed.data.maxUploadBytes !== undefined) {
+    await setOrganisationUploadLimit(c.env, organisationId, parsed.data.maxUploadBytes);
+  }
+  if (parsed.data.piiPolicy) {
+    await setOrganisationPiiPolicy(c.env, organisationId, parsed.data.piiPolicy);
+  }
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    maxUploadBytes: await resolveUploadLimit(c.env, organisationId),
+    defaultMaxUploadBytes: defaultUploadLimit(c.env),
+    piiPolicy: await resolvePiiPolicy(c.env, organisationId),
+  });
+}
@@ -0,0 +1,70 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import { getLatestReindexJob } from '../lib/db';
+import { embeddingCoverage, runReindexBatch } from '../lib/reindex';
+import { reindexInput } from '../schemas';
+import { ensureOrgAdmin } from '../lib/org';
+import type { ReindexJobRecord } from '../types';
+
+const DEFAULT_BATCH_SIZE = 10;
+
+function resolveOrganisationId(c: AppContext): string {
+  const user = c.get('user');
+  return user.organizationId ?? user.tenant ?? c.env.DEFAULT_TENANT ?? 'default';
+}
+
+function serializeReindexJob(job: ReindexJobRecord) {
+  return {
+    id: job.id,
+    status: job.status,
+    embeddingModel: job.embedding_model,
+    filesTotal: job.files_total,
+    filesDone: job.files_done,
+    filesFailed: job.files_failed,
+    lastError: job.last_error,
+    startedAt: job.created_at,
+    updatedAt: job.updated_at,
+    completedAt: job.completed_at,
+  };
+}
+
+/** Latest reindex run and how many chunks still carry vectors from another embedding model. */
+export async function handleGetReindex(c: AppContext) {
+  ensureOrgAdmin(c.get('user'));
+  const organisationId = resolveOrganisationId(c);
+  const job = await getLatestReindexJob(c.env, organisationId);
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    job: job ? serializeReindexJob(job) : null,
+    coverage: await embeddingCoverage(c.env, organisationId),
+  });
+}
+
+/**
+ * Re-embeds the next batch of the organisation's files with the active embedding model, starting a
+ * run when none is in progress. Call again until the job reports `succeeded`.
+ */
+export async function handleReindex(c: AppContext) {
+  const user = c.get('user');
+  ensureOrgAdmin(user);
+  const organisationId = resolveOrganisationId(c);
+
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = reindexInput.safeParse(body);
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+
+  const { job, files } = await runReindexBatch(c.env, {
+    organisationId,
+    requestedBy: user.id,
+    batchSize: parsed.data.batchSize ?? DEFAULT_BATCH_SIZE,
+    ctx: c.executionCtx,
+  });
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({
+    job: serializeReindexJob(job),
+    files,
+    coverage: await embeddingCoverage(c.env, organisationId),
+  });
+}
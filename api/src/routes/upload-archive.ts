@@ -0,0 +1,271 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import { createFileRecord, createFolder, listFolders } from '../lib/db';
+import { decodeText, storedByteLength } from '../lib/encoding';
+import { enqueueIngestion } from '../lib/ingestion-queue';
+import { listActiveTeamIdsForUser } from '../lib/org';
+import { buildObjectKey } from '../lib/storage';
+import { resolveUploadLimit, uploadLimitMessage } from '../lib/upload-limits';
+import {
+  assertSupportedFile,
+  deriveFileName,
+  isBinaryFormat,
+  mimeTypeForFormat,
+  type DocumentFormat,
+} from '../lib/text-conversion';
+import { listZipEntries, readZipEntry, ZipError, type ZipEntry } from '../lib/zip';
+import type { Visibility } from '../types';
+
+const ALLOWED_VISIBILITIES: Visibility[] = ['personal', 'organization', 'team'];
+const ARCHIVE_MIME_TYPES = ['application/zip', 'application/x-zip-compressed', 'application/octet-stream'];
+const MAX_ARCHIVE_BYTES = 25 * 1024 * 1024;
+const MAX_ARCHIVE_ENTRIES = 500;
+const MAX_FOLDER_NAME = 100;
+const FOLDER_PATH_SEPARATOR = ' / ';
+
+interface ArchiveEntryReport {
+  path: string;
+  status: 'accepted' | 'rejected';
+  reason?: string;
+  fileId?: string;
+  folderId?: string;
+}
+
+function resolveOrganisationId(env: AppContext['env'], tenant: string | undefined, organizationId?: string): string {
+  if (organizationId) return organizationId;
+  if (tenant) return tenant;
+  if (env.DEFAULT_TENANT) return env.DEFAULT_TENANT;
+  return 'default';
+}
+
+// Splits an entry name into safe path segments; `..`, `.` and empty segments are dropped.
+function pathSegments(name: string): string[] {
+  return name
+    .replace(/\\/g, '/')
+    .split('/')
+    .map((segment) => segment.trim())
+    .filter((segment) => segment && segment !== '.' && segment !== '..');
+}
+
+function isSystemEntry(segments: string[]): boolean {
+  return segments.some((segment) => segment === '__MACOSX' || segment.startsWith('.')) ||
+    segments[segments.length - 1] === 'Thumbs.db';
+}
+
+function archiveBaseName(fileName: string): string {
+  return fileName.replace(/\.zip$/i, '').trim() || 'Archive';
+}
+
+function folderNameFor(root: string, directories: string[]): string {
+  const name = [root, ...directories].join(FOLDER_PATH_SEPARATOR);
+  return name.length > MAX_FOLDER_NAME ? `…${name.slice(name.length - MAX_FOLDER_NAME + 1)}` : name;
+}
+
+function rejectionReason(error: unknown): string {
+  if (error instanceof HTTPException || error instanceof ZipError) {
+    return error.message;
+  }
+  throw error;
+}
+
+// Multipart fields: file (.zip), visibility, teamId (team uploads), folderName (optional root folder name)
+export async function handleUploadArchive(c: AppContext) {
+  const user = c.get('user');
+  const organisationId = resolveOrganisationId(c.env, user.tenant, user.organizationId);
+  const teamIds = await listActiveTeamIdsForUser(c.env, user.id);
+
+  let form: FormData;
+  try {
+    form = await c.req.formData();
+  } catch (err) {
+    console.error('Failed to parse form data', err);
+    throw new HTTPException(400, { message: 'Invalid multipart payload' });
+  }
+
+  const archive = form.get('file');
+  if (!(archive instanceof File)) {
+    throw new HTTPException(400, { message: 'Expected a .zip upload' });
+  }
+  if (!/\.zip$/i.test(archive.name) || (archive.type && !ARCHIVE_MIME_TYPES.includes(archive.type))) {
+    throw new HTTPException(400, { message: 'Only .zip archives are supported.' });
+  }
+  if (archive.size > MAX_ARCHIVE_BYTES) {
+    throw new HTTPException(400, { message: 'Archive exceeds the 25 MB upload limit.' });
+  }
+
+  const visibilityRaw = form.get('visibility');
+  const visibility = ALLOWED_VISIBILITIES.find((option) => typeof visibilityRaw === 'string' && option === visibilityRaw.trim());
+  if (!visibility) {
+    throw new HTTPException(400, { message: 'Visibility must be personal, team, or organization' });
+  }
+  const teamIdRaw = form.get('teamId');
+  const teamId = visibility === 'team' && typeof teamIdRaw === 'string' && teamIdRaw.trim() ? teamIdRaw.trim() : null;
+  if (visibility === 'team') {
+    if (!teamId) {
+      throw new HTTPException(400, { message: 'Team folders require a team id.' });
+    }
+    if (!teamIds.includes(teamId)) {
+      throw new HTTPException(403, { message: 'You are not a member of the selected team.' });
+    }
+  }
+
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  let entries: ZipEntry[];
+  try {
+    entries = listZipEntries(bytes);
+  } catch (error) {
+    throw new HTTPException(400, { message: rejectionReason(error) });
+  }
+  const fileEntries = entries.filter((entry) => !entry.directory);
+  if (!fileEntries.length) {
+    throw new HTTPException(400, { message: 'Archive contains no files.' });
+  }
+  if (fileEntries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new HTTPException(400, { message: `Archives are limited to ${MAX_ARCHIVE_ENTRIES} files.` });
+  }
+
+  // Archives made by zipping a single folder get that folder as their root instead of nesting it twice.
+  const paths = fileEntries.map((entry) => pathSegments(entry.name));
+  const visiblePaths = paths.filter((segments) => segments.length && !isSystemEntry(segments));
+  const sharedRoot =
+    visiblePaths.length && visiblePaths.every((segments) => segments.length > 1 && segments[0] === visiblePaths[0][0])
+      ? visiblePaths[0][0]
+      : null;
+  const folderNameRaw = form.get('folderName');
+  const rootName =
+    (typeof folderNameRaw === 'string' && folderNameRaw.trim()) || sharedRoot || archiveBaseName(archive.name);
+
+  const existingFolders = await listFolders(c.env, { organisationId, userId: user.id, teamIds, visibility });
+  const folders = new Map<string, { id: string; name: string; created: boolean }>();
+
+  const resolveFolder = async (name: string): Promise<string> => {
+    const known = folders.get(name);
+    if (known) return known.id;
+    const existing = existingFolders.find(
+      (folder) => folder.name === name && folder.owner_id === user.id && (folder.team_id ?? null) === teamId,
+    );
+    if (existing) {
+      folders.set(name, { id: existing.id, name, created: false });
+      return existing.id;
+    }
+    const id = crypto.randomUUID();
+    await createFolder(c.env, {
+      id,
+      organisationId,
+      tenant: user.tenant,
+      ownerId: user.id,
+      name,
+      visibility,
+      teamId,
+    });
+    folders.set(name, { id, name, created: true });
+    return id;
+  };
+
+  const report: ArchiveEntryReport[] = [];
+  // Each entry gets the same per-file limit as a single upload.
+  const uploadLimit = await resolveUploadLimit(c.env, organisationId);
+  const acceptedIds: string[] = [];
+
+  for (let index = 0; index < fileEntries.length; index += 1) {
+    const entry = fileEntries[index];
+    const segments = paths[index];
+    const reject = (reason: string) => report.push({ path: entry.name, status: 'rejected', reason });
+
+    if (!segments.length || isSystemEntry(segments)) {
+      reject('Skipped hidden or system file.');
+      continue;
+    }
+    if (entry.encrypted) {
+      reject('Encrypted entries are not supported.');
+      continue;
+    }
+    if (entry.size > uploadLimit) {
+      reject(uploadLimitMessage(uploadLimit));
+      continue;
+    }
+
+    const baseName = segments[segments.length - 1];
+    const directories = segments.slice(sharedRoot ? 1 : 0, -1);
+    let content: Uint8Array;
+    let format: DocumentFormat;
+    try {
+      format = assertSupportedFile({ file_name: baseName, mime_type: null });
+      content = await readZipEntry(bytes, entry);
+    } catch (error) {
+      reject(rejectionReason(error));
+      continue;
+    }
+
+    const decoded = isBinaryFormat(format) ? null : decodeText(content);
+    const body = decoded ? decoded.text : content;
+    if (typeof body === 'string' ? !body.trim() : body.byteLength === 0) {
+      reject('File appears to be empty.');
+      continue;
+    }
+    // Text is stored re-encoded as UTF-8, so its size can differ from the entry's.
+    const storedSize = storedByteLength(body);
+    if (storedSize > uploadLimit) {
+      reject(uploadLimitMessage(uploadLimit));
+      continue;
+    }
+
+    const folderId = await resolveFolder(folderNameFor(rootName, directories));
+    const fileId = crypto.randomUUID();
+    const fileName = deriveFileName(baseName, format);
+    const contentType = mimeTypeForFormat(format);
+    const objectKey = buildObjectKey({
+      visibility,
+      ownerId: user.id,
+      organizationId: organisationId,
+      teamId,
+      folderId,
+      fileId,
+      fileName,
+    });
+
+    try {
+      await c.env.MARBLE_FILES.put(objectKey, body, {
+        httpMetadata: { contentType },
+      });
+    } catch (error) {
+      console.error('Failed to write archive entry to R2', { path: entry.name, error });
+      reject('Upload to storage failed.');
+      continue;
+    }
+
+    await createFileRecord(c.env, {
+      id: fileId,
+      organisationId,
+      tenant: user.tenant,
+      folderId,
+      ownerId: user.id,
+      teamId,
+      visibility,
+      fileName,
+      r2Key: objectKey,
+      size: storedSize,
+      status: 'uploading',
+      mimeType: contentType,
+      sourceEncoding: decoded?.encoding ?? null,
+    });
+    acceptedIds.push(fileId);
+    report.push({ path: entry.name, status: 'accepted', fileId, folderId });
+  }
+
+  // One job per file; the queue consumer works through them in batches rather than all at once.
+  for (const fileId of acceptedIds) {
+    await enqueueIngestion(c.env, c.executionCtx, { fileId, organisationId, requestedBy: user.id, uploaded: true });
+  }
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json(
+    {
+      folders: [...folders.values()],
+      accepted: acceptedIds.length,
+      rejected: report.length - acceptedIds.length,
+      entries: report,
+    },
+    acceptedIds.length ? 201 : 200,
+  );
+}
@@ -0,0 +1,96 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import { deleteFile, getFile, updateFileSourceEncoding, type FileWithFolder } from '../lib/db';
+import { decodeText, detectEncodingFromPrefix, looksLikeText } from '../lib/encoding';
+import { enqueueIngestion } from '../lib/ingestion-queue';
+import { assertSupportedFile, isBinaryFormat, matchesFormatSignature } from '../lib/text-conversion';
+import { resolveUploadLimit, uploadLimitMessage } from '../lib/upload-limits';
+
+// Enough to detect the encoding and judge whether the content is text.
+const SNIFF_BYTES = 8192;
+
+// Rejected uploads are removed outright so the client can start again with a fresh upload URL.
+async function discardUpload(c: AppContext, fileId: string, key: string, message: string): Promise<never> {
+  await c.env.MARBLE_FILES.delete(key);
+  await deleteFile(c.env, fileId);
+  throw new HTTPException(400, { message });
+}
+
+/**
+ * Confirms a presigned upload (POST /api/upload-url) once the browser's PUT has finished: the
+ * object must exist in R2 with the declared size and content matching its format. The file then
+ * moves from `uploading` to `queued` for ingestion.
+ */
+export async function handleCompleteUpload(c: AppContext) {
+  const user = c.get('user');
+  const organisationId = user.organizationId ?? user.tenant ?? c.env.DEFAULT_TENANT ?? 'default';
+  const fileId = c.req.param('id');
+
+  const file = await getFile(c.env, fileId, organisationId);
+  if (!file) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+  if (file.owner_id !== user.id) {
+    throw new HTTPException(403, { message: 'You can only complete your own uploads' });
+  }
+
+  c.header('Cache-Control', 'private, no-store');
+  // Completing twice (e.g. a client retry) is harmless.
+  if (file.status !== 'uploading') {
+    return c.json({ fileId: file.id, status: file.status, queued: false });
+  }
+
+  return finalizeUpload(c, file);
+}
+
+/**
+ * Verifies an object written straight to R2 (presigned PUT or multipart upload) and queues it for
+ * ingestion. Only the first few KB are read, so this works for uploads of any size.
+ */
+export async function finalizeUpload(c: AppContext, file: FileWithFolder) {
+  const user = c.get('user');
+  const head = await c.env.MARBLE_FILES.head(file.r2_key);
+  if (!head) {
+    throw new HTTPException(409, { message: 'Upload not found in storage; PUT the file to its upload URL first.' });
+  }
+
+  if (head.size !== file.size) {
+    await discardUpload(c, file.id, file.r2_key, `Uploaded ${head.size} bytes but ${file.size} were declared.`);
+  }
+  const limit = await resolveUploadLimit(c.env, file.organization_id);
+  if (head.size > limit) {
+    await discardUpload(c, file.id, file.r2_key, uploadLimitMessage(limit));
+  }
+  if (head.size === 0) {
+    await discardUpload(c, file.id, file.r2_key, 'Uploaded file appears to be empty.');
+  }
+
+  const prefixObject = await c.env.MARBLE_FILES.get(file.r2_key, { range: { offset: 0, length: SNIFF_BYTES } });
+  const prefix = new Uint8Array(prefixObject ? await prefixObject.arrayBuffer() : new ArrayBuffer(0));
+  const format = assertSupportedFile(file);
+  if (isBinaryFormat(format)) {
+    if (!matchesFormatSignature(format, prefix)) {
+      await discardUpload(c, file.id, file.r2_key, `Uploaded content is not a valid .${format} file.`);
+    }
+  } else {
+    const encoding = detectEncodingFromPrefix(prefix);
+    const sample = decodeText(prefix).text;
+    if (head.size <= SNIFF_BYTES && !sample.trim()) {
+      await discardUpload(c, file.id, file.r2_key, 'Uploaded file appears to be empty.');
+    }
+    if (!looksLikeText(sample)) {
+      await discardUpload(c, file.id, file.r2_key, 'Uploaded content does not look like text.');
+    }
+    await updateFileSourceEncoding(c.env, file.id, encoding);
+  }
+
+  const jobId = await enqueueIngestion(c.env, c.executionCtx, {
+    fileId: file.id,
+    organisationId: file.organization_id,
+    requestedBy: user.id,
+    uploaded: true,
+  });
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ fileId: file.id, status: 'queued', queued: true, jobId });
+}
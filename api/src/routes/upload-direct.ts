@@ -6,8 +6,11 @@ import {
   ensureFolder,
   getFolder,
 } from '../lib/db';
-import { ingestFileById } from '../lib/ingestion';
+import { decodeText, storedByteLength } from '../lib/encoding';
+import { enqueueIngestion } from '../lib/ingestion-queue';
 import { buildObjectKey } from '../lib/storage';
+import { assertWithinUploadLimit, resolveUploadLimit } from '../lib/upload-limits';
+import { assertSupportedFile, isBinaryFormat, mimeTypeForFormat } from '../lib/text-conversion';
 import type { Visibility } from '../types';
 import { listActiveTeamIdsForUser } from '../lib/org';
 
@@ -29,7 +32,7 @@ function normalizeVisibility(value: string | null): Visibility {
   return 'personal';
 }
 
-// Accepts raw text body. Query params: folderId, folderName, visibility, fileName, size
+// Accepts raw text body (or raw bytes for binary formats such as PDF). Query params: folderId, folderName, visibility, fileName, size
 export async function handleUploadDirect(c: AppContext) {
   const env = c.env;
   const user = c.get('user');
@@ -42,14 +45,11 @@ export async function handleUploadDirect(c: AppContext) {
   const visibility = normalizeVisibility(url.searchParams.get('visibility'));
   const teamIdParam = url.searchParams.get('teamId');
   const fileName = url.searchParams.get('fileName') || '';
-  const sizeParam = url.searchParams.get('size');
 
   if (!folderId || !folderName || !fileName) {
     throw new HTTPException(400, { message: 'Missing required query params' });
   }
-  if (!fileName.toLowerCase().endsWith('.txt')) {
-    throw new HTTPException(400, { message: 'Only .txt files are supported' });
-  }
+  const format = assertSupportedFile({ file_name: fileName, mime_type: null });
 
   let folder = await getFolder(env, folderId, organisationId);
   if (!folder) {
@@ -96,11 +96,16 @@ export async function handleUploadDirect(c: AppContext) {
     fileName: safeName,
   });
 
-  const text = await c.req.text(); // raw text body
-  const contentType = 'text/plain';
+  const bytes = await c.req.arrayBuffer();
+  const decoded = isBinaryFormat(format) ? null : decodeText(bytes);
+  const body = decoded ? decoded.text : bytes;
+  // The size query parameter is only the client's claim; record what was actually stored.
+  const storedSize = storedByteLength(body);
+  assertWithinUploadLimit(storedSize, await resolveUploadLimit(env, organisationId));
+  const contentType = mimeTypeForFormat(format);
 
   try {
-    await env.MARBLE_FILES.put(key, text, {
+    await env.MARBLE_FILES.put(key, body, {
       httpMetadata: { contentType },
     });
   } catch (e: any) {
@@ -108,8 +113,6 @@ export async function handleUploadDirect(c: AppContext) {
     throw new HTTPException(500, { message: 'Failed to upload to R2' });
   }
 
-  const fileSize = sizeParam ? Number.parseInt(sizeParam, 10) || text.length : text.length;
-
   await createFileRecord(env, {
     id: fileId,
     organisationId,
@@ -120,25 +123,13 @@ export async function handleUploadDirect(c: AppContext) {
     teamId: folder.team_id ?? teamIdParam ?? null,
     fileName,
     r2Key: key,
-    size: fileSize,
+    size: storedSize,
     status: 'uploading',
     mimeType: contentType,
+    sourceEncoding: decoded?.encoding ?? null,
   });
 
-  const triggerIngestion = async () => {
-    try {
-      await ingestFileById(env, fileId, user.id);
-    } catch (error) {
-      console.error('Background ingestion failed (upload-direct)', { fileId, error });
-    }
-  };
-  if (c.executionCtx) {
-    c.executionCtx.waitUntil(triggerIngestion());
-  } else {
-    triggerIngestion().catch((error) => {
-      console.error('Ingestion error (no waitUntil)', { fileId, error });
-    });
-  }
+  await enqueueIngestion(env, c.executionCtx, { fileId, organisationId, requestedBy: user.id, uploaded: true });
 
   return c.json({ fileId, key, uploaded: true });
 }
@@ -0,0 +1,191 @@
+import { HTTPException } from 'hono/http-exception';
+import type { AppContext } from '../context';
+import { completeMultipartUploadInput, createMultipartUploadInput } from '../schemas';
+import {
+  assertFolderVisibility,
+  createFileRecord,
+  deleteFile,
+  ensureFolder,
+  getFile,
+  getFolder,
+  updateFileMultipartUpload,
+  type FileWithFolder,
+} from '../lib/db';
+import { listActiveTeamIdsForUser } from '../lib/org';
+import { buildObjectKey } from '../lib/storage';
+import { assertSupportedFile, deriveFileName, mimeTypeForFormat } from '../lib/text-conversion';
+import { assertWithinUploadLimit, resolveUploadLimit } from '../lib/upload-limits';
+import { finalizeUpload } from './upload-complete';
+
+// R2 needs every part but the last to be the same size and at least 5 MiB, with at most 10,000 parts.
+// Parts are 10 MiB, well above that minimum so mid-sized files go up in fewer requests; only files
+// past 10,000 parts at that size get larger ones.
+const MIN_PART_BYTES = 10 * 1024 * 1024;
+const MAX_PARTS = 10_000;
+const MIB = 1024 * 1024;
+
+function planParts(size: number): { partSize: number; partCount: number } {
+  const partSize = Math.max(MIN_PART_BYTES, Math.ceil(size / MAX_PARTS / MIB) * MIB);
+  return { partSize, partCount: Math.ceil(size / partSize) };
+}
+
+function resolveOrganisationId(c: AppContext): string {
+  const user = c.get('user');
+  return user.organizationId ?? user.tenant ?? c.env.DEFAULT_TENANT ?? 'default';
+}
+
+// Parts, completion and abort are only for the uploader, and only while the upload is open.
+async function loadOpenUpload(c: AppContext): Promise<FileWithFolder & { multipart_upload_id: string }> {
+  const user = c.get('user');
+  const file = await getFile(c.env, c.req.param('id'), resolveOrganisationId(c));
+  if (!file) {
+    throw new HTTPException(404, { message: 'File not found' });
+  }
+  if (file.owner_id !== user.id) {
+    throw new HTTPException(403, { message: 'You can only manage your own uploads' });
+  }
+  if (file.status !== 'uploading' || !file.multipart_upload_id) {
+    throw new HTTPException(409, { message: 'No multipart upload is in progress for this file.' });
+  }
+  return file as FileWithFolder & { multipart_upload_id: string };
+}
+
+/**
+ * Starts an R2 multipart upload for files too large for a single request. Returns the part size
+ * and count the client must use; parts go to PUT /api/upload-multipart/:id/parts/:partNumber.
+ */
+export async function handleCreateMultipartUpload(c: AppContext) {
+  const env = c.env;
+  const user = c.get('user');
+  const organisationId = resolveOrganisationId(c);
+  const teamIds = await listActiveTeamIdsForUser(env, user.id);
+
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = createMultipartUploadInput.safeParse(body);
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+  const { folderId, folderName, fileName, size, mimeType, visibility } = parsed.data;
+  const teamId = visibility === 'team' ? parsed.data.teamId ?? null : null;
+
+  assertWithinUploadLimit(size, await resolveUploadLimit(env, organisationId));
+  const format = assertSupportedFile({ file_name: fileName, mime_type: mimeType ?? null });
+  const normalizedName = deriveFileName(fileName, format);
+  const contentType = mimeTypeForFormat(format);
+
+  let folder = await getFolder(env, folderId, organisationId);
+  if (!folder) {
+    await ensureFolder(env, {
+      id: folderId,
+      organisationId,
+      tenant: user.tenant,
+      name: folderName,
+      visibility,
+      ownerId: folderId === 'public-root' ? null : user.id,
+      teamId,
+    });
+    folder = await getFolder(env, folderId, organisationId);
+  }
+  if (!folder) {
+    throw new HTTPException(500, { message: 'Unable to resolve folder' });
+  }
+  if (visibility === 'team') {
+    const folderTeamId = folder.team_id ?? teamId;
+    if (!folderTeamId) {
+      throw new HTTPException(400, { message: 'Team uploads require a team id.' });
+    }
+    if (!teamIds.includes(folderTeamId)) {
+      throw new HTTPException(403, { message: 'You are not a member of the selected team.' });
+    }
+  }
+  assertFolderVisibility(folder, user.id, 'write', teamIds);
+
+  const fileId = crypto.randomUUID();
+  const key = buildObjectKey({
+    visibility,
+    organizationId: organisationId,
+    ownerId: user.id,
+    folderId,
+    teamId: folder.team_id ?? teamId ?? null,
+    fileId,
+    fileName: normalizedName,
+  });
+
+  const upload = await env.MARBLE_FILES.createMultipartUpload(key, { httpMetadata: { contentType } });
+  await createFileRecord(env, {
+    id: fileId,
+    organisationId,
+    tenant: user.tenant,
+    folderId,
+    ownerId: user.id,
+    visibility,
+    teamId: folder.team_id ?? teamId ?? null,
+    fileName: normalizedName,
+    r2Key: key,
+    size,
+    status: 'uploading',
+    mimeType: contentType,
+  });
+  await updateFileMultipartUpload(env, fileId, upload.uploadId);
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ fileId, key, ...planParts(size) }, 201);
+}
+
+/** Stores one part; the body is the raw bytes. Re-sending a part number replaces it. */
+export async function handleUploadPart(c: AppContext) {
+  const file = await loadOpenUpload(c);
+  const partNumber = Number.parseInt(c.req.param('partNumber'), 10);
+  const { partSize, partCount } = planParts(file.size);
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > partCount) {
+    throw new HTTPException(400, { message: `Part number must be between 1 and ${partCount}.` });
+  }
+
+  const bytes = await c.req.arrayBuffer();
+  const expected = partNumber < partCount ? partSize : file.size - partSize * (partCount - 1);
+  if (bytes.byteLength !== expected) {
+    throw new HTTPException(400, { message: `Part ${partNumber} must be ${expected} bytes; received ${bytes.byteLength}.` });
+  }
+
+  const upload = c.env.MARBLE_FILES.resumeMultipartUpload(file.r2_key, file.multipart_upload_id);
+  const part = await upload.uploadPart(partNumber, bytes);
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ partNumber: part.partNumber, etag: part.etag });
+}
+
+/** Assembles the parts, then verifies and queues the file exactly like POST /api/files/:id/complete. */
+export async function handleCompleteMultipartUpload(c: AppContext) {
+  const file = await loadOpenUpload(c);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = completeMultipartUploadInput.safeParse(body);
+  if (!parsed.success) {
+    throw new HTTPException(400, { message: parsed.error.message });
+  }
+  const { partCount } = planParts(file.size);
+  if (parsed.data.parts.length !== partCount) {
+    throw new HTTPException(400, { message: `Expected ${partCount} parts; received ${parsed.data.parts.length}.` });
+  }
+
+  const upload = c.env.MARBLE_FILES.resumeMultipartUpload(file.r2_key, file.multipart_upload_id);
+  const parts = [...parsed.data.parts].sort((a, b) => a.partNumber - b.partNumber);
+  try {
+    await upload.complete(parts);
+  } catch (error) {
+    console.error('Multipart completion failed', { fileId: file.id, error });
+    throw new HTTPException(400, { message: 'Could not assemble the uploaded parts; check the part numbers and ETags.' });
+  }
+  await updateFileMultipartUpload(c.env, file.id, null);
+
+  return finalizeUpload(c, { ...file, multipart_upload_id: null });
+}
+
+/** Abandons the upload: discards the stored parts and the file record. */
+export async function handleAbortMultipartUpload(c: AppContext) {
+  const file = await loadOpenUpload(c);
+  await c.env.MARBLE_FILES.resumeMultipartUpload(file.r2_key, file.multipart_upload_id).abort();
+  await deleteFile(c.env, file.id);
+
+  c.header('Cache-Control', 'private, no-store');
+  return c.json({ fileId: file.id, aborted: true });
+}
@@ -7,13 +7,12 @@ import {
   ensureFolder,
   getFolder,
 } from '../lib/db';
-import { assertTxtFile, deriveTxtFileName } from '../lib/text-conversion';
+import { assertSupportedFile, deriveFileName, mimeTypeForFormat } from '../lib/text-conversion';
 import { buildObjectKey } from '../lib/storage';
 import { listActiveTeamIdsForUser } from '../lib/org';
+import { assertWithinUploadLimit, resolveUploadLimit } from '../lib/upload-limits';
 import type { Visibility } from '../types';
 
-const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
-
 function normalizeVisibility(value: Visibility): Visibility {
   if (value === 'organization' || value === 'team' || value === 'personal') {
     return value;
@@ -38,13 +37,12 @@ export async function handleUploadUrl(c: AppContext) {
     const { folderId, folderName, fileName, size, mimeType } = parsed.data;
     const teamId = visibility === 'team' ? body.teamId ?? null : null;
 
-    if (size > MAX_UPLOAD_BYTES) {
-      throw new HTTPException(400, { message: 'File exceeds the 5 MB upload limit.' });
-    }
+    assertWithinUploadLimit(size, await resolveUploadLimit(env, organisationId));
 
-    assertTxtFile({ file_name: fileName, mime_type: mimeType ?? null });
+    const format = assertSupportedFile({ file_name: fileName, mime_type: mimeType ?? null });
 
-    const normalizedName = deriveTxtFileName(fileName);
+    const normalizedName = deriveFileName(fileName, format);
+    const contentType = mimeTypeForFormat(format);
 
     let folder = await getFolder(env, folderId, organisationId);
     if (!folder) {
@@ -102,10 +100,9 @@ export async function handleUploadUrl(c: AppContext) {
       r2Key: key,
       size,
       status: 'uploading',
-      mimeType: 'text/plain',
+      mimeType: contentType,
     });
 
-    const contentType = 'text/plain';
     let urlStr: string | null = null;
     const reasons: string[] = [];
 
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { CHUNKING_STRATEGIES } from './lib/chunk';
 
 export const visibilityEnum = z.enum(['organization', 'personal', 'team']);
 
@@ -11,6 +12,22 @@ export const uploadUrlInput = z.object({
   mimeType: z.string().trim().optional(),
 });
 
+export const createMultipartUploadInput = uploadUrlInput.extend({
+  size: z.number().int().positive(),
+  teamId: z.string().optional().nullable(),
+});
+
+export const completeMultipartUploadInput = z.object({
+  parts: z
+    .array(
+      z.object({
+        partNumber: z.number().int().min(1).max(10000),
+        etag: z.string().min(1),
+      }),
+    )
+    .min(1, 'At least one part is required'),
+});
+
 export const ingestInput = z.object({
   fileId: z.string().min(1),
 });
@@ -23,13 +40,27 @@ export const chatInput = z.object({
 
 const visibilityFilterEnum = z.enum(['organization', 'personal', 'team', 'all']);
 
+const tagFilter = z.string().trim().toLowerCase().min(1).max(40);
+
 export const listFilesQuery = z.object({
   folder_id: z.string().optional(),
   visibility: visibilityFilterEnum.optional(),
+  tag: tagFilter.optional(),
+});
+
+export const fileContentQuery = z.object({
+  lines: z
+    .string()
+    .regex(/^\d+(-\d+)?$/, 'lines must be a line number or a range such as 40-88')
+    .optional(),
+  context: z.coerce.number().int().min(0).max(200).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  download: z.enum(['1', 'true', '0', 'false']).optional(),
 });
 
 export const listFoldersQuery = z.object({
   visibility: visibilityFilterEnum.optional(),
+  tag: tagFilter.optional(),
 });
 
 export const createFolderInput = z.object({
@@ -38,15 +69,30 @@ export const createFolderInput = z.object({
   teamId: z.string().optional().nullable(),
 });
 
+export const folderChunkingInput = z
+  .object({
+    strategy: z.enum(CHUNKING_STRATEGIES),
+    chunkSize: z.number().int().min(50).max(20000).optional().nullable(),
+    overlap: z.number().int().nonnegative().optional().nullable(),
+  })
+  .refine((value) => value.overlap == null || value.chunkSize == null || value.overlap < value.chunkSize, {
+    message: 'Chunk overlap must be smaller than the chunk size',
+  });
+
 export const updateFolderInput = z
   .object({
     name: z.string().trim().min(1, 'Folder name is required').max(100).optional(),
     visibility: visibilityEnum.optional(),
     teamId: z.string().optional().nullable(),
+    chunking: folderChunkingInput.optional().nullable(),
   })
-  .refine((value) => value.name !== undefined || value.visibility !== undefined || value.teamId !== undefined, {
-    message: 'Provide a change to update the folder',
-  });
+  .refine(
+    (value) =>
+      value.name !== undefined || value.visibility !== undefined || value.teamId !== undefined || value.chunking !== undefined,
+    {
+      message: 'Provide a change to update the folder',
+    },
+  );
 
 export const updateFileInput = z
   .object({
@@ -68,6 +114,17 @@ export const rosterUploadInput = z.object({
   text: z.string().min(1, 'Roster file cannot be empty'),
 });
 
+export const organisationSettingsInput = z
+  .object({
+    // Bytes; null restores the deployment default. R2 objects top out at 5 TiB, multipart uploads included.
+    maxUploadBytes: z.number().int().min(1024).max(5 * 1024 ** 4).nullable().optional(),
+    // Applies from each file's next ingestion; POST /api/admin/reindex rescans existing files.
+    piiPolicy: z.enum(['flag', 'mask', 'block']).optional(),
+  })
+  .refine((value) => value.maxUploadBytes !== undefined || value.piiPolicy !== undefined, {
+    message: 'Provide maxUploadBytes or piiPolicy.',
+  });
+
 export const createTeamInput = z.object({
   name: z.string().trim().min(1, 'Team name is required').max(80),
   description: z.string().trim().max(280).optional().nullable(),
@@ -106,3 +163,22 @@ export const directoryQuerySchema = z.object({
       return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
     }),
 });
+
+// What a chat model must return; citations that do not match are dropped rather than failing the answer.
+export const chatCitationOutput = z.object({
+  folder: z.string(),
+  file: z.string(),
+  lines: z.tuple([z.number().int().positive(), z.number().int().positive()]).refine(([start, end]) => start <= end),
+});
+
+export const chatAnswerOutput = z
+  .object({
+    answer: z.string().optional(),
+    citations: z.array(z.unknown()).optional(),
+  })
+  .refine((value) => value.answer !== undefined || value.citations !== undefined);
+
+export const reindexInput = z.object({
+  // Files re-embedded by this call; keep it small enough to finish within one request.
+  batchSize: z.number().int().min(1).max(50).optional(),
+});
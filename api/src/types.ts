@@ -7,16 +7,54 @@ export type InviteStatus = 'pending' | 'invited' | 'active' | 'removed';
 export type TeamMemberStatus = 'pending' | 'active' | 'removed';
 export type FileAccessLevel = 'viewer' | 'editor';
 
+// The slice of the Workers AI binding used for text embeddings.
+export interface WorkersAiBinding {
+  run(model: string, inputs: { text: string[] }): Promise<unknown>;
+}
+
 export interface MarbleBindings {
   MARBLE_DB: D1Database;
   MARBLE_FILES: R2Bucket;
   MARBLE_VECTORS: VectorizeIndex;
   OPENAI_API_KEY: string;
   OPENAI_MODEL?: string;
+  // openai (Responses API, default), openai-compatible (Chat Completions), anthropic or fake; see lib/chat-providers.ts.
+  CHAT_PROVIDER?: string;
+  // Overrides the provider's default chat model.
+  CHAT_MODEL?: string;
+  // Base URL of a Chat Completions server, e.g. http://localhost:11434/v1 for Ollama.
+  CHAT_BASE_URL?: string;
+  CHAT_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+  // JSON array of replies for the fake provider.
+  CHAT_SCRIPT?: string;
   OPENAI_EMBEDDING_MODEL?: string;
+  // openai (default), openai-compatible, workers-ai or hash; see lib/embeddings.ts.
+  EMBEDDING_PROVIDER?: string;
+  // Overrides the provider's default embedding model.
+  EMBEDDING_MODEL?: string;
+  // Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama.
+  EMBEDDING_BASE_URL?: string;
+  EMBEDDING_API_KEY?: string;
+  // Vector length of the hash provider.
+  EMBEDDING_DIMENSIONS?: string;
+  // Workers AI binding, used when EMBEDDING_PROVIDER=workers-ai.
+  AI?: WorkersAiBinding;
+  EMBEDDING_BATCH_SIZE?: string;
+  EMBEDDING_BATCH_TOKENS?: string;
+  EMBEDDING_CONCURRENCY?: string;
   VECTOR_TOP_K?: string;
   CHUNK_SIZE?: string;
   CHUNK_OVERLAP?: string;
+  CHUNK_MAX_TOKENS?: string;
+  // "true" lets the chat model refine each file's TF-IDF tags into topics.
+  REFINE_TAGS?: string;
+  // Cloudflare Queue feeding the ingestion consumer; without it jobs run once inside waitUntil.
+  INGESTION_QUEUE?: Queue<IngestionQueueMessage>;
+  CHAT_CONTEXT_TOKENS?: string;
+  UPLOAD_EXPIRY_MINUTES?: string;
+  // Default per-file upload limit in bytes; organisations may override it.
+  MAX_UPLOAD_BYTES?: string;
   CF_ACCESS_AUD?: string;
   CF_ACCESS_TEAM_DOMAIN?: string;
   SKIP_ACCESS_CHECK?: string;
@@ -47,6 +85,10 @@ export interface OrganisationRecord {
   slug: string;
   name: string;
   domain: string | null;
+  // Overrides MAX_UPLOAD_BYTES for this organisation when set.
+  max_upload_bytes?: number | null;
+  // flag, mask or block; NULL means flag.
+  pii_policy?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -98,6 +140,10 @@ export interface FolderRecord {
   visibility: Visibility;
   owner_id: string | null;
   team_id: string | null;
+  // Chunking overrides; NULL means the format default strategy and the CHUNK_SIZE/CHUNK_OVERLAP vars.
+  chunking_strategy?: string | null;
+  chunk_size?: number | null;
+  chunk_overlap?: number | null;
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
@@ -113,14 +159,109 @@ export interface FileRecord {
   visibility: Visibility;
   file_name: string;
   r2_key: string;
+  text_r2_key?: string | null;
+  // Encoding detected on upload for text formats; objects uploaded through the Worker are stored as UTF-8.
+  source_encoding?: string | null;
+  // R2 multipart upload id while a multipart upload is in progress.
+  multipart_upload_id?: string | null;
+  // Version the row (r2_key, size, ...) currently reflects; see file_versions.
+  current_version?: number;
+  // JSON PiiSummary from the latest ingestion; null when no personal data was found.
+  pii_summary?: string | null;
+  // Written by the summary job after ingestion; see lib/summaries.ts.
+  summary_abstract?: string | null;
+  summary_key_points?: string | null;
+  summary_model?: string | null;
+  summary_source_hash?: string | null;
+  summarized_at?: string | null;
+  // JSON array of the file's tags, best first; see lib/tags.ts.
+  tags?: string | null;
   size: number;
   mime_type: string | null;
-  status: 'uploading' | 'ready';
+  status: FileStatus;
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
 }
 
+export interface FileVersionRecord {
+  id: string;
+  file_id: string;
+  version: number;
+  file_name: string;
+  r2_key: string;
+  text_r2_key: string | null;
+  size: number;
+  mime_type: string | null;
+  source_encoding: string | null;
+  uploaded_by: string;
+  created_at: string;
+}
+
+export interface FilePiiFindingRecord {
+  id: string;
+  file_id: string;
+  organization_id: string;
+  kind: string;
+  preview: string;
+  start_line: number;
+  end_line: number;
+  page_number: number | null;
+  created_at: string;
+}
+
+// 'tfidf' for terms picked from the file's text, 'model' once the chat model has refined them.
+export type FileTagSource = 'tfidf' | 'model';
+
+// uploading → queued → processing → ready; a job that exhausts its retries leaves the file failed.
+export type FileStatus = 'uploading' | 'queued' | 'processing' | 'ready' | 'failed';
+
+export type IngestionJobStatus = 'queued' | 'processing' | 'succeeded' | 'failed';
+
+export interface IngestionJobRecord {
+  id: string;
+  file_id: string;
+  organization_id: string;
+  requested_by: string;
+  status: IngestionJobStatus;
+  attempts: number;
+  max_attempts: number;
+  chunks_total: number | null;
+  chunks_done: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Ingestion jobs carry no type, so messages queued before summaries existed still parse.
+export type IngestionQueueMessage =
+  | { type?: 'ingest'; jobId: string }
+  | { type: 'summary'; fileId: string }
+  | { type: 'tags'; fileId: string };
+
+// running → succeeded; a run left behind by a change of embedding model is superseded.
+export type ReindexJobStatus = 'running' | 'succeeded' | 'superseded';
+
+export interface ReindexJobRecord {
+  id: string;
+  organization_id: string;
+  requested_by: string;
+  embedding_model: string;
+  status: ReindexJobStatus;
+  files_total: number;
+  files_done: number;
+  files_failed: number;
+  // Id of the last file processed; files are visited in id order.
+  cursor: string | null;
+  last_error: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface FilePermissionRecord {
   file_id: string;
   user_id: string;
@@ -141,13 +282,36 @@ export interface ChunkRecord {
   start_line: number;
   end_line: number;
   content: string;
+  heading_path: string | null;
+  page_number: number | null;
+  start_row: number | null;
+  end_row: number | null;
+  symbol: string | null;
+  start_ms: number | null;
+  end_ms: number | null;
+  content_hash?: string | null;
+  // Model and vector length the chunk was embedded with; null for chunks indexed before they were recorded.
+  embedding_model?: string | null;
+  embedding_dimensions?: number | null;
+  // 'summary' marks the chunk holding the file's generated summary; everything else is 'content'.
+  kind?: ChunkKind;
   created_at: string;
 }
 
+export type ChunkKind = 'content' | 'summary';
+
 export interface ChatCitation {
   folder: string;
   file: string;
+  // Filled in from the matching source so clients can open the cited file.
+  fileId?: string;
   lines: [number, number];
+  section?: string;
+  page?: number;
+  rows?: [number, number];
+  symbol?: string;
+  // HH:MM:SS playback window for transcript sources.
+  timestamps?: [string, string];
 }
 
 export interface ChatResult {
@@ -7,13 +7,37 @@ import { handleWhoAmI } from './routes/whoami';
 import { handleSession } from './routes/session';
 import { handleUploadUrl } from './routes/upload-url';
 import { handleUploadDirect } from './routes/upload-direct';
+import { handleUploadArchive } from './routes/upload-archive';
+import { handleCompleteUpload } from './routes/upload-complete';
+import {
+  handleAbortMultipartUpload,
+  handleCompleteMultipartUpload,
+  handleCreateMultipartUpload,
+  handleUploadPart,
+} from './routes/upload-multipart';
 import { handleIngest } from './routes/ingest';
-import { handleCreateFile, handleListFiles, handleUpdateFile, handleGetFileSharing, handleUpdateFileSharing } from './routes/files';
-import { handleGetRoster, handleUploadRoster } from './routes/organisation';
+import {
+  handleCreateFile,
+  handleListFiles,
+  handleUpdateFile,
+  handleGetFileIngestion,
+  handleGetFilePii,
+  handleGetFileSharing,
+  handleUpdateFileSharing,
+} from './routes/files';
+import {
+  handleGetOrganisationSettings,
+  handleGetRoster,
+  handleUpdateOrganisationSettings,
+  handleUploadRoster,
+} from './routes/organisation';
 import { handleListTeams, handleCreateTeam, handleInviteMembers, handleAcceptInvite, handleUpdateMemberRole, handleRemoveMember } from './routes/teams';
 import { handleDirectorySearch } from './routes/directory';
 import { handleDeleteFile } from './routes/delete-file';
+import { handleGetFileContent } from './routes/file-content';
+import { handleListFileVersions, handleRestoreFileVersion, handleUploadFileVersion } from './routes/file-versions';
 import { handleChat } from './routes/chat';
+import { handleGetReindex, handleReindex } from './routes/reindex';
 import { handleDebugEmbed } from './routes/debug-embed';
 import {
   handleDebugQuery,
@@ -22,6 +46,9 @@ import {
   handleDebugStats,
 } from './routes/debug';
 import { registerFolderRoutes } from './routes/folders';
+import { handleIngestionQueue } from './lib/ingestion-queue';
+import { sweepAbandonedUploads } from './lib/upload-sweeper';
+import type { IngestionQueueMessage, MarbleBindings } from './types';
 
 
 
@@ -63,7 +90,7 @@ app.use(
       }
       return null;
     },
-    allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowHeaders: ['Content-Type', 'Authorization'],
     credentials: true,
     maxAge: 86400,
@@ -121,9 +148,15 @@ api.get('/session', handleSession);
 api.get('/whoami', handleWhoAmI);
 api.post('/upload-url', handleUploadUrl);
 api.post('/upload-direct', handleUploadDirect);
+api.post('/upload-multipart', handleCreateMultipartUpload);
+api.put('/upload-multipart/:id/parts/:partNumber', handleUploadPart);
+api.post('/upload-multipart/:id/complete', handleCompleteMultipartUpload);
+api.delete('/upload-multipart/:id', handleAbortMultipartUpload);
 api.post('/ingest', handleIngest);
 api.get('/files', handleListFiles);
 api.post('/files', handleCreateFile);
+api.post('/files/archive', handleUploadArchive);
+api.post('/files/:id/complete', handleCompleteUpload);
 api.patch('/files/:id', handleUpdateFile);
 api.delete('/files/:id', handleDeleteFile);
 api.post('/chat', handleChat);
@@ -134,6 +167,10 @@ api.get('/debug/probe-file', handleDebugProbeFile);
 api.get('/debug/stats', handleDebugStats);
 api.get('/organization/roster', handleGetRoster);
 api.post('/organization/roster', handleUploadRoster);
+api.get('/organization/settings', handleGetOrganisationSettings);
+api.patch('/organization/settings', handleUpdateOrganisationSettings);
+api.get('/admin/reindex', handleGetReindex);
+api.post('/admin/reindex', handleReindex);
 api.get('/teams', handleListTeams);
 api.post('/teams', handleCreateTeam);
 api.post('/teams/:id/invite', handleInviteMembers);
@@ -145,6 +182,12 @@ api.get('/directory/users', handleDirectorySearch);
 registerFolderRoutes(api);
 api.get('/files/:id/sharing', handleGetFileSharing);
 api.patch('/files/:id/sharing', handleUpdateFileSharing);
+api.get('/files/:id/ingestion', handleGetFileIngestion);
+api.get('/files/:id/pii', handleGetFilePii);
+api.get('/files/:id/content', handleGetFileContent);
+api.get('/files/:id/versions', handleListFileVersions);
+api.post('/files/:id/versions', handleUploadFileVersion);
+api.post('/files/:id/versions/:version/restore', handleRestoreFileVersion);
 
 // Log any unhandled errors and return a JSON message instead of plain 500
 app.onError((err, c) => {
@@ -153,5 +196,12 @@ app.onError((err, c) => {
   return c.json({ error: msg }, 500);
 });
 
-
-export default app;
+// HTTP requests go to Hono; INGESTION_QUEUE batches go to the ingestion consumer; the cron
+// trigger expires presigned uploads that were never completed.
+export default {
+  fetch: app.fetch,
+  queue: handleIngestionQueue,
+  scheduled: (_controller, env, ctx) => {
+    ctx.waitUntil(sweepAbandonedUploads(env));
+  },
+} satisfies ExportedHandler<MarbleBindings, IngestionQueueMessage>;
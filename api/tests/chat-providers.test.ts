@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { chatResultFromText, parseChatResult, resolveChatProvider } from '../src/lib/chat-providers';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'member',
+  })),
+}));
+
+const request = { system: ['Be brief.', 'Context:\nSource 1'], user: 'What changed?' };
+const answer = { answer: 'Pricing changed.', citations: [{ folder: 'Org', file: 'plan.md', lines: [3, 5] }] };
+
+function mockFetch(body: unknown) {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify(body), { status: 200 }));
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+function sent(fetchMock: ReturnType<typeof mockFetch>) {
+  const [url, init] = fetchMock.mock.calls[0];
+  return { url, headers: init?.headers as Record<string, string>, body: JSON.parse(init?.body as string) };
+}
+
+describe('chat providers', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('validates structured answers and drops malformed citations', () => {
+    expect(
+      parseChatResult({
+        answer: 'Yes.',
+        citations: [
+          { folder: 'Org', file: 'a.md', lines: [2, 4] },
+          { folder: 'Org', file: 'b.md', lines: [9] },
+          { folder: 'Org', file: 'c.md', lines: [5, 1] },
+          'a.md',
+        ],
+      }),
+    ).toEqual({ answer: 'Yes.', citations: [{ folder: 'Org', file: 'a.md', lines: [2, 4] }] });
+    expect(parseChatResult({ reply: 'Yes.' })).toBeNull();
+    expect(chatResultFromText('```json\n{"answer":"Fenced.","citations":[]}\n```')).toEqual({ answer: 'Fenced.', citations: [] });
+    expect(chatResultFromText('Just text.')).toEqual({ answer: 'Just text.', citations: [] });
+  });
+
+  it('calls the Responses API by default', async () => {
+    const { env } = createTestEnv();
+    const fetchMock = mockFetch({
+      output: [{ type: 'message', content: [{ type: 'output_text', text: JSON.stringify(answer) }] }],
+    });
+
+    await expect(resolveChatProvider(env).complete(request)).resolves.toEqual(answer);
+    const { url, headers, body } = sent(fetchMock);
+    expect(url).toBe('https://api.openai.com/v1/responses');
+    expect(headers.Authorization).toBe('Bearer test-key');
+    expect(body.model).toBe('gpt-4.1-mini');
+    expect(body.input.map((message: { role: string }) => message.role)).toEqual(['system', 'system', 'user']);
+    expect(body.text.format).toMatchObject({ type: 'json_schema', name: 'marble_answer' });
+
+    mockFetch({ output: [{ type: 'message', content: [{ type: 'refusal', refusal: 'I cannot help with that.' }] }] });
+    await expect(resolveChatProvider(env).complete(request)).resolves.toEqual({
+      answer: 'I cannot help with that.',
+      citations: [],
+    });
+  });
+
+  it('calls Chat Completions endpoints such as a local server', async () => {
+    const { env } = createTestEnv();
+    env.CHAT_PROVIDER = 'openai-compatible';
+    env.CHAT_BASE_URL = 'http://localhost:11434/v1';
+    env.CHAT_MODEL = 'llama3.1';
+    const fetchMock = mockFetch({
+      choices: [{ message: { role: 'assistant', content: '```json\n' + JSON.stringify(answer) + '\n```' } }],
+    });
+
+    await expect(resolveChatProvider(env).complete(request)).resolves.toEqual(answer);
+    const { url, headers, body } = sent(fetchMock);
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(headers.Authorization).toBeUndefined();
+    expect(body).toMatchObject({ model: 'llama3.1', response_format: { type: 'json_schema' } });
+    expect(body.messages.at(-1)).toEqual({ role: 'user', content: 'What changed?' });
+
+    env.CHAT_BASE_URL = undefined;
+    expect(() => resolveChatProvider(env)).toThrow('needs CHAT_BASE_URL and CHAT_MODEL');
+  });
+
+  it('forces the answer tool with Anthropic Messages', async () => {
+    const { env } = createTestEnv();
+    env.CHAT_PROVIDER = 'anthropic';
+    await expect(resolveChatProvider(env).complete(request)).rejects.toThrow('Missing ANTHROPIC_API_KEY binding');
+
+    env.ANTHROPIC_API_KEY = 'anthropic-key';
+    const fetchMock = mockFetch({
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'marble_answer', input: answer }],
+      stop_reason: 'tool_use',
+    });
+
+    await expect(resolveChatProvider(env).complete(request)).resolves.toEqual(answer);
+    const { url, headers, body } = sent(fetchMock);
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(headers).toMatchObject({ 'x-api-key': 'anthropic-key', 'anthropic-version': '2023-06-01' });
+    expect(body.system).toBe('Be brief.\n\nContext:\nSource 1');
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'marble_answer' });
+  });
+
+  it('replays a scripted conversation without any network', async () => {
+    const { env, ctx } = createTestEnv();
+    env.CHAT_PROVIDER = 'fake';
+    env.CHAT_SCRIPT = JSON.stringify([{ answer: 'First.', citations: [] }, 'Second, as plain text.']);
+    const fetchMock = vi.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const ask = async (message: string) => {
+      const response = await app.fetch(
+        new Request('https://example.com/api/chat', {
+          method: 'POST',
+          body: JSON.stringify({ message, knowledgeMode: false }),
+          headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+        }),
+        env,
+        ctx,
+      );
+      return ((await response.json()) as { answer: string }).answer;
+    };
+
+    expect(await ask('Hello')).toBe('First.');
+    expect(await ask('Again')).toBe('Second, as plain text.');
+    expect(await ask('Once more')).toBe('Second, as plain text.');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    env.CHAT_SCRIPT = undefined;
+    await expect(resolveChatProvider(env).complete(request)).resolves.toEqual({ answer: 'You asked: What changed?', citations: [] });
+  });
+
+  it('rejects unknown providers', () => {
+    const { env } = createTestEnv();
+    env.CHAT_PROVIDER = 'palm';
+    expect(() => resolveChatProvider(env)).toThrow('Unknown CHAT_PROVIDER "palm"');
+  });
+});
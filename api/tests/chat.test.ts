@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import app from '../src/worker';
+import { embeddingModelName } from '../src/lib/embeddings';
 import { createTestEnv } from './helpers/mock-env';
 import { organizationNamespace, personalNamespace } from '../src/lib/vectorize';
 
@@ -72,6 +73,13 @@ describe('chat route', () => {
       start_line: 1,
       end_line: 4,
       content: 'Project Marble empowers teams to chat with their files.',
+      heading_path: null,
+      page_number: null,
+      start_row: null,
+      end_row: null,
+      symbol: null,
+      start_ms: null,
+      end_ms: null,
       created_at: new Date().toISOString(),
     });
 
@@ -90,6 +98,7 @@ describe('chat route', () => {
           visibility: 'organization',
           ownerId: 'user@example.com',
           organizationId: 'default',
+          embeddingModel: embeddingModelName(env),
         },
       },
     ];
@@ -153,6 +162,7 @@ describe('chat route', () => {
     expect(data.citations[0]).toEqual({
       folder: 'Org Shared',
       file: 'handbook.txt',
+      fileId: 'file-1',
       lines: [1, 4],
     });
     expect(db.messages).toHaveLength(1);
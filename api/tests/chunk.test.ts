@@ -0,0 +1,253 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chunkCode,
+  chunkDocument,
+  chunkMarkdown,
+  chunkPages,
+  chunkParagraphs,
+  chunkSentences,
+  chunkTable,
+  chunkText,
+  chunkTextStream,
+  chunkTokens,
+  chunkTranscript,
+  type TextChunk,
+} from '../src/lib/chunk';
+
+describe('chunkText', () => {
+  it('tracks 1-based line ranges across windows', () => {
+    const chunks = chunkText('alpha\nbeta\ngamma\ndelta', { chunkSize: 11, overlap: 0 });
+    expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+  });
+
+  it('shrinks windows to the token budget', () => {
+    const source = '数'.repeat(300);
+    const count = (text: string) => text.length;
+    const chunks = chunkText(source, { chunkSize: 200, overlap: 50, maxTokens: 60, countTokens: count });
+    expect(chunks.every((chunk) => chunk.content.length <= 60)).toBe(true);
+    expect(chunks.map((chunk) => chunk.content).join('').length).toBeGreaterThanOrEqual(source.length);
+    expect(chunks[chunks.length - 1].content.endsWith('数')).toBe(true);
+  });
+});
+
+describe('chunkTextStream', () => {
+  async function* pieces(source: string, size: number) {
+    for (let start = 0; start < source.length; start += size) {
+      yield source.slice(start, start + size);
+    }
+  }
+
+  async function collect(source: AsyncIterable<string>, options: Parameters<typeof chunkText>[1]) {
+    const chunks: TextChunk[] = [];
+    for await (const chunk of chunkTextStream(source, options)) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  it('matches chunkText however the text is split', async () => {
+    const source = Array.from({ length: 4000 }, (_, line) => `line ${line + 1}: ${'lorem ipsum '.repeat(line % 7)}`).join('\n');
+    const options = { chunkSize: 300, overlap: 40 };
+    const expected = chunkText(source, options);
+    for (const size of [1, 37, 1000, 70000]) {
+      expect(await collect(pieces(source, size), options)).toEqual(expected);
+    }
+  });
+
+  it('matches chunkText under a token budget and on empty input', async () => {
+    const source = `${'数'.repeat(500)}\nplain text\n`.repeat(20);
+    const options = { chunkSize: 200, overlap: 50, maxTokens: 60, countTokens: (text: string) => text.length };
+    expect(await collect(pieces(source, 333), options)).toEqual(chunkText(source, options));
+    expect(await collect(pieces('', 10), options)).toEqual([]);
+  });
+});
+
+describe('chunkMarkdown', () => {
+  const doc = [
+    'Intro paragraph.',
+    '',
+    '# Setup',
+    'Install the CLI.',
+    '',
+    '## Secrets',
+    'Store keys with wrangler.',
+    '',
+    '```sh',
+    '# not a heading',
+    '```',
+    '',
+    '# Usage',
+    'Run it.',
+  ].join('\n');
+
+  it('splits on headings and records the heading path', () => {
+    const chunks = chunkMarkdown(doc, { chunkSize: 1000, overlap: 0 });
+    expect(chunks.map((chunk) => chunk.headingPath)).toEqual([null, 'Setup', 'Setup > Secrets', 'Usage']);
+    expect(chunks[2].content).toContain('# not a heading');
+    expect([chunks[2].startLine, chunks[2].endLine]).toEqual([6, 11]);
+    expect([chunks[3].startLine, chunks[3].endLine]).toEqual([13, 14]);
+  });
+
+  it('windows long sections without losing their heading', () => {
+    const body = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+    const chunks = chunkMarkdown(`# Big\n${body}`, { chunkSize: 40, overlap: 0 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.headingPath === 'Big')).toBe(true);
+    expect(chunks.map((chunk) => chunk.index)).toEqual(chunks.map((_, i) => i));
+  });
+
+  it('supports setext headings', () => {
+    const chunks = chunkMarkdown('Title\n=====\nBody text.\n', { chunkSize: 1000, overlap: 0 });
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headingPath).toBe('Title');
+  });
+});
+
+describe('chunkPages', () => {
+  it('keeps chunks within a page and restarts line numbers per page', () => {
+    const source = ['Title\nFirst page body', 'Second page\nmore text\nend', '', 'Fourth page'].join('\f');
+    const chunks = chunkPages(source, { chunkSize: 1000, overlap: 0 });
+    expect(chunks.map((chunk) => [chunk.pageNumber, chunk.startLine, chunk.endLine, chunk.index])).toEqual([
+      [1, 1, 2, 0],
+      [2, 1, 3, 1],
+      [4, 1, 1, 2],
+    ]);
+    expect(chunks[1].content).toBe('Second page\nmore text\nend');
+  });
+});
+
+describe('chunkTable', () => {
+  const csv = ['region,limit,notes', 'EU,150,standard', 'US,200,"covers', 'taxes"', 'APAC,180,standard', ''].join('\n');
+
+  it('groups whole rows and repeats the header in each chunk', () => {
+    const chunks = chunkTable(csv, { chunkSize: 60, overlap: 0 });
+    expect(chunks.map((chunk) => [chunk.rows, chunk.startLine, chunk.endLine])).toEqual([
+      [[1, 2], 2, 4],
+      [[3, 3], 5, 5],
+    ]);
+    expect(chunks[0].content).toBe('region,limit,notes\nEU,150,standard\nUS,200,"covers\ntaxes"');
+    expect(chunks[1].content).toBe('region,limit,notes\nAPAC,180,standard');
+  });
+
+  it('keeps a header-only file as a single chunk', () => {
+    expect(chunkTable('a\tb\tc\n', { chunkSize: 100, overlap: 0 })).toEqual([
+      { content: 'a\tb\tc', startLine: 1, endLine: 1, index: 0, rows: null },
+    ]);
+  });
+});
+
+describe('chunkCode', () => {
+  const summarize = (chunks: TextChunk[]) => chunks.map((chunk) => [chunk.symbol, chunk.startLine, chunk.endLine]);
+
+  it('splits TypeScript on top-level declarations and keeps leading comments', () => {
+    const source = [
+      "import { Hono } from 'hono';",
+      '',
+      '/** Adds numbers. */',
+      'export function add(a: number, b: number) {',
+      '  const message = `sum ${a + b} }`;',
+      '  return a + b;',
+      '}',
+      '',
+      'export const handler = async (value: string) => {',
+      "  if (value === '}') return;",
+      '};',
+      '',
+      'export class Store {',
+      '  get(key: string) {',
+      '    return key;',
+      '  }',
+      '}',
+    ].join('\n');
+    const chunks = chunkCode(source, 'typescript', { chunkSize: 130, overlap: 0 });
+    expect(summarize(chunks)).toEqual([
+      [null, 1, 1],
+      ['function add', 3, 7],
+      ['function handler', 9, 11],
+      ['class Store', 13, 17],
+    ]);
+    expect(chunks[1].content.startsWith('/** Adds numbers. */\nexport function add')).toBe(true);
+  });
+
+  it('groups small neighbouring declarations and splits long ones on lines', () => {
+    const source = ['const A = 1;', 'const B = 2;', 'const C = 3;', 'function big() {', ...Array(6).fill('  work();'), '}'].join('\n');
+    const chunks = chunkCode(source, 'typescript', { chunkSize: 50, overlap: 0 });
+    expect(summarize(chunks)).toEqual([
+      ['const A, const B +1 more', 1, 3],
+      ['function big', 4, 7],
+      ['function big', 8, 11],
+    ]);
+  });
+});
+
+describe('chunkTranscript', () => {
+  it('groups cues into time windows and records their time range', () => {
+    const cue = (n: number, start: string, end: string, text: string) => `${n}\n${start} --> ${end}\n${text}\n`;
+    const srt = [
+      cue(1, '00:14:32,000', '00:14:40,000', 'ALICE: Kickoff.'),
+      cue(2, '00:15:50,000', '00:16:05,000', 'BOB: Budget is approved.'),
+      cue(3, '00:16:40,000', '00:16:45,000', 'ALICE: Next topic.'),
+    ].join('\n');
+    const chunks = chunkTranscript(srt, 'srt', { chunkSize: 1000, overlap: 0 });
+    expect(chunks.map((chunk) => [chunk.timeRange, chunk.startLine, chunk.endLine])).toEqual([
+      [[872_000, 965_000], 2, 7],
+      [[1_000_000, 1_005_000], 10, 11],
+    ]);
+    expect(chunks[0].content).toBe('[00:14:32] ALICE: Kickoff.\n[00:15:50] BOB: Budget is approved.');
+  });
+});
+
+describe('chunking strategies', () => {
+  it('keeps paragraphs whole and reports their lines', () => {
+    const doc = 'First paragraph\nstill first.\n\nSecond one.\n\nThird paragraph is here.';
+    const chunks = chunkParagraphs(doc, { chunkSize: 45, overlap: 0 });
+    expect(chunks.map((chunk) => [chunk.content, chunk.startLine, chunk.endLine])).toEqual([
+      ['First paragraph\nstill first.\n\nSecond one.', 1, 4],
+      ['Third paragraph is here.', 6, 6],
+    ]);
+  });
+
+  it('splits on sentences and overlaps by whole sentences', () => {
+    const doc = 'Alpha is first. Beta follows, e.g. later. Gamma ends it!';
+    const chunks = chunkSentences(doc, { chunkSize: 45, overlap: 30 });
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      'Alpha is first. Beta follows, e.g. later.',
+      'Beta follows, e.g. later. Gamma ends it!',
+    ]);
+  });
+
+  it('sizes token chunks by estimated tokens', () => {
+    const doc = Array.from({ length: 10 }, (_, index) => `word${index}`).join(' ');
+    const chunks = chunkTokens(doc, { chunkSize: 8, overlap: 2 });
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      'word0 word1 word2 word3',
+      'word3 word4 word5 word6',
+      'word6 word7 word8 word9',
+    ]);
+  });
+
+  it('applies the folder strategy to prose but not to structured formats', () => {
+    const pdf = 'One. Two.\fThree.';
+    expect(chunkDocument(pdf, 'pdf', { chunkSize: 6, overlap: 0 }, 'sentence').map((chunk) => [chunk.content, chunk.pageNumber])).toEqual([
+      ['One.', 1],
+      ['Two.', 1],
+      ['Three.', 2],
+    ]);
+    const csv = 'a,b\n1,2\n3,4';
+    expect(chunkDocument(csv, 'csv', { chunkSize: 100, overlap: 0 }, 'sentence')).toEqual(
+      chunkTable(csv, { chunkSize: 100, overlap: 0 }),
+    );
+  });
+
+  it('splits structured chunks that exceed the token budget', () => {
+    const code = ['function big() {', ...Array.from({ length: 6 }, (_, index) => `  call(${index});`), '}'].join('\n');
+    const chunks = chunkDocument(code, 'typescript', { chunkSize: 1000, overlap: 0, maxTokens: 20 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.symbol === 'function big')).toBe(true);
+    expect(chunks[0].startLine).toBe(1);
+    expect(chunks[chunks.length - 1].endLine).toBe(8);
+  });
+});
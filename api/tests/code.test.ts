@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { splitCodeDeclarations } from '../src/lib/code';
+
+describe('splitCodeDeclarations', () => {
+  it('splits Python on unindented statements', () => {
+    const source = [
+      'import os',
+      'import sys',
+      '',
+      '@cache',
+      'def load(path):',
+      '    return """',
+      'def not_top():',
+      '"""',
+      '',
+      'class Loader:',
+      '    pass',
+    ].join('\n');
+    expect(splitCodeDeclarations(source, 'python')).toEqual([
+      { startLine: 1, endLine: 2, symbol: null },
+      { startLine: 4, endLine: 8, symbol: 'function load' },
+      { startLine: 10, endLine: 11, symbol: 'class Loader' },
+    ]);
+  });
+
+  it('names Go methods after their receiver', () => {
+    const source = [
+      'package main',
+      '',
+      'type Server struct {',
+      '  addr string',
+      '}',
+      '',
+      '// Start listens on addr.',
+      'func (s *Server) Start() error {',
+      '  return nil',
+      '}',
+    ].join('\n');
+    expect(splitCodeDeclarations(source, 'go')).toEqual([
+      { startLine: 1, endLine: 1, symbol: null },
+      { startLine: 3, endLine: 5, symbol: 'type Server' },
+      { startLine: 7, endLine: 10, symbol: 'method Server.Start' },
+    ]);
+  });
+
+  it('splits SQL on statement boundaries outside strings and trigger bodies', () => {
+    const source = [
+      '-- Users table',
+      'CREATE TABLE IF NOT EXISTS users (',
+      "  name TEXT DEFAULT ';'",
+      ');',
+      'CREATE TRIGGER touch AFTER UPDATE ON users BEGIN',
+      '  UPDATE users SET name = name;',
+      'END;',
+      'INSERT INTO "users" VALUES (1); -- seed',
+      'SELECT 1;',
+    ].join('\n');
+    expect(splitCodeDeclarations(source, 'sql')).toEqual([
+      { startLine: 1, endLine: 4, symbol: 'table users' },
+      { startLine: 5, endLine: 7, symbol: 'trigger touch' },
+      { startLine: 8, endLine: 8, symbol: 'insert into users' },
+      { startLine: 9, endLine: 9, symbol: null },
+    ]);
+  });
+});
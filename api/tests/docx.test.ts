@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { convertDocxToText, DocxError } from '../src/lib/docx';
+import { buildZip } from './helpers/zip-fixture';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function paragraph(text: string, properties = ''): string {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+const styles = `<?xml version="1.0" encoding="UTF-8"?>
+<w:styles ${W}>
+  <w:style w:type="paragraph" w:styleId="Titel"><w:name w:val="Title"/></w:style>
+  <w:style w:type="paragraph" w:styleId="berschrift2"><w:name w:val="heading 2"/></w:style>
+</w:styles>`;
+
+const numbering = `<?xml version="1.0" encoding="UTF-8"?>
+<w:numbering ${W}>
+  <w:abstractNum w:abstractNumId="0">
+    <w:lvl w:ilvl="0"><w:numFmt w:val="bullet"/></w:lvl>
+    <w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/></w:lvl>
+  </w:abstractNum>
+  <w:abstractNum w:abstractNumId="1"><w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl></w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+  <w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>
+</w:numbering>`;
+
+const list = (numId: number, level = 0) => `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`;
+
+const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W}>
+  <w:body>
+    ${paragraph('Travel Policy', '<w:pStyle w:val="Titel"/>')}
+    ${paragraph('Applies to all staff &amp; contractors.')}
+    ${paragraph('Booking', '<w:pStyle w:val="berschrift2"/>')}
+    ${paragraph('Use the portal', list(1))}
+    ${paragraph('Economy only', list(1, 1))}
+    ${paragraph('Submit receipts', list(2))}
+    ${paragraph('Get approval', list(2))}
+    <w:p><w:r><w:t>Line one</w:t><w:br/><w:t>Line two</w:t></w:r><w:del><w:r><w:delText>removed</w:delText></w:r></w:del></w:p>
+    <w:tbl>
+      <w:tr><w:tc>${paragraph('Region')}</w:tc><w:tc>${paragraph('Limit')}</w:tc></w:tr>
+      <w:tr><w:tc>${paragraph('EU')}</w:tc><w:tc>${paragraph('€150 | night')}</w:tc></w:tr>
+    </w:tbl>
+    <w:sectPr/>
+  </w:body>
+</w:document>`;
+
+describe('convertDocxToText', () => {
+  it('keeps headings, lists, paragraphs and tables', async () => {
+    const docx = await buildZip([
+      { name: '[Content_Types].xml', data: '<Types/>' },
+      { name: 'word/document.xml', data: documentXml, compress: true },
+      { name: 'word/styles.xml', data: styles },
+      { name: 'word/numbering.xml', data: numbering, compress: true },
+    ]);
+
+    expect(await convertDocxToText(docx)).toBe(
+      [
+        '# Travel Policy',
+        '',
+        'Applies to all staff & contractors.',
+        '',
+        '## Booking',
+        '',
+        '- Use the portal',
+        '  - Economy only',
+        '1. Submit receipts',
+        '2. Get approval',
+        '',
+        'Line one\nLine two',
+        '',
+        '| Region | Limit |',
+        '| --- | --- |',
+        '| EU | €150 \\| night |',
+      ].join('\n'),
+    );
+  });
+
+  it('rejects archives without a Word document', async () => {
+    const zip = await buildZip([{ name: 'readme.txt', data: 'hello' }]);
+    await expect(convertDocxToText(zip)).rejects.toBeInstanceOf(DocxError);
+    await expect(convertDocxToText(new TextEncoder().encode('not a zip'))).rejects.toThrow('not a valid .docx');
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { createEmbeddings, embeddingModelName, hashEmbedding, resolveEmbeddingProvider } from '../src/lib/embeddings';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'member',
+  })),
+}));
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0);
+}
+
+describe('embedding providers', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('hashes text into deterministic unit vectors without the network', async () => {
+    const { env } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'hash';
+    env.EMBEDDING_DIMENSIONS = '64';
+    const fetchMock = vi.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const [rotate, again, rotation, lunch, blank] = await createEmbeddings(env, [
+      'Rotate the API keys every quarter.',
+      'Rotate the API keys every quarter.',
+      'How often do we rotate keys?',
+      'The cafeteria serves lunch at noon.',
+      '',
+    ]);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(rotate).toHaveLength(64);
+    expect(again).toEqual(rotate);
+    expect(cosine(rotate, rotate)).toBeCloseTo(1);
+    expect(cosine(rotate, rotation)).toBeGreaterThan(cosine(rotate, lunch));
+    expect(blank).toEqual(hashEmbedding('   ', 64));
+    expect(embeddingModelName(env)).toBe('hash-v1-64');
+  });
+
+  it('posts to any OpenAI-compatible base URL', async () => {
+    const { env } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'openai-compatible';
+    env.EMBEDDING_BASE_URL = 'http://localhost:11434/v1/';
+    env.EMBEDDING_MODEL = 'nomic-embed-text';
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      const body = JSON.parse(init?.body as string);
+      const data = body.input.map((text: string, index: number) => ({ index, embedding: [text.length] }));
+      return new Response(JSON.stringify({ data }), { status: 200 });
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(createEmbeddings(env, ['hello', 'hi'])).resolves.toEqual([[5], [2]]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/embeddings');
+    expect(JSON.parse(init?.body as string).model).toBe('nomic-embed-text');
+    // Local servers usually need no key, so none of the OpenAI credentials leak to them.
+    expect((init?.headers as Record<string, string>).Authorization).toBeUndefined();
+
+    env.EMBEDDING_BASE_URL = undefined;
+    expect(() => resolveEmbeddingProvider(env)).toThrow('needs EMBEDDING_BASE_URL and EMBEDDING_MODEL');
+  });
+
+  it('runs Workers AI models through the AI binding', async () => {
+    const { env } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'workers-ai';
+    const run = vi.fn(async (_model: string, inputs: { text: string[] }) => ({
+      shape: [inputs.text.length, 2],
+      data: inputs.text.map((text) => [text.length, 0]),
+    }));
+
+    await expect(createEmbeddings(env, ['abc'])).rejects.toThrow('Missing AI binding');
+    env.AI = { run };
+    await expect(createEmbeddings(env, ['abc', 'de'])).resolves.toEqual([
+      [3, 0],
+      [2, 0],
+    ]);
+    expect(run).toHaveBeenCalledWith('@cf/baai/bge-base-en-v1.5', { text: ['abc', 'de'] });
+  });
+
+  it('rejects unknown providers', () => {
+    const { env } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'cohere';
+    expect(() => resolveEmbeddingProvider(env)).toThrow('Unknown EMBEDDING_PROVIDER "cohere"');
+  });
+
+  it('ingests a file offline with the hash provider', async () => {
+    const { env, db, r2, vector, ctx } = createTestEnv();
+    env.EMBEDDING_PROVIDER = 'hash';
+    const fetchMock = vi.fn(async () => new Response('offline', { status: 503 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      organization_id: 'default',
+      name: 'My Space',
+      visibility: 'personal',
+      owner_id: 'user@example.com',
+      team_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    db.files.set('file-1', {
+      id: 'file-1',
+      tenant: 'default',
+      organization_id: 'default',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      team_id: null,
+      visibility: 'personal',
+      file_name: 'notes.txt',
+      r2_key: 'users/user@example.com/private-root/file-1-notes.txt',
+      size: 30,
+      mime_type: 'text/plain',
+      status: 'uploading',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    await r2.put('users/user@example.com/private-root/file-1-notes.txt', 'Line one\nLine two\nLine three');
+
+    const response = await app.fetch(
+      new Request('https://example.com/api/ingest', {
+        method: 'POST',
+        body: JSON.stringify({ fileId: 'file-1' }),
+        headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(200);
+    expect(fetchMock).not.toHaveBeenCalled();
+    const upserted = vector.upserts.flatMap((entry) => entry.vector) as unknown as Array<{ values: number[] }>;
+    expect(upserted.length).toBeGreaterThan(0);
+    expect(upserted.every((entry) => entry.values.length === 256)).toBe(true);
+    expect(Array.from(db.embeddingCache.values()).map((entry) => entry.model)).toEqual(
+      upserted.map(() => 'hash-v1-256'),
+    );
+  });
+});
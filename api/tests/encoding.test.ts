@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText, decodeTextStream, detectEncodingFromPrefix } from '../src/lib/encoding';
+
+function utf16(text: string, littleEndian: boolean, bom: boolean): Uint8Array {
+  const bytes = new Uint8Array((text.length + (bom ? 1 : 0)) * 2);
+  const view = new DataView(bytes.buffer);
+  const units = (bom ? '\uFEFF' : '') + text;
+  for (let i = 0; i < units.length; i += 1) {
+    view.setUint16(i * 2, units.charCodeAt(i), littleEndian);
+  }
+  return bytes;
+}
+
+describe('decodeText', () => {
+  it('strips a UTF-8 byte-order mark', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('café')]);
+    expect(decodeText(bytes)).toEqual({ text: 'café', encoding: 'utf-8' });
+  });
+
+  it('decodes UTF-16 with and without a byte-order mark', () => {
+    expect(decodeText(utf16('Quarterly report', true, true))).toEqual({ text: 'Quarterly report', encoding: 'utf-16le' });
+    expect(decodeText(utf16('Quarterly report', false, true))).toEqual({ text: 'Quarterly report', encoding: 'utf-16be' });
+    expect(decodeText(utf16('line one\r\nline two', true, false))).toEqual({
+      text: 'line one\r\nline two',
+      encoding: 'utf-16le',
+    });
+  });
+
+  it('falls back to Windows-1252 when the bytes are not valid UTF-8', () => {
+    const bytes = new Uint8Array([0x93, 0x43, 0x61, 0x66, 0xe9, 0x94, 0x20, 0x80, 0x35]);
+    expect(decodeText(bytes)).toEqual({ text: '“Café” €5', encoding: 'windows-1252' });
+  });
+
+  it('normalises decomposed characters to NFC', () => {
+    const decoded = decodeText(new TextEncoder().encode('Cafe\u0301'));
+    expect(decoded.text).toBe('Caf\u00e9');
+    expect(decoded.encoding).toBe('utf-8');
+  });
+});
+
+describe('decodeTextStream', () => {
+  function streamOf(bytes: Uint8Array, readSize: number): ReadableStream<Uint8Array> {
+    return new ReadableStream({
+      start(controller) {
+        for (let start = 0; start < bytes.length; start += readSize) {
+          controller.enqueue(bytes.slice(start, start + readSize));
+        }
+        controller.close();
+      },
+    });
+  }
+
+  async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+    let text = '';
+    for await (const piece of decodeTextStream(stream)) {
+      text += piece;
+    }
+    return text;
+  }
+
+  it('decodes the same text as decodeText across split reads', async () => {
+    const text = Array.from({ length: 2000 }, (_, line) => `Zeile ${line}: Café crème – “quoted” 数据`).join('\r\n');
+    for (const bytes of [utf16(text, true, true), utf16(text, false, false), new TextEncoder().encode(text)]) {
+      expect(await readAll(streamOf(bytes, 333))).toBe(decodeText(bytes).text);
+    }
+    const cp1252 = new Uint8Array([0x93, 0x43, 0x61, 0x66, 0xe9, 0x94, 0x0a, 0x80, 0x35]);
+    expect(await readAll(streamOf(cp1252, 2))).toBe('“Café”\n€5');
+  });
+
+  it('detects UTF-8 from a prefix that ends mid-character', () => {
+    const prefix = new TextEncoder().encode('naïve café').subarray(0, 11);
+    expect(detectEncodingFromPrefix(prefix)).toBe('utf-8');
+    expect(decodeText(prefix).encoding).toBe('windows-1252');
+  });
+});
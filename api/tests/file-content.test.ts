@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { authenticateRequest } from '../src/lib/access';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'member',
+  })),
+}));
+
+const timestamp = new Date().toISOString();
+
+function seed(
+  context: ReturnType<typeof createTestEnv>,
+  file: { id: string; name: string; mimeType: string; textKey?: string },
+) {
+  context.db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    organization_id: 'default',
+    name: 'My Space',
+    visibility: 'personal',
+    owner_id: 'user@example.com',
+    team_id: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  const key = `users/user@example.com/private-root/${file.id}-${file.name}`;
+  context.db.files.set(file.id, {
+    id: file.id,
+    tenant: 'default',
+    organization_id: 'default',
+    folder_id: 'private-root',
+    owner_id: 'user@example.com',
+    team_id: null,
+    visibility: 'personal',
+    file_name: file.name,
+    r2_key: key,
+    text_r2_key: file.textKey ?? null,
+    size: 0,
+    mime_type: file.mimeType,
+    status: 'ready',
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  return key;
+}
+
+function content(fileId: string, query = '', headers: Record<string, string> = {}) {
+  return new Request(`https://example.com/api/files/${fileId}/content${query}`, {
+    headers: { 'cf-access-jwt-assertion': 'test-token', ...headers },
+  });
+}
+
+const numbered = Array.from({ length: 120 }, (_, index) => `line ${index + 1}`).join('\n') + '\n';
+
+describe('GET /api/files/:id/content', () => {
+  it('returns a cited line range with surrounding context', async () => {
+    const context = createTestEnv();
+    const key = seed(context, { id: 'log', name: 'server.log.txt', mimeType: 'text/plain' });
+    await context.r2.put(key, numbered);
+
+    const response = await app.fetch(content('log', '?lines=40-42&context=2'), context.env, context.ctx);
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as Record<string, unknown>;
+    expect(data).toMatchObject({ highlight: { start: 40, end: 42 }, start: 38, end: 44, totalLines: null, page: null });
+    expect(data.lines).toEqual([38, 39, 40, 41, 42, 43, 44].map((number) => ({ number, text: `line ${number}` })));
+
+    const tail = (await (await app.fetch(content('log', '?lines=119-125'), context.env, context.ctx)).json()) as Record<string, unknown>;
+    expect(tail).toMatchObject({ start: 119, end: 120, totalLines: 120 });
+
+    const outside = (await (await app.fetch(content('log', '?lines=130'), context.env, context.ctx)).json()) as { error: string };
+    expect(outside.error).toBe('The file has only 120 lines.');
+
+    const invalid = (await (await app.fetch(content('log', '?lines=1-5000'), context.env, context.ctx)).json()) as { error: string };
+    expect(invalid.error).toBe('Request at most 1000 lines at a time.');
+  });
+
+  it('numbers PDF lines per page from the extracted text', async () => {
+    const context = createTestEnv();
+    const textKey = 'users/user@example.com/private-root/report-report.pdf.extracted.txt';
+    seed(context, { id: 'report', name: 'report.pdf', mimeType: 'application/pdf', textKey });
+    await context.r2.put(textKey, 'Summary\nRevenue grew.\n\fRisks\nSupply chain\nCurrency');
+
+    const page = (await (await app.fetch(content('report', '?page=2&lines=2-3'), context.env, context.ctx)).json()) as Record<
+      string,
+      unknown
+    >;
+    expect(page).toMatchObject({ page: 2, totalLines: 3 });
+    expect(page.lines).toEqual([
+      { number: 2, text: 'Supply chain' },
+      { number: 3, text: 'Currency' },
+    ]);
+
+    const missing = (await (await app.fetch(content('report', '?page=3'), context.env, context.ctx)).json()) as { error: string };
+    expect(missing.error).toBe('The file has only 2 pages.');
+  });
+
+  it('streams the original object with ranges and download disposition', async () => {
+    const context = createTestEnv();
+    const key = seed(context, { id: 'notes', name: 'notes.txt', mimeType: 'text/plain' });
+    await context.r2.put(key, 'Quarterly notes\nRevenue grew.', { httpMetadata: { contentType: 'text/plain' } });
+
+    const whole = await app.fetch(content('notes', '?download=1'), context.env, context.ctx);
+    expect(whole.status).toBe(200);
+    expect(whole.headers.get('Content-Disposition')).toBe(`attachment; filename="notes.txt"; filename*=UTF-8''notes.txt`);
+    expect(whole.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(await whole.text()).toBe('Quarterly notes\nRevenue grew.');
+
+    const partial = await app.fetch(content('notes', '', { Range: 'bytes=10-14' }), context.env, context.ctx);
+    expect(partial.status).toBe(206);
+    expect(partial.headers.get('Content-Range')).toBe('bytes 10-14/29');
+    expect(partial.headers.get('Content-Disposition')).toMatch(/^inline;/);
+    expect(await partial.text()).toBe('notes');
+
+    const suffix = await app.fetch(content('notes', '', { Range: 'bytes=-5' }), context.env, context.ctx);
+    expect(await suffix.text()).toBe('grew.');
+
+    const unsatisfiable = (await (
+      await app.fetch(content('notes', '', { Range: 'bytes=500-' }), context.env, context.ctx)
+    ).json()) as { error: string };
+    expect(unsatisfiable.error).toBe('Range not satisfiable for a 29 byte object.');
+  });
+
+  it('applies the file list visibility rules', async () => {
+    const context = createTestEnv();
+    const key = seed(context, { id: 'private', name: 'private.txt', mimeType: 'text/plain' });
+    await context.r2.put(key, 'secret');
+    for (const id of ['user@example.com', 'other@example.com']) {
+      context.db.users.set(id, {
+        id,
+        email: id,
+        display_name: null,
+        avatar_url: null,
+        tenant: 'default',
+        organization_id: 'default',
+        organization_role: 'member',
+        username: null,
+        title: null,
+        last_seen: timestamp,
+        created_at: timestamp,
+      });
+    }
+    const asOther = () =>
+      vi.mocked(authenticateRequest).mockResolvedValueOnce({
+        id: 'other@example.com',
+        email: 'other@example.com',
+        displayName: 'Other',
+        tenant: 'default',
+        organizationId: 'default',
+        organizationRole: 'member',
+      });
+
+    asOther();
+    const hidden = (await (await app.fetch(content('private'), context.env, context.ctx)).json()) as { error: string };
+    expect(hidden.error).toBe('File not found');
+
+    context.db.filePermissions.set(
+      'private',
+      new Map([
+        [
+          'other@example.com',
+          { file_id: 'private', user_id: 'other@example.com', access_level: 'viewer', granted_by: 'user@example.com', created_at: timestamp },
+        ],
+      ]),
+    );
+    asOther();
+    const shared = await app.fetch(content('private'), context.env, context.ctx);
+    expect(shared.status).toBe(200);
+    expect(await shared.text()).toBe('secret');
+  });
+});
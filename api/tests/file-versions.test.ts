@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { authenticateRequest } from '../src/lib/access';
+import { updateFileTextKey } from '../src/lib/db';
+import { handleIngestionQueue } from '../src/lib/ingestion-queue';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'member',
+  })),
+}));
+
+const timestamp = new Date().toISOString();
+const key = 'users/user@example.com/private-root/file-1-handbook.md';
+
+function seed(context: ReturnType<typeof createTestEnv>) {
+  context.db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    organization_id: 'default',
+    name: 'My Space',
+    visibility: 'personal',
+    owner_id: 'user@example.com',
+    team_id: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  context.db.files.set('file-1', {
+    id: 'file-1',
+    tenant: 'default',
+    organization_id: 'default',
+    folder_id: 'private-root',
+    owner_id: 'user@example.com',
+    team_id: null,
+    visibility: 'personal',
+    file_name: 'handbook.md',
+    r2_key: key,
+    size: 40,
+    mime_type: 'text/markdown',
+    status: 'ready',
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+}
+
+function api(path: string, init: RequestInit = {}) {
+  return new Request(`https://example.com/api${path}`, {
+    ...init,
+    headers: { 'cf-access-jwt-assertion': 'test-token', ...init.headers },
+  });
+}
+
+function uploadVersion(content: string, name = 'handbook.md', type = 'text/markdown') {
+  const form = new FormData();
+  form.append('file', new File([content], name, { type }));
+  return api('/files/file-1/versions', { method: 'POST', body: form });
+}
+
+async function ingestQueued(context: ReturnType<typeof createTestEnv>) {
+  await context.queue.drain((batch) => handleIngestionQueue(batch, context.env));
+}
+
+function chunkContents(context: ReturnType<typeof createTestEnv>) {
+  return Array.from(context.db.chunks.values()).map((chunk) => chunk.content);
+}
+
+describe('file versions', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = vi.fn(async (input, init) => {
+      if (typeof input === 'string' && input.endsWith('/embeddings')) {
+        const body = JSON.parse(init?.body as string);
+        const data = body.input.map(() => ({ embedding: [0.1, 0.2, 0.3] }));
+        return new Response(JSON.stringify({ data }), { status: 200 });
+      }
+      return new Response('{}', { status: 200 });
+    });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('uploads a revision under the same id and re-indexes from it', async () => {
+    const context = createTestEnv();
+    const { env, ctx, db, r2, vector } = context;
+    seed(context);
+    await r2.put(key, '# Setup\nInstall the CLI.\n\n# Usage\nRun marble sync.');
+
+    const initial = (await (await app.fetch(api('/files/file-1/versions'), env, ctx)).json()) as {
+      versions: Array<{ version: number; current: boolean }>;
+    };
+    expect(initial.versions).toEqual([expect.objectContaining({ version: 1, current: true, name: 'handbook.md' })]);
+
+    await app.fetch(api('/ingest', { method: 'POST', body: JSON.stringify({ fileId: 'file-1' }) }), env, ctx);
+    const firstIds = new Map(Array.from(db.chunks.values()).map((chunk) => [chunk.content, chunk.id]));
+
+    const uploaded = await app.fetch(uploadVersion('# Setup\nInstall the CLI.\n\n# Usage\nRun marble sync --watch.'), env, ctx);
+    expect(uploaded.status).toBe(201);
+    expect(await uploaded.json()).toMatchObject({ fileId: 'file-1', version: { version: 2, current: true } });
+    const versionKey = 'users/user@example.com/private-root/file-1-v2-handbook.md';
+    expect(db.files.get('file-1')).toMatchObject({ current_version: 2, r2_key: versionKey, status: 'queued' });
+    expect(r2.objects.has(key)).toBe(true);
+
+    await ingestQueued(context);
+    expect(db.files.get('file-1')?.status).toBe('ready');
+    expect(chunkContents(context)).toContain('# Usage\nRun marble sync --watch.');
+    expect(chunkContents(context)).not.toContain('# Usage\nRun marble sync.');
+    expect(vector.deletions.flatMap((entry) => entry.ids)).toEqual([firstIds.get('# Usage\nRun marble sync.')]);
+
+    const listed = (await (await app.fetch(api('/files/file-1/versions'), env, ctx)).json()) as {
+      currentVersion: number;
+      versions: Array<{ version: number; current: boolean }>;
+    };
+    expect(listed.currentVersion).toBe(2);
+    expect(listed.versions.map(({ version, current }) => ({ version, current }))).toEqual([
+      { version: 2, current: true },
+      { version: 1, current: false },
+    ]);
+
+    const restored = await app.fetch(api('/files/file-1/versions/1/restore', { method: 'POST' }), env, ctx);
+    expect(await restored.json()).toMatchObject({ version: { version: 1, current: true } });
+    expect(db.files.get('file-1')).toMatchObject({ current_version: 1, r2_key: key });
+    await ingestQueued(context);
+    expect(chunkContents(context)).toContain('# Usage\nRun marble sync.');
+    expect(chunkContents(context)).not.toContain('# Usage\nRun marble sync --watch.');
+
+    const again = (await (await app.fetch(api('/files/file-1/versions/1/restore', { method: 'POST' }), env, ctx)).json()) as {
+      error: string;
+    };
+    expect(again.error).toBe('Version 1 is already current.');
+  });
+
+  it('records the size of the revision as stored', async () => {
+    const context = createTestEnv();
+    const { env, ctx, db, r2 } = context;
+    seed(context);
+    await r2.put(key, '# Menu\nTea.');
+
+    // "# Menu\nCafé." in Windows-1252 is 12 bytes; the é takes two once stored as UTF-8.
+    const form = new FormData();
+    form.append('file', new File([new Uint8Array([...new TextEncoder().encode('# Menu\nCaf'), 0xe9, 0x2e])], 'handbook.md', { type: 'text/markdown' }));
+    const uploaded = await app.fetch(api('/files/file-1/versions', { method: 'POST', body: form }), env, ctx);
+    expect(uploaded.status).toBe(201);
+
+    const versionKey = 'users/user@example.com/private-root/file-1-v2-handbook.md';
+    expect(await (await r2.get(versionKey))?.text()).toBe('# Menu\nCafé.');
+    expect(db.files.get('file-1')).toMatchObject({ size: 13, source_encoding: 'windows-1252' });
+  });
+
+  it('renames the file to the version it points at', async () => {
+    const context = createTestEnv();
+    const { env, ctx, db, r2 } = context;
+    seed(context);
+    await r2.put(key, '# Setup\nInstall the CLI.');
+
+    const uploaded = await app.fetch(uploadVersion('# Setup\nInstall the CLI with brew.', 'handbook-2025.md'), env, ctx);
+    expect(uploaded.status).toBe(201);
+    expect(db.files.get('file-1')).toMatchObject({
+      file_name: 'handbook-2025.md',
+      r2_key: 'users/user@example.com/private-root/file-1-v2-handbook-2025.md',
+    });
+
+    await app.fetch(api('/files/file-1/versions/1/restore', { method: 'POST' }), env, ctx);
+    expect(db.files.get('file-1')).toMatchObject({ file_name: 'handbook.md', r2_key: key });
+  });
+
+  it('deletes every version with the file', async () => {
+    const context = createTestEnv();
+    const { env, ctx, db, r2 } = context;
+    seed(context);
+    await r2.put(key, '# Setup\nInstall the CLI.');
+    await app.fetch(uploadVersion('# Setup\nInstall the new CLI.'), env, ctx);
+    expect(r2.objects.size).toBe(2);
+
+    const response = await app.fetch(api('/files/file-1', { method: 'DELETE' }), env, ctx);
+    expect(await response.json()).toEqual({ deleted: true });
+    expect(r2.objects.size).toBe(0);
+    expect(db.fileVersions.size).toBe(0);
+  });
+
+  it('keeps extracted text with the version it came from and deletes it with the file', async () => {
+    const context = createTestEnv();
+    const { env, ctx, db, r2 } = context;
+    seed(context);
+    await r2.put(key, '# Setup\nInstall the CLI.');
+    await app.fetch(uploadVersion('# Setup\nInstall the new CLI.'), env, ctx);
+
+    // Text extracted from version 1 by an ingestion that finished after version 2 was uploaded.
+    const textKey = `${key}.extracted.txt`;
+    await r2.put(textKey, 'Install the CLI.');
+    await updateFileTextKey(env, 'file-1', key, textKey);
+    const versions = Array.from(db.fileVersions.values());
+    expect(versions.find((version) => version.version === 1)?.text_r2_key).toBe(textKey);
+    expect(versions.find((version) => version.version === 2)?.text_r2_key).toBeNull();
+    expect(db.files.get('file-1')?.text_r2_key ?? null).toBeNull();
+
+    await app.fetch(api('/files/file-1/versions/1/restore', { method: 'POST' }), env, ctx);
+    expect(db.files.get('file-1')?.text_r2_key).toBe(textKey);
+
+    await app.fetch(api('/files/file-1', { method: 'DELETE' }), env, ctx);
+    expect(r2.objects.size).toBe(0);
+  });
+
+  it('rejects other document types and uploads by non-owners', async () => {
+    const context = createTestEnv();
+    const { env, ctx, db } = context;
+    seed(context);
+
+    const wrongType = (await (await app.fetch(uploadVersion('a,b\n1,2', 'handbook.csv', 'text/csv'), env, ctx)).json()) as {
+      error: string;
+    };
+    expect(wrongType.error).toBe('A new version must be the same kind of document as handbook.md.');
+
+    vi.mocked(authenticateRequest).mockResolvedValueOnce({
+      id: 'other@example.com',
+      email: 'other@example.com',
+      displayName: 'Other User',
+      tenant: 'default',
+      organizationId: 'default',
+      organizationRole: 'member',
+    });
+    const other = (await (await app.fetch(uploadVersion('# Setup\nTaken over.'), env, ctx)).json()) as { error: string };
+    expect(other.error).toBe('You can only change versions of files you own.');
+    expect(db.fileVersions.size).toBe(0);
+    expect(db.files.get('file-1')?.current_version).toBeUndefined();
+  });
+});
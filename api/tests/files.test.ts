@@ -116,4 +116,54 @@ describe('files route permissions', () => {
     expect(storedKeys.some((key) => key.includes('shared-owned'))).toBe(true);
     expect(db.files.size).toBe(1);
   });
+
+  it('records the stored size of re-encoded text uploads', async () => {
+    const { env, db, r2, ctx } = createTestEnv();
+    db.folders.set('shared-owned', {
+      id: 'shared-owned',
+      tenant: 'default',
+      organization_id: 'default',
+      name: 'My Shared Docs',
+      visibility: 'organization',
+      owner_id: 'user@example.com',
+      team_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    // "Hello world" as UTF-16LE with a BOM: 24 bytes uploaded, 11 stored as UTF-8.
+    const utf16 = new Uint8Array([0xff, 0xfe, ...Array.from('Hello world').flatMap((char) => [char.charCodeAt(0), 0])]);
+
+    const form = new FormData();
+    form.append('file', new File([utf16], 'notes.txt', { type: 'text/plain' }));
+    form.append('folderId', 'shared-owned');
+    form.append('visibility', 'organization');
+    const created = await app.fetch(
+      new Request('https://example.com/api/files', {
+        method: 'POST',
+        body: form,
+        headers: { 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(created.status).toBe(201);
+
+    const direct = await app.fetch(
+      new Request(
+        'https://example.com/api/upload-direct?folderId=shared-owned&folderName=My%20Shared%20Docs&visibility=organization&fileName=direct.txt&size=999',
+        { method: 'POST', body: utf16, headers: { 'cf-access-jwt-assertion': 'test-token' } },
+      ),
+      env,
+      ctx,
+    );
+    expect(direct.status).toBe(200);
+
+    const files = Array.from(db.files.values());
+    expect(files).toHaveLength(2);
+    for (const file of files) {
+      expect(file.size).toBe(11);
+      expect((await r2.head(file.r2_key))?.size).toBe(11);
+    }
+  });
 });
@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { enqueueIngestion } from '../src/lib/ingestion-queue';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'owner',
+  })),
+}));
+
+const timestamp = new Date().toISOString();
+
+function patchFolder(id: string, body: unknown) {
+  return new Request(`https://example.com/api/folders/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+    headers: { 'cf-access-jwt-assertion': 'test-token', 'content-type': 'application/json' },
+  });
+}
+
+describe('folder chunking configuration', () => {
+  it('stores the configuration and re-ingests the folder when it changes', async () => {
+    const { env, db, queue, ctx } = createTestEnv();
+    db.folders.set('research', {
+      id: 'research',
+      tenant: 'default',
+      organization_id: 'default',
+      name: 'Research',
+      visibility: 'organization',
+      owner_id: 'user@example.com',
+      team_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    db.files.set('paper', {
+      id: 'paper',
+      tenant: 'default',
+      organization_id: 'default',
+      folder_id: 'research',
+      owner_id: 'colleague@example.com',
+      team_id: null,
+      visibility: 'organization',
+      file_name: 'paper.txt',
+      r2_key: 'org/research/paper.txt',
+      size: 10,
+      mime_type: 'text/plain',
+      status: 'ready',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+
+    const chunking = { strategy: 'sentence', chunkSize: 800, overlap: 100 };
+    const response = await app.fetch(patchFolder('research', { chunking }), env, ctx);
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as { folder: { chunking: unknown }; reingesting: number };
+    expect(data.folder.chunking).toEqual(chunking);
+    expect(data.reingesting).toBe(1);
+    const [job] = db.dump().ingestionJobs;
+    expect(job).toMatchObject({ file_id: 'paper', requested_by: 'colleague@example.com', status: 'queued' });
+    expect(queue.messages).toEqual([{ jobId: job.id }]);
+    expect(db.files.get('paper')?.status).toBe('queued');
+    expect(db.folders.get('research')?.chunking_strategy).toBe('sentence');
+
+    queue.messages = [];
+    const unchanged = await app.fetch(patchFolder('research', { name: 'Papers', chunking }), env, ctx);
+    expect(((await unchanged.json()) as { reingesting: number }).reingesting).toBe(0);
+    expect(queue.messages).toHaveLength(0);
+  });
+
+  it('leaves uploads still in flight alone when the settings change', async () => {
+    const { env, db, queue, ctx } = createTestEnv();
+    db.folders.set('research', {
+      id: 'research',
+      tenant: 'default',
+      organization_id: 'default',
+      name: 'Research',
+      visibility: 'organization',
+      owner_id: 'user@example.com',
+      team_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    for (const [id, status] of [
+      ['paper', 'ready'],
+      ['draft', 'uploading'],
+    ] as const) {
+      db.files.set(id, {
+        id,
+        tenant: 'default',
+        organization_id: 'default',
+        folder_id: 'research',
+        owner_id: 'user@example.com',
+        team_id: null,
+        visibility: 'organization',
+        file_name: `${id}.txt`,
+        r2_key: `org/research/${id}.txt`,
+        size: 10,
+        mime_type: 'text/plain',
+        status,
+        created_at: timestamp,
+        updated_at: timestamp,
+        deleted_at: null,
+      });
+    }
+
+    const response = await app.fetch(patchFolder('research', { chunking: { strategy: 'sentence', chunkSize: 800, overlap: 100 } }), env, ctx);
+    expect(((await response.json()) as { reingesting: number }).reingesting).toBe(1);
+    expect(db.dump().ingestionJobs.map((job) => job.file_id)).toEqual(['paper']);
+    expect(queue.messages).toHaveLength(1);
+    expect(db.files.get('draft')?.status).toBe('uploading');
+
+    // Even when asked directly, a file is only moved out of `uploading` by the route that finished it.
+    expect(await enqueueIngestion(env, ctx, { fileId: 'draft', organisationId: 'default', requestedBy: 'user@example.com' })).toBeNull();
+    expect(db.files.get('draft')?.status).toBe('uploading');
+  });
+
+  it('rejects an overlap that is not smaller than the chunk size', async () => {
+    const { env, ctx } = createTestEnv();
+    const response = await app.fetch(
+      patchFolder('research', { chunking: { strategy: 'fixed', chunkSize: 200, overlap: 200 } }),
+      env,
+      ctx,
+    );
+    const data = (await response.json()) as { error: string };
+    expect(data.error).toContain('Chunk overlap must be smaller than the chunk size');
+  });
+});
@@ -1,11 +1,16 @@
 // @ts-nocheck
 import type {
+  ChunkKind,
   ChunkRecord,
   FilePermissionRecord,
+  FilePiiFindingRecord,
   FileRecord,
+  FileVersionRecord,
   FolderRecord,
+  IngestionJobRecord,
   OrganisationRecord,
   OrganisationRosterEntry,
+  ReindexJobRecord,
   TeamMemberRecord,
   TeamRecord,
   Visibility,
@@ -47,10 +52,19 @@ export class MockD1 implements D1Database {
   users = new Map<string, UserRow>();
   folders = new Map<string, FolderRecord & { deleted_at?: string | null }>();
   files = new Map<string, FileRecord & { deleted_at?: string | null }>();
+  fileVersions = new Map<string, FileVersionRecord>();
   chunks = new Map<string, ChunkRecord>();
   teams = new Map<string, TeamRecord>();
   teamMembers = new Map<string, TeamMemberRecord>();
   filePermissions = new Map<string, Map<string, FilePermissionRecord>>();
+  ingestionJobs = new Map<string, IngestionJobRecord>();
+  embeddingCache = new Map<string, { model: string; content_hash: string; dimensions: number; embedding: string; created_at: string }>();
+  reindexJobs = new Map<string, ReindexJobRecord>();
+  piiFindings = new Map<string, FilePiiFindingRecord>();
+  fileTags = new Map<string, { file_id: string; organization_id: string; tag: string; score: number; source: string; created_at: string }>();
+  // chunks_fts: chunk id → indexed content.
+  chunkFts = new Map<string, string>();
+  fileTerms = new Map<string, { file_id: string; organization_id: string; term: string; frequency: number }>();
   messages: unknown[] = [];
 
   prepare(query: string) {
@@ -100,10 +114,17 @@ export class MockD1 implements D1Database {
       teams: Array.from(this.teams.values()),
       teamMembers: Array.from(this.teamMembers.values()),
       permissions: Array.from(this.filePermissions.entries()),
+      ingestionJobs: Array.from(this.ingestionJobs.values()),
       messages: this.messages,
     };
   }
 
+  private reindexableFiles(organisationId: string) {
+    return Array.from(this.files.values())
+      .filter((file) => file.organization_id === organisationId && file.status === 'ready' && !file.deleted_at)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
   private execute(query: string, args: unknown[]): RunResult | unknown[] | unknown | null {
     const normalized = query.replace(/\s+/g, ' ').trim().toUpperCase();
 
@@ -124,6 +145,38 @@ export class MockD1 implements D1Database {
       return { meta: { changes: existing ? 0 : 1 } };
     }
 
+    if (normalized.startsWith('SELECT MAX_UPLOAD_BYTES FROM ORGANISATIONS')) {
+      const [id] = args as [string];
+      const organisation = this.organisations.get(id);
+      return organisation ? { max_upload_bytes: organisation.max_upload_bytes ?? null } : null;
+    }
+
+    if (normalized.startsWith('UPDATE ORGANISATIONS SET MAX_UPLOAD_BYTES')) {
+      const [id, maxUploadBytes] = args as [string, number | null];
+      const organisation = this.organisations.get(id);
+      if (organisation) {
+        organisation.max_upload_bytes = maxUploadBytes ?? null;
+        organisation.updated_at = isoNow();
+      }
+      return { meta: { changes: organisation ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('SELECT PII_POLICY FROM ORGANISATIONS')) {
+      const [id] = args as [string];
+      const organisation = this.organisations.get(id);
+      return organisation ? { pii_policy: organisation.pii_policy ?? null } : null;
+    }
+
+    if (normalized.startsWith('UPDATE ORGANISATIONS SET PII_POLICY')) {
+      const [id, policy] = args as [string, string];
+      const organisation = this.organisations.get(id);
+      if (organisation) {
+        organisation.pii_policy = policy;
+        organisation.updated_at = isoNow();
+      }
+      return { meta: { changes: organisation ? 1 : 0 } };
+    }
+
     if (normalized.startsWith('INSERT OR IGNORE INTO ORGANISATIONS')) {
       const [id, slug, name] = args as [string, string, string];
       const now = isoNow();
@@ -359,6 +412,29 @@ export class MockD1 implements D1Database {
           updated_at: updatedAt,
           deleted_at: null,
         });
+      } else if (args.length === 8) {
+        const [id, tenant, organisationId, ownerId, name, visibility, teamId, createdAt] = args as [
+          string,
+          string,
+          string,
+          string | null,
+          string,
+          string,
+          string | null,
+          string,
+        ];
+        this.folders.set(id, {
+          id,
+          tenant,
+          organization_id: organisationId,
+          name,
+          visibility: toVisibility(visibility),
+          owner_id: ownerId ?? null,
+          team_id: teamId ?? null,
+          created_at: createdAt,
+          updated_at: createdAt,
+          deleted_at: null,
+        });
       } else {
         const [id, tenant, organisationId, name, visibility, ownerId, teamId] = args as [
           string,
@@ -388,13 +464,16 @@ export class MockD1 implements D1Database {
     }
 
     if (normalized.startsWith('UPDATE FOLDERS SET NAME')) {
-      const [id, name, visibility, ownerId, teamId, organisationId] = args as [
+      const [id, name, visibility, ownerId, teamId, organisationId, chunkingStrategy, chunkSize, chunkOverlap] = args as [
         string,
         string,
         string,
         string | null,
         string | null,
         string,
+        string | null,
+        number | null,
+        number | null,
       ];
       const folder = this.folders.get(id);
       if (folder && folder.organization_id === organisationId) {
@@ -402,6 +481,9 @@ export class MockD1 implements D1Database {
         folder.visibility = toVisibility(visibility);
         folder.owner_id = ownerId ?? folder.owner_id;
         folder.team_id = teamId ?? null;
+        folder.chunking_strategy = chunkingStrategy ?? null;
+        folder.chunk_size = chunkSize ?? null;
+        folder.chunk_overlap = chunkOverlap ?? null;
         folder.updated_at = isoNow();
         return { meta: { changes: 1 } };
       }
@@ -421,7 +503,9 @@ export class MockD1 implements D1Database {
 
     if (normalized.includes('FROM FOLDERS F LEFT JOIN FILES FI')) {
       const organisationId = args[0] as string;
-      const remainingArgs = args.slice(1);
+      // The tag filter, when present, is the last binding.
+      const tag = normalized.includes('FILE_TAGS') ? (args[args.length - 1] as string) : undefined;
+      const remainingArgs = args.slice(1, tag === undefined ? undefined : -1);
       const results = Array.from(this.folders.values())
         .filter((folder) => folder.organization_id === organisationId && !folder.deleted_at)
         .filter((folder) => {
@@ -464,7 +548,7 @@ export class MockD1 implements D1Database {
         .map((folder) => {
           const owner = folder.owner_id ? this.users.get(folder.owner_id) : undefined;
           const fileCount = Array.from(this.files.values()).filter(
-            (file) => file.folder_id === folder.id && !file.deleted_at,
+            (file) => file.folder_id === folder.id && !file.deleted_at && (!tag || this.fileTags.has(`${file.id}:${tag}`)),
           ).length;
           return {
             ...folder,
@@ -473,6 +557,7 @@ export class MockD1 implements D1Database {
             owner_display_name: owner?.display_name ?? null,
           };
         })
+        .filter((folder) => !tag || folder.file_count > 0)
         .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
       return results;
     }
@@ -491,6 +576,20 @@ export class MockD1 implements D1Database {
       };
     }
 
+    if (normalized.startsWith('SELECT ID, TENANT, ORGANIZATION_ID, NAME, VISIBILITY, OWNER_ID, TEAM_ID')) {
+      const [id, organisationId] = args as [string, string];
+      const folder = this.folders.get(id);
+      return folder && folder.organization_id === organisationId ? { ...folder } : null;
+    }
+
+    if (normalized.startsWith('SELECT ID, OWNER_ID FROM FILES WHERE FOLDER_ID')) {
+      const [folderId, organisationId] = args as [string, string];
+      return Array.from(this.files.values())
+        .filter((file) => file.folder_id === folderId && file.organization_id === organisationId && !file.deleted_at)
+        .filter((file) => file.status === 'ready' || file.status === 'failed')
+        .map((file) => ({ id: file.id, owner_id: file.owner_id }));
+    }
+
     if (normalized.startsWith('SELECT COUNT(*) AS COUNT FROM FILES')) {
       const [folderId, organisationId] = args as [string, string];
       const count = Array.from(this.files.values()).filter(
@@ -513,6 +612,7 @@ export class MockD1 implements D1Database {
         size,
         mimeType,
         status,
+        sourceEncoding,
       ] = args as [
         string,
         string,
@@ -526,6 +626,7 @@ export class MockD1 implements D1Database {
         number,
         string | null,
         FileRecord['status'],
+        string | null,
       ];
       const now = isoNow();
       this.files.set(id, {
@@ -541,6 +642,7 @@ export class MockD1 implements D1Database {
         size,
         mime_type: mimeType ?? null,
         status,
+        source_encoding: sourceEncoding ?? null,
         created_at: now,
         updated_at: now,
         deleted_at: null,
@@ -548,6 +650,17 @@ export class MockD1 implements D1Database {
       return { meta: { changes: 1 } };
     }
 
+    if (normalized.startsWith("UPDATE FILES SET STATUS = 'QUEUED'")) {
+      const [fileId, uploaded] = args as [string, number];
+      const file = this.files.get(fileId);
+      if (!file || (file.status === 'uploading' && uploaded !== 1)) {
+        return { meta: { changes: 0 } };
+      }
+      file.status = 'queued';
+      file.updated_at = isoNow();
+      return { meta: { changes: 1 } };
+    }
+
     if (normalized.startsWith('UPDATE FILES SET STATUS')) {
       const [fileId, status] = args as [string, FileRecord['status']];
       const file = this.files.get(fileId);
@@ -558,6 +671,356 @@ export class MockD1 implements D1Database {
       return { meta: { changes: file ? 1 : 0 } };
     }
 
+    if (normalized.startsWith('INSERT INTO INGESTION_JOBS')) {
+      const [id, fileId, organisationId, requestedBy, maxAttempts, now] = args as [string, string, string, string, number, string];
+      this.ingestionJobs.set(id, {
+        id,
+        file_id: fileId,
+        organization_id: organisationId,
+        requested_by: requestedBy,
+        status: 'queued',
+        attempts: 0,
+        max_attempts: maxAttempts,
+        chunks_total: null,
+        chunks_done: 0,
+        last_error: null,
+        next_attempt_at: null,
+        started_at: null,
+        completed_at: null,
+        created_at: now,
+        updated_at: now,
+      });
+      return { meta: { changes: 1 } };
+    }
+
+    if (normalized.startsWith('SELECT ID, FILE_ID, ORGANIZATION_ID, REQUESTED_BY')) {
+      const [key] = args as [string];
+      if (normalized.includes('WHERE FILE_ID = ?1')) {
+        // Insertion order stands in for created_at, which can tie within a millisecond.
+        const jobs = Array.from(this.ingestionJobs.values()).filter((job) => job.file_id === key);
+        return jobs.length ? { ...jobs[jobs.length - 1] } : null;
+      }
+      const job = this.ingestionJobs.get(key);
+      return job ? { ...job } : null;
+    }
+
+    if (normalized.startsWith("UPDATE INGESTION_JOBS SET STATUS = 'PROCESSING'")) {
+      const [jobId, attempt, now] = args as [string, number, string];
+      const job = this.ingestionJobs.get(jobId);
+      if (job) {
+        Object.assign(job, {
+          status: 'processing',
+          attempts: attempt,
+          chunks_done: 0,
+          next_attempt_at: null,
+          started_at: job.started_at ?? now,
+          updated_at: now,
+        });
+      }
+      return { meta: { changes: job ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('UPDATE INGESTION_JOBS SET CHUNKS_DONE')) {
+      const [jobId, chunksDone, chunksTotal, now] = args as [string, number, number, string];
+      const job = this.ingestionJobs.get(jobId);
+      if (job) {
+        Object.assign(job, { chunks_done: chunksDone, chunks_total: chunksTotal, updated_at: now });
+      }
+      return { meta: { changes: job ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('UPDATE INGESTION_JOBS SET STATUS = ?2')) {
+      const [jobId, status, lastError, nextAttemptAt, completedAt, now] = args as [
+        string,
+        IngestionJobRecord['status'],
+        string | null,
+        string | null,
+        string | null,
+        string,
+      ];
+      const job = this.ingestionJobs.get(jobId);
+      if (job) {
+        Object.assign(job, {
+          status,
+          last_error: lastError,
+          next_attempt_at: nextAttemptAt,
+          completed_at: completedAt,
+          updated_at: now,
+        });
+      }
+      return { meta: { changes: job ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('UPDATE FILES SET SOURCE_ENCODING')) {
+      const [fileId, encoding] = args as [string, string | null];
+      const file = this.files.get(fileId);
+      if (file) {
+        file.source_encoding = encoding ?? null;
+        file.updated_at = isoNow();
+      }
+      return { meta: { changes: file ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('UPDATE FILES SET SUMMARY_ABSTRACT')) {
+      const [fileId, abstract, keyPoints, model, sourceHash, summarizedAt] = args as [
+        string,
+        string | null,
+        string | null,
+        string | null,
+        string | null,
+        string | null,
+      ];
+      const file = this.files.get(fileId);
+      if (file) {
+        Object.assign(file, {
+          summary_abstract: abstract,
+          summary_key_points: keyPoints,
+          summary_model: model,
+          summary_source_hash: sourceHash,
+          summarized_at: summarizedAt,
+        });
+      }
+      return { meta: { changes: file ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('UPDATE FILES SET PII_SUMMARY')) {
+      const [fileId, summary] = args as [string, string | null];
+      const file = this.files.get(fileId);
+      if (file) {
+        file.pii_summary = summary ?? null;
+        file.updated_at = isoNow();
+      }
+      return { meta: { changes: file ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('DELETE FROM FILE_PII_FINDINGS WHERE FILE_ID')) {
+      const [fileId] = args as [string];
+      let changes = 0;
+      for (const [id, finding] of this.piiFindings) {
+        if (finding.file_id === fileId) {
+          this.piiFindings.delete(id);
+          changes += 1;
+        }
+      }
+      return { meta: { changes } };
+    }
+
+    if (normalized.startsWith('INSERT INTO FILE_PII_FINDINGS')) {
+      const [id, fileId, organisationId, kind, preview, startLine, endLine, pageNumber, createdAt] = args as [
+        string,
+        string,
+        string,
+        string,
+        string,
+        number,
+        number,
+        number | null,
+        string,
+      ];
+      this.piiFindings.set(id, {
+        id,
+        file_id: fileId,
+        organization_id: organisationId,
+        kind,
+        preview,
+        start_line: startLine,
+        end_line: endLine,
+        page_number: pageNumber ?? null,
+        created_at: createdAt,
+      });
+      return { meta: { changes: 1 } };
+    }
+
+    if (normalized.startsWith('SELECT ID, FILE_ID, ORGANIZATION_ID, KIND, PREVIEW')) {
+      const [fileId] = args as [string];
+      return Array.from(this.piiFindings.values())
+        .filter((finding) => finding.file_id === fileId)
+        .sort((a, b) => (a.page_number ?? 0) - (b.page_number ?? 0) || a.start_line - b.start_line || a.kind.localeCompare(b.kind));
+    }
+
+    if (normalized.startsWith('DELETE FROM FILE_TERMS WHERE FILE_ID')) {
+      const [fileId] = args as [string];
+      let changes = 0;
+      for (const [key, entry] of this.fileTerms) {
+        if (entry.file_id === fileId) {
+          this.fileTerms.delete(key);
+          changes += 1;
+        }
+      }
+      return { meta: { changes } };
+    }
+
+    if (normalized.startsWith('INSERT INTO FILE_TERMS')) {
+      const [fileId, organisationId, term, frequency] = args as [string, string, string, number];
+      this.fileTerms.set(`${fileId}:${term}`, { file_id: fileId, organization_id: organisationId, term, frequency });
+      return { meta: { changes: 1 } };
+    }
+
+    if (normalized.startsWith('SELECT COUNT(DISTINCT FILE_ID) AS FILES FROM FILE_TERMS')) {
+      const [organisationId] = args as [string];
+      const files = new Set(
+        Array.from(this.fileTerms.values())
+          .filter((entry) => entry.organization_id === organisationId)
+          .map((entry) => entry.file_id),
+      );
+      return [{ files: files.size }];
+    }
+
+    if (normalized.startsWith('SELECT TERM, COUNT(*) AS DOCUMENT_COUNT FROM FILE_TERMS')) {
+      const [organisationId, ...terms] = args as string[];
+      const counts = new Map<string, number>();
+      for (const entry of this.fileTerms.values()) {
+        if (entry.organization_id === organisationId && terms.includes(entry.term)) {
+          counts.set(entry.term, (counts.get(entry.term) ?? 0) + 1);
+        }
+      }
+      return Array.from(counts, ([term, document_count]) => ({ term, document_count }));
+    }
+
+    if (normalized.startsWith('DELETE FROM FILE_TAGS WHERE FILE_ID')) {
+      const [fileId] = args as [string];
+      let changes = 0;
+      for (const [key, entry] of this.fileTags) {
+        if (entry.file_id === fileId) {
+          this.fileTags.delete(key);
+          changes += 1;
+        }
+      }
+      return { meta: { changes } };
+    }
+
+    if (normalized.startsWith('INSERT INTO FILE_TAGS')) {
+      const [fileId, organisationId, tag, score, source, createdAt] = args as [string, string, string, number, string, string];
+      this.fileTags.set(`${fileId}:${tag}`, { file_id: fileId, organization_id: organisationId, tag, score, source, created_at: createdAt });
+      return { meta: { changes: 1 } };
+    }
+
+    if (normalized.startsWith('UPDATE FILES SET TAGS')) {
+      const [fileId, tags] = args as [string, string | null];
+      const file = this.files.get(fileId);
+      if (file) {
+        file.tags = tags ?? null;
+      }
+      return { meta: { changes: file ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('UPDATE FILES SET MULTIPART_UPLOAD_ID')) {
+      const [fileId, uploadId] = args as [string, string | null];
+      const file = this.files.get(fileId);
+      if (file) {
+        file.multipart_upload_id = uploadId ?? null;
+        file.updated_at = isoNow();
+      }
+      return { meta: { changes: file ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith("SELECT ID, R2_KEY, TEXT_R2_KEY, MULTIPART_UPLOAD_ID FROM FILES WHERE STATUS = 'UPLOADING'")) {
+      const [createdBefore, limit] = args as [string, number];
+      return Array.from(this.files.values())
+        .filter((file) => file.status === 'uploading' && Date.parse(file.created_at) < Date.parse(createdBefore))
+        .sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
+        .slice(0, limit)
+        .map((file) => ({
+          id: file.id,
+          r2_key: file.r2_key,
+          text_r2_key: file.text_r2_key ?? null,
+          multipart_upload_id: file.multipart_upload_id ?? null,
+        }));
+    }
+
+    if (normalized.startsWith('UPDATE FILES SET TEXT_R2_KEY')) {
+      const [fileId, sourceKey, textKey] = args as [string, string, string | null];
+      const file = this.files.get(fileId);
+      if (file && file.r2_key === sourceKey) {
+        file.text_r2_key = textKey ?? null;
+        file.updated_at = isoNow();
+        return { meta: { changes: 1 } };
+      }
+      return { meta: { changes: 0 } };
+    }
+
+    if (normalized.startsWith('UPDATE FILE_VERSIONS SET TEXT_R2_KEY')) {
+      const [fileId, sourceKey, textKey] = args as [string, string, string | null];
+      let changes = 0;
+      for (const version of this.fileVersions.values()) {
+        if (version.file_id === fileId && version.r2_key === sourceKey) {
+          version.text_r2_key = textKey ?? null;
+          changes += 1;
+        }
+      }
+      return { meta: { changes } };
+    }
+
+    if (normalized.startsWith('INSERT INTO FILE_VERSIONS')) {
+      const [id, fileId, version, fileName, r2Key, textKey, size, mimeType, encoding, uploadedBy, createdAt] = args as [
+        string,
+        string,
+        number,
+        string,
+        string,
+        string | null,
+        number,
+        string | null,
+        string | null,
+        string,
+        string | null,
+      ];
+      const duplicate = Array.from(this.fileVersions.values()).some(
+        (existing) => existing.file_id === fileId && existing.version === version,
+      );
+      if (duplicate) {
+        throw new Error('UNIQUE constraint failed: file_versions.file_id, file_versions.version');
+      }
+      this.fileVersions.set(id, {
+        id,
+        file_id: fileId,
+        version,
+        file_name: fileName,
+        r2_key: r2Key,
+        text_r2_key: textKey ?? null,
+        size,
+        mime_type: mimeType ?? null,
+        source_encoding: encoding ?? null,
+        uploaded_by: uploadedBy,
+        created_at: createdAt ?? isoNow(),
+      });
+      return { meta: { changes: 1 } };
+    }
+
+    if (normalized.startsWith('SELECT ID, FILE_ID, VERSION, FILE_NAME')) {
+      // listFileVersions (?1) or getFileVersion (?1, ?2)
+      const [fileId, version] = args as [string, number | undefined];
+      return Array.from(this.fileVersions.values())
+        .filter((candidate) => candidate.file_id === fileId && (version === undefined || candidate.version === version))
+        .sort((a, b) => b.version - a.version)
+        .map((candidate) => ({ ...candidate }));
+    }
+
+    if (normalized.startsWith('UPDATE FILES SET CURRENT_VERSION')) {
+      const [fileId, version, r2Key, textKey, size, mimeType, encoding, fileName] = args as [
+        string,
+        number,
+        string,
+        string | null,
+        number,
+        string | null,
+        string | null,
+        string,
+      ];
+      const file = this.files.get(fileId);
+      if (file) {
+        file.current_version = version;
+        file.r2_key = r2Key;
+        file.text_r2_key = textKey ?? null;
+        file.size = size;
+        file.mime_type = mimeType ?? null;
+        file.source_encoding = encoding ?? null;
+        file.file_name = fileName;
+        file.updated_at = isoNow();
+      }
+      return { meta: { changes: file ? 1 : 0 } };
+    }
+
     if (normalized.startsWith('UPDATE FILES SET FILE_NAME')) {
       const [fileName, r2Key, size, mimeType, fileId] = args as [string, string, number, string, string];
       const file = this.files.get(fileId);
@@ -582,6 +1045,45 @@ export class MockD1 implements D1Database {
       return { meta: { changes: file ? 1 : 0 } };
     }
 
+    if (normalized.startsWith('SELECT DISTINCT FI.ID') && normalized.includes('FROM FILES FI JOIN FOLDERS FO')) {
+      // listFiles: ?1 organisation, optional ?2 folder, then the caller and their team ids
+      const scopedToFolder = normalized.includes('FI.FOLDER_ID = ?2');
+      const [organisationId] = args as [string];
+      const folderId = scopedToFolder ? (args[1] as string) : undefined;
+      const userId = args[scopedToFolder ? 2 : 1] as string;
+      // The tag filter, when present, is the last binding.
+      const tag = normalized.includes('FILE_TAGS') ? (args[args.length - 1] as string) : undefined;
+      const teamIds = args.slice(scopedToFolder ? 3 : 2, tag === undefined ? undefined : -1) as string[];
+      const visible = (file: FileRecord) =>
+        (normalized.includes("FI.VISIBILITY = 'ORGANIZATION'") && file.visibility === 'organization') ||
+        (file.visibility === 'personal' &&
+          (file.owner_id === userId || Boolean(this.filePermissions.get(file.id)?.has(userId)))) ||
+        (file.visibility === 'team' && Boolean(file.team_id) && teamIds.includes(file.team_id as string));
+      return Array.from(this.files.values())
+        .filter((file) => !file.deleted_at && file.organization_id === organisationId)
+        .filter((file) => !folderId || file.folder_id === folderId)
+        .filter((file) => !tag || this.fileTags.has(`${file.id}:${tag}`))
+        .filter(visible)
+        .flatMap((file) => {
+          const folder = this.folders.get(file.folder_id);
+          const owner = this.users.get(file.owner_id);
+          if (!folder || folder.deleted_at || !owner) {
+            return [];
+          }
+          return [
+            {
+              ...file,
+              folder_name: folder.name,
+              folder_visibility: folder.visibility,
+              folder_team_id: folder.team_id ?? null,
+              owner_email: owner.email,
+              owner_display_name: owner.display_name,
+              has_direct_access: this.filePermissions.get(file.id)?.has(userId) ? 1 : 0,
+            },
+          ];
+        });
+    }
+
     if (normalized.includes('FROM FILES FI JOIN FOLDERS FO')) {
       const fileId = args[0] as string;
       const organisationId = args.length > 1 ? (args[1] as string) : undefined;
@@ -602,6 +1104,9 @@ export class MockD1 implements D1Database {
         folder_name: folder.name,
         folder_visibility: folder.visibility,
         folder_team_id: folder.team_id ?? null,
+        folder_chunking_strategy: folder.chunking_strategy ?? null,
+        folder_chunk_size: folder.chunk_size ?? null,
+        folder_chunk_overlap: folder.chunk_overlap ?? null,
         owner_email: owner.email,
         owner_display_name: owner.display_name,
         has_direct_access: 1,
@@ -632,6 +1137,12 @@ export class MockD1 implements D1Database {
       const file = this.files.get(fileId);
       if (file) {
         this.files.delete(fileId);
+        // ON DELETE CASCADE
+        for (const [id, version] of this.fileVersions) {
+          if (version.file_id === fileId) {
+            this.fileVersions.delete(id);
+          }
+        }
       }
       return { meta: { changes: file ? 1 : 0 } };
     }
@@ -683,8 +1194,55 @@ export class MockD1 implements D1Database {
       });
     }
 
+    if (normalized.startsWith('INSERT INTO CHUNKS_FTS')) {
+      const [content, chunkId] = args as [string, string];
+      this.chunkFts.set(chunkId, content);
+      return { meta: { changes: 1 } };
+    }
+
+    if (normalized.startsWith('DELETE FROM CHUNKS_FTS WHERE CHUNK_ID IN (SELECT ID FROM CHUNKS WHERE FILE_ID')) {
+      const [fileId] = args as [string];
+      let changes = 0;
+      for (const chunk of this.chunks.values()) {
+        if (chunk.file_id === fileId && this.chunkFts.delete(chunk.id)) {
+          changes += 1;
+        }
+      }
+      return { meta: { changes } };
+    }
+
+    if (normalized.startsWith('DELETE FROM CHUNKS_FTS WHERE CHUNK_ID IN')) {
+      const ids = args as string[];
+      return { meta: { changes: ids.filter((id) => this.chunkFts.delete(id)).length } };
+    }
+
+    if (normalized.startsWith('SELECT C.ID AS CHUNK_ID, BM25(CHUNKS_FTS)')) {
+      // Phrases of the MATCH query; a chunk ranks by how many of them its words contain, in order.
+      const [matchQuery, organisationId, limit] = args as [string, string, number];
+      const words = (text: string) => ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+      const phrases = Array.from(matchQuery.matchAll(/"((?:[^"]|"")*)"/g), (match) => words(match[1].replace(/""/g, '"')));
+      const personal = normalized.includes("C.VISIBILITY = 'PERSONAL' AND C.OWNER_ID");
+      const userId = personal ? (args[3] as string) : undefined;
+      const teamIds = args.slice(personal ? 4 : 3) as string[];
+      const visible = (chunk: ChunkRecord) =>
+        (normalized.includes("C.VISIBILITY = 'ORGANIZATION'") && chunk.visibility === 'organization') ||
+        (chunk.visibility === 'personal' && chunk.owner_id === userId) ||
+        (chunk.visibility === 'team' && Boolean(chunk.team_id) && teamIds.includes(chunk.team_id as string));
+      return Array.from(this.chunkFts)
+        .flatMap(([chunkId, content]) => {
+          const chunk = this.chunks.get(chunkId);
+          if (!chunk || chunk.organization_id !== organisationId || !visible(chunk)) {
+            return [];
+          }
+          const hits = phrases.filter((phrase) => words(content).includes(phrase)).length;
+          return hits ? [{ chunk_id: chunkId, rank: -hits }] : [];
+        })
+        .sort((a, b) => a.rank - b.rank)
+        .slice(0, limit);
+    }
+
     if (normalized.startsWith('INSERT INTO CHUNKS')) {
-      const [id, fileId, folderId, organisationId, ownerId, teamId, visibility, chunkIndex, startLine, endLine, content] = args as [
+      const [id, fileId, folderId, organisationId, ownerId, teamId, visibility, chunkIndex, startLine, endLine, content, headingPath, pageNumber, startRow, endRow, symbol, startMs, endMs, contentHash, embeddingModel, embeddingDimensions, kind] = args as [
         string,
         string,
         string,
@@ -696,6 +1254,17 @@ export class MockD1 implements D1Database {
         number,
         number,
         string,
+        string | null,
+        number | null,
+        number | null,
+        number | null,
+        string | null,
+        number | null,
+        number | null,
+        string | null,
+        string | null,
+        number | null,
+        ChunkKind | undefined,
       ];
       this.chunks.set(id, {
         id,
@@ -709,11 +1278,177 @@ export class MockD1 implements D1Database {
         start_line: startLine,
         end_line: endLine,
         content,
+        heading_path: headingPath ?? null,
+        page_number: pageNumber ?? null,
+        start_row: startRow ?? null,
+        end_row: endRow ?? null,
+        symbol: symbol ?? null,
+        start_ms: startMs ?? null,
+        end_ms: endMs ?? null,
+        content_hash: contentHash ?? null,
+        embedding_model: embeddingModel ?? null,
+        embedding_dimensions: embeddingDimensions ?? null,
+        kind: kind ?? 'content',
         created_at: isoNow(),
       });
       return { meta: { changes: 1 } };
     }
 
+    if (normalized.startsWith('SELECT ID, CHUNK_INDEX, CONTENT_HASH, START_LINE')) {
+      const [fileId] = args as [string];
+      return Array.from(this.chunks.values())
+        .filter((chunk) => chunk.file_id === fileId && (chunk.kind ?? 'content') === 'content')
+        .sort((a, b) => a.chunk_index - b.chunk_index)
+        .map((chunk) => ({ ...chunk }));
+    }
+
+    if (normalized.startsWith('SELECT ID, CHUNK_INDEX, CONTENT, CONTENT_HASH')) {
+      const [fileId] = args as [string];
+      return Array.from(this.chunks.values())
+        .filter((chunk) => chunk.file_id === fileId && (chunk.kind ?? 'content') === 'content')
+        .sort((a, b) => a.chunk_index - b.chunk_index)
+        .map((chunk) => ({ ...chunk }));
+    }
+
+    if (normalized.startsWith('SELECT ID, EMBEDDING_MODEL, EMBEDDING_DIMENSIONS FROM CHUNKS')) {
+      const [fileId] = args as [string];
+      return Array.from(this.chunks.values()).filter((chunk) => chunk.file_id === fileId && chunk.kind === 'summary');
+    }
+
+    if (normalized.startsWith('UPDATE CHUNKS SET CHUNK_INDEX')) {
+      const [id, chunkIndex, startLine, endLine, headingPath, pageNumber, startRow, endRow, symbol, startMs, endMs] = args;
+      const chunk = this.chunks.get(id as string);
+      if (chunk) {
+        Object.assign(chunk, {
+          chunk_index: chunkIndex,
+          start_line: startLine,
+          end_line: endLine,
+          heading_path: headingPath,
+          page_number: pageNumber,
+          start_row: startRow,
+          end_row: endRow,
+          symbol,
+          start_ms: startMs,
+          end_ms: endMs,
+        });
+      }
+      return { meta: { changes: chunk ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('UPDATE CHUNKS SET EMBEDDING_MODEL')) {
+      const [id, model, dimensions] = args as [string, string, number];
+      const chunk = this.chunks.get(id);
+      if (chunk) {
+        Object.assign(chunk, { embedding_model: model, embedding_dimensions: dimensions });
+      }
+      return { meta: { changes: chunk ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('SELECT COUNT(*) AS TOTAL, SUM(CASE WHEN EMBEDDING_MODEL')) {
+      const [organisationId, model] = args as [string, string];
+      const chunks = Array.from(this.chunks.values()).filter((chunk) => chunk.organization_id === organisationId);
+      return {
+        total: chunks.length,
+        current: chunks.length ? chunks.filter((chunk) => chunk.embedding_model === model).length : null,
+      };
+    }
+
+    if (normalized.startsWith('INSERT INTO REINDEX_JOBS')) {
+      const [id, organisationId, requestedBy, model, filesTotal, now] = args as [string, string, string, string, number, string];
+      this.reindexJobs.set(id, {
+        id,
+        organization_id: organisationId,
+        requested_by: requestedBy,
+        embedding_model: model,
+        status: 'running',
+        files_total: filesTotal,
+        files_done: 0,
+        files_failed: 0,
+        cursor: null,
+        last_error: null,
+        completed_at: null,
+        created_at: now,
+        updated_at: now,
+      });
+      return { meta: { changes: 1 } };
+    }
+
+    if (normalized.startsWith('SELECT ID, ORGANIZATION_ID, REQUESTED_BY, EMBEDDING_MODEL')) {
+      const [key] = args as [string];
+      if (normalized.includes('WHERE ORGANIZATION_ID = ?1')) {
+        // Insertion order stands in for created_at, which can tie within a millisecond.
+        const jobs = Array.from(this.reindexJobs.values()).filter((job) => job.organization_id === key);
+        return jobs.length ? { ...jobs[jobs.length - 1] } : null;
+      }
+      const job = this.reindexJobs.get(key);
+      return job ? { ...job } : null;
+    }
+
+    if (normalized.startsWith('UPDATE REINDEX_JOBS SET STATUS')) {
+      const [id, status, filesDone, filesFailed, cursor, lastError, completedAt, now] = args as [
+        string,
+        ReindexJobRecord['status'],
+        number,
+        number,
+        string | null,
+        string | null,
+        string | null,
+        string,
+      ];
+      const job = this.reindexJobs.get(id);
+      if (job) {
+        Object.assign(job, {
+          status,
+          files_done: filesDone,
+          files_failed: filesFailed,
+          cursor,
+          last_error: lastError,
+          completed_at: completedAt,
+          updated_at: now,
+        });
+      }
+      return { meta: { changes: job ? 1 : 0 } };
+    }
+
+    if (normalized.startsWith('SELECT COUNT(*) AS FILES_TOTAL FROM FILES')) {
+      const [organisationId] = args as [string];
+      return { files_total: this.reindexableFiles(organisationId).length };
+    }
+
+    if (normalized.startsWith('SELECT ID, FILE_NAME, OWNER_ID FROM FILES')) {
+      const [organisationId, afterId, limit] = args as [string, string, number];
+      return this.reindexableFiles(organisationId)
+        .filter((file) => file.id > afterId)
+        .slice(0, limit)
+        .map((file) => ({ id: file.id, file_name: file.file_name, owner_id: file.owner_id }));
+    }
+
+    if (normalized.startsWith('DELETE FROM CHUNKS WHERE ID IN')) {
+      let changes = 0;
+      for (const id of args as string[]) {
+        if (this.chunks.delete(id)) changes += 1;
+      }
+      return { meta: { changes } };
+    }
+
+    if (normalized.startsWith('SELECT CONTENT_HASH, EMBEDDING FROM EMBEDDING_CACHE')) {
+      const [model, ...hashes] = args as string[];
+      return hashes
+        .map((hash) => this.embeddingCache.get(`${model}:${hash}`))
+        .filter(Boolean)
+        .map((entry) => ({ content_hash: entry.content_hash, embedding: entry.embedding }));
+    }
+
+    if (normalized.startsWith('INSERT OR IGNORE INTO EMBEDDING_CACHE')) {
+      const [model, contentHash, dimensions, embedding, createdAt] = args as [string, string, number, string, string];
+      const key = `${model}:${contentHash}`;
+      if (this.embeddingCache.has(key)) {
+        return { meta: { changes: 0 } };
+      }
+      this.embeddingCache.set(key, { model, content_hash: contentHash, dimensions, embedding, created_at: createdAt });
+      return { meta: { changes: 1 } };
+    }
+
     if (normalized.startsWith('DELETE FROM CHUNKS WHERE FILE_ID')) {
       const [fileId] = args as [string];
       for (const [chunkId, chunk] of this.chunks.entries()) {
@@ -1,33 +1,106 @@
 // @ts-nocheck
 import { Buffer } from 'node:buffer';
 import type { ExecutionContext, R2Bucket, VectorizeIndex } from '@cloudflare/workers-types';
-import type { MarbleBindings } from '../../src/types';
+import { vi } from 'vitest';
+import type { IngestionQueueMessage, MarbleBindings } from '../../src/types';
 import { MockD1 } from './mock-db';
 
 type R2ObjectStub = {
   key: string;
-  body: string;
+  body: string | Uint8Array;
   httpMetadata?: { contentType?: string };
   customMetadata?: Record<string, string>;
 };
 
 class MockR2 {
   objects = new Map<string, R2ObjectStub>();
+  multipartUploads = new Map<string, { key: string; httpMetadata?: { contentType?: string }; parts: Map<number, Uint8Array> }>();
 
-  async get(key: string) {
+  private bytesOf(object: R2ObjectStub) {
+    return typeof object.body === 'string' ? new TextEncoder().encode(object.body) : object.body;
+  }
+
+  async head(key: string) {
     const object = this.objects.get(key);
     if (!object) {
       return null;
     }
+    return { key, size: this.bytesOf(object).byteLength, httpMetadata: object.httpMetadata ?? { contentType: 'text/plain' } };
+  }
+
+  async get(key: string, options?: { range?: { offset?: number; length?: number } }) {
+    const object = this.objects.get(key);
+    if (!object) {
+      return null;
+    }
+    const full = this.bytesOf(object);
+    const offset = options?.range?.offset ?? 0;
+    const bytes = options?.range ? full.subarray(offset, offset + (options.range.length ?? full.byteLength)) : full;
     return {
-      text: async () => object.body,
-      body: object.body,
+      key,
+      size: full.byteLength,
+      text: async () => (typeof object.body === 'string' && !options?.range ? object.body : new TextDecoder().decode(bytes)),
+      arrayBuffer: async () => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+      // Delivered in small reads so streaming consumers see split lines and characters.
+      body: new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let start = 0; start < bytes.byteLength; start += 1000) {
+            controller.enqueue(bytes.slice(start, start + 1000));
+          }
+          controller.close();
+        },
+      }),
       httpMetadata: object.httpMetadata ?? { contentType: 'text/plain' },
       customMetadata: object.customMetadata ?? {},
     };
   }
 
-  async put(key: string, body: string | ReadableStream, options?: { httpMetadata?: { contentType?: string }; customMetadata?: Record<string, string> }) {
+  async createMultipartUpload(key: string, options?: { httpMetadata?: { contentType?: string } }) {
+    const uploadId = `upload-${this.multipartUploads.size + 1}`;
+    this.multipartUploads.set(uploadId, { key, httpMetadata: options?.httpMetadata, parts: new Map() });
+    return this.resumeMultipartUpload(key, uploadId);
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string) {
+    const uploads = this.multipartUploads;
+    const objects = this.objects;
+    const pending = () => {
+      const upload = uploads.get(uploadId);
+      if (!upload || upload.key !== key) {
+        throw new Error('The specified multipart upload does not exist.');
+      }
+      return upload;
+    };
+    return {
+      key,
+      uploadId,
+      async uploadPart(partNumber: number, value: ArrayBuffer | Uint8Array | string) {
+        const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : new Uint8Array(value instanceof ArrayBuffer ? value.slice(0) : value);
+        pending().parts.set(partNumber, bytes);
+        return { partNumber, etag: `etag-${partNumber}-${bytes.byteLength}` };
+      },
+      async abort() {
+        pending();
+        uploads.delete(uploadId);
+      },
+      async complete(parts: Array<{ partNumber: number; etag: string }>) {
+        const upload = pending();
+        const chunks = parts.map(({ partNumber, etag }) => {
+          const bytes = upload.parts.get(partNumber);
+          if (!bytes || etag !== `etag-${partNumber}-${bytes.byteLength}`) {
+            throw new Error(`Invalid part ${partNumber}`);
+          }
+          return bytes;
+        });
+        const body = new Uint8Array(Buffer.concat(chunks.map((chunk) => Buffer.from(chunk))));
+        objects.set(key, { key, body, httpMetadata: upload.httpMetadata });
+        uploads.delete(uploadId);
+        return { key, size: body.byteLength };
+      },
+    };
+  }
+
+  async put(key: string, body: string | ArrayBuffer | Uint8Array | ReadableStream, options?: { httpMetadata?: { contentType?: string }; customMetadata?: Record<string, string> }) {
     if (body instanceof ReadableStream) {
       const reader = body.getReader();
       const chunks: Uint8Array[] = [];
@@ -40,6 +113,9 @@ class MockR2 {
       const decoder = new TextDecoder();
       const text = decoder.decode(Buffer.concat(chunks.map((chunk) => Buffer.from(chunk))));
       this.objects.set(key, { key, body: text, httpMetadata: options?.httpMetadata, customMetadata: options?.customMetadata });
+    } else if (body instanceof ArrayBuffer || body instanceof Uint8Array) {
+      const bytes = new Uint8Array(body instanceof ArrayBuffer ? body.slice(0) : body);
+      this.objects.set(key, { key, body: bytes, httpMetadata: options?.httpMetadata, customMetadata: options?.customMetadata });
     } else {
       this.objects.set(key, { key, body, httpMetadata: options?.httpMetadata, customMetadata: options?.customMetadata });
     }
@@ -56,7 +132,7 @@ class MockR2 {
 
 class MockVectorize implements VectorizeIndex {
   upserts: Array<{ namespace: string; vector: { id: string; metadata: unknown; values: number[] } }> = [];
-  queries: Array<{ namespace: string; topK: number; vector: number[] }> = [];
+  queries: Array<{ namespace: string; topK: number; vector: number[]; filter?: Record<string, unknown> }> = [];
   deletions: Array<{ namespace: string; ids: string[] }> = [];
   queryResults: Record<string, Array<{ id: string; score: number; metadata?: unknown }>> = {};
 
@@ -64,11 +140,14 @@ class MockVectorize implements VectorizeIndex {
     this.upserts.push({ namespace, vector });
   }
 
-  async query(namespace: string, options: { vector: number[]; topK: number }) {
-    this.queries.push({ namespace, topK: options.topK, vector: options.vector });
-    return {
-      matches: this.queryResults[namespace] ?? [],
-    };
+  // Applies equality metadata filters before topK, like the index does.
+  async query(namespace: string, options: { vector: number[]; topK: number; filter?: Record<string, unknown> }) {
+    this.queries.push({ namespace, topK: options.topK, vector: options.vector, filter: options.filter });
+    const filter = Object.entries(options.filter ?? {});
+    const matches = (this.queryResults[namespace] ?? []).filter((match) =>
+      filter.every(([key, value]) => (match.metadata as Record<string, unknown> | undefined)?.[key] === value),
+    );
+    return { matches: matches.slice(0, options.topK) };
   }
 
   async delete(namespace: string, ids: string[]) {
@@ -76,11 +155,39 @@ class MockVectorize implements VectorizeIndex {
   }
 }
 
+class MockQueue<Body> {
+  messages: Body[] = [];
+
+  async send(body: Body) {
+    this.messages.push(body);
+  }
+
+  async sendBatch(messages: Array<{ body: Body }>) {
+    this.messages.push(...messages.map((message) => message.body));
+  }
+
+  // Hands everything sent so far to a consumer as one batch, like the Queues runtime would.
+  async drain(consumer: (batch: MessageBatch<Body>) => Promise<void>) {
+    const pending = this.messages.splice(0);
+    const messages = pending.map((body, index) => ({
+      id: `message-${index}`,
+      timestamp: new Date(),
+      attempts: 1,
+      body,
+      ack: vi.fn(),
+      retry: vi.fn(),
+    }));
+    await consumer({ queue: 'marv3-ingestion', messages, ackAll: vi.fn(), retryAll: vi.fn() });
+    return messages;
+  }
+}
+
 export interface TestContext {
   env: MarbleBindings;
   db: MockD1;
   r2: MockR2;
   vector: MockVectorize;
+  queue: MockQueue<IngestionQueueMessage>;
   ctx: ExecutionContext;
 }
 
@@ -88,11 +195,13 @@ export function createTestEnv(): TestContext {
   const db = new MockD1();
   const r2 = new MockR2();
   const vector = new MockVectorize();
+  const queue = new MockQueue<IngestionQueueMessage>();
 
   const env: MarbleBindings = {
     MARBLE_DB: db,
     MARBLE_FILES: r2 as unknown as R2Bucket,
     MARBLE_VECTORS: vector,
+    INGESTION_QUEUE: queue,
     OPENAI_API_KEY: 'test-key',
     OPENAI_MODEL: 'gpt-4.1-mini',
     OPENAI_EMBEDDING_MODEL: 'text-embedding-3-small',
@@ -109,5 +218,5 @@ export function createTestEnv(): TestContext {
     passThroughOnException: () => undefined,
   };
 
-  return { env, db, r2, vector, ctx };
+  return { env, db, r2, vector, queue, ctx };
 }
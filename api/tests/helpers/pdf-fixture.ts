@@ -0,0 +1,44 @@
+const encoder = new TextEncoder();
+
+export async function deflate(text: string): Promise<Uint8Array> {
+  const stream = new Blob([encoder.encode(text)]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function streamObject(dict: string, data: Uint8Array | string): Uint8Array[] {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return [encoder.encode(`<< ${dict} /Length ${bytes.length} >>\nstream\n`), bytes, encoder.encode('\nendstream')];
+}
+
+// Objects are numbered from 1 in the order given.
+export function buildPdf(objects: Array<string | Uint8Array[]>, trailer = '/Root 1 0 R'): Uint8Array {
+  const parts: Uint8Array[] = [encoder.encode('%PDF-1.4\n')];
+  objects.forEach((body, index) => {
+    parts.push(encoder.encode(`${index + 1} 0 obj\n`));
+    parts.push(...(typeof body === 'string' ? [encoder.encode(body)] : body));
+    parts.push(encoder.encode('\nendobj\n'));
+  });
+  parts.push(encoder.encode(`trailer\n<< ${trailer} >>\n%%EOF\n`));
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// A Helvetica document with one content stream per page.
+export function buildTextPdf(pages: string[][]): Uint8Array {
+  const pageCount = pages.length;
+  const kids = pages.map((_, index) => `${4 + index} 0 R`).join(' ');
+  return buildPdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${kids}] /Count ${pageCount} /Resources << /Font << /F1 3 0 R >> >> >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ...pages.map((_, index) => `<< /Type /Page /Parent 2 0 R /Contents ${4 + pageCount + index} 0 R >>`),
+    ...pages.map((lines) =>
+      streamObject('', `BT /F1 12 Tf 14 TL 72 720 Td ${lines.map((line) => `(${line}) Tj T*`).join(' ')} ET`),
+    ),
+  ]);
+}
@@ -1,6 +1,9 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
 import app from '../src/worker';
 import { createTestEnv } from './helpers/mock-env';
+import { buildTextPdf } from './helpers/pdf-fixture';
+import { chunkText } from '../src/lib/chunk';
+import { tokenizerForModel } from '../src/lib/tokens';
 
 vi.mock('../src/lib/access', () => ({
   authenticateRequest: vi.fn(async () => ({
@@ -90,6 +93,307 @@ describe('ingest route', () => {
 
     expect(json.chunks).toBeGreaterThan(0);
     expect(db.chunks.size).toBe(json.chunks);
-    expect(vector.upserts.length).toBe(json.chunks);
+    expect(vector.upserts.flatMap((entry) => entry.vector)).toHaveLength(json.chunks);
+  });
+
+  it('keeps the batches stored before an embedding failure', async () => {
+    const { env, db, r2, vector, ctx } = createTestEnv();
+    env.EMBEDDING_BATCH_SIZE = '1';
+    env.EMBEDDING_CONCURRENCY = '1';
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      organization_id: 'default',
+      name: 'My Space',
+      visibility: 'personal',
+      owner_id: 'user@example.com',
+      team_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    db.files.set('file-3', {
+      id: 'file-3',
+      tenant: 'default',
+      organization_id: 'default',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      team_id: null,
+      visibility: 'personal',
+      file_name: 'long.txt',
+      r2_key: 'users/user@example.com/private-root/file-3-long.txt',
+      size: 4000,
+      mime_type: 'text/plain',
+      status: 'uploading',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    const lines = Array.from({ length: 80 }, (_, index) => `Line ${index + 1} of a long policy document.`);
+    await r2.put('users/user@example.com/private-root/file-3-long.txt', lines.join('\n'));
+
+    let calls = 0;
+    global.fetch = vi.fn(async (input, init) => {
+      if (typeof input === 'string' && input.endsWith('/embeddings')) {
+        calls += 1;
+        if (calls > 1) {
+          return new Response('context length exceeded', { status: 400 });
+        }
+        const body = JSON.parse(init?.body as string);
+        return new Response(JSON.stringify({ data: body.input.map(() => ({ embedding: [0.1, 0.2, 0.3] })) }), { status: 200 });
+      }
+      return new Response('{}', { status: 200 });
+    });
+
+    const request = new Request('https://example.com/api/ingest', {
+      method: 'POST',
+      body: JSON.stringify({ fileId: 'file-3' }),
+      headers: {
+        'Content-Type': 'application/json',
+        'cf-access-jwt-assertion': 'test-token',
+      },
+    });
+
+    const response = await app.fetch(request, env, ctx);
+    const json = (await response.json()) as { error: string };
+    expect(json.error).toContain('Embedding request failed: 400');
+    expect(calls).toBe(2);
+    expect(Array.from(db.chunks.values()).map((chunk) => chunk.chunk_index)).toEqual([0]);
+    expect(vector.upserts.flatMap((entry) => entry.vector)).toHaveLength(1);
+    expect(db.files.get('file-3')?.status).toBe('uploading');
+  });
+
+  it('re-embeds only changed chunks and removes only vectors that are gone', async () => {
+    const { env, db, r2, vector, ctx } = createTestEnv();
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      organization_id: 'default',
+      name: 'My Space',
+      visibility: 'personal',
+      owner_id: 'user@example.com',
+      team_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    const key = 'users/user@example.com/private-root/file-4-guide.md';
+    db.files.set('file-4', {
+      id: 'file-4',
+      tenant: 'default',
+      organization_id: 'default',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      team_id: null,
+      visibility: 'personal',
+      file_name: 'guide.md',
+      r2_key: key,
+      size: 120,
+      mime_type: 'text/markdown',
+      status: 'uploading',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+
+    const embedded: string[][] = [];
+    global.fetch = vi.fn(async (input, init) => {
+      if (typeof input === 'string' && input.endsWith('/embeddings')) {
+        const body = JSON.parse(init?.body as string);
+        embedded.push(body.input);
+        return new Response(JSON.stringify({ data: body.input.map(() => ({ embedding: [0.1, 0.2, 0.3] })) }), { status: 200 });
+      }
+      return new Response('{}', { status: 200 });
+    });
+    const ingest = () =>
+      app.fetch(
+        new Request('https://example.com/api/ingest', {
+          method: 'POST',
+          body: JSON.stringify({ fileId: 'file-4' }),
+          headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+        }),
+        env,
+        ctx,
+      );
+    const chunkIdsBySection = () =>
+      new Map(Array.from(db.chunks.values()).map((chunk) => [chunk.heading_path, chunk.id]));
+
+    await r2.put(key, '# Setup\nInstall the CLI.\n\n# Usage\nRun marble sync.\n\n# Support\nEmail the team.');
+    const first = (await (await ingest()).json()) as { chunks: number; embedded: number };
+    expect(first).toMatchObject({ chunks: 3, embedded: 3 });
+    const before = chunkIdsBySection();
+
+    await r2.put(key, '# Setup\nInstall the CLI.\n\n# Usage\nRun marble sync --watch.\n\n# Support\nEmail the team.');
+    embedded.length = 0;
+    vector.upserts = [];
+    const second = (await (await ingest()).json()) as Record<string, number>;
+    expect(second).toEqual({ chunks: 3, embedded: 1, unchanged: 2, removed: 1 });
+    expect(embedded).toEqual([['# Usage\nRun marble sync --watch.']]);
+    expect(vector.upserts.flatMap((entry) => entry.vector)).toHaveLength(1);
+    expect(vector.deletions.flatMap((entry) => entry.ids)).toEqual([before.get('Usage')]);
+    const after = chunkIdsBySection();
+    expect(after.get('Setup')).toBe(before.get('Setup'));
+    expect(after.get('Support')).toBe(before.get('Support'));
+    expect(after.get('Usage')).not.toBe(before.get('Usage'));
+    expect(db.chunks.size).toBe(3);
+
+    // Reverting the edit finds the old text in the embedding cache.
+    await r2.put(key, '# Setup\nInstall the CLI.\n\n# Usage\nRun marble sync.\n\n# Support\nEmail the team.');
+    embedded.length = 0;
+    const third = (await (await ingest()).json()) as Record<string, number>;
+    expect(third).toEqual({ chunks: 3, embedded: 0, unchanged: 2, removed: 1 });
+    expect(embedded).toHaveLength(0);
+  });
+
+  it('extracts PDF text per page and stores it next to the original', async () => {
+    const { env, db, r2, vector, ctx } = createTestEnv();
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      organization_id: 'default',
+      name: 'My Space',
+      visibility: 'personal',
+      owner_id: 'user@example.com',
+      team_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+
+    const key = 'users/user@example.com/private-root/file-2-handbook.pdf';
+    db.files.set('file-2', {
+      id: 'file-2',
+      tenant: 'default',
+      organization_id: 'default',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      team_id: null,
+      visibility: 'personal',
+      file_name: 'handbook.pdf',
+      r2_key: key,
+      text_r2_key: null,
+      size: 1024,
+      mime_type: 'application/pdf',
+      status: 'uploading',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+
+    await r2.put(key, buildTextPdf([['Welcome aboard', 'Read this first'], ['Expenses', 'Submit receipts monthly']]));
+
+    global.fetch = vi.fn(async (input, init) => {
+      if (typeof input === 'string' && input.endsWith('/embeddings')) {
+        const body = JSON.parse(init?.body as string);
+        const embeddings = body.input.map(() => ({ embedding: [0.1, 0.2, 0.3] }));
+        return new Response(JSON.stringify({ data: embeddings }), { status: 200 });
+      }
+      return new Response('{}', { status: 200 });
+    });
+
+    const request = new Request('https://example.com/api/ingest', {
+      method: 'POST',
+      body: JSON.stringify({ fileId: 'file-2' }),
+      headers: {
+        'Content-Type': 'application/json',
+        'cf-access-jwt-assertion': 'test-token',
+      },
+    });
+
+    const response = await app.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+
+    const chunks = Array.from(db.chunks.values()).sort((a, b) => a.chunk_index - b.chunk_index);
+    expect(chunks.map((chunk) => [chunk.page_number, chunk.start_line, chunk.end_line])).toEqual([
+      [1, 1, 2],
+      [2, 1, 2],
+    ]);
+    expect(chunks[1].content).toBe('Expenses\nSubmit receipts monthly');
+    const upserted = vector.upserts.flatMap((entry) => entry.vector as unknown as Array<{ metadata: { page: number } }>);
+    expect(upserted.map((entry) => entry.metadata.page)).toEqual([1, 2]);
+
+    const textKey = db.files.get('file-2')?.text_r2_key;
+    expect(textKey).toBe(`${key}.extracted.txt`);
+    expect(r2.objects.get(textKey!)?.body).toBe('Welcome aboard\nRead this first\fExpenses\nSubmit receipts monthly');
+    expect(r2.objects.has(key)).toBe(true);
+  });
+  it('streams large plain text files from R2 with the same chunks and lines', async () => {
+    const { env, db, r2, ctx } = createTestEnv();
+    env.CHUNK_SIZE = '30000';
+    env.CHUNK_MAX_TOKENS = '8000';
+
+    const timestamp = new Date().toISOString();
+    db.folders.set('private-root', {
+      id: 'private-root',
+      tenant: 'default',
+      organization_id: 'default',
+      name: 'My Space',
+      visibility: 'personal',
+      owner_id: 'user@example.com',
+      team_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    const text = Array.from({ length: 60000 }, (_, line) => `${line + 1} GET /api/files 200 ${'·'.repeat(line % 60)}`).join('\n');
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode(text)]);
+    expect(bytes.byteLength).toBeGreaterThan(4 * 1024 * 1024);
+    db.files.set('big-log', {
+      id: 'big-log',
+      tenant: 'default',
+      organization_id: 'default',
+      folder_id: 'private-root',
+      owner_id: 'user@example.com',
+      team_id: null,
+      visibility: 'personal',
+      file_name: 'access.txt',
+      r2_key: 'users/user@example.com/private-root/big-log-access.txt',
+      size: bytes.byteLength,
+      mime_type: 'text/plain',
+      status: 'queued',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    await r2.put('users/user@example.com/private-root/big-log-access.txt', bytes);
+    const arrayBuffer = vi.fn();
+    const get = r2.get.bind(r2);
+    vi.spyOn(r2, 'get').mockImplementation(async (key: string, options?: unknown) => {
+      const object = await get(key, options as never);
+      return object && { ...object, arrayBuffer, text: arrayBuffer };
+    });
+
+    global.fetch = vi.fn(async (input, init) => {
+      const body = JSON.parse(init?.body as string);
+      const embeddings = body.input.map((_chunk: string, index: number) => ({ index, embedding: [index, 1, 0] }));
+      return new Response(JSON.stringify({ data: embeddings }), { status: 200 });
+    });
+
+    const response = await app.fetch(
+      new Request('https://example.com/api/ingest', {
+        method: 'POST',
+        body: JSON.stringify({ fileId: 'big-log' }),
+        headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(200);
+
+    const tokenizer = tokenizerForModel(env.OPENAI_EMBEDDING_MODEL);
+    const expected = chunkText(text, { chunkSize: 30000, overlap: 200, maxTokens: 8000, countTokens: tokenizer.count });
+    const stored = Array.from(db.chunks.values()).sort((a, b) => a.chunk_index - b.chunk_index);
+    expect(arrayBuffer).not.toHaveBeenCalled();
+    expect(stored.map((chunk) => [chunk.start_line, chunk.end_line])).toEqual(
+      expected.map((chunk) => [chunk.startLine, chunk.endLine]),
+    );
+    expect(stored[stored.length - 1].end_line).toBe(60000);
+    expect(db.files.get('big-log')?.status).toBe('ready');
   });
 });
@@ -0,0 +1,212 @@
+import { HTTPException } from 'hono/http-exception';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { ingestFileById } from '../src/lib/ingestion';
+import { enqueueIngestion, handleIngestionQueue, retryDelaySeconds } from '../src/lib/ingestion-queue';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'member',
+  })),
+}));
+
+vi.mock('../src/lib/ingestion', () => ({
+  ingestFileById: vi.fn(async () => ({ chunks: 0, embedded: 0, unchanged: 0, removed: 0 })),
+}));
+
+const timestamp = new Date().toISOString();
+
+function seed(db: ReturnType<typeof createTestEnv>['db'], ownerId = 'user@example.com') {
+  db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    organization_id: 'default',
+    name: 'My Space',
+    visibility: 'personal',
+    owner_id: ownerId,
+    team_id: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  db.files.set('file-1', {
+    id: 'file-1',
+    tenant: 'default',
+    organization_id: 'default',
+    folder_id: 'private-root',
+    owner_id: ownerId,
+    team_id: null,
+    visibility: 'personal',
+    file_name: 'notes.txt',
+    r2_key: 'users/notes.txt',
+    size: 42,
+    mime_type: 'text/plain',
+    status: 'uploading',
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+}
+
+function getIngestion(fileId: string) {
+  return new Request(`https://example.com/api/files/${fileId}/ingestion`, {
+    headers: { 'cf-access-jwt-assertion': 'test-token' },
+  });
+}
+
+// The seeded file has just been uploaded, as when an upload route queues it.
+const job = { fileId: 'file-1', organisationId: 'default', requestedBy: 'user@example.com', uploaded: true as const };
+
+describe('ingestion queue', () => {
+  beforeEach(() => {
+    vi.mocked(ingestFileById).mockReset();
+  });
+
+  it('backs off exponentially and fails the file once attempts run out', async () => {
+    const { env, db, queue } = createTestEnv();
+    seed(db);
+    vi.mocked(ingestFileById).mockRejectedValue(new Error('Embeddings API returned 503'));
+
+    const jobId = await enqueueIngestion(env, undefined, job);
+    expect(db.files.get('file-1')?.status).toBe('queued');
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 4; attempt += 1) {
+      const [message] = await queue.drain((batch) => handleIngestionQueue(batch, env));
+      expect(message.ack).not.toHaveBeenCalled();
+      delays.push(message.retry.mock.calls[0][0].delaySeconds);
+      expect(db.ingestionJobs.get(jobId)).toMatchObject({ status: 'queued', attempts: attempt });
+      expect(db.files.get('file-1')?.status).toBe('queued');
+      // Redelivery after the delay
+      await queue.send({ jobId });
+    }
+    expect(delays).toEqual([30, 60, 120, 240]);
+
+    const [last] = await queue.drain((batch) => handleIngestionQueue(batch, env));
+    expect(last.ack).toHaveBeenCalled();
+    expect(db.ingestionJobs.get(jobId)).toMatchObject({
+      status: 'failed',
+      attempts: 5,
+      last_error: 'Embeddings API returned 503',
+      next_attempt_at: null,
+    });
+    expect(db.files.get('file-1')?.status).toBe('failed');
+    expect(ingestFileById).toHaveBeenCalledTimes(5);
+  });
+
+  it('does not retry client errors', async () => {
+    const { env, db, queue } = createTestEnv();
+    seed(db);
+    vi.mocked(ingestFileById).mockRejectedValue(new HTTPException(400, { message: 'Uploaded file appears to be empty.' }));
+
+    const jobId = await enqueueIngestion(env, undefined, job);
+    const [message] = await queue.drain((batch) => handleIngestionQueue(batch, env));
+
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+    expect(db.ingestionJobs.get(jobId)).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(db.files.get('file-1')?.status).toBe('failed');
+  });
+
+  it('records progress and completes the job', async () => {
+    const { env, db, queue } = createTestEnv();
+    seed(db);
+    vi.mocked(ingestFileById).mockImplementation(async (_env, _fileId, _user, options) => {
+      for (let done = 0; done <= 4; done += 1) {
+        await options?.onProgress?.(done, 4);
+      }
+      return { chunks: 4, embedded: 4, unchanged: 0, removed: 0 };
+    });
+
+    const jobId = await enqueueIngestion(env, undefined, job);
+    const [message] = await queue.drain((batch) => handleIngestionQueue(batch, env));
+
+    expect(message.ack).toHaveBeenCalled();
+    expect(ingestFileById).toHaveBeenCalledWith(env, 'file-1', 'user@example.com', expect.any(Object));
+    expect(db.ingestionJobs.get(jobId)).toMatchObject({ status: 'succeeded', chunks_done: 4, chunks_total: 4 });
+    expect(db.ingestionJobs.get(jobId)?.completed_at).toBeTruthy();
+  });
+
+  it('runs the job once in waitUntil when no queue is bound', async () => {
+    const { env, db, ctx } = createTestEnv();
+    seed(db);
+    env.INGESTION_QUEUE = undefined;
+    vi.mocked(ingestFileById).mockRejectedValue(new Error('timeout'));
+    const pending: Promise<unknown>[] = [];
+    ctx.waitUntil = (promise) => pending.push(promise);
+
+    const jobId = await enqueueIngestion(env, ctx, job);
+    await Promise.all(pending);
+
+    expect(db.ingestionJobs.get(jobId)).toMatchObject({ status: 'failed', attempts: 1, last_error: 'timeout' });
+  });
+
+  it('computes capped backoff delays', () => {
+    expect(retryDelaySeconds(1)).toBe(30);
+    expect(retryDelaySeconds(3)).toBe(120);
+    expect(retryDelaySeconds(20)).toBe(3600);
+  });
+});
+
+describe('GET /api/files/:id/ingestion', () => {
+  beforeEach(() => {
+    vi.mocked(ingestFileById).mockReset();
+  });
+
+  it('reports attempts, progress and the last error', async () => {
+    const { env, db, queue, ctx } = createTestEnv();
+    seed(db);
+    vi.mocked(ingestFileById).mockImplementation(async (_env, _fileId, _user, options) => {
+      await options?.onProgress?.(0, 10);
+      await options?.onProgress?.(3, 10);
+      throw new Error('Vectorize upsert failed');
+    });
+    await enqueueIngestion(env, undefined, job);
+    await queue.drain((batch) => handleIngestionQueue(batch, env));
+
+    const response = await app.fetch(getIngestion('file-1'), env, ctx);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('private, no-store');
+    const data = (await response.json()) as {
+      status: string;
+      job: { status: string; attempts: number; maxAttempts: number; progress: unknown; lastError: string; nextAttemptAt: string };
+    };
+    expect(data.status).toBe('queued');
+    expect(data.job).toMatchObject({
+      status: 'queued',
+      attempts: 1,
+      maxAttempts: 5,
+      progress: { chunksDone: 3, chunksTotal: 10, percent: 30 },
+      lastError: 'Vectorize upsert failed',
+    });
+    expect(data.job.nextAttemptAt).toBeTruthy();
+  });
+
+  it('hides files the caller cannot list', async () => {
+    const { env, db, ctx } = createTestEnv();
+    seed(db, 'someone-else@example.com');
+    db.users.set('someone-else@example.com', {
+      id: 'someone-else@example.com',
+      email: 'someone-else@example.com',
+      display_name: 'Someone Else',
+      avatar_url: null,
+      tenant: 'default',
+      organization_id: 'default',
+      organization_role: 'member',
+      username: null,
+      title: null,
+      last_seen: timestamp,
+      created_at: timestamp,
+    });
+
+    const response = await app.fetch(getIngestion('file-1'), env, ctx);
+    const data = (await response.json()) as { error: string };
+    expect(data.error).toBe('File not found');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { deleteChunksForFile } from '../src/lib/db';
+import { ingestFileById } from '../src/lib/ingestion';
+import { buildMatchQuery, reciprocalRankFusion } from '../src/lib/keyword-search';
+import { organizationNamespace } from '../src/lib/vectorize';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'member',
+  })),
+}));
+
+const timestamp = new Date().toISOString();
+
+const FILES = [
+  {
+    id: 'runbook',
+    owner: 'user@example.com',
+    folder: 'public-root',
+    visibility: 'organization' as const,
+    name: 'runbook.md',
+    text: '# Payments runbook\nERR-4012 means the payment gateway timed out. Retry after five minutes.',
+  },
+  {
+    id: 'handbook',
+    owner: 'user@example.com',
+    folder: 'public-root',
+    visibility: 'organization' as const,
+    name: 'handbook.md',
+    text: '# Handbook\nOur support team answers questions about failed payments within a day.',
+  },
+  {
+    id: 'notes',
+    owner: 'other@example.com',
+    folder: 'other-root',
+    visibility: 'personal' as const,
+    name: 'notes.md',
+    text: 'Private notes: saw ERR-4012 twice this week.',
+  },
+];
+
+function seed(context: ReturnType<typeof createTestEnv>) {
+  for (const id of ['user@example.com', 'other@example.com']) {
+    context.db.users.set(id, {
+      id,
+      email: id,
+      display_name: null,
+      avatar_url: null,
+      tenant: 'default',
+      organization_id: 'default',
+      organization_role: 'member',
+      username: null,
+      title: null,
+      last_seen: timestamp,
+      created_at: timestamp,
+    });
+  }
+  for (const [id, owner, visibility] of [
+    ['public-root', 'user@example.com', 'organization'],
+    ['other-root', 'other@example.com', 'personal'],
+  ] as const) {
+    context.db.folders.set(id, {
+      id,
+      tenant: 'default',
+      organization_id: 'default',
+      name: id,
+      visibility,
+      owner_id: owner,
+      team_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+  }
+  for (const file of FILES) {
+    const key = `${file.folder}/${file.id}-${file.name}`;
+    context.db.files.set(file.id, {
+      id: file.id,
+      tenant: 'default',
+      organization_id: 'default',
+      folder_id: file.folder,
+      owner_id: file.owner,
+      team_id: null,
+      visibility: file.visibility,
+      file_name: file.name,
+      r2_key: key,
+      size: file.text.length,
+      mime_type: 'text/markdown',
+      status: 'processing',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    void context.r2.put(key, file.text);
+  }
+}
+
+async function ask(context: ReturnType<typeof createTestEnv>, message: string) {
+  const response = await app.fetch(
+    new Request('https://example.com/api/chat', {
+      method: 'POST',
+      body: JSON.stringify({ message, knowledgeMode: true }),
+      headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+    }),
+    context.env,
+    context.ctx,
+  );
+  return (await response.json()) as { sources: Array<{ chunkId: string; fileId: string }> };
+}
+
+describe('hybrid keyword and vector retrieval', () => {
+  it('builds a phrase query from the question', () => {
+    expect(buildMatchQuery('What does ERR-4012 mean for SKU_88-B?')).toBe('"err-4012" OR "mean" OR "sku_88-b"');
+    expect(buildMatchQuery('Is it "v2.3.1"?')).toBe('"v2.3.1"');
+    expect(buildMatchQuery('what is this')).toBe('"what" OR "is" OR "this"');
+    expect(buildMatchQuery('?!')).toBeNull();
+  });
+
+  it('fuses rankings so chunks found by both searches come first', () => {
+    expect(reciprocalRankFusion([['a', 'b', 'c'], ['c', 'd']]).map((entry) => entry.id)).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('finds exact identifiers the vector search missed, within the caller’s access', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    context.env.CHAT_PROVIDER = 'fake';
+    delete context.env.INGESTION_QUEUE;
+    seed(context);
+    for (const file of FILES) {
+      await ingestFileById(context.env, file.id, file.owner);
+    }
+    expect(Array.from(context.db.chunkFts.keys()).sort()).toEqual(Array.from(context.db.chunks.keys()).sort());
+
+    const chunkOf = (fileId: string) => Array.from(context.db.chunks.values()).find((chunk) => chunk.file_id === fileId && chunk.kind === 'content')!;
+    const handbook = chunkOf('handbook');
+    // The embedding search only returns the handbook; the runbook comes from BM25.
+    context.vector.queryResults[organizationNamespace('default')] = [
+      { id: handbook.id, score: 0.8, metadata: { chunkId: handbook.id, fileId: 'handbook', visibility: 'organization', organizationId: 'default', embeddingModel: handbook.embedding_model } },
+    ];
+
+    const answer = await ask(context, 'What does ERR-4012 mean?');
+    expect(new Set(answer.sources.map((source) => source.fileId))).toEqual(new Set(['handbook', 'runbook']));
+
+    await deleteChunksForFile(context.env, 'runbook');
+    expect(Array.from(context.db.chunkFts.keys()).sort()).toEqual(Array.from(context.db.chunks.keys()).sort());
+    const after = await ask(context, 'What does ERR-4012 mean?');
+    expect(after.sources.map((source) => source.fileId)).toEqual(['handbook']);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createEmbeddings, planEmbeddingBatches } from '../src/lib/embeddings';
+import { retryAfterMs } from '../src/lib/openai';
+import { createTestEnv } from './helpers/mock-env';
+
+function embeddingResponse(input: string[]) {
+  // Deliberately out of order: results must be placed by `index`.
+  const data = input.map((text, index) => ({ index, embedding: [text.length, index] })).reverse();
+  return new Response(JSON.stringify({ data }), { status: 200 });
+}
+
+function requestInputs(fetchMock: ReturnType<typeof vi.fn>): string[][] {
+  return fetchMock.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string).input);
+}
+
+describe('embedding batches', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.useRealTimers();
+  });
+
+  it('splits by item count and token budget', () => {
+    const count = (text: string) => text.length;
+    expect(planEmbeddingBatches(['a', 'b', 'c', 'd', 'e'], { maxItems: 2, maxTokens: 100, count })).toEqual([
+      [0, 2],
+      [2, 4],
+      [4, 5],
+    ]);
+    expect(planEmbeddingBatches(['aaaa', 'bbbb', 'cc', 'dddddddddd', 'e'], { maxItems: 10, maxTokens: 8, count })).toEqual([
+      [0, 2],
+      [2, 3],
+      [3, 4],
+      [4, 5],
+    ]);
+    expect(planEmbeddingBatches([], { maxItems: 2, maxTokens: 8, count })).toEqual([]);
+  });
+
+  it('parses Retry-After as seconds, dates and milliseconds', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(retryAfterMs(new Headers({ 'retry-after': '3' }), now)).toBe(3000);
+    expect(retryAfterMs(new Headers({ 'retry-after': 'Wed, 01 Jan 2025 00:00:05 GMT' }), now)).toBe(5000);
+    expect(retryAfterMs(new Headers({ 'retry-after-ms': '250', 'retry-after': '1' }), now)).toBe(250);
+    expect(retryAfterMs(new Headers(), now)).toBeNull();
+  });
+
+  it('returns vectors in input order and reports each batch', async () => {
+    const { env } = createTestEnv();
+    env.EMBEDDING_BATCH_SIZE = '2';
+    env.EMBEDDING_CONCURRENCY = '2';
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => embeddingResponse(JSON.parse(init?.body as string).input));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const starts: number[] = [];
+    const input = ['a', 'bb', 'ccc', 'dddd', 'eeeee'];
+    const vectors = await createEmbeddings(env, input, {
+      onBatch: ({ start, embeddings }) => {
+        starts.push(start);
+        expect(embeddings[0][0]).toBe(input[start].length);
+      },
+    });
+
+    expect(requestInputs(fetchMock)).toEqual([['a', 'bb'], ['ccc', 'dddd'], ['eeeee']]);
+    expect(vectors.map((vector) => vector[0])).toEqual([1, 2, 3, 4, 5]);
+    expect(starts.sort()).toEqual([0, 2, 4]);
+  });
+
+  it('waits for Retry-After on 429 before retrying', async () => {
+    vi.useFakeTimers();
+    const { env } = createTestEnv();
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('rate limited', { status: 429, headers: { 'retry-after': '2' } }))
+      .mockImplementation(async (_url: string, init?: RequestInit) => embeddingResponse(JSON.parse(init?.body as string).input));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const pending = createEmbeddings(env, ['hello']);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toEqual([[5, 0]]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails without retrying on client errors and keeps delivered batches', async () => {
+    const { env } = createTestEnv();
+    env.EMBEDDING_BATCH_SIZE = '1';
+    env.EMBEDDING_CONCURRENCY = '1';
+    const fetchMock = vi
+      .fn()
+      .mockImplementationOnce(async (_url: string, init?: RequestInit) => embeddingResponse(JSON.parse(init?.body as string).input))
+      .mockResolvedValueOnce(new Response('input too long', { status: 400 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const delivered: number[] = [];
+    await expect(
+      createEmbeddings(env, ['one', 'two', 'three'], { onBatch: ({ start }) => void delivered.push(start) }),
+    ).rejects.toThrow('Embedding request failed: 400 input too long');
+    expect(delivered).toEqual([0]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { extractPdfText, PdfError } from '../src/lib/pdf';
+import { buildPdf, deflate, streamObject } from './helpers/pdf-fixture';
+
+const encoder = new TextEncoder();
+
+describe('extractPdfText', () => {
+  it('extracts text per page in page-tree order', async () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [4 0 R 3 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >> >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      streamObject('', 'BT /F1 12 Tf 72 720 Td (Second page) Tj ET'),
+      streamObject(
+        '',
+        'BT /F1 12 Tf 14 TL 72 720 Td [(Hel) 20 (lo) -300 (PDF)] TJ T* (Caf\\351 \\(draft\\)) Tj 0 -14 Td (Third) Tj ET',
+      ),
+    ]);
+
+    const pages = await extractPdfText(pdf);
+    expect(pages).toEqual(['Hello PDF\nCafé (draft)\nThird', 'Second page']);
+  });
+
+  it('decodes compressed content through ToUnicode maps', async () => {
+    const cmap = [
+      '/CIDInit /ProcSet findresource begin',
+      'begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      '2 beginbfchar <0001> <0048> <0002> <0069> endbfchar',
+      '1 beginbfrange <0010> <0012> <0061> endbfrange',
+      'endcmap',
+    ].join('\n');
+    const content = await deflate('BT /F1 10 Tf 1 0 0 1 50 700 Tm <00010002> Tj 1 0 0 1 50 680 Tm <001000110012> Tj ET');
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+      '<< /Type /Font /Subtype /Type0 /BaseFont /Custom /Encoding /Identity-H /ToUnicode 6 0 R >>',
+      streamObject('/Filter /FlateDecode', content),
+      streamObject('', cmap),
+    ]);
+
+    expect(await extractPdfText(pdf)).toEqual(['Hi\nabc']);
+  });
+
+  it('rejects encrypted documents', async () => {
+    const pdf = buildPdf(['<< /Type /Catalog /Pages 2 0 R >>'], '/Root 1 0 R /Encrypt 9 0 R');
+    await expect(extractPdfText(pdf)).rejects.toBeInstanceOf(PdfError);
+  });
+
+  it('rejects files that are not PDFs', async () => {
+    await expect(extractPdfText(encoder.encode('just some text'))).rejects.toThrow('not a valid PDF');
+  });
+});
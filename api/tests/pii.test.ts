@@ -0,0 +1,233 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { authenticateRequest } from '../src/lib/access';
+import { findPii, ibanValid, luhnValid, maskPii } from '../src/lib/pii';
+import { runReindexBatch } from '../src/lib/reindex';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'member',
+  })),
+}));
+
+const timestamp = new Date().toISOString();
+
+const TRANSCRIPT = [
+  'Agent: Thanks for calling, can I confirm your details?',
+  'Customer: Sure, it is Jane.Doe@example.com and my cell is (415) 555-0132.',
+  'Customer: The card ending 1111 is 4111 1111 1111 1111, refunds go to DE89 3704 0044 0532 0130 00.',
+  'Agent: Ticket 2024-05-17 logged under order 1234567890, build 10.4.2.1881.',
+].join('\n');
+
+function seed(context: ReturnType<typeof createTestEnv>, policy?: string) {
+  context.db.organisations.set('default', {
+    id: 'default',
+    slug: 'default',
+    name: 'Default',
+    domain: null,
+    pii_policy: policy ?? null,
+    created_at: timestamp,
+    updated_at: timestamp,
+  });
+  context.db.users.set('user@example.com', {
+    id: 'user@example.com',
+    email: 'user@example.com',
+    display_name: 'Test User',
+    avatar_url: null,
+    tenant: 'default',
+    organization_id: 'default',
+    organization_role: 'member',
+    username: null,
+    title: null,
+    last_seen: timestamp,
+    created_at: timestamp,
+  });
+  context.db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    organization_id: 'default',
+    name: 'My Space',
+    visibility: 'personal',
+    owner_id: 'user@example.com',
+    team_id: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  const key = 'users/user@example.com/private-root/call-call.txt';
+  context.db.files.set('call', {
+    id: 'call',
+    tenant: 'default',
+    organization_id: 'default',
+    folder_id: 'private-root',
+    owner_id: 'user@example.com',
+    team_id: null,
+    visibility: 'personal',
+    file_name: 'call.txt',
+    r2_key: key,
+    size: TRANSCRIPT.length,
+    mime_type: 'text/plain',
+    status: 'processing',
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  return context.r2.put(key, TRANSCRIPT);
+}
+
+function api(path: string, init: RequestInit = {}) {
+  return new Request(`https://example.com/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+  });
+}
+
+async function ingest(context: ReturnType<typeof createTestEnv>) {
+  const response = await app.fetch(
+    api('/ingest', { method: 'POST', body: JSON.stringify({ fileId: 'call' }) }),
+    context.env,
+    context.ctx,
+  );
+  return (await response.json()) as Record<string, unknown>;
+}
+
+describe('PII detection', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('finds personal data with checksum validation and leaves look-alikes alone', () => {
+    expect(luhnValid('4111111111111111')).toBe(true);
+    expect(luhnValid('4111111111111112')).toBe(false);
+    expect(ibanValid('GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(ibanValid('GB82 WEST 1234 5698 7654 33')).toBe(false);
+
+    expect(findPii(TRANSCRIPT).map((match) => [match.kind, match.value])).toEqual([
+      ['email', 'Jane.Doe@example.com'],
+      ['phone', '(415) 555-0132'],
+      ['card', '4111 1111 1111 1111'],
+      ['iban', 'DE89 3704 0044 0532 0130 00'],
+    ]);
+    expect(findPii('Card 4111 1111 1111 1112, SSN 123-45-6789, SSN 666-12-3456, call +44 20 7946 0958').map((m) => m.kind)).toEqual([
+      'ssn',
+      'phone',
+    ]);
+    expect(maskPii('Mail jane@example.com or call 415-555-0132.\nThanks')).toBe('Mail [EMAIL] or call [PHONE].\nThanks');
+
+  });
+
+  it('does not mistake timestamps or hyphenated ids for phone numbers', () => {
+    const log = [
+      '2024-01-15 12:30:45 INFO worker started',
+      '[2024-01-15 09:00] deploy finished',
+      'Opened 2023-11-04 17:05 by ops, closed 15-01-2024 08:10',
+      'ISBN 978-3-16-148410-0 and 0-306-40615-2',
+    ].join('\n');
+    expect(findPii(log)).toEqual([]);
+    expect(maskPii(log)).toBe(log);
+    expect(findPii('On 2024-01-15 call 1-800-555-0199').map((match) => match.value)).toEqual(['1-800-555-0199']);
+  });
+
+  it('flags by default, masks chunks under the mask policy and reports findings per file', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    await seed(context);
+
+    await ingest(context);
+    const flagged = Array.from(context.db.chunks.values()).map((chunk) => chunk.content).join('\n');
+    expect(flagged).toContain('4111 1111 1111 1111');
+
+    const list = (await (await app.fetch(api('/files'), context.env, context.ctx)).json()) as {
+      files: Array<{ id: string; pii: unknown }>;
+    };
+    expect(list.files.find((file) => file.id === 'call')?.pii).toEqual({
+      action: 'flagged',
+      counts: { email: 1, phone: 1, card: 1, iban: 1 },
+    });
+
+    context.db.organisations.get('default')!.pii_policy = 'mask';
+    await ingest(context);
+    const masked = Array.from(context.db.chunks.values()).map((chunk) => chunk.content).join('\n');
+    expect(masked).toContain('it is [EMAIL] and my cell is [PHONE].');
+    expect(masked).toContain('1111 is [CARD], refunds go to [IBAN].');
+    expect(masked).not.toMatch(/example\.com|4111 1111|DE89/);
+
+    const report = (await (await app.fetch(api('/files/call/pii'), context.env, context.ctx)).json()) as Record<string, unknown>;
+    expect(report.summary).toEqual({ action: 'masked', counts: { email: 1, phone: 1, card: 1, iban: 1 } });
+    expect(report.findings).toEqual([
+      { kind: 'card', preview: '•••• 1111', startLine: 1, endLine: 4, page: null },
+      { kind: 'email', preview: 'J•••@example.com', startLine: 1, endLine: 4, page: null },
+      { kind: 'iban', preview: 'DE•• •••• 3000', startLine: 1, endLine: 4, page: null },
+      { kind: 'phone', preview: '•••• 0132', startLine: 1, endLine: 4, page: null },
+    ]);
+    expect(JSON.stringify(Array.from(context.db.piiFindings.values()))).not.toContain('Jane.Doe');
+  });
+
+  it('keeps blocked files out of the index', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    await seed(context);
+    await ingest(context);
+    expect(context.db.chunks.size).toBeGreaterThan(0);
+    const indexed = Array.from(context.db.chunks.keys());
+
+    context.db.organisations.get('default')!.pii_policy = 'block';
+    const blocked = await ingest(context);
+    expect(blocked.error).toBe(
+      'call.txt contains personal data (1 email address, 1 phone number, 1 card number and 1 IBAN), which this organization does not allow in search.',
+    );
+    expect(context.db.chunks.size).toBe(0);
+    expect(context.db.files.get('call')?.status).toBe('failed');
+    expect(context.vector.deletions.flatMap((entry) => entry.ids).sort()).toEqual(indexed.sort());
+    expect(context.db.files.get('call')?.pii_summary).toBe(
+      JSON.stringify({ action: 'blocked', counts: { email: 1, phone: 1, card: 1, iban: 1 } }),
+    );
+  });
+
+  it('fails files that a reindex blocks', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    await seed(context);
+    await ingest(context);
+    expect(context.db.files.get('call')?.status).toBe('ready');
+
+    context.db.organisations.get('default')!.pii_policy = 'block';
+    const { files } = await runReindexBatch(context.env, { organisationId: 'default', requestedBy: 'user@example.com', batchSize: 5 });
+    expect(files).toEqual([expect.objectContaining({ fileId: 'call', status: 'failed' })]);
+    expect(context.db.files.get('call')?.status).toBe('failed');
+    expect(context.db.chunks.size).toBe(0);
+  });
+
+  it('lets organization admins choose the policy', async () => {
+    const context = createTestEnv();
+    await seed(context);
+    const patch = (body: unknown) =>
+      app.fetch(api('/organization/settings', { method: 'PATCH', body: JSON.stringify(body) }), context.env, context.ctx);
+
+    const denied = (await (await patch({ piiPolicy: 'block' })).json()) as { error: string };
+    expect(denied.error).toBe('You need organization admin access for this action.');
+
+    vi.mocked(authenticateRequest).mockResolvedValueOnce({
+      id: 'user@example.com',
+      email: 'user@example.com',
+      displayName: 'Test User',
+      tenant: 'default',
+      organizationId: 'default',
+      organizationRole: 'admin',
+    });
+    const updated = (await (await patch({ piiPolicy: 'mask' })).json()) as Record<string, unknown>;
+    expect(updated).toMatchObject({ piiPolicy: 'mask', maxUploadBytes: 5 * 1024 * 1024 });
+    expect(context.db.organisations.get('default')?.pii_policy).toBe('mask');
+
+    const settings = (await (await app.fetch(api('/organization/settings'), context.env, context.ctx)).json()) as Record<string, unknown>;
+    expect(settings.piiPolicy).toBe('mask');
+  });
+});
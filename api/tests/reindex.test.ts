@@ -0,0 +1,244 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { authenticateRequest } from '../src/lib/access';
+import { embeddingModelName } from '../src/lib/embeddings';
+import { personalNamespace, queryNamespace } from '../src/lib/vectorize';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'admin@example.com',
+    email: 'admin@example.com',
+    displayName: 'Admin',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'admin',
+  })),
+}));
+
+const timestamp = new Date().toISOString();
+
+type ReindexResponse = {
+  job: {
+    id: string;
+    status: string;
+    embeddingModel: string;
+    filesTotal: number;
+    filesDone: number;
+    filesFailed: number;
+    lastError: string | null;
+  };
+  files: Array<{ fileId: string; status: string; error?: string }>;
+  coverage: { model: string; chunks: number; current: number; stale: number };
+};
+
+function seed(context: ReturnType<typeof createTestEnv>, files: Array<{ id: string; name: string; text?: string }>) {
+  context.db.users.set('admin@example.com', {
+    id: 'admin@example.com',
+    email: 'admin@example.com',
+    display_name: 'Admin',
+    avatar_url: null,
+    tenant: 'default',
+    organization_id: 'default',
+    organization_role: 'admin',
+    username: null,
+    title: null,
+    last_seen: timestamp,
+    created_at: timestamp,
+  });
+  context.db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    organization_id: 'default',
+    name: 'My Space',
+    visibility: 'personal',
+    owner_id: 'admin@example.com',
+    team_id: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  for (const file of files) {
+    const key = `users/admin@example.com/private-root/${file.id}-${file.name}`;
+    context.db.files.set(file.id, {
+      id: file.id,
+      tenant: 'default',
+      organization_id: 'default',
+      folder_id: 'private-root',
+      owner_id: 'admin@example.com',
+      team_id: null,
+      visibility: 'personal',
+      file_name: file.name,
+      r2_key: key,
+      size: file.text?.length ?? 0,
+      mime_type: 'text/plain',
+      status: 'ready',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    if (file.text !== undefined) {
+      void context.r2.put(key, file.text);
+    }
+  }
+}
+
+async function reindex(context: ReturnType<typeof createTestEnv>, body: Record<string, unknown> = {}) {
+  const response = await app.fetch(
+    new Request('https://example.com/api/admin/reindex', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+    }),
+    context.env,
+    context.ctx,
+  );
+  return (await response.json()) as ReindexResponse;
+}
+
+const upsertedVectors = (context: ReturnType<typeof createTestEnv>) =>
+  context.vector.upserts.flatMap((entry) => entry.vector) as unknown as Array<{
+    id: string;
+    values: number[];
+    metadata: Record<string, unknown>;
+  }>;
+
+describe('embedding model reindex', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('records the model on chunks and re-embeds in resumable batches after a model change', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    context.env.EMBEDDING_DIMENSIONS = '64';
+    seed(context, [
+      { id: 'file-a', name: 'notes-a.txt', text: 'Rotate the API keys every quarter.\nAudit access monthly.' },
+      { id: 'file-b', name: 'notes-b.txt', text: 'The cafeteria serves lunch at noon.' },
+    ]);
+
+    const first = await reindex(context);
+    expect(first.job).toMatchObject({ status: 'succeeded', embeddingModel: 'hash-v1-64', filesTotal: 2, filesDone: 2 });
+    const chunks = Array.from(context.db.chunks.values());
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(chunks.every((chunk) => chunk.embedding_model === 'hash-v1-64' && chunk.embedding_dimensions === 64)).toBe(true);
+    expect(upsertedVectors(context).every((vector) => vector.metadata.embeddingModel === 'hash-v1-64')).toBe(true);
+    expect(first.coverage).toEqual({ model: 'hash-v1-64', chunks: chunks.length, current: chunks.length, stale: 0 });
+
+    context.env.EMBEDDING_DIMENSIONS = '32';
+    const status = await app.fetch(
+      new Request('https://example.com/api/admin/reindex', { headers: { 'cf-access-jwt-assertion': 'test-token' } }),
+      context.env,
+      context.ctx,
+    );
+    const before = (await status.json()) as Pick<ReindexResponse, 'job' | 'coverage'>;
+    expect(before.job.embeddingModel).toBe('hash-v1-64');
+    expect(before.coverage).toMatchObject({ model: 'hash-v1-32', current: 0, stale: chunks.length });
+
+    context.vector.upserts = [];
+    const step = await reindex(context, { batchSize: 1 });
+    expect(step.job).toMatchObject({ status: 'running', embeddingModel: 'hash-v1-32', filesDone: 1 });
+    expect(step.files).toEqual([expect.objectContaining({ fileId: 'file-a', status: 'reindexed' })]);
+    expect(step.coverage.stale).toBeGreaterThan(0);
+
+    const resumed = await reindex(context, { batchSize: 1 });
+    expect(resumed.job.id).toBe(step.job.id);
+    expect(resumed.files.map((file) => file.fileId)).toEqual(['file-b']);
+
+    const done = await reindex(context, { batchSize: 1 });
+    expect(done.job).toMatchObject({ id: step.job.id, status: 'succeeded', filesDone: 2, filesFailed: 0 });
+    expect(done.files).toEqual([]);
+    expect(done.coverage).toMatchObject({ model: 'hash-v1-32', stale: 0 });
+
+    // Chunk ids are stable, so the new vectors overwrite the old ones in place.
+    const vectors = upsertedVectors(context);
+    expect(vectors.map((vector) => vector.id).sort()).toEqual(chunks.map((chunk) => chunk.id).sort());
+    expect(vectors.every((vector) => vector.values.length === 32 && vector.metadata.embeddingDimensions === 32)).toBe(true);
+    expect(context.vector.deletions).toEqual([]);
+  });
+
+  it('supersedes runs for another model, resumes after transient failures and skips broken files', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    seed(context, [
+      { id: 'file-a', name: 'notes-a.txt', text: 'Rotate the API keys every quarter.' },
+      { id: 'file-b', name: 'missing.txt' },
+    ]);
+
+    const hashed = await reindex(context, { batchSize: 1 });
+    expect(hashed.job).toMatchObject({ status: 'running', filesDone: 1 });
+
+    context.env.EMBEDDING_PROVIDER = 'openai';
+    global.fetch = vi.fn(async () => new Response('invalid request', { status: 400 })) as unknown as typeof fetch;
+    const interrupted = await reindex(context, { batchSize: 5 });
+    expect(context.db.reindexJobs.get(hashed.job.id)?.status).toBe('superseded');
+    expect(interrupted.job).toMatchObject({ status: 'running', embeddingModel: 'text-embedding-3-small', filesDone: 0, filesFailed: 0 });
+    expect(interrupted.job.lastError).toContain('notes-a.txt:');
+    expect(interrupted.files).toEqual([]);
+
+    global.fetch = vi.fn(async (_url: string, init?: RequestInit) => {
+      const body = JSON.parse(init?.body as string);
+      const data = body.input.map((_text: string, index: number) => ({ index, embedding: [0.1, 0.2, 0.3] }));
+      return new Response(JSON.stringify({ data }), { status: 200 });
+    }) as unknown as typeof fetch;
+    const finished = await reindex(context, { batchSize: 5 });
+    expect(finished.job).toMatchObject({ id: interrupted.job.id, status: 'succeeded', filesDone: 1, filesFailed: 1 });
+    expect(finished.files).toEqual([
+      expect.objectContaining({ fileId: 'file-a', status: 'reindexed' }),
+      expect.objectContaining({ fileId: 'file-b', status: 'failed', error: 'Uploaded object not found in R2' }),
+    ]);
+    expect(
+      Array.from(context.db.chunks.values()).every((chunk) => chunk.embedding_model === 'text-embedding-3-small' && chunk.embedding_dimensions === 3),
+    ).toBe(true);
+  });
+
+  it('is limited to organization admins', async () => {
+    const context = createTestEnv();
+    vi.mocked(authenticateRequest).mockResolvedValueOnce({
+      id: 'user@example.com',
+      email: 'user@example.com',
+      displayName: 'Test User',
+      tenant: 'default',
+      organizationId: 'default',
+      organizationRole: 'member',
+    });
+    const response = (await reindex(context)) as unknown as { error: string };
+    expect(response.error).toBe('You need organization admin access for this action.');
+    expect(context.db.reindexJobs.size).toBe(0);
+  });
+
+  it('only returns vectors embedded with the active model', async () => {
+    const { env, vector } = createTestEnv();
+    const metadata = { fileId: 'file-a', fileName: 'notes-a.txt', visibility: 'personal', ownerId: 'admin@example.com' };
+    const namespace = personalNamespace('admin@example.com');
+    vector.queryResults[namespace] = [
+      { id: 'current', score: 0.9, metadata: { ...metadata, chunkId: 'current', embeddingModel: 'hash-v1-32' } },
+      { id: 'stale', score: 0.8, metadata: { ...metadata, chunkId: 'stale', embeddingModel: 'text-embedding-3-small' } },
+      { id: 'legacy', score: 0.7, metadata: { ...metadata, chunkId: 'legacy' } },
+      { id: 'current-2', score: 0.6, metadata: { ...metadata, chunkId: 'current-2', embeddingModel: 'hash-v1-32' } },
+    ];
+
+    // The model is filtered in the index, before topK, so stale vectors cannot crowd out current ones.
+    const matches = await queryNamespace(env, { namespace, vector: [0.1], topK: 2, embeddingModel: 'hash-v1-32' });
+    expect(vector.queries.at(-1)?.filter).toEqual({ embeddingModel: 'hash-v1-32' });
+    // Vectors written before models were recorded are left out until a reindex tags them.
+    expect(matches.map((match) => match.chunkId)).toEqual(['current', 'current-2']);
+  });
+
+  it('keeps untagged vectors while the legacy OpenAI model is still active', async () => {
+    const { env, vector } = createTestEnv();
+    const metadata = { fileId: 'file-a', fileName: 'notes-a.txt', visibility: 'personal', ownerId: 'admin@example.com' };
+    const namespace = personalNamespace('admin@example.com');
+    vector.queryResults[namespace] = [
+      { id: 'legacy', score: 0.9, metadata: { ...metadata, chunkId: 'legacy' } },
+      { id: 'tagged', score: 0.8, metadata: { ...metadata, chunkId: 'tagged', embeddingModel: 'text-embedding-3-small' } },
+      { id: 'other', score: 0.7, metadata: { ...metadata, chunkId: 'other', embeddingModel: 'hash-v1-32' } },
+    ];
+
+    const matches = await queryNamespace(env, { namespace, vector: [0.1], topK: 5, embeddingModel: embeddingModelName(env) });
+    expect(vector.queries.at(-1)?.filter).toBeUndefined();
+    expect(matches.map((match) => match.chunkId)).toEqual(['legacy', 'tagged']);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { ingestFileById } from '../src/lib/ingestion';
+import { handleIngestionQueue } from '../src/lib/ingestion-queue';
+import { parseSummaryText, planSummarySections, summarizeChunks, summarizeFile } from '../src/lib/summaries';
+import { personalNamespace } from '../src/lib/vectorize';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'member',
+  })),
+}));
+
+const timestamp = new Date().toISOString();
+
+const HANDBOOK = [
+  '# Travel policy',
+  'Book flights through the travel desk at least two weeks ahead.',
+  '## Expenses',
+  'Submit receipts within 30 days. Meals are covered up to 60 EUR a day.',
+].join('\n');
+
+const SUMMARY_REPLY = {
+  answer: [
+    'The travel policy explains how staff book trips and claim expenses.',
+    '',
+    '- Flights go through the travel desk two weeks ahead.',
+    '- Receipts are due within 30 days.',
+    '- Meals are covered up to 60 EUR a day.',
+  ].join('\n'),
+  citations: [],
+};
+
+function seed(context: ReturnType<typeof createTestEnv>) {
+  context.db.users.set('user@example.com', {
+    id: 'user@example.com',
+    email: 'user@example.com',
+    display_name: 'Test User',
+    avatar_url: null,
+    tenant: 'default',
+    organization_id: 'default',
+    organization_role: 'member',
+    username: null,
+    title: null,
+    last_seen: timestamp,
+    created_at: timestamp,
+  });
+  context.db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    organization_id: 'default',
+    name: 'My Space',
+    visibility: 'personal',
+    owner_id: 'user@example.com',
+    team_id: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  const key = 'users/user@example.com/private-root/travel-travel.md';
+  context.db.files.set('travel', {
+    id: 'travel',
+    tenant: 'default',
+    organization_id: 'default',
+    folder_id: 'private-root',
+    owner_id: 'user@example.com',
+    team_id: null,
+    visibility: 'personal',
+    file_name: 'travel.md',
+    r2_key: key,
+    size: HANDBOOK.length,
+    mime_type: 'text/markdown',
+    status: 'processing',
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  return context.r2.put(key, HANDBOOK);
+}
+
+function api(path: string, init: RequestInit = {}) {
+  return new Request(`https://example.com/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+  });
+}
+
+async function ingest(context: ReturnType<typeof createTestEnv>) {
+  await app.fetch(api('/ingest', { method: 'POST', body: JSON.stringify({ fileId: 'travel' }) }), context.env, context.ctx);
+}
+
+describe('document summaries', () => {
+  it('parses an abstract paragraph followed by key points', () => {
+    expect(parseSummaryText('A handbook for new staff.\nIt covers leave.\n\nKey points:\n- Leave is 25 days.\n* Payday is the 28th.\n2. Laptops are issued on day one.')).toEqual({
+      abstract: 'A handbook for new staff. It covers leave.',
+      keyPoints: ['Leave is 25 days.', 'Payday is the 28th.', 'Laptops are issued on day one.'],
+    });
+    expect(parseSummaryText('- Only a bullet')).toEqual({ abstract: 'Only a bullet', keyPoints: ['Only a bullet'] });
+    expect(parseSummaryText('  \n')).toBeNull();
+  });
+
+  it('splits long files into sections and samples them evenly past the limit', () => {
+    const count = (text: string) => text.length;
+    expect(planSummarySections(['aaaa', 'bbbb', 'cccc'], 8, count)).toEqual(['aaaa\n\nbbbb', 'cccc']);
+
+    const chunks = Array.from({ length: 40 }, (_, index) => `section-${String(index).padStart(2, '0')}`);
+    const sampled = planSummarySections(chunks, 10, count);
+    expect(sampled).toHaveLength(16);
+    expect(sampled[0]).toBe('section-00');
+    expect(sampled[15]).toBe('section-39');
+  });
+
+  it('summarises each section of a long file, then combines the partial summaries', async () => {
+    const { env } = createTestEnv();
+    env.CHAT_PROVIDER = 'fake';
+    env.CHAT_SCRIPT = JSON.stringify([
+      { answer: 'Part one covers flights.\n\n- Book early.', citations: [] },
+      { answer: 'Part two covers expenses.\n\n- Keep receipts.', citations: [] },
+      SUMMARY_REPLY,
+    ]);
+    const long = 'travel '.repeat(3000);
+
+    const summary = await summarizeChunks(env, 'travel.md', [long, long]);
+    expect(summary.abstract).toBe('The travel policy explains how staff book trips and claim expenses.');
+    expect(summary.keyPoints).toHaveLength(3);
+  });
+
+  it('summarises files after ingestion and indexes the summary as a chunk', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    context.env.CHAT_PROVIDER = 'fake';
+    context.env.CHAT_SCRIPT = JSON.stringify([SUMMARY_REPLY]);
+    await seed(context);
+
+    await ingest(context);
+    expect(context.queue.messages).toEqual([
+      { type: 'summary', fileId: 'travel' },
+      { type: 'tags', fileId: 'travel' },
+    ]);
+    const [message] = await context.queue.drain((batch) => handleIngestionQueue(batch, context.env));
+    expect(message.ack).toHaveBeenCalled();
+
+    const file = context.db.files.get('travel');
+    expect(file?.summary_abstract).toBe('The travel policy explains how staff book trips and claim expenses.');
+    expect(file?.summary_model).toBe('fake');
+    const summaryChunks = Array.from(context.db.chunks.values()).filter((chunk) => chunk.kind === 'summary');
+    expect(summaryChunks).toHaveLength(1);
+    expect(summaryChunks[0]).toMatchObject({ chunk_index: -1, heading_path: 'Summary', start_line: 0, end_line: 0, page_number: null });
+    expect(summaryChunks[0].content).toContain('Summary of travel.md');
+    const vectors = context.vector.upserts.flatMap((entry) => entry.vector) as unknown as Array<{ id: string; metadata: Record<string, unknown> }>;
+    expect(vectors.find((vector) => vector.id === summaryChunks[0].id)?.metadata).toMatchObject({ headingPath: 'Summary', fileId: 'travel' });
+
+    const list = (await (await app.fetch(api('/files'), context.env, context.ctx)).json()) as {
+      files: Array<{ id: string; summary: unknown }>;
+    };
+    expect(list.files.find((entry) => entry.id === 'travel')?.summary).toEqual({
+      abstract: 'The travel policy explains how staff book trips and claim expenses.',
+      keyPoints: [
+        'Flights go through the travel desk two weeks ahead.',
+        'Receipts are due within 30 days.',
+        'Meals are covered up to 60 EUR a day.',
+      ],
+      generatedAt: expect.any(String),
+    });
+
+    // Re-ingesting unchanged text keeps the summary chunk and does not ask the model again.
+    await ingest(context);
+    expect(Array.from(context.db.chunks.values()).filter((chunk) => chunk.kind === 'summary')).toHaveLength(1);
+    expect(await summarizeFile(context.env, 'travel')).toBe('unchanged');
+
+    // A failed vector write keeps the previous summary chunk in place.
+    context.env.EMBEDDING_DIMENSIONS = '32';
+    const upsert = vi.spyOn(context.vector, 'upsert').mockRejectedValueOnce(new Error('Vectorize unavailable'));
+    await expect(summarizeFile(context.env, 'travel')).rejects.toThrow('Vectorize unavailable');
+    expect(Array.from(context.db.chunks.values()).filter((chunk) => chunk.kind === 'summary').map((chunk) => chunk.id)).toEqual([
+      summaryChunks[0].id,
+    ]);
+    upsert.mockRestore();
+
+    expect(await summarizeFile(context.env, 'travel')).toBe('reindexed');
+    const reindexed = Array.from(context.db.chunks.values()).filter((chunk) => chunk.kind === 'summary');
+    expect(reindexed).toHaveLength(1);
+    expect(reindexed[0].embedding_dimensions).toBe(32);
+    expect(context.vector.deletions.flatMap((entry) => entry.ids)).toContain(summaryChunks[0].id);
+  });
+
+  it('skips the summary without a queue or an execution context to run it in', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    context.env.CHAT_PROVIDER = 'fake';
+    context.env.CHAT_SCRIPT = JSON.stringify([SUMMARY_REPLY]);
+    delete context.env.INGESTION_QUEUE;
+    await seed(context);
+    await ingestFileById(context.env, 'travel', 'user@example.com');
+
+    expect(context.db.files.get('travel')?.status).toBe('ready');
+    expect(context.db.files.get('travel')?.summary_abstract).toBeFalsy();
+    expect(Array.from(context.db.chunks.values()).some((chunk) => chunk.kind === 'summary')).toBe(false);
+  });
+
+  it('offers the summary as a whole-file source that citations never point at', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    context.env.CHAT_PROVIDER = 'fake';
+    context.env.CHAT_SCRIPT = JSON.stringify([
+      SUMMARY_REPLY,
+      { answer: 'Book two weeks ahead.', citations: [{ folder: 'My Space', file: 'travel.md', lines: [1, 2] }] },
+    ]);
+    delete context.env.INGESTION_QUEUE;
+    const pending: Promise<unknown>[] = [];
+    context.ctx.waitUntil = (promise) => pending.push(promise);
+    await seed(context);
+    await ingest(context);
+    await Promise.all(pending);
+
+    const summary = Array.from(context.db.chunks.values()).find((chunk) => chunk.kind === 'summary')!;
+    const content = Array.from(context.db.chunks.values()).find((chunk) => chunk.kind === 'content')!;
+    context.vector.queryResults[personalNamespace('user@example.com')] = [summary, content].map((chunk, index) => ({
+      id: chunk.id,
+      score: 0.9 - index / 10,
+      metadata: { chunkId: chunk.id, fileId: 'travel', visibility: 'personal', organizationId: 'default', embeddingModel: chunk.embedding_model },
+    }));
+
+    const response = await app.fetch(
+      api('/chat', { method: 'POST', body: JSON.stringify({ message: 'How far ahead do I book?', knowledgeMode: true }) }),
+      context.env,
+      context.ctx,
+    );
+    const body = (await response.json()) as {
+      citations: Array<{ section?: string }>;
+      sources: Array<{ chunkId: string; kind: string; startLine: number; endLine: number; page: number | null }>;
+    };
+    expect(body.sources.find((source) => source.chunkId === summary.id)).toMatchObject({ kind: 'summary', startLine: 0, endLine: 0, page: null });
+    expect(body.citations[0].section).not.toBe('Summary');
+  });
+});
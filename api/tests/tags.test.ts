@@ -0,0 +1,189 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { handleIngestionQueue } from '../src/lib/ingestion-queue';
+import { countTerms, normalizeTag, rankTags } from '../src/lib/tags';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'member',
+  })),
+}));
+
+const timestamp = new Date().toISOString();
+
+const DOCUMENTS = [
+  {
+    id: 'travel',
+    folder: 'private-root',
+    name: 'travel.md',
+    text: [
+      '# Travel policy',
+      'The travel policy applies to every business trip.',
+      'Book flights through the travel desk. The travel desk also books hotels.',
+      'Hotels are covered for business trips longer than one day.',
+      'Questions about the travel policy go to the travel desk.',
+    ].join('\n'),
+  },
+  {
+    id: 'security',
+    folder: 'handbooks',
+    name: 'security.md',
+    text: [
+      '# Security policy',
+      'Rotate passwords every quarter and store passwords in the password manager.',
+      'Report phishing emails to the security team. The security team reviews every report.',
+      'Laptops must use disk encryption.',
+    ].join('\n'),
+  },
+];
+
+function seed(context: ReturnType<typeof createTestEnv>) {
+  context.db.users.set('user@example.com', {
+    id: 'user@example.com',
+    email: 'user@example.com',
+    display_name: 'Test User',
+    avatar_url: null,
+    tenant: 'default',
+    organization_id: 'default',
+    organization_role: 'member',
+    username: null,
+    title: null,
+    last_seen: timestamp,
+    created_at: timestamp,
+  });
+  for (const [id, name] of [
+    ['private-root', 'My Space'],
+    ['handbooks', 'Handbooks'],
+  ]) {
+    context.db.folders.set(id, {
+      id,
+      tenant: 'default',
+      organization_id: 'default',
+      name,
+      visibility: 'personal',
+      owner_id: 'user@example.com',
+      team_id: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+  }
+  for (const document of DOCUMENTS) {
+    const key = `users/user@example.com/${document.folder}/${document.id}-${document.name}`;
+    context.db.files.set(document.id, {
+      id: document.id,
+      tenant: 'default',
+      organization_id: 'default',
+      folder_id: document.folder,
+      owner_id: 'user@example.com',
+      team_id: null,
+      visibility: 'personal',
+      file_name: document.name,
+      r2_key: key,
+      size: document.text.length,
+      mime_type: 'text/markdown',
+      status: 'processing',
+      created_at: timestamp,
+      updated_at: timestamp,
+      deleted_at: null,
+    });
+    void context.r2.put(key, document.text);
+  }
+}
+
+function api(path: string, init: RequestInit = {}) {
+  return new Request(`https://example.com/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token' },
+  });
+}
+
+async function ingestAll(context: ReturnType<typeof createTestEnv>) {
+  for (const document of DOCUMENTS) {
+    await app.fetch(api('/ingest', { method: 'POST', body: JSON.stringify({ fileId: document.id }) }), context.env, context.ctx);
+  }
+  return context.queue.drain((batch) => handleIngestionQueue(batch, context.env));
+}
+
+async function get<T>(context: ReturnType<typeof createTestEnv>, path: string): Promise<T> {
+  return (await (await app.fetch(api(path), context.env, context.ctx)).json()) as T;
+}
+
+describe('file tags', () => {
+  it('counts words and repeated phrases, leaving out stopwords, numbers and PII placeholders', () => {
+    const terms = countTerms(['The travel desk books travel for 2 days.', 'Ask the travel desk at [EMAIL] or the desk’s phone.']);
+    expect(terms).toEqual([
+      { term: 'desk', frequency: 3 },
+      { term: 'travel', frequency: 3 },
+      { term: 'travel desk', frequency: 2 },
+      { term: 'ask', frequency: 1 },
+      { term: 'books', frequency: 1 },
+      { term: 'days', frequency: 1 },
+      { term: 'phone', frequency: 1 },
+    ]);
+  });
+
+  it('ranks terms by TF-IDF and prefers phrases over the words in them', () => {
+    const terms = [
+      { term: 'policy', frequency: 4 },
+      { term: 'travel', frequency: 3 },
+      { term: 'travel desk', frequency: 2 },
+      { term: 'hotels', frequency: 2 },
+    ];
+    // "policy" is in every file of the organisation, "hotels" only in this one.
+    const documents = new Map([
+      ['policy', 10],
+      ['travel', 2],
+      ['travel desk', 1],
+      ['hotels', 1],
+    ]);
+    expect(rankTags(terms, 10, documents).map((tag) => tag.tag)).toEqual(['travel desk', 'hotels', 'policy']);
+    expect(normalizeTag('  Expense Reports!! ')).toBe('expense reports');
+    expect(normalizeTag('?')).toBeNull();
+  });
+
+  it('tags files after ingestion and filters files and folders by tag', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    context.env.CHAT_PROVIDER = 'fake';
+    seed(context);
+
+    const messages = await ingestAll(context);
+    expect(messages.every((message) => vi.mocked(message.ack).mock.calls.length === 1)).toBe(true);
+
+    const { files } = await get<{ files: Array<{ id: string; tags: string[] }> }>(context, '/files');
+    const tags = Object.fromEntries(files.map((file) => [file.id, file.tags]));
+    expect(tags.travel).toContain('travel desk');
+    expect(tags.travel).toContain('travel policy');
+    expect(tags.travel).not.toContain('travel');
+    expect(tags.security).toContain('security team');
+    expect(tags.security).toContain('passwords');
+    expect(Array.from(context.db.fileTags.values()).every((entry) => entry.source === 'tfidf')).toBe(true);
+
+    const filtered = await get<{ files: Array<{ id: string }> }>(context, '/files?tag=Travel%20Desk');
+    expect(filtered.files.map((file) => file.id)).toEqual(['travel']);
+
+    const folders = await get<{ folders: Array<{ id: string; fileCount: number }> }>(context, '/folders?tag=passwords');
+    expect(folders.folders).toEqual([expect.objectContaining({ id: 'handbooks', fileCount: 1 })]);
+  });
+
+  it('lets the chat model refine the candidates when enabled', async () => {
+    const context = createTestEnv();
+    context.env.EMBEDDING_PROVIDER = 'hash';
+    context.env.CHAT_PROVIDER = 'fake';
+    context.env.REFINE_TAGS = 'true';
+    // Every request gets this reply: the summaries ignore it and both files get the same topics.
+    context.env.CHAT_SCRIPT = JSON.stringify([{ answer: '- Business Travel\n- expenses\n- business travel', citations: [] }]);
+    seed(context);
+
+    await ingestAll(context);
+    expect(context.db.files.get('travel')?.tags).toBe(JSON.stringify(['business travel', 'expenses']));
+    expect(context.db.fileTags.get('travel:business travel')).toMatchObject({ source: 'model', score: 1 });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { assertTxtFile, deriveTxtFileName } from '../src/lib/text-conversion';
+import { assertSupportedFile, deriveFileName, deriveTxtFileName, isBinaryFormat } from '../src/lib/text-conversion';
 import { HTTPException } from 'hono/http-exception';
 
 describe('text conversion helpers', () => {
@@ -9,16 +9,53 @@ describe('text conversion helpers', () => {
     expect(deriveTxtFileName('')).toBe('untitled.txt');
   });
 
+  it('keeps Markdown extensions when deriving names', () => {
+    expect(deriveFileName('guide.md', 'markdown')).toBe('guide.md');
+    expect(deriveFileName('Guide', 'markdown')).toBe('Guide.md');
+    expect(deriveFileName('guide.txt', 'markdown')).toBe('guide.md');
+  });
+
   it('accepts known text files', () => {
-    expect(() => assertTxtFile({ file_name: 'notes.txt', mime_type: 'text/plain' })).not.toThrow();
-    expect(() => assertTxtFile({ file_name: 'README.TXT', mime_type: null })).not.toThrow();
+    expect(assertSupportedFile({ file_name: 'notes.txt', mime_type: 'text/plain' })).toBe('text');
+    expect(assertSupportedFile({ file_name: 'README.TXT', mime_type: null })).toBe('text');
+  });
+
+  it('accepts Markdown files', () => {
+    expect(assertSupportedFile({ file_name: 'setup.md', mime_type: 'text/markdown' })).toBe('markdown');
+    expect(assertSupportedFile({ file_name: 'setup.markdown', mime_type: null })).toBe('markdown');
+  });
+
+  it('accepts CSV and TSV exports', () => {
+    expect(assertSupportedFile({ file_name: 'limits.csv', mime_type: 'application/vnd.ms-excel' })).toBe('csv');
+    expect(assertSupportedFile({ file_name: 'limits.tsv', mime_type: null })).toBe('tsv');
+  });
+
+  it('accepts PDFs and Word documents as binary uploads', () => {
+    expect(assertSupportedFile({ file_name: 'handbook.pdf', mime_type: 'application/pdf' })).toBe('pdf');
+    expect(
+      assertSupportedFile({
+        file_name: 'policy.docx',
+        mime_type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      }),
+    ).toBe('docx');
+    expect(isBinaryFormat('docx')).toBe(true);
+    expect(isBinaryFormat('pdf')).toBe(true);
+    expect(isBinaryFormat('markdown')).toBe(false);
+  });
+
+  it('accepts source code files', () => {
+    expect(assertSupportedFile({ file_name: 'worker.ts', mime_type: 'video/mp2t' })).toBe('typescript');
+    expect(assertSupportedFile({ file_name: 'etl.py', mime_type: 'text/x-python' })).toBe('python');
+    expect(assertSupportedFile({ file_name: 'main.go', mime_type: null })).toBe('go');
+    expect(assertSupportedFile({ file_name: 'schema.sql', mime_type: 'application/sql' })).toBe('sql');
+    expect(isBinaryFormat('typescript')).toBe(false);
   });
 
   it('rejects unsupported extensions', () => {
-    expect(() => assertTxtFile({ file_name: 'diagram.pdf', mime_type: 'application/pdf' })).toThrow(HTTPException);
+    expect(() => assertSupportedFile({ file_name: 'diagram.png', mime_type: 'image/png' })).toThrow(HTTPException);
   });
 
   it('rejects unexpected mime types even for .txt extension', () => {
-    expect(() => assertTxtFile({ file_name: 'notes.txt', mime_type: 'application/octet-stream' })).toThrow(HTTPException);
+    expect(() => assertSupportedFile({ file_name: 'notes.txt', mime_type: 'application/octet-stream' })).toThrow(HTTPException);
   });
 });
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { countTokens, fitToTokenBudget, tokenizerForModel } from '../src/lib/tokens';
+
+describe('tokenizerForModel', () => {
+  it('uses the embedding limit for known and unknown models', () => {
+    expect(tokenizerForModel('text-embedding-3-small')).toMatchObject({ encoding: 'cl100k_base', maxInputTokens: 8191 });
+    expect(tokenizerForModel('gpt-4o-mini')).toMatchObject({ encoding: 'o200k_base', maxInputTokens: 128_000 });
+    expect(tokenizerForModel('some-local-model').maxInputTokens).toBe(8191);
+  });
+
+  it('counts CJK and symbol-heavy text as denser than prose', () => {
+    const prose = 'The quarterly report covers revenue and hiring.';
+    const cjk = '四半期報告書は売上と採用を扱います。';
+    const code = 'if (a[i] !== b[i]) { return -1; }';
+    expect(countTokens(prose)).toBe(10);
+    expect(countTokens(cjk) / cjk.length).toBeGreaterThan(1);
+    expect(countTokens(code) / code.length).toBeGreaterThan(countTokens(prose) / prose.length);
+  });
+});
+
+describe('fitToTokenBudget', () => {
+  const block = (content: string, startLine = 1) => ({
+    content,
+    startLine,
+    endLine: startLine + content.split('\n').length - 1,
+  });
+  const words = (count: number) => ({ content: 'x '.repeat(count).trim(), startLine: 1, endLine: 1 });
+  const count = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+  it('keeps ranked blocks until the first one that does not fit', () => {
+    const result = fitToTokenBudget([words(4), words(4), words(1)], 8, count);
+    expect(result.blocks).toHaveLength(2);
+    expect(result).toMatchObject({ tokens: 8, dropped: 1, truncated: true });
+  });
+
+  it('trims an oversized top block at a line boundary', () => {
+    const top = block(['a b c', 'd e f', 'g h i'].join('\n'), 10);
+    const result = fitToTokenBudget([top, words(1)], 5, count, 1);
+    expect(result.blocks).toEqual([{ content: 'a b c', startLine: 10, endLine: 10 }]);
+    expect(result.dropped).toBe(1);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { formatTimestamp, parseTranscript } from '../src/lib/transcript';
+
+describe('parseTranscript', () => {
+  it('drops SRT cue numbers and styling but keeps speaker labels', () => {
+    const srt = [
+      '1',
+      '00:00:01,000 --> 00:00:04,500',
+      'ALICE: Welcome to the <i>weekly</i> sync.',
+      '',
+      '2',
+      '00:00:05,000 --> 00:00:07,250',
+      '{\\an8}BOB: Thanks.',
+      'Let us start.',
+      '',
+    ].join('\r\n');
+    expect(parseTranscript(srt, 'srt')).toEqual([
+      { startMs: 1000, endMs: 4500, text: 'ALICE: Welcome to the weekly sync.', startLine: 2, endLine: 3 },
+      { startMs: 5000, endMs: 7250, text: 'BOB: Thanks. Let us start.', startLine: 6, endLine: 8 },
+    ]);
+  });
+
+  it('reads WebVTT voice tags and skips header and NOTE blocks', () => {
+    const vtt = [
+      'WEBVTT - Planning',
+      '',
+      'NOTE recorded in room 4',
+      '',
+      'intro',
+      '14:32.000 --> 14:40.500 align:start',
+      '<v.loud Dana Scully>We need the budget &amp; timeline</v>',
+      '',
+      '01:00:02.000 --> 01:00:03.000',
+      'Agreed.',
+    ].join('\n');
+    expect(parseTranscript(vtt, 'vtt')).toEqual([
+      { startMs: 872_000, endMs: 880_500, text: 'Dana Scully: We need the budget & timeline', startLine: 6, endLine: 7 },
+      { startMs: 3_602_000, endMs: 3_603_000, text: 'Agreed.', startLine: 9, endLine: 10 },
+    ]);
+  });
+
+  it('formats citation timestamps as HH:MM:SS', () => {
+    expect(formatTimestamp(872_999)).toBe('00:14:32');
+    expect(formatTimestamp(3_602_000)).toBe('01:00:02');
+  });
+});
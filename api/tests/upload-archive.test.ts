@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { createTestEnv } from './helpers/mock-env';
+import { buildZip } from './helpers/zip-fixture';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'owner',
+  })),
+}));
+
+vi.mock('../src/lib/ingestion', () => ({
+  ingestFileById: vi.fn(async () => undefined),
+}));
+
+describe('archive upload route', () => {
+  it('mirrors archive folders and reports accepted and rejected entries', async () => {
+    const { env, db, ctx } = createTestEnv();
+
+    const zip = await buildZip([
+      { name: 'onboarding/', data: '' },
+      { name: 'onboarding/welcome.md', data: '# Welcome\nStart here.', compress: true },
+      { name: 'onboarding/policies/leave.txt', data: 'Leave policy.' },
+      { name: 'onboarding/policies/logo.png', data: 'not really a png' },
+      { name: 'onboarding/empty.txt', data: '   ' },
+      { name: '__MACOSX/onboarding/._welcome.md', data: 'resource fork' },
+    ]);
+
+    const form = new FormData();
+    form.append('file', new File([zip as BlobPart], 'onboarding.zip', { type: 'application/zip' }));
+    form.append('visibility', 'personal');
+
+    const response = await app.fetch(
+      new Request('https://example.com/api/files/archive', {
+        method: 'POST',
+        body: form,
+        headers: { 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(201);
+    const report = (await response.json()) as {
+      folders: Array<{ id: string; name: string; created: boolean }>;
+      accepted: number;
+      rejected: number;
+      entries: Array<{ path: string; status: string; reason?: string; folderId?: string }>;
+    };
+
+    expect(report.accepted).toBe(2);
+    expect(report.rejected).toBe(3);
+    expect(report.folders.map((folder) => [folder.name, folder.created])).toEqual([
+      ['onboarding', true],
+      ['onboarding / policies', true],
+    ]);
+    expect(report.entries.map((entry) => [entry.path, entry.status, entry.reason])).toEqual([
+      ['onboarding/welcome.md', 'accepted', undefined],
+      ['onboarding/policies/leave.txt', 'accepted', undefined],
+      ['onboarding/policies/logo.png', 'rejected', expect.stringContaining('are supported')],
+      ['onboarding/empty.txt', 'rejected', 'File appears to be empty.'],
+      ['__MACOSX/onboarding/._welcome.md', 'rejected', 'Skipped hidden or system file.'],
+    ]);
+
+    const welcome = [...db.files.values()].find((file) => file.file_name === 'welcome.md');
+    expect(welcome?.folder_id).toBe(report.folders[0].id);
+    expect(welcome?.mime_type).toBe('text/markdown');
+    expect(db.folders.get(report.folders[1].id)?.owner_id).toBe('user@example.com');
+  });
+
+  it('records the size of the stored text rather than of the entry', async () => {
+    const { env, db, r2, ctx } = createTestEnv();
+
+    // UTF-16 with a byte-order mark is stored as UTF-8, at roughly half the size.
+    const text = 'Notes about the café.';
+    const utf16 = new Uint8Array(2 + text.length * 2);
+    utf16.set([0xff, 0xfe]);
+    for (let index = 0; index < text.length; index += 1) {
+      utf16[2 + index * 2] = text.charCodeAt(index);
+    }
+    const zip = await buildZip([{ name: 'notes.txt', data: utf16, compress: true }]);
+
+    const form = new FormData();
+    form.append('file', new File([zip as BlobPart], 'notes.zip', { type: 'application/zip' }));
+    form.append('visibility', 'personal');
+    const response = await app.fetch(
+      new Request('https://example.com/api/files/archive', {
+        method: 'POST',
+        body: form,
+        headers: { 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(response.status).toBe(201);
+
+    const file = [...db.files.values()].find((candidate) => candidate.file_name === 'notes.txt');
+    const stored = await r2.get(file!.r2_key);
+    expect(await stored?.text()).toBe(text);
+    expect(file?.size).toBe(new TextEncoder().encode(text).byteLength);
+    expect(file?.source_encoding).toBe('utf-16le');
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    const { env, ctx } = createTestEnv();
+    const form = new FormData();
+    form.append('file', new File(['plain'], 'notes.zip', { type: 'application/zip' }));
+    form.append('visibility', 'personal');
+
+    const response = await app.fetch(
+      new Request('https://example.com/api/files/archive', {
+        method: 'POST',
+        body: form,
+        headers: { 'cf-access-jwt-assertion': 'test-token' },
+      }),
+      env,
+      ctx,
+    );
+    expect(response.ok).toBe(false);
+    expect(((await response.json()) as { error: string }).error).toBe('File is not a valid zip archive.');
+  });
+});
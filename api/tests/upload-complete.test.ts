@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { sweepAbandonedUploads } from '../src/lib/upload-sweeper';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'member',
+  })),
+}));
+
+const timestamp = new Date().toISOString();
+
+function seed(
+  context: ReturnType<typeof createTestEnv>,
+  file: { id: string; name: string; size: number; mimeType?: string; createdAt?: string; status?: 'uploading' | 'ready' },
+) {
+  context.db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    organization_id: 'default',
+    name: 'My Space',
+    visibility: 'personal',
+    owner_id: 'user@example.com',
+    team_id: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  const key = `users/user@example.com/private-root/${file.id}-${file.name}`;
+  context.db.files.set(file.id, {
+    id: file.id,
+    tenant: 'default',
+    organization_id: 'default',
+    folder_id: 'private-root',
+    owner_id: 'user@example.com',
+    team_id: null,
+    visibility: 'personal',
+    file_name: file.name,
+    r2_key: key,
+    size: file.size,
+    mime_type: file.mimeType ?? 'text/plain',
+    status: file.status ?? 'uploading',
+    created_at: file.createdAt ?? timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+  return key;
+}
+
+function complete(fileId: string) {
+  return new Request(`https://example.com/api/files/${fileId}/complete`, {
+    method: 'POST',
+    headers: { 'cf-access-jwt-assertion': 'test-token' },
+  });
+}
+
+describe('POST /api/files/:id/complete', () => {
+  it('queues ingestion once the uploaded object matches the declared size', async () => {
+    const context = createTestEnv();
+    const body = new TextEncoder().encode('Quarterly notes\nRevenue grew.');
+    const key = seed(context, { id: 'notes', name: 'notes.txt', size: body.byteLength });
+    await context.r2.put(key, body);
+
+    const response = await app.fetch(complete('notes'), context.env, context.ctx);
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as { status: string; queued: boolean; jobId: string };
+    expect(data).toMatchObject({ status: 'queued', queued: true });
+    expect(context.queue.messages).toEqual([{ jobId: data.jobId }]);
+    expect(context.db.files.get('notes')).toMatchObject({ status: 'queued', source_encoding: 'utf-8' });
+
+    const again = (await (await app.fetch(complete('notes'), context.env, context.ctx)).json()) as { queued: boolean };
+    expect(again.queued).toBe(false);
+    expect(context.queue.messages).toHaveLength(1);
+  });
+
+  it('leaves the record in place while the object has not arrived', async () => {
+    const context = createTestEnv();
+    seed(context, { id: 'pending', name: 'pending.txt', size: 10 });
+
+    const response = await app.fetch(complete('pending'), context.env, context.ctx);
+    const data = (await response.json()) as { error: string };
+    expect(data.error).toContain('Upload not found in storage');
+    expect(context.db.files.get('pending')?.status).toBe('uploading');
+  });
+
+  it('rejects size mismatches and binary content, removing the upload', async () => {
+    const context = createTestEnv();
+    const shortKey = seed(context, { id: 'short', name: 'short.txt', size: 100 });
+    await context.r2.put(shortKey, 'only a few bytes');
+    const shortResponse = (await (await app.fetch(complete('short'), context.env, context.ctx)).json()) as { error: string };
+    expect(shortResponse.error).toBe('Uploaded 16 bytes but 100 were declared.');
+    expect(context.db.files.has('short')).toBe(false);
+    expect(context.r2.objects.has(shortKey)).toBe(false);
+
+    const binary = new Uint8Array([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x03, 0x00]);
+    const binaryKey = seed(context, { id: 'binary', name: 'notes.txt', size: binary.byteLength });
+    await context.r2.put(binaryKey, binary);
+    const binaryResponse = (await (await app.fetch(complete('binary'), context.env, context.ctx)).json()) as { error: string };
+    expect(binaryResponse.error).toBe('Uploaded content does not look like text.');
+    expect(context.db.files.has('binary')).toBe(false);
+
+    const fakePdf = new TextEncoder().encode('not really a pdf');
+    const pdfKey = seed(context, { id: 'pdf', name: 'report.pdf', size: fakePdf.byteLength, mimeType: 'application/pdf' });
+    await context.r2.put(pdfKey, fakePdf);
+    const pdfResponse = (await (await app.fetch(complete('pdf'), context.env, context.ctx)).json()) as { error: string };
+    expect(pdfResponse.error).toBe('Uploaded content is not a valid .pdf file.');
+    expect(context.queue.messages).toHaveLength(0);
+  });
+});
+
+describe('abandoned upload sweeper', () => {
+  it('expires stale uploading records and their objects', async () => {
+    const context = createTestEnv();
+    const now = new Date('2025-03-01T12:00:00Z');
+    const staleKey = seed(context, { id: 'stale', name: 'stale.txt', size: 5, createdAt: '2025-03-01T10:00:00Z' });
+    await context.r2.put(staleKey, 'hello');
+    seed(context, { id: 'recent', name: 'recent.txt', size: 5, createdAt: '2025-03-01T11:30:00Z' });
+    seed(context, { id: 'done', name: 'done.txt', size: 5, createdAt: '2025-02-01T10:00:00Z', status: 'ready' });
+
+    const result = await sweepAbandonedUploads(context.env, now);
+
+    expect(result).toEqual({ expired: 1 });
+    expect(context.db.files.has('stale')).toBe(false);
+    expect(context.r2.objects.has(staleKey)).toBe(false);
+    expect(context.db.files.has('recent')).toBe(true);
+    expect(context.db.files.has('done')).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/worker';
+import { authenticateRequest } from '../src/lib/access';
+import { sweepAbandonedUploads } from '../src/lib/upload-sweeper';
+import { createTestEnv } from './helpers/mock-env';
+
+vi.mock('../src/lib/access', () => ({
+  authenticateRequest: vi.fn(async () => ({
+    id: 'user@example.com',
+    email: 'user@example.com',
+    displayName: 'Test User',
+    tenant: 'default',
+    organizationId: 'default',
+    organizationRole: 'admin',
+  })),
+}));
+
+const MIB = 1024 * 1024;
+
+function api(path: string, init: RequestInit = {}) {
+  return new Request(`https://example.com/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'cf-access-jwt-assertion': 'test-token', ...init.headers },
+  });
+}
+
+function seedFolder(context: ReturnType<typeof createTestEnv>) {
+  const timestamp = new Date().toISOString();
+  context.db.folders.set('private-root', {
+    id: 'private-root',
+    tenant: 'default',
+    organization_id: 'default',
+    name: 'My Space',
+    visibility: 'personal',
+    owner_id: 'user@example.com',
+    team_id: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+    deleted_at: null,
+  });
+}
+
+function startUpload(size: number, fileName = 'server.log.txt') {
+  return api('/upload-multipart', {
+    method: 'POST',
+    body: JSON.stringify({ folderId: 'private-root', folderName: 'My Space', visibility: 'personal', fileName, size }),
+  });
+}
+
+describe('multipart uploads', () => {
+  it('uploads parts within the organisation limit and queues the assembled file', async () => {
+    const context = createTestEnv();
+    const { env, ctx, db, r2, queue } = context;
+    seedFolder(context);
+    const content = new TextEncoder().encode('GET /health 200\n'.repeat((10 * MIB) / 16 + 10));
+
+    const rejected = (await (await app.fetch(startUpload(content.byteLength), env, ctx)).json()) as { error: string };
+    expect(rejected.error).toBe('File exceeds the 5 MB upload limit.');
+
+    const settings = await app.fetch(
+      api('/organization/settings', { method: 'PATCH', body: JSON.stringify({ maxUploadBytes: 64 * MIB }) }),
+      env,
+      ctx,
+    );
+    expect(await settings.json()).toEqual({ maxUploadBytes: 64 * MIB, defaultMaxUploadBytes: 5 * MIB, piiPolicy: 'flag' });
+
+    const created = await app.fetch(startUpload(content.byteLength), env, ctx);
+    expect(created.status).toBe(201);
+    const upload = (await created.json()) as { fileId: string; partSize: number; partCount: number };
+    expect(upload).toMatchObject({ partSize: 10 * MIB, partCount: 2 });
+    expect(db.files.get(upload.fileId)).toMatchObject({ status: 'uploading', multipart_upload_id: 'upload-1' });
+
+    const short = (await (
+      await app.fetch(api(`/upload-multipart/${upload.fileId}/parts/1`, { method: 'PUT', body: content.slice(0, MIB) }), env, ctx)
+    ).json()) as { error: string };
+    expect(short.error).toBe(`Part 1 must be ${10 * MIB} bytes; received ${MIB}.`);
+
+    const parts = [];
+    for (let partNumber = 1; partNumber <= upload.partCount; partNumber += 1) {
+      const body = content.slice((partNumber - 1) * upload.partSize, partNumber * upload.partSize);
+      const response = await app.fetch(api(`/upload-multipart/${upload.fileId}/parts/${partNumber}`, { method: 'PUT', body }), env, ctx);
+      parts.push((await response.json()) as { partNumber: number; etag: string });
+    }
+
+    const completed = await app.fetch(
+      api(`/upload-multipart/${upload.fileId}/complete`, { method: 'POST', body: JSON.stringify({ parts: parts.reverse() }) }),
+      env,
+      ctx,
+    );
+    const result = (await completed.json()) as { status: string; jobId: string };
+    expect(result.status).toBe('queued');
+    expect(queue.messages).toEqual([{ jobId: result.jobId }]);
+    expect(db.files.get(upload.fileId)).toMatchObject({ status: 'queued', multipart_upload_id: null, source_encoding: 'utf-8' });
+    expect((await r2.head(db.files.get(upload.fileId)!.r2_key))?.size).toBe(content.byteLength);
+  });
+
+  it('restricts the organisation settings to admins', async () => {
+    const { env, ctx } = createTestEnv();
+    vi.mocked(authenticateRequest).mockResolvedValueOnce({
+      id: 'member@example.com',
+      email: 'member@example.com',
+      displayName: 'Member',
+      tenant: 'default',
+      organizationId: 'default',
+      organizationRole: 'member',
+    });
+
+    const response = await app.fetch(
+      api('/organization/settings', { method: 'PATCH', body: JSON.stringify({ maxUploadBytes: 64 * MIB }) }),
+      env,
+      ctx,
+    );
+    expect(((await response.json()) as { error: string }).error).toBe('You need organization admin access for this action.');
+  });
+
+  it('aborts an upload and expires abandoned ones', async () => {
+    const context = createTestEnv();
+    const { env, ctx, db, r2 } = context;
+    seedFolder(context);
+
+    const first = (await (await app.fetch(startUpload(1000), env, ctx)).json()) as { fileId: string };
+    const aborted = await app.fetch(api(`/upload-multipart/${first.fileId}`, { method: 'DELETE' }), env, ctx);
+    expect(await aborted.json()).toEqual({ fileId: first.fileId, aborted: true });
+    expect(db.files.has(first.fileId)).toBe(false);
+    expect(r2.multipartUploads.size).toBe(0);
+
+    const second = (await (await app.fetch(startUpload(1000), env, ctx)).json()) as { fileId: string };
+    expect(r2.multipartUploads.size).toBe(1);
+    const result = await sweepAbandonedUploads(env, new Date(Date.now() + 2 * 60 * 60 * 1000));
+    expect(result).toEqual({ expired: 1 });
+    expect(db.files.has(second.fileId)).toBe(false);
+    expect(r2.multipartUploads.size).toBe(0);
+  });
+});
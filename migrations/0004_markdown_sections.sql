@@ -0,0 +1,2 @@
+-- Markdown ingestion records the heading path ("Setup > Secrets") each chunk belongs to
+ALTER TABLE chunks ADD COLUMN heading_path TEXT;
@@ -0,0 +1,5 @@
+-- PDF ingestion keeps the original upload and a derived plain-text object side by side
+ALTER TABLE files ADD COLUMN text_r2_key TEXT;
+
+-- Page number (1-based) for chunks extracted from paginated documents
+ALTER TABLE chunks ADD COLUMN page_number INTEGER;
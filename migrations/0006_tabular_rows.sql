@@ -0,0 +1,3 @@
+-- CSV/TSV chunks cover whole data rows; record the inclusive row range (header excluded)
+ALTER TABLE chunks ADD COLUMN start_row INTEGER;
+ALTER TABLE chunks ADD COLUMN end_row INTEGER;
@@ -0,0 +1,2 @@
+-- Source-code chunks record the top-level declaration(s) they cover, e.g. "function foo"
+ALTER TABLE chunks ADD COLUMN symbol TEXT;
@@ -0,0 +1,3 @@
+-- SRT/VTT chunks cover a window of cues; record its start/end playback time in milliseconds
+ALTER TABLE chunks ADD COLUMN start_ms INTEGER;
+ALTER TABLE chunks ADD COLUMN end_ms INTEGER;
@@ -0,0 +1,2 @@
+-- Text uploads are stored as UTF-8; remember the encoding they arrived in (utf-8, utf-16le, utf-16be, windows-1252)
+ALTER TABLE files ADD COLUMN source_encoding TEXT;
@@ -0,0 +1,4 @@
+-- Per-folder chunking configuration; NULL columns fall back to the format default and CHUNK_SIZE/CHUNK_OVERLAP
+ALTER TABLE folders ADD COLUMN chunking_strategy TEXT;
+ALTER TABLE folders ADD COLUMN chunk_size INTEGER;
+ALTER TABLE folders ADD COLUMN chunk_overlap INTEGER;
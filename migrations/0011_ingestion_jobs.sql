@@ -0,0 +1,179 @@
+-- Durable ingestion: files gain queued/processing/failed statuses and every ingestion run is tracked as a job
+
+-- 1. Widening the files.status CHECK needs a table rebuild. Dropping files would cascade into chunks
+--    and file_permissions, so both are moved aside and rebuilt with it (same approach as 0003).
+ALTER TABLE file_permissions RENAME TO file_permissions_old;
+ALTER TABLE chunks RENAME TO chunks_old;
+ALTER TABLE files RENAME TO files_old;
+
+CREATE TABLE files (
+  id TEXT PRIMARY KEY,
+  tenant TEXT NOT NULL,
+  organization_id TEXT NOT NULL REFERENCES organisations(id),
+  folder_id TEXT NOT NULL REFERENCES folders(id) ON DELETE CASCADE,
+  owner_id TEXT NOT NULL REFERENCES users(id),
+  team_id TEXT REFERENCES teams(id),
+  visibility TEXT NOT NULL CHECK (visibility IN ('personal', 'team', 'organization')),
+  file_name TEXT NOT NULL,
+  r2_key TEXT NOT NULL,
+  text_r2_key TEXT,
+  source_encoding TEXT,
+  size INTEGER NOT NULL,
+  mime_type TEXT,
+  status TEXT NOT NULL CHECK (status IN ('uploading', 'queued', 'processing', 'ready', 'failed')),
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  deleted_at TEXT
+);
+
+INSERT INTO files (
+  id,
+  tenant,
+  organization_id,
+  folder_id,
+  owner_id,
+  team_id,
+  visibility,
+  file_name,
+  r2_key,
+  text_r2_key,
+  source_encoding,
+  size,
+  mime_type,
+  status,
+  created_at,
+  updated_at,
+  deleted_at
+)
+SELECT
+  id,
+  tenant,
+  organization_id,
+  folder_id,
+  owner_id,
+  team_id,
+  visibility,
+  file_name,
+  r2_key,
+  text_r2_key,
+  source_encoding,
+  size,
+  mime_type,
+  status,
+  created_at,
+  updated_at,
+  deleted_at
+FROM files_old;
+
+CREATE TABLE chunks (
+  id TEXT PRIMARY KEY,
+  file_id TEXT NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  folder_id TEXT NOT NULL REFERENCES folders(id),
+  organization_id TEXT NOT NULL REFERENCES organisations(id),
+  owner_id TEXT NOT NULL REFERENCES users(id),
+  team_id TEXT,
+  visibility TEXT NOT NULL CHECK (visibility IN ('personal', 'team', 'organization')),
+  chunk_index INTEGER NOT NULL,
+  start_line INTEGER NOT NULL,
+  end_line INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  heading_path TEXT,
+  page_number INTEGER,
+  start_row INTEGER,
+  end_row INTEGER,
+  symbol TEXT,
+  start_ms INTEGER,
+  end_ms INTEGER,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO chunks (
+  id,
+  file_id,
+  folder_id,
+  organization_id,
+  owner_id,
+  team_id,
+  visibility,
+  chunk_index,
+  start_line,
+  end_line,
+  content,
+  heading_path,
+  page_number,
+  start_row,
+  end_row,
+  symbol,
+  start_ms,
+  end_ms,
+  created_at
+)
+SELECT
+  id,
+  file_id,
+  folder_id,
+  organization_id,
+  owner_id,
+  team_id,
+  visibility,
+  chunk_index,
+  start_line,
+  end_line,
+  content,
+  heading_path,
+  page_number,
+  start_row,
+  end_row,
+  symbol,
+  start_ms,
+  end_ms,
+  created_at
+FROM chunks_old;
+
+CREATE TABLE file_permissions (
+  file_id TEXT NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  access_level TEXT NOT NULL CHECK (access_level IN ('viewer', 'editor')),
+  granted_by TEXT REFERENCES users(id),
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (file_id, user_id)
+);
+
+INSERT INTO file_permissions (file_id, user_id, access_level, granted_by, created_at)
+SELECT file_id, user_id, access_level, granted_by, created_at
+FROM file_permissions_old;
+
+DROP TABLE IF EXISTS file_permissions_old;
+DROP TABLE IF EXISTS chunks_old;
+DROP TABLE IF EXISTS files_old;
+
+CREATE INDEX IF NOT EXISTS idx_files_org_visibility ON files(organization_id, visibility);
+CREATE INDEX IF NOT EXISTS idx_files_owner_visibility ON files(owner_id, visibility);
+CREATE INDEX IF NOT EXISTS idx_files_team ON files(team_id);
+CREATE INDEX IF NOT EXISTS idx_files_folder ON files(folder_id);
+CREATE INDEX IF NOT EXISTS idx_chunks_file ON chunks(file_id);
+CREATE INDEX IF NOT EXISTS idx_chunks_org_visibility ON chunks(organization_id, visibility);
+CREATE INDEX IF NOT EXISTS idx_chunks_owner_visibility ON chunks(owner_id, visibility);
+CREATE INDEX IF NOT EXISTS idx_chunks_team ON chunks(team_id);
+
+-- 2. One row per ingestion run; the queue message only carries the job id
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id TEXT PRIMARY KEY,
+  file_id TEXT NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  organization_id TEXT NOT NULL,
+  requested_by TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'processing', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  chunks_total INTEGER,
+  chunks_done INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TEXT,
+  started_at TEXT,
+  completed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_file ON ingestion_jobs(file_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status ON ingestion_jobs(status, next_attempt_at);
@@ -0,0 +1,13 @@
+-- Chunks remember a SHA-256 of their content so re-ingestion can keep unchanged chunks and vectors
+ALTER TABLE chunks ADD COLUMN content_hash TEXT;
+CREATE INDEX IF NOT EXISTS idx_chunks_file_hash ON chunks(file_id, content_hash);
+
+-- Embeddings by (model, content hash), shared across files; the vector is stored as a JSON array
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  model TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  embedding TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (model, content_hash)
+);
@@ -0,0 +1,5 @@
+-- Per-organisation upload size limit in bytes; NULL falls back to the MAX_UPLOAD_BYTES var
+ALTER TABLE organisations ADD COLUMN max_upload_bytes INTEGER;
+
+-- R2 multipart upload in progress for a file still `uploading`, so it can be resumed or aborted
+ALTER TABLE files ADD COLUMN multipart_upload_id TEXT;
@@ -0,0 +1,20 @@
+-- Revision history for a file. The files row always mirrors its current version, so ingestion and
+-- downloads keep reading files.r2_key. Version 1 is recorded from the files row when the first
+-- revision is uploaded.
+CREATE TABLE IF NOT EXISTS file_versions (
+  id TEXT PRIMARY KEY,
+  file_id TEXT NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  r2_key TEXT NOT NULL,
+  text_r2_key TEXT,
+  size INTEGER NOT NULL,
+  mime_type TEXT,
+  source_encoding TEXT,
+  uploaded_by TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (file_id, version)
+);
+
+-- Version currently reflected by the files row and its chunks
+ALTER TABLE files ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,23 @@
+-- Chunks record the embedding model and vector length they were indexed with; NULL means indexed before this was tracked
+ALTER TABLE chunks ADD COLUMN embedding_model TEXT;
+ALTER TABLE chunks ADD COLUMN embedding_dimensions INTEGER;
+CREATE INDEX IF NOT EXISTS idx_chunks_org_model ON chunks(organization_id, embedding_model);
+
+-- One row per admin reindex run; files are re-embedded in id order and `cursor` is the last file finished
+CREATE TABLE IF NOT EXISTS reindex_jobs (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  requested_by TEXT NOT NULL,
+  embedding_model TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('running', 'succeeded', 'superseded')),
+  files_total INTEGER NOT NULL,
+  files_done INTEGER NOT NULL DEFAULT 0,
+  files_failed INTEGER NOT NULL DEFAULT 0,
+  cursor TEXT,
+  last_error TEXT,
+  completed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reindex_jobs_org ON reindex_jobs(organization_id, created_at);
@@ -0,0 +1,20 @@
+-- How ingestion treats personal data found in an organisation's files: flag (the default when NULL), mask or block
+ALTER TABLE organisations ADD COLUMN pii_policy TEXT;
+
+-- Counts by kind from the latest scan and what was done about them, as JSON; NULL when nothing was found
+ALTER TABLE files ADD COLUMN pii_summary TEXT;
+
+-- Distinct personal data values found in a file's current version. Only a masked preview is kept.
+CREATE TABLE IF NOT EXISTS file_pii_findings (
+  id TEXT PRIMARY KEY,
+  file_id TEXT NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  organization_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('email', 'phone', 'card', 'iban', 'ssn')),
+  preview TEXT NOT NULL,
+  start_line INTEGER NOT NULL,
+  end_line INTEGER NOT NULL,
+  page_number INTEGER,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_pii_findings_file ON file_pii_findings(file_id);
@@ -0,0 +1,10 @@
+-- Abstract and key points generated after ingestion; key points are a JSON array of strings
+ALTER TABLE files ADD COLUMN summary_abstract TEXT;
+ALTER TABLE files ADD COLUMN summary_key_points TEXT;
+ALTER TABLE files ADD COLUMN summary_model TEXT;
+-- Hash of the chunk hashes the summary was written from, so an unchanged file is not summarised again
+ALTER TABLE files ADD COLUMN summary_source_hash TEXT;
+ALTER TABLE files ADD COLUMN summarized_at TEXT;
+
+-- 'content' for chunks of the document itself, 'summary' for the one chunk indexing its summary
+ALTER TABLE chunks ADD COLUMN kind TEXT NOT NULL DEFAULT 'content';
@@ -0,0 +1,26 @@
+-- The file's tags as a JSON array, best first, for listing; NULL until the file has been tagged
+ALTER TABLE files ADD COLUMN tags TEXT;
+
+-- Subject tags per file, from TF-IDF over the organisation's files and optionally refined by the chat model
+CREATE TABLE IF NOT EXISTS file_tags (
+  file_id TEXT NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  organization_id TEXT NOT NULL,
+  tag TEXT NOT NULL,
+  score REAL NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('tfidf', 'model')),
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (file_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_tags_tag ON file_tags(organization_id, tag);
+
+-- Each file's most frequent terms, which give the document frequencies TF-IDF weighs terms by
+CREATE TABLE IF NOT EXISTS file_terms (
+  file_id TEXT NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  organization_id TEXT NOT NULL,
+  term TEXT NOT NULL,
+  frequency INTEGER NOT NULL,
+  PRIMARY KEY (file_id, term)
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_terms_term ON file_terms(organization_id, term);
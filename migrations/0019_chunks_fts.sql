@@ -0,0 +1,10 @@
+-- Full-text index over chunk content for keyword (BM25) retrieval next to vector search. It is kept in
+-- step with chunks by the application; access is checked by joining back to chunks on chunk_id.
+CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
+  content,
+  chunk_id UNINDEXED,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+INSERT INTO chunks_fts (content, chunk_id)
+SELECT content, id FROM chunks;
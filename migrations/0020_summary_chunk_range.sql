@@ -0,0 +1,5 @@
+-- Summary chunks cover a whole file rather than a passage: they carry no line range (0-0) or page,
+-- so chat sources and the source viewer never treat them as a window into the file.
+UPDATE chunks
+SET start_line = 0, end_line = 0, page_number = NULL
+WHERE kind = 'summary';
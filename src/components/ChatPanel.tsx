@@ -1,6 +1,6 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { useMutation } from '@tanstack/react-query';
-import { sendChat, type ChatResponse, type ChatScope } from '../lib/api';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { API_BASE, fetchFileLines, sendChat, type ChatResponse, type ChatScope } from '../lib/api';
 
 type AnswerBlock =
   | { type: 'heading'; text: string }
@@ -31,6 +31,38 @@ const SCOPE_DESCRIPTIONS: Record<KnowledgeScope, string> = {
   all: 'Combines personal, team, and organization spaces.',
 };
 
+interface SourceLocation {
+  lines: [number, number];
+  page?: number | null;
+  rows?: [number, number] | null;
+  timestamps?: [string, string] | null;
+}
+
+function formatLocation({ lines, page, rows, timestamps }: SourceLocation): string {
+  if (timestamps) {
+    return `${timestamps[0]}–${timestamps[1]}`;
+  }
+  if (rows) {
+    return rows[0] === rows[1] ? `row ${rows[0]}` : `rows ${rows[0]}–${rows[1]}`;
+  }
+  const range = `lines ${lines[0]}–${lines[1]}`;
+  return page ? `p. ${page}, ${range}` : range;
+}
+
+interface SourceReference extends SourceLocation {
+  section?: string | null;
+  symbol?: string | null;
+}
+
+// Code citations read like `file.ts:function foo (lines 40–88)`.
+function formatReference(file: string, reference: SourceReference): string {
+  if (reference.symbol) {
+    return `${file}:${reference.symbol} (${formatLocation(reference)})`;
+  }
+  const section = reference.section ? ` › ${reference.section}` : '';
+  return `${file}${section} · ${formatLocation(reference)}`;
+}
+
 function structureAnswer(answer: string): AnswerBlock[] {
   const lines = answer.split(/\r?\n/);
   const blocks: AnswerBlock[] = [];
@@ -117,6 +149,63 @@ interface ChatMessage {
 
 const KNOWLEDGE_STORAGE_KEY = 'marble-knowledge-mode';
 
+// Lines shown above and below a cited range in the source viewer.
+const VIEWER_CONTEXT_LINES = 8;
+
+interface ViewerTarget {
+  fileId: string | null;
+  folder: string;
+  file: string;
+  label: string;
+  // Null opens the file from the top, for sources such as summaries that cover all of it.
+  lines: [number, number] | null;
+  page: number | null;
+}
+
+interface ViewerState {
+  kind: 'citation' | 'source';
+  targets: ViewerTarget[];
+  index: number;
+}
+
+function citationTargets(message: ChatMessage): ViewerTarget[] {
+  return message.citations.map((citation) => ({
+    // Older answers may lack the id; fall back to a source from the same file.
+    fileId:
+      citation.fileId ??
+      message.sources.find((source) => source.fileName === citation.file && source.folderName === citation.folder)?.fileId ??
+      null,
+    folder: citation.folder,
+    file: citation.file,
+    label: formatReference(citation.file, citation),
+    lines: citation.lines,
+    page: citation.page ?? null,
+  }));
+}
+
+type ChatSource = ChatMessage['sources'][number];
+
+function sourceLabel(source: ChatSource): string {
+  if (source.kind === 'summary') {
+    return `${source.fileName} (summary)`;
+  }
+  return formatReference(source.fileName, { ...source, section: source.headingPath, lines: [source.startLine, source.endLine] });
+}
+
+function sourceTargets(message: ChatMessage): ViewerTarget[] {
+  return message.sources.map((source) => {
+    const summary = source.kind === 'summary';
+    return {
+      fileId: source.fileId ?? null,
+      folder: source.folderName,
+      file: source.fileName,
+      label: sourceLabel(source),
+      lines: summary ? null : ([source.startLine, source.endLine] as [number, number]),
+      page: summary ? null : source.page ?? null,
+    };
+  });
+}
+
 export function ChatPanel() {
   const [prompt, setPrompt] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -128,6 +217,7 @@ export function ChatPanel() {
     return stored && SCOPE_OPTIONS.some((option) => option.id === stored) ? stored : 'all';
   });
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [viewer, setViewer] = useState<ViewerState | null>(null);
   const messagesRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
@@ -218,6 +308,7 @@ export function ChatPanel() {
   const clearChat = () => {
     setMessages([]);
     setStatus(null);
+    setViewer(null);
   };
 
   const submitPrompt = () => {
@@ -365,8 +456,13 @@ export function ChatPanel() {
                 <ul className="chat-bubble__citations">
                   {message.citations.map((citation, index) => (
                     <li key={`${message.id}-${index}`}>
-                      <strong>#{index + 1}</strong> {citation.folder} / {citation.file} · lines {citation.lines[0]}–
-                        {citation.lines[1]}
+                      <button
+                        type="button"
+                        className="chat-bubble__citation-link"
+                        onClick={() => setViewer({ kind: 'citation', targets: citationTargets(message), index })}
+                      >
+                        <strong>#{index + 1}</strong> {citation.folder} / {formatReference(citation.file, citation)}
+                      </button>
                       </li>
                     ))}
                   </ul>
@@ -375,11 +471,18 @@ export function ChatPanel() {
                   <details className="chat-bubble__sources">
                     <summary>Supporting chunks</summary>
                     <ul>
-                      {message.sources.map((source) => (
+                      {message.sources.map((source, index) => (
                         <li key={source.chunkId}>
                           <strong>
-                            {source.folderName} / {source.fileName} · lines {source.startLine}–{source.endLine}
-                          </strong>
+                            {source.folderName} / {sourceLabel(source)}
+                          </strong>{' '}
+                          <button
+                            type="button"
+                            className="link"
+                            onClick={() => setViewer({ kind: 'source', targets: sourceTargets(message), index })}
+                          >
+                            View in file
+                          </button>
                           <pre>{source.content}</pre>
                         </li>
                       ))}
@@ -413,10 +516,133 @@ export function ChatPanel() {
         </div>
         <div className="chat-panel__composer-hint">Enter to send · Shift+Enter for a new line</div>
       </form>
+
+      {viewer && (
+        <SourceViewer
+          kind={viewer.kind}
+          targets={viewer.targets}
+          index={viewer.index}
+          onNavigate={(index) => setViewer((prev) => (prev ? { ...prev, index } : prev))}
+          onClose={() => setViewer(null)}
+        />
+      )}
     </section>
   );
 }
 
+interface SourceViewerProps {
+  kind: ViewerState['kind'];
+  targets: ViewerTarget[];
+  index: number;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+}
+
+function SourceViewer({ kind, targets, index, onNavigate, onClose }: SourceViewerProps) {
+  const target = targets[index];
+  const highlightRef = useRef<HTMLLIElement | null>(null);
+
+  const linesQuery = useQuery({
+    queryKey: ['file-lines', target.fileId, target.page, target.lines?.[0] ?? null, target.lines?.[1] ?? null],
+    queryFn: () =>
+      fetchFileLines(target.fileId as string, { lines: target.lines, context: VIEWER_CONTEXT_LINES, page: target.page }),
+    enabled: Boolean(target.fileId),
+    staleTime: 60_000,
+  });
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [linesQuery.data]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      } else if (event.altKey && event.key === 'ArrowDown' && index < targets.length - 1) {
+        onNavigate(index + 1);
+      } else if (event.altKey && event.key === 'ArrowUp' && index > 0) {
+        onNavigate(index - 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, targets.length, onNavigate, onClose]);
+
+  const noun = kind === 'citation' ? 'Citation' : 'Source';
+  const highlight = linesQuery.data?.highlight ?? null;
+  let highlightAttached = false;
+
+  let body: JSX.Element;
+  if (!target.fileId) {
+    body = <p className="error-text">This file is no longer available.</p>;
+  } else if (linesQuery.isLoading) {
+    body = <p>Loading…</p>;
+  } else if (linesQuery.isError) {
+    const message = linesQuery.error instanceof Error ? linesQuery.error.message : 'Unable to load the file.';
+    body = <p className="error-text">{message}</p>;
+  } else {
+    body = (
+      <ol className="source-viewer__lines">
+        {(linesQuery.data?.lines ?? []).map((line) => {
+          const highlighted = Boolean(highlight && line.number >= highlight.start && line.number <= highlight.end);
+          const attach = highlighted && !highlightAttached;
+          if (attach) highlightAttached = true;
+          return (
+            <li
+              key={line.number}
+              ref={attach ? highlightRef : undefined}
+              className={highlighted ? 'is-highlighted' : undefined}
+            >
+              <span className="source-viewer__number">{line.number}</span>
+              <code>{line.text || ' '}</code>
+            </li>
+          );
+        })}
+      </ol>
+    );
+  }
+
+  return (
+    <aside className="source-viewer" aria-label="Source viewer">
+      <header className="source-viewer__header">
+        <div>
+          <strong>
+            {target.folder} / {target.file}
+          </strong>
+          <small>{target.label}</small>
+        </div>
+        <button type="button" className="icon-button" onClick={onClose} aria-label="Close source viewer">
+          ✕
+        </button>
+      </header>
+      <nav className="source-viewer__nav" aria-label={`${noun} navigation`}>
+        <button type="button" className="link" onClick={() => onNavigate(index - 1)} disabled={index === 0}>
+          ‹ Previous
+        </button>
+        <span>
+          {noun} {index + 1} of {targets.length}
+        </span>
+        <button
+          type="button"
+          className="link"
+          onClick={() => onNavigate(index + 1)}
+          disabled={index === targets.length - 1}
+        >
+          Next ›
+        </button>
+      </nav>
+      <div className="source-viewer__body">{body}</div>
+      {target.fileId && (
+        <footer className="source-viewer__footer">
+          <a href={`${API_BASE}/api/files/${target.fileId}/content`} target="_blank" rel="noreferrer">
+            Open original
+          </a>
+        </footer>
+      )}
+    </aside>
+  );
+}
+
 function AnswerContent({ answer }: { answer: string }) {
   const blocks = useMemo(() => structureAnswer(answer), [answer]);
 
@@ -6,16 +6,80 @@ import {
   deleteFile,
   deleteFolder,
   fetchFiles,
+  fetchFileVersions,
   fetchFolders,
+  fetchOrganisationSettings,
+  restoreFileVersion,
   type FileSummary,
   type FolderSummary,
+  type PiiKind,
+  type PiiSummary,
   type Visibility,
   updateFile,
   updateFolder,
+  uploadArchive,
   uploadFile,
+  uploadFileInParts,
+  uploadFileVersion,
 } from '../lib/api';
 
 const VAULT_VISIBILITY_STORAGE_KEY = 'marble-vault-visibility';
+const ACCEPTED_EXTENSIONS = ['.txt', '.md', '.markdown', '.csv', '.tsv', '.tab', '.pdf', '.docx', '.ts', '.tsx', '.py', '.go', '.sql', '.srt', '.vtt'];
+const SUPPORTED_FORMATS_LABEL = '.txt, .md, .csv, .tsv, .pdf, .docx, .ts, .py, .go, .sql, .srt and .vtt';
+
+const MAX_ARCHIVE_BYTES = 25 * 1024 * 1024;
+// Fallback until the organisation's limit has loaded.
+const DEFAULT_MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+// Larger files are sent as an R2 multipart upload instead of a single form post.
+const MULTIPART_UPLOAD_BYTES = 5 * 1024 * 1024;
+// Tags arrive best first; the rest stay reachable through the tag filter.
+const MAX_TAG_CHIPS = 4;
+
+function formatBytes(bytes: number): string {
+  for (const [unit, size] of [['GB', 1024 ** 3], ['MB', 1024 ** 2], ['KB', 1024]] as const) {
+    if (bytes >= size) {
+      const value = bytes / size;
+      return `${Number.isInteger(value) ? value : value.toFixed(1)} ${unit}`;
+    }
+  }
+  return `${bytes} bytes`;
+}
+
+const PII_LABELS: Record<PiiKind, [string, string]> = {
+  email: ['email address', 'email addresses'],
+  phone: ['phone number', 'phone numbers'],
+  card: ['card number', 'card numbers'],
+  iban: ['IBAN', 'IBANs'],
+  ssn: ['social security number', 'social security numbers'],
+};
+
+const PII_ACTIONS: Record<PiiSummary['action'], string> = {
+  flagged: 'Sent to search and chat unchanged.',
+  masked: 'Masked before indexing, so search and chat never see it.',
+  blocked: 'Not indexed: your organization blocks files with personal data.',
+};
+
+function describePii(pii: PiiSummary): string {
+  const found = (Object.keys(PII_LABELS) as PiiKind[])
+    .filter((kind) => pii.counts[kind])
+    .map((kind) => `${pii.counts[kind]} ${PII_LABELS[kind][pii.counts[kind] === 1 ? 0 : 1]}`)
+    .join(', ');
+  return `Contains personal data: ${found}. ${PII_ACTIONS[pii.action]}`;
+}
+
+function isArchive(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.zip');
+}
+
+function isSupportedUpload(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return ACCEPTED_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+function extensionOf(fileName: string): string {
+  const match = /\.[^.]+$/.exec(fileName);
+  return match ? match[0].toLowerCase() : '';
+}
 
 interface FileManagerProps {
   currentUserId: string;
@@ -30,8 +94,10 @@ interface UploadDialogProps {
   folders: FolderSummary[];
   onClose: () => void;
   onUpload: (args: { file: File; folderId: string; visibility: Visibility; name?: string }) => void;
+  onUploadArchive: (args: { file: File; visibility: Visibility; folderName?: string }) => void;
   isUploading: boolean;
   defaultFolderId?: string | null;
+  maxUploadBytes: number;
 }
 
 function UploadDialog({
@@ -41,16 +107,17 @@ function UploadDialog({
   folders,
   onClose,
   onUpload,
+  onUploadArchive,
   isUploading,
   defaultFolderId,
+  maxUploadBytes,
 }: UploadDialogProps) {
-  const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
-  const ACCEPTED_EXTENSIONS = ['.txt'];
   const [selectedVisibility, setSelectedVisibility] = useState<Visibility>(defaultVisibility);
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
   const [file, setFile] = useState<File | null>(null);
   const [name, setName] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const archiveSelected = file ? isArchive(file.name) : false;
 
   useEffect(() => {
     setSelectedVisibility((prev) => (allowedVisibilities.includes(prev) ? prev : defaultVisibility));
@@ -112,7 +179,7 @@ function UploadDialog({
             <select
               value={selectedFolderId ?? ''}
               onChange={(event) => setSelectedFolderId(event.target.value || null)}
-              disabled={isUploading || scopedFolders.length === 0}
+              disabled={isUploading || archiveSelected || scopedFolders.length === 0}
             >
               {scopedFolders.length === 0 && <option value="">No folders available</option>}
               {scopedFolders.map((folder) => (
@@ -127,7 +194,7 @@ function UploadDialog({
             <span>File</span>
             <input
               type="file"
-              accept={ACCEPTED_EXTENSIONS.join(',')}
+              accept={[...ACCEPTED_EXTENSIONS, '.zip'].join(',')}
               onChange={(event) => {
                 const chosen = event.target.files?.[0] ?? null;
                 if (!chosen) {
@@ -135,15 +202,24 @@ function UploadDialog({
                   setName('');
                   return;
                 }
-                const lower = chosen.name.toLowerCase();
-                const supported = ACCEPTED_EXTENSIONS.some((ext) => lower.endsWith(ext));
-                if (!supported) {
-                  setError('Only .txt files are supported.');
+                if (isArchive(chosen.name)) {
+                  if (chosen.size > MAX_ARCHIVE_BYTES) {
+                    setError('Archives must be 25 MB or smaller.');
+                    setFile(null);
+                    return;
+                  }
+                  setError(null);
+                  setFile(chosen);
+                  setName(chosen.name.replace(/\.zip$/i, ''));
+                  return;
+                }
+                if (!isSupportedUpload(chosen.name)) {
+                  setError(`Only ${SUPPORTED_FORMATS_LABEL} files and .zip archives are supported.`);
                   setFile(null);
                   return;
                 }
-                if (chosen.size > MAX_UPLOAD_BYTES) {
-                  setError('File must be 5 MB or smaller.');
+                if (chosen.size > maxUploadBytes) {
+                  setError(`File must be ${formatBytes(maxUploadBytes)} or smaller.`);
                   setFile(null);
                   return;
                 }
@@ -156,18 +232,18 @@ function UploadDialog({
           </label>
 
           <label className="field">
-            <span>Display Name</span>
+            <span>{archiveSelected ? 'Folder Name' : 'Display Name'}</span>
             <input
               type="text"
               value={name}
-              placeholder="Optional custom name"
+              placeholder={archiveSelected ? 'Folder for the archive contents' : 'Optional custom name'}
               onChange={(event) => setName(event.target.value)}
               disabled={isUploading}
             />
           </label>
 
           {error && <p className="error-text">{error}</p>}
-          <p className="helper-text">TXT files up to 5&nbsp;MB are ingested as-is.</p>
+          <p className="helper-text">TXT, Markdown, CSV/TSV, PDF, Word, source code (.ts, .py, .go, .sql) and transcript (.srt, .vtt) files up to {formatBytes(maxUploadBytes)}. PDF and Word text is extracted automatically. Upload a .zip (up to 25&nbsp;MB) to import a whole folder tree; its subfolders become folders here.</p>
         </div>
         <footer className="dialog-footer">
           <button type="button" className="link" onClick={onClose} disabled={isUploading}>
@@ -176,15 +252,20 @@ function UploadDialog({
           <button
             type="button"
             onClick={() => {
+              if (file && archiveSelected) {
+                onUploadArchive({ file, visibility: selectedVisibility, folderName: name.trim() || undefined });
+                return;
+              }
               if (!file || !selectedFolderId) {
                 setError('Select a folder and file to continue.');
                 return;
               }
               const trimmed = name.trim();
+              const extension = extensionOf(file.name) || '.txt';
               const finalName = trimmed
-                ? trimmed.toLowerCase().endsWith('.txt')
+                ? trimmed.toLowerCase().endsWith(extension)
                   ? trimmed
-                  : `${trimmed}.txt`
+                  : `${trimmed}${extension}`
                 : undefined;
               onUpload({
                 file,
@@ -193,7 +274,7 @@ function UploadDialog({
                 name: finalName,
               });
             }}
-            disabled={isUploading || !file || !selectedFolderId}
+            disabled={isUploading || !file || (!archiveSelected && !selectedFolderId)}
           >
             {isUploading ? 'Uploading…' : 'Upload'}
           </button>
@@ -292,6 +373,126 @@ function FolderDialog({ open, onClose, onCreate, isSaving, defaultVisibility, al
   );
 }
 
+interface VersionsDialogProps {
+  file: FileSummary | null;
+  canManage: boolean;
+  onClose: () => void;
+}
+
+function VersionsDialog({ file, canManage, onClose }: VersionsDialogProps) {
+  const queryClient = useQueryClient();
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedFile(null);
+    setError(null);
+  }, [file?.id]);
+
+  const versionsQuery = useQuery({
+    queryKey: ['file-versions', file?.id],
+    queryFn: () => fetchFileVersions(file!.id),
+    enabled: Boolean(file),
+  });
+
+  const refresh = async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['file-versions', file?.id] }),
+      queryClient.invalidateQueries({ queryKey: ['files'] }),
+    ]);
+  };
+
+  const uploadVersionMutation = useMutation({
+    mutationFn: (upload: File) => uploadFileVersion(file!.id, upload),
+    onSuccess: async () => {
+      setSelectedFile(null);
+      setError(null);
+      await refresh();
+    },
+    onError: (err: unknown) => setError(err instanceof Error ? err.message : 'Upload failed'),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (version: number) => restoreFileVersion(file!.id, version),
+    onSuccess: async () => {
+      setError(null);
+      await refresh();
+    },
+    onError: (err: unknown) => setError(err instanceof Error ? err.message : 'Restore failed'),
+  });
+
+  if (!file) return null;
+
+  const isBusy = uploadVersionMutation.isPending || restoreMutation.isPending;
+  const versions = versionsQuery.data?.versions ?? [];
+
+  return (
+    <div className="dialog-backdrop" role="dialog" aria-modal="true">
+      <div className="dialog-card dialog-card--wide">
+        <header>
+          <h3>Versions of {file.name}</h3>
+        </header>
+        <div className="dialog-body">
+          {versionsQuery.isLoading ? (
+            <p>Loading versions…</p>
+          ) : (
+            <ul className="version-list">
+              {versions.map((version) => (
+                <li key={version.version} className={version.current ? 'is-current' : undefined}>
+                  <span>
+                    v{version.version} · {version.name} · {formatBytes(version.size)} ·{' '}
+                    {new Date(version.createdAt).toLocaleString()}
+                  </span>
+                  {version.current ? (
+                    <span className="pill">Current</span>
+                  ) : (
+                    canManage && (
+                      <button
+                        type="button"
+                        className="link"
+                        onClick={() => restoreMutation.mutate(version.version)}
+                        disabled={isBusy}
+                      >
+                        Restore
+                      </button>
+                    )
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {canManage && (
+            <label className="field">
+              <span>Upload a new version</span>
+              <input
+                type="file"
+                accept={ACCEPTED_EXTENSIONS.join(',')}
+                onChange={(event) => setSelectedFile(event.target.files?.[0] ?? null)}
+                disabled={isBusy}
+              />
+            </label>
+          )}
+          {error && <p className="error-text">{error}</p>}
+        </div>
+        <footer className="dialog-footer">
+          <button type="button" className="link" onClick={onClose} disabled={isBusy}>
+            Close
+          </button>
+          {canManage && (
+            <button
+              type="button"
+              onClick={() => selectedFile && uploadVersionMutation.mutate(selectedFile)}
+              disabled={isBusy || !selectedFile}
+            >
+              {uploadVersionMutation.isPending ? 'Uploading…' : 'Upload version'}
+            </button>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+}
+
 type FileSortField = 'name' | 'owner' | 'visibility' | 'updatedAt';
 
 export function FileManager({ currentUserId, mode = 'full', storageKey }: FileManagerProps) {
@@ -309,6 +510,7 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
   });
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
   const [sortField, setSortField] = useState<FileSortField>('updatedAt');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [showUpload, setShowUpload] = useState(false);
@@ -323,6 +525,7 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
   const [activeFolderMenuId, setActiveFolderMenuId] = useState<string | null>(null);
   const [isFolderToolbarMenuOpen, setIsFolderToolbarMenuOpen] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
+  const [versionsFile, setVersionsFile] = useState<FileSummary | null>(null);
   const queryClient = useQueryClient();
 
   useEffect(() => {
@@ -371,6 +574,22 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
 
   const folders: FolderSummary[] = foldersQuery.data?.folders ?? [];
 
+  // With a tag selected, the sidebar counts only the folder's files carrying it.
+  const taggedFoldersQuery = useQuery({
+    queryKey: ['folders', 'all', 'tag', tagFilter],
+    queryFn: () => fetchFolders({ visibility: 'all', tag: tagFilter ?? undefined }),
+    enabled: Boolean(tagFilter),
+  });
+  const taggedFileCounts = useMemo(
+    () => new Map((taggedFoldersQuery.data?.folders ?? []).map((folder) => [folder.id, folder.fileCount])),
+    [taggedFoldersQuery.data],
+  );
+
+  const settingsQuery = useQuery({
+    queryKey: ['organisation-settings'],
+    queryFn: fetchOrganisationSettings,
+  });
+
   const manageableFolders = useMemo(
     () => folders.filter((folder) => canManageFolder(folder)),
     [folders, currentUserId],
@@ -407,11 +626,12 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
   const selectedFolder = scopedFolders.find((folder) => folder.id === selectedFolderId) ?? null;
 
   const filesQuery = useQuery({
-    queryKey: ['files', visibilityFilter, selectedFolderId ?? 'all'],
+    queryKey: ['files', visibilityFilter, selectedFolderId ?? 'all', tagFilter ?? 'any'],
     queryFn: () =>
       fetchFiles({
         visibility: visibilityFilter,
         folderId: selectedFolderId ?? undefined,
+        tag: tagFilter ?? undefined,
       }),
     enabled: Boolean(selectedFolderId) || visibilityFilter === 'organization',
   });
@@ -491,6 +711,15 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
       visibility: Visibility;
       name?: string;
     }) => {
+      if (file.size > MULTIPART_UPLOAD_BYTES) {
+        await uploadFileInParts(file, {
+          folderId,
+          folderName: folderName ?? 'Untitled',
+          visibility,
+          fileName: name ?? file.name,
+        });
+        return;
+      }
       const formData = new FormData();
       formData.append('file', file);
       formData.append('folderId', folderId);
@@ -517,6 +746,42 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
     },
   });
 
+  const archiveMutation = useMutation({
+    mutationFn: async ({ file, visibility, folderName }: { file: File; visibility: Visibility; folderName?: string }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('visibility', visibility);
+      if (folderName) {
+        formData.append('folderName', folderName);
+      }
+      return uploadArchive(formData);
+    },
+    onSuccess: async (report) => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['files'] }),
+        queryClient.invalidateQueries({ queryKey: ['folders'] }),
+      ]);
+      setShowUpload(false);
+      const skipped = report.entries
+        .filter((entry) => entry.status === 'rejected')
+        .slice(0, 3)
+        .map((entry) => `${entry.path} (${entry.reason})`);
+      const summary = `Imported ${report.accepted} file${report.accepted === 1 ? '' : 's'} into ${report.folders.length} folder${
+        report.folders.length === 1 ? '' : 's'
+      }.`;
+      setAlert({
+        type: report.accepted ? 'info' : 'error',
+        message: report.rejected
+          ? `${summary} Skipped ${report.rejected}: ${skipped.join(', ')}${report.rejected > skipped.length ? ', …' : ''}`
+          : summary,
+      });
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Archive upload failed';
+      setAlert({ type: 'error', message });
+    },
+  });
+
   const createFolderMutation = useMutation({
     mutationFn: createFolder,
     onSuccess: async () => {
@@ -784,13 +1049,13 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
     if (droppedFiles.length === 0) {
       return;
     }
-    const allowed = droppedFiles.filter((file) => file.name.toLowerCase().endsWith('.txt'));
+    const allowed = droppedFiles.filter((file) => isSupportedUpload(file.name));
     if (allowed.length === 0) {
-      setAlert({ type: 'error', message: 'Only .txt files are supported right now.' });
+      setAlert({ type: 'error', message: `Only ${SUPPORTED_FORMATS_LABEL} files are supported right now.` });
       return;
     }
     if (allowed.length !== droppedFiles.length) {
-      setAlert({ type: 'info', message: 'Unsupported files skipped. Uploading .txt documents only.' });
+      setAlert({ type: 'info', message: `Unsupported files skipped. Uploading ${SUPPORTED_FORMATS_LABEL} documents only.` });
     }
     void (async () => {
       try {
@@ -931,6 +1196,7 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
                 const { disabled, reason, requiresConfirm } = getFolderDeleteMeta(folder);
                 const isRenaming = folderRenameId === folder.id;
                 const menuOpen = activeFolderMenuId === folder.id;
+                const taggedCount = tagFilter ? taggedFileCounts.get(folder.id) ?? 0 : null;
                 return (
                   <li key={folder.id}>
                     {isRenaming ? (
@@ -967,14 +1233,14 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
                         </div>
                       </form>
                     ) : (
-                      <div className={`folder-row${isActive ? ' is-active' : ''}`}>
+                      <div className={`folder-row${isActive ? ' is-active' : ''}${taggedCount === 0 ? ' is-muted' : ''}`}>
                         <button
                           type="button"
                           className="folder-row__main"
                           onClick={() => setSelectedFolderId(folder.id)}
                         >
                           <span className="folder-row__name">{folder.name}</span>
-                          <span className="folder-row__count">{folder.fileCount}</span>
+                          <span className="folder-row__count">{taggedCount ?? folder.fileCount}</span>
                         </button>
                         {canManage && (
                           <div className="folder-row__actions">
@@ -1110,6 +1376,14 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
                   ? 'Loading documents…'
                   : `Showing ${visibleFiles.length} ${visibleFiles.length === 1 ? 'item' : 'items'}`}
               </span>
+              {tagFilter && (
+                <span className="files-workspace__tag-filter">
+                  Tagged <span className="file-tag is-active">{tagFilter}</span>
+                  <button type="button" className="link" onClick={() => setTagFilter(null)}>
+                    Clear
+                  </button>
+                </span>
+              )}
               <div className="files-workspace__selection">
                 {selectedFileIds.length > 0 && (
                   <>
@@ -1142,7 +1416,7 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
                     : `No ${spaceLabel.toLowerCase()} folders yet`}
                 </h3>
                 {selectedFolder && (
-                  <p>Upload a .txt file or drag and drop to stock this space.</p>
+                  <p>Upload a document, spreadsheet export or PDF, or drag and drop to stock this space.</p>
                 )}
               </div>
             ) : (
@@ -1242,23 +1516,59 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
                               ) : (
                                 <a
                                   className="file-name-cell__name"
-                                  href={`${API_BASE}/api/files/${file.id}/download`}
+                                  href={`${API_BASE}/api/files/${file.id}/content`}
                                   target="_blank"
                                   rel="noreferrer"
                                 >
                                   {file.name}
                                 </a>
                               )}
+                              {file.tags && file.tags.length > 0 && (
+                                <div className="file-tags" aria-label="Tags">
+                                  {file.tags.slice(0, MAX_TAG_CHIPS).map((tag) => (
+                                    <button
+                                      key={tag}
+                                      type="button"
+                                      className={`file-tag${tag === tagFilter ? ' is-active' : ''}`}
+                                      aria-pressed={tag === tagFilter}
+                                      title={tag === tagFilter ? 'Show all files' : `Show files tagged “${tag}”`}
+                                      onClick={() => setTagFilter(tag === tagFilter ? null : tag)}
+                                    >
+                                      {tag}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
                             </div>
-                            {file.status !== 'ready' && (
+                            {file.pii && (
                               <span
-                                className="file-name-cell__status"
-                                aria-label="Processing for search"
-                                title="Processing for search"
+                                className={`file-name-cell__pii file-name-cell__pii--${file.pii.action}`}
+                                aria-label={describePii(file.pii)}
+                                title={describePii(file.pii)}
+                              >
+                                PII
+                              </span>
+                            )}
+                            {file.status === 'failed' ? (
+                              <span
+                                className="file-name-cell__status file-name-cell__status--failed"
+                                aria-label="Could not be processed for search"
+                                title="Could not be processed for search"
                               >
                                 <span className="file-name-cell__status-dot" aria-hidden="true" />
-                                <span>Processing…</span>
+                                <span>Failed</span>
                               </span>
+                            ) : (
+                              file.status !== 'ready' && (
+                                <span
+                                  className="file-name-cell__status"
+                                  aria-label="Processing for search"
+                                  title="Processing for search"
+                                >
+                                  <span className="file-name-cell__status-dot" aria-hidden="true" />
+                                  <span>{file.status === 'queued' ? 'Queued…' : 'Processing…'}</span>
+                                </span>
+                              )
                             )}
                           </div>
                         </td>
@@ -1296,13 +1606,23 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
                                   role="menuitem"
                                   onClick={() => {
                                     window
-                                      .open(`${API_BASE}/api/files/${file.id}/download`, '_blank')
+                                      .open(`${API_BASE}/api/files/${file.id}/content`, '_blank')
                                       ?.focus?.();
                                     setActiveFileMenuId(null);
                                   }}
                                 >
                                   Open
                                 </button>
+                                <button
+                                  type="button"
+                                  role="menuitem"
+                                  onClick={() => {
+                                    setVersionsFile(file);
+                                    setActiveFileMenuId(null);
+                                  }}
+                                >
+                                  Versions
+                                </button>
                                 {canManage && (
                                   <>
                                     <button type="button" role="menuitem" onClick={() => startFileRename(file)}>
@@ -1361,7 +1681,15 @@ export function FileManager({ currentUserId, mode = 'full', storageKey }: FileMa
             name,
           });
         }}
-        isUploading={uploadMutation.isPending}
+        onUploadArchive={(args) => archiveMutation.mutate(args)}
+        isUploading={uploadMutation.isPending || archiveMutation.isPending}
+        maxUploadBytes={settingsQuery.data?.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES}
+      />
+
+      <VersionsDialog
+        file={versionsFile}
+        canManage={versionsFile ? isOwner(versionsFile) : false}
+        onClose={() => setVersionsFile(null)}
       />
 
       <FolderDialog
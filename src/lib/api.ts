@@ -25,12 +25,21 @@ export interface SessionResponse {
 
 export type Visibility = 'organization' | 'personal' | 'team';
 
+export type ChunkingStrategy = 'auto' | 'fixed' | 'paragraph' | 'sentence' | 'token' | 'heading';
+
+export interface FolderChunking {
+  strategy: ChunkingStrategy;
+  chunkSize: number | null;
+  overlap: number | null;
+}
+
 export interface FolderSummary {
   id: string;
   name: string;
   visibility: Visibility;
   teamId: string | null;
   fileCount: number;
+  chunking?: FolderChunking | null;
   owner: {
     id: string;
     email: string;
@@ -40,13 +49,35 @@ export interface FolderSummary {
   updatedAt: string;
 }
 
+export type FileStatus = 'uploading' | 'queued' | 'processing' | 'ready' | 'failed';
+
+export type PiiKind = 'email' | 'phone' | 'card' | 'iban' | 'ssn';
+
+export type PiiPolicy = 'flag' | 'mask' | 'block';
+
+export interface PiiSummary {
+  action: 'flagged' | 'masked' | 'blocked';
+  counts: Partial<Record<PiiKind, number>>;
+}
+
+export interface DocumentSummary {
+  abstract: string;
+  keyPoints: string[];
+  generatedAt: string | null;
+}
+
 export interface FileSummary {
   id: string;
   name: string;
   visibility: Visibility;
-  status: 'uploading' | 'ready';
+  status: FileStatus;
   size: number;
   mimeType: string | null;
+  sourceEncoding?: string | null;
+  currentVersion?: number;
+  pii?: PiiSummary | null;
+  summary?: DocumentSummary | null;
+  tags?: string[];
   folder: {
     id: string;
     name: string;
@@ -138,17 +169,50 @@ export interface FileSharingSummary {
   permissions: FilePermissionSummary[];
 }
 
+export interface IngestionJobSummary {
+  id: string;
+  status: 'queued' | 'processing' | 'succeeded' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  progress: { chunksDone: number; chunksTotal: number | null; percent: number };
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FileVersionSummary {
+  version: number;
+  name: string;
+  size: number;
+  mimeType: string | null;
+  sourceEncoding: string | null;
+  uploadedBy: string;
+  createdAt: string;
+  current: boolean;
+}
+
 export interface ChatResponse {
   id: string;
   answer: string;
-  citations: Array<{ folder: string; file: string; lines: [number, number] }>;
+  citations: Array<{ folder: string; file: string; fileId?: string; lines: [number, number]; section?: string; page?: number; rows?: [number, number]; symbol?: string; timestamps?: [string, string] }>;
   sources: Array<{
     order: number;
     chunkId: string;
+    fileId: string;
     folderName: string;
     fileName: string;
     startLine: number;
     endLine: number;
+    headingPath?: string | null;
+    page?: number | null;
+    rows?: [number, number] | null;
+    symbol?: string | null;
+    timestamps?: [string, string] | null;
+    // 'summary' sources cover the whole file and have no line range.
+    kind?: 'content' | 'summary';
     content: string;
   }>;
 }
@@ -292,12 +356,17 @@ export function fetchSession(): Promise<SessionResponse> {
   return fetchJSON('/api/session');
 }
 
-export function fetchFolders(params: { visibility?: 'organization' | 'personal' | 'team' | 'all' } = {}): Promise<{ folders: FolderSummary[] }>
+export function fetchFolders(
+  params: { visibility?: 'organization' | 'personal' | 'team' | 'all'; tag?: string } = {},
+): Promise<{ folders: FolderSummary[] }>
 {
   const search = new URLSearchParams();
   if (params.visibility) {
     search.set('visibility', params.visibility);
   }
+  if (params.tag) {
+    search.set('tag', params.tag);
+  }
   const query = search.toString();
   return fetchJSON(`/api/folders${query ? `?${query}` : ''}`);
 }
@@ -312,8 +381,13 @@ export function createFolder(body: { name: string; visibility: Visibility; teamI
 
 export function updateFolder(
   id: string,
-  body: { name?: string; visibility?: Visibility; teamId?: string | null },
-): Promise<{ folder: FolderSummary }>
+  body: {
+    name?: string;
+    visibility?: Visibility;
+    teamId?: string | null;
+    chunking?: { strategy: ChunkingStrategy; chunkSize?: number | null; overlap?: number | null } | null;
+  },
+): Promise<{ folder: FolderSummary; reingesting?: number }>
 {
   return fetchJSON(`/api/folders/${id}`, {
     method: 'PATCH',
@@ -327,11 +401,16 @@ export function deleteFolder(id: string): Promise<{ deleted: boolean; removedFil
   return fetchJSON(`/api/folders/${id}`, { method: 'DELETE' });
 }
 
-export function fetchFiles(params: { visibility?: 'organization' | 'personal' | 'team' | 'all'; folderId?: string }): Promise<{ files: FileSummary[] }>
+export function fetchFiles(params: {
+  visibility?: 'organization' | 'personal' | 'team' | 'all';
+  folderId?: string;
+  tag?: string;
+}): Promise<{ files: FileSummary[] }>
 {
   const search = new URLSearchParams();
   if (params.visibility) search.set('visibility', params.visibility);
   if (params.folderId) search.set('folderId', params.folderId);
+  if (params.tag) search.set('tag', params.tag);
   const query = search.toString();
   return fetchJSON(`/api/files${query ? `?${query}` : ''}`);
 }
@@ -349,6 +428,72 @@ export async function uploadFile(formData: FormData): Promise<{ file: FileSummar
   return response.json();
 }
 
+export interface MultipartUploadTarget {
+  folderId: string;
+  folderName: string;
+  visibility: Visibility;
+  fileName: string;
+}
+
+// Large files skip the Worker body limit: parts go straight to an R2 multipart upload.
+export async function uploadFileInParts(
+  file: File,
+  target: MultipartUploadTarget,
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void,
+): Promise<{ fileId: string; jobId: string }> {
+  const upload = await fetchJSON<{ fileId: string; partSize: number; partCount: number }>('/api/upload-multipart', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...target, size: file.size, mimeType: file.type || undefined }),
+  });
+  try {
+    const parts: Array<{ partNumber: number; etag: string }> = [];
+    for (let partNumber = 1; partNumber <= upload.partCount; partNumber += 1) {
+      const start = (partNumber - 1) * upload.partSize;
+      const part = await fetchJSON<{ partNumber: number; etag: string }>(
+        `/api/upload-multipart/${upload.fileId}/parts/${partNumber}`,
+        { method: 'PUT', body: file.slice(start, start + upload.partSize) },
+      );
+      parts.push(part);
+      onProgress?.(Math.min(file.size, start + upload.partSize), file.size);
+    }
+    return await fetchJSON(`/api/upload-multipart/${upload.fileId}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ parts }),
+    });
+  } catch (error) {
+    await fetchJSON(`/api/upload-multipart/${upload.fileId}`, { method: 'DELETE' }).catch(() => undefined);
+    throw error;
+  }
+}
+
+export interface ArchiveUploadReport {
+  folders: Array<{ id: string; name: string; created: boolean }>;
+  accepted: number;
+  rejected: number;
+  entries: Array<{
+    path: string;
+    status: 'accepted' | 'rejected';
+    reason?: string;
+    fileId?: string;
+    folderId?: string;
+  }>;
+}
+
+export async function uploadArchive(formData: FormData): Promise<ArchiveUploadReport> {
+  const response = await fetch(`${API_BASE}/api/files/archive`, {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(text || `Archive upload failed with ${response.status}`);
+  }
+  return response.json();
+}
+
 export function updateFile(
   id: string,
   body: { name?: string; visibility?: Visibility; teamId?: string | null },
@@ -375,6 +520,27 @@ export function sendChat(message: string, knowledgeMode: boolean, scope: ChatSco
   });
 }
 
+export interface OrganisationSettings {
+  maxUploadBytes: number;
+  defaultMaxUploadBytes: number;
+  piiPolicy: PiiPolicy;
+}
+
+export function fetchOrganisationSettings(): Promise<OrganisationSettings> {
+  return fetchJSON('/api/organization/settings');
+}
+
+export function updateOrganisationSettings(body: {
+  maxUploadBytes?: number | null;
+  piiPolicy?: PiiPolicy;
+}): Promise<OrganisationSettings> {
+  return fetchJSON('/api/organization/settings', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
 export function fetchRoster(): Promise<{ roster: RosterEntry[] }> {
   return fetchJSON('/api/organization/roster');
 }
@@ -452,6 +618,61 @@ export function searchDirectoryUsers(query: string, limit = 50): Promise<{ resul
   return fetchJSON(`/api/directory/users${qs ? `?${qs}` : ''}`);
 }
 
+export function fetchFileIngestion(id: string): Promise<{ fileId: string; status: FileStatus; job: IngestionJobSummary | null }> {
+  return fetchJSON(`/api/files/${id}/ingestion`);
+}
+
+export interface FileLines {
+  fileId: string;
+  name: string;
+  version: number;
+  page: number | null;
+  highlight: { start: number; end: number } | null;
+  start: number;
+  end: number;
+  totalLines: number | null;
+  lines: Array<{ number: number; text: string }>;
+}
+
+export function fetchFileLines(
+  id: string,
+  params: { lines: [number, number] | null; context?: number; page?: number | null },
+): Promise<FileLines> {
+  const search = new URLSearchParams();
+  if (params.lines) {
+    search.set('lines', `${params.lines[0]}-${params.lines[1]}`);
+    if (params.context) search.set('context', String(params.context));
+  } else {
+    // Without a range the API returns the first window of the file (of page 1 for PDFs).
+    search.set('context', '0');
+  }
+  if (params.page) search.set('page', String(params.page));
+  return fetchJSON(`/api/files/${id}/content?${search.toString()}`);
+}
+
+export function fetchFileVersions(id: string): Promise<{ fileId: string; currentVersion: number; versions: FileVersionSummary[] }> {
+  return fetchJSON(`/api/files/${id}/versions`);
+}
+
+export async function uploadFileVersion(id: string, file: File): Promise<{ fileId: string; version: FileVersionSummary; jobId: string }> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await fetch(`${API_BASE}/api/files/${id}/versions`, {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(text || `Upload failed with ${response.status}`);
+  }
+  return response.json();
+}
+
+export function restoreFileVersion(id: string, version: number): Promise<{ fileId: string; version: FileVersionSummary; jobId: string }> {
+  return fetchJSON(`/api/files/${id}/versions/${version}/restore`, { method: 'POST' });
+}
+
 export function getFileSharing(id: string): Promise<{ sharing: FileSharingSummary }> {
   return fetchJSON(`/api/files/${id}/sharing`);
 }
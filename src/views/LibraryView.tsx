@@ -171,6 +171,18 @@ function FileCard({ file }: { file: FileSummary }) {
         <span className="library-card__badge library-card__badge--file">File</span>
       </header>
       <p className="library-card__meta">Shared by {file.owner.displayName ?? file.owner.email}</p>
+      {file.summary && (
+        <div className="library-card__summary">
+          <p>{file.summary.abstract}</p>
+          {file.summary.keyPoints.length > 0 && (
+            <ul>
+              {file.summary.keyPoints.map((point) => (
+                <li key={point}>{point}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
       <footer>
         <button type="button" className="link" disabled>
           Preview